@@ -0,0 +1,31 @@
+/**
+ * Host-based routing for published sites
+ *
+ * Requests to {site}.{SITES_DOMAIN} (e.g. goforma.bloxx.site) are served from
+ * the site's active release at the root path. Everything else (the editor,
+ * /api, /preview, /live) falls through to the normal routes; /live then
+ * redirects here, so published pages never run on the editor's origin.
+ */
+
+import { serveLiveSite } from './lib/live-site';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+  AUTH_SECRET?: string;
+  SITES_DOMAIN?: string;
+}
+
+export const onRequest: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  const domain = env.SITES_DOMAIN;
+  if (!domain) return context.next();
+
+  const url = new URL(request.url);
+  const suffix = `.${domain}`;
+  if (!url.hostname.endsWith(suffix)) return context.next();
+
+  const site = url.hostname.slice(0, -suffix.length);
+  if (!site || site.includes('.')) return context.next();
+
+  return serveLiveSite(env, request, site, url.pathname);
+};
@@ -0,0 +1,155 @@
+/**
+ * Authentication and per-site access control for every /api route
+ *
+ * 1. Resolve the session (cookie or Bearer token, see functions/lib/auth.ts)
+ * 2. Find the site the request targets: ?site= and/or a `site` field in the
+ *    JSON or multipart body. Both must agree.
+ * 3. Look up the caller's role on that site and check it grants the
+ *    permission the route needs (ROUTES below; GET defaults to "read",
+ *    anything else to "edit")
+ *
+ * On success context.data carries { user, role } (AuthData) for the route.
+ * Routes that don't take a site only require a signed-in user.
+ */
+
+import { roleAllows, type Permission } from '../../lib/auth';
+import { authenticate, getSiteRole, type AuthData } from '../lib/auth';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+  AUTH_SECRET?: string;
+  AUTH_ADMINS?: string;
+}
+
+/**
+ * - public: no session needed (published sites and external crawlers call these)
+ * - signed-in: any session; the route doesn't act on a site, or checks access itself
+ * - a Permission, or a function of the URL picking one (or 'public')
+ */
+type RouteRule = 'public' | 'signed-in' | Permission | ((url: URL) => Permission | 'public');
+
+/** Collection items are content; collection definitions are site structure */
+const collectionRule = (url: URL): Permission =>
+  url.searchParams.has('collection') && url.searchParams.has('item') ? 'content' : 'edit';
+
+const ROUTES: Record<string, Record<string, RouteRule>> = {
+  '/api/auth': { '*': 'public' },
+  '/api/forms': { POST: 'public' },
+  // A preview token stands in for a session; the route checks it
+  '/api/collection-page': { GET: url => (url.searchParams.has('token') ? 'public' : 'read') },
+
+  '/api/sites': { GET: 'signed-in' },
+  '/api/site-create': { POST: 'signed-in' },
+  '/api/site-access': { '*': 'access' },
+  '/api/components': { '*': 'signed-in' },
+  '/api/audit-analyze': { POST: 'signed-in' },
+  '/api/audit-details': { POST: 'signed-in' },
+  '/api/audit-fix': { POST: 'signed-in' },
+  '/api/schema-update': { POST: 'signed-in' },
+  '/api/page-audit': { POST: 'signed-in' },
+
+  '/api/audit': { POST: 'read' },
+  '/api/site-audit': { POST: 'read' },
+  '/api/collections': {
+    POST: url => (url.searchParams.get('collection') ? 'content' : 'edit'),
+    PUT: collectionRule,
+    DELETE: collectionRule,
+  },
+  '/api/images': { POST: 'content' },
+  '/api/media': { PUT: 'content', DELETE: 'content', POST: 'content' },
+  // Submissions hold visitors' personal data; viewers don't see them
+  '/api/form-submissions': { '*': 'content' },
+  '/api/settings': { PUT: 'settings', POST: 'settings' },
+  // Configs choose where submissions go
+  '/api/form-configs': { '*': 'settings' },
+  '/api/form-secrets': { '*': 'settings' },
+  '/api/deploy': { POST: 'deploy' },
+  '/api/deploy-rollback': { POST: 'deploy' },
+  // Page and site jobs additionally need "deploy", checked by the route
+  '/api/schedule': { POST: 'content', DELETE: 'content' },
+  // Page previews additionally need "edit", checked by the route
+  '/api/preview-tokens': { POST: 'content', DELETE: 'content' },
+};
+
+function routeRule(url: URL, method: string): RouteRule {
+  const rules = ROUTES[url.pathname.replace(/\/+$/, '')];
+  const rule = rules?.[method] || rules?.['*'];
+  if (rule) return rule;
+  return method === 'GET' || method === 'HEAD' ? 'read' : 'edit';
+}
+
+/** Site names are slugs; anything else can't name a site */
+const SITE_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/**
+ * Every site named by the request, from the query string and the body
+ */
+async function requestSites(request: Request, url: URL): Promise<string[]> {
+  const sites = new Set<string>();
+  const fromQuery = url.searchParams.get('site');
+  if (fromQuery) sites.add(fromQuery);
+
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    const type = request.headers.get('Content-Type') || '';
+    try {
+      if (type.includes('multipart/form-data') || type.includes('application/x-www-form-urlencoded')) {
+        const site = (await request.clone().formData()).get('site');
+        if (typeof site === 'string' && site) sites.add(site);
+      } else {
+        // Routes parse the body as JSON whatever the Content-Type says, so do the same
+        const body = await request.clone().json() as { site?: unknown };
+        if (typeof body?.site === 'string' && body.site) sites.add(body.site);
+      }
+    } catch {
+      // Unparseable bodies are the route's problem
+    }
+  }
+
+  return Array.from(sites);
+}
+
+export const onRequest: PagesFunction<Env, any, AuthData> = async (context) => {
+  const { env, request } = context;
+  const url = new URL(request.url);
+  const matched = routeRule(url, request.method);
+  const rule = typeof matched === 'function' ? matched(url) : matched;
+
+  if (rule === 'public') return context.next();
+
+  if (!env.AUTH_SECRET) {
+    return Response.json({ ok: false, error: 'Authentication is not configured (AUTH_SECRET)' }, { status: 500 });
+  }
+
+  const user = await authenticate(request, env.AUTH_SECRET, env.AUTH_ADMINS);
+  if (!user) {
+    return Response.json({ ok: false, error: 'Not signed in' }, { status: 401 });
+  }
+  context.data.user = user;
+
+  if (rule === 'signed-in') return context.next();
+
+  const sites = await requestSites(request, url);
+  if (sites.length > 1) {
+    return Response.json({ ok: false, error: 'Conflicting site parameters' }, { status: 400 });
+  }
+  // No site: let the route reject the request with its own 400
+  if (sites.length === 0) return context.next();
+
+  const [site] = sites;
+  if (!SITE_NAME.test(site)) {
+    return Response.json({ ok: false, error: 'Invalid site' }, { status: 400 });
+  }
+
+  const role = await getSiteRole(env.BLOXX_SITES, site, user);
+
+  if (!role) {
+    // Don't reveal whether the site exists
+    return Response.json({ ok: false, error: 'Site not found' }, { status: 404 });
+  }
+  if (!roleAllows(role, rule)) {
+    return Response.json({ ok: false, error: `Your role (${role}) does not allow this action` }, { status: 403 });
+  }
+
+  context.data.role = role;
+  return context.next();
+};
@@ -1,16 +1,19 @@
 /**
- * /api/audit — Real-time page audit wrapper
+ * /api/audit — Page audit (see lib/audit-engine.ts)
  *
  * POST /api/audit
- * Body: { site: string, page: string, html: string }
+ * Body: { site: string, page: string, html?: string, pageType?: string }
+ *   → { ok, ...AuditReport }
  *
- * Flow:
- * 1. Write HTML to temporary R2 location (publicly accessible)
- * 2. Call Xano audit API with the temp URL
- * 3. Return audit results
- * 4. Clean up temp file (async)
+ * Audits the given HTML, or the page's saved draft when none is sent, with
+ * the site's custom audit rules. The page type defaults to the one the page
+ * is named after. Runs in-process; nothing is written or fetched besides the
+ * draft and settings.
  */
 
+import { runAudit } from '../../lib/audit-engine';
+import { getAuditRuleSettings } from '../lib/quality-gate';
+
 interface Env {
   BLOXX_SITES: R2Bucket;
 }
@@ -18,66 +21,33 @@ interface Env {
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  let body: { site: string; page: string; html: string };
+  let body: { site?: string; page?: string; html?: string; pageType?: string };
   try {
     body = await request.json();
   } catch {
     return Response.json({ ok: false, error: 'Invalid JSON' }, { status: 400 });
   }
 
-  const { site, page, html } = body;
-  if (!site || !page || !html) {
-    return Response.json({ ok: false, error: 'Missing site, page, or html' }, { status: 400 });
+  const { site, page, pageType } = body;
+  if (!site || !page) {
+    return Response.json({ ok: false, error: 'Missing site or page' }, { status: 400 });
   }
 
-  // Generate a unique temp key
-  const tempId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-  const tempKey = `${site}/_audit-temp/${tempId}.html`;
-
-  try {
-    // Write HTML to temporary R2 location
-    await env.BLOXX_SITES.put(tempKey, html, {
-      httpMetadata: { contentType: 'text/html' },
-    });
-
-    // Build the public URL - use the production Cloudflare Pages domain
-    // to ensure Xano can reach it with valid SSL
-    const tempUrl = `https://bloxx-editor.pages.dev/api/audit-temp?site=${encodeURIComponent(site)}&id=${encodeURIComponent(tempId)}`;
-
-    // Call Xano audit API
-    const xanoUrl = `https://xyrm-sqqj-hx6t.n7c.xano.io/api:la4i98J3/auditv2?url=${encodeURIComponent(tempUrl)}`;
-
-    const auditResponse = await fetch(xanoUrl);
-    const responseText = await auditResponse.text();
-
-    // Clean up temp file (don't await - do it async)
-    context.waitUntil(env.BLOXX_SITES.delete(tempKey));
-
-    // Try to parse as JSON
-    let auditData;
-    try {
-      auditData = JSON.parse(responseText);
-    } catch {
-      // Xano returned non-JSON (likely an error page)
-      return Response.json({
-        ok: false,
-        error: 'Xano audit failed',
-        details: responseText.substring(0, 500),
-        tempUrl, // Include for debugging
-      }, { status: 502 });
+  let html = body.html;
+  if (!html) {
+    const draft = await env.BLOXX_SITES.get(`${site}/drafts/${page}.html`);
+    if (!draft) {
+      return Response.json({ ok: false, error: 'Page not found' }, { status: 404 });
     }
+    html = await draft.text();
+  }
 
-    // Return audit results
-    return Response.json({
-      ok: true,
-      ...auditData,
-    });
-  } catch (err: any) {
-    // Clean up on error too
-    try {
-      await env.BLOXX_SITES.delete(tempKey);
-    } catch {}
+  const rules = await getAuditRuleSettings(env.BLOXX_SITES, site);
 
+  try {
+    return Response.json({ ok: true, ...runAudit(html, { page, pageType, rules }) });
+  } catch (err: any) {
+    console.error('Audit error:', err);
     return Response.json({ ok: false, error: err.message }, { status: 500 });
   }
 };
@@ -0,0 +1,190 @@
+/**
+ * /api/auth — Sign in, sign up and sign out
+ *
+ * GET    /api/auth → { ok: true, user: { email, name, admin } } or 401
+ * POST   /api/auth
+ *   { action: "login",    email, password }
+ *   { action: "register", email, password, name? }
+ *   { action: "verify",   token }
+ *     → { ok: true, user, token } and a session cookie
+ *   { action: "resend-verification", email? }   (signed in; `email` for admins)
+ *     → { ok: true, verificationSent, link? }
+ * DELETE /api/auth → clears the session cookie
+ *
+ * The token is also returned for API clients that send it as
+ * `Authorization: Bearer {token}` instead of using the cookie.
+ * Signing up grants no access by itself; a site owner (or AUTH_ADMINS)
+ * must add the email via /api/site-access, and that only applies once the
+ * user has followed the verification link emailed at sign-up
+ * (/login.html?verify={token}). The link is never logged: when it can't be
+ * emailed, `verificationSent` is false and the user, or an admin on their
+ * behalf, asks for a new one. An admin whose resend can't be emailed gets
+ * the link back to pass on.
+ */
+
+import {
+  hashPassword,
+  signSession,
+  signVerificationToken,
+  verifyPassword,
+  verifyVerificationToken,
+  SESSION_TTL_SECONDS,
+} from '../../lib/auth';
+import {
+  authenticate,
+  clearSessionCookie,
+  createUser,
+  getUser,
+  isAdmin,
+  markUserVerified,
+  normalizeEmail,
+  sessionCookie,
+  type UserRecord,
+} from '../lib/auth';
+import { sendEmail } from '../lib/form-actions';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+  AUTH_SECRET?: string;
+  AUTH_ADMINS?: string;
+  RESEND_API_KEY?: string;
+  SENDGRID_API_KEY?: string;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+function verificationLink(request: Request, token: string): string {
+  return `${new URL(request.url).origin}/login.html?verify=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Email the user a link proving they own the address. Returns whether it was sent.
+ */
+async function sendVerification(env: Env, request: Request, user: UserRecord): Promise<boolean> {
+  const token = await signVerificationToken(user.email, user.createdAt, env.AUTH_SECRET!);
+  const link = verificationLink(request, token);
+
+  const result = await sendEmail(env, {
+    to: user.email,
+    subject: 'Confirm your email',
+    body: `Hi ${user.name},\n\nConfirm your email address to start using your account:\n\n${link}\n\nThe link is valid for 24 hours. If you didn't sign up, ignore this email.`,
+  }, { idempotencyKey: `verify-${user.email}-${user.createdAt}` });
+
+  if (!result.success) {
+    console.error(`Verification email to ${user.email} not sent: ${result.error}`);
+  }
+  return result.success;
+}
+
+function sessionResponse(user: { email: string; name: string; verified: boolean }, token: string, env: Env, extra: Record<string, unknown> = {}): Response {
+  return Response.json(
+    { ok: true, user: { ...user, admin: user.verified && isAdmin(user.email, env.AUTH_ADMINS) }, token, ...extra },
+    { headers: { 'Set-Cookie': sessionCookie(token, SESSION_TTL_SECONDS) } }
+  );
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  if (!env.AUTH_SECRET) {
+    return Response.json({ ok: false, error: 'Authentication is not configured (AUTH_SECRET)' }, { status: 500 });
+  }
+
+  const user = await authenticate(request, env.AUTH_SECRET, env.AUTH_ADMINS);
+  if (!user) {
+    return Response.json({ ok: false, error: 'Not signed in' }, { status: 401 });
+  }
+  return Response.json({ ok: true, user });
+};
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  if (!env.AUTH_SECRET) {
+    return Response.json({ ok: false, error: 'Authentication is not configured (AUTH_SECRET)' }, { status: 500 });
+  }
+
+  let body: { action: 'login' | 'register' | 'verify' | 'resend-verification'; email?: string; password?: string; name?: string; token?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (body.action === 'verify') {
+    const claims = body.token ? await verifyVerificationToken(body.token, env.AUTH_SECRET) : null;
+    const user = claims ? await markUserVerified(env.BLOXX_SITES, claims.sub, claims.account) : null;
+    if (!user) {
+      return Response.json({ ok: false, error: 'This verification link is invalid or has expired' }, { status: 400 });
+    }
+    const session = { email: user.email, name: user.name, verified: true };
+    return sessionResponse(session, await signSession(session, env.AUTH_SECRET), env);
+  }
+
+  if (body.action === 'resend-verification') {
+    const session = await authenticate(request, env.AUTH_SECRET, env.AUTH_ADMINS);
+    if (!session) {
+      return Response.json({ ok: false, error: 'Not signed in' }, { status: 401 });
+    }
+    const forOther = !!body.email && normalizeEmail(body.email) !== session.email;
+    if (forOther && !session.admin) {
+      return Response.json({ ok: false, error: 'Only admins can send links for other users' }, { status: 403 });
+    }
+    const user = await getUser(env.BLOXX_SITES, forOther ? normalizeEmail(body.email!) : session.email);
+    if (!user) {
+      return Response.json({ ok: false, error: 'User not found' }, { status: 404 });
+    }
+    if (user.verifiedAt) {
+      return Response.json({ ok: false, error: 'This email is already verified' }, { status: 400 });
+    }
+
+    const verificationSent = await sendVerification(env, request, user);
+    if (!verificationSent && forOther) {
+      const token = await signVerificationToken(user.email, user.createdAt, env.AUTH_SECRET);
+      return Response.json({ ok: true, verificationSent, link: verificationLink(request, token) });
+    }
+    return Response.json({ ok: true, verificationSent });
+  }
+
+  const email = normalizeEmail(body.email || '');
+  const password = body.password || '';
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || !password) {
+    return Response.json({ ok: false, error: 'Email and password are required' }, { status: 400 });
+  }
+
+  if (body.action === 'register') {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return Response.json({ ok: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, { status: 400 });
+    }
+
+    const { hash, salt } = await hashPassword(password);
+    const user: UserRecord = {
+      email,
+      name: (body.name || '').trim() || email.split('@')[0],
+      passwordHash: hash,
+      passwordSalt: salt,
+      createdAt: new Date().toISOString(),
+    };
+    if (!(await createUser(env.BLOXX_SITES, user))) {
+      return Response.json({ ok: false, error: 'An account with this email already exists' }, { status: 409 });
+    }
+
+    const session = { email, name: user.name, verified: false };
+    const verificationSent = await sendVerification(env, request, user);
+    return sessionResponse(session, await signSession(session, env.AUTH_SECRET), env, { verificationSent });
+  }
+
+  if (body.action === 'login') {
+    const user = await getUser(env.BLOXX_SITES, email);
+    // Same answer for unknown email and wrong password
+    if (!user || !(await verifyPassword(password, user.passwordHash, user.passwordSalt))) {
+      return Response.json({ ok: false, error: 'Invalid email or password' }, { status: 401 });
+    }
+    const session = { email, name: user.name, verified: !!user.verifiedAt };
+    return sessionResponse(session, await signSession(session, env.AUTH_SECRET), env);
+  }
+
+  return Response.json({ ok: false, error: 'Unknown action' }, { status: 400 });
+};
+
+export const onRequestDelete: PagesFunction<Env> = async () => {
+  return Response.json({ ok: true }, { headers: { 'Set-Cookie': clearSessionCookie() } });
+};
@@ -1,39 +1,70 @@
 /**
  * GET /api/collab?site={site}&page={page} — WebSocket upgrade for real-time collaboration
+ * GET /api/collab?site={site}             — who is editing which page of the site
  *
- * Proxies to a Durable Object (CollabRoom) that manages connected editors.
- * Each site/page combination gets its own room.
+ * Proxies to a Durable Object (CollabRoom) that owns the page document.
+ * Each site/page combination gets its own room; the room named after the
+ * bare site collects presence from all of them.
+ *
+ * Reconnecting clients pass &resume={resumeToken}&since={seq} to keep their
+ * identity and receive only the ops they missed. Names come from the session;
+ * viewers can watch but their ops are rejected.
  *
  * Protocol (JSON over WebSocket):
  *   Client → Server:
+ *     { type: "ping" }                          — heartbeat, every ~15s
  *     { type: "cursor", user, x, y }           — cursor position
  *     { type: "select", user, selector }        — element selection
- *     { type: "edit", user, selector, prop, value } — edit operation
+ *     { type: "focus", section }                — section the user is working in
+ *     { type: "lock", target }                  — soft-lock an element or section ({ section, path? })
+ *     { type: "unlock" }                        — release this connection's lock
+ *     { type: "op", opId, baseSeq, op }         — document operation (see lib/collab-document.ts)
  *
  *   Server → Client:
+ *     { type: "state", clientId, resumeToken, seq, html, sections, unsaved } — full document on join and after a save
+ *     { type: "replay", clientId, resumeToken, seq, sections, ops } — ops missed while disconnected
+ *     { type: "op", seq, op, opId, clientId, user, color, result } — applied operation, in seq order
+ *     { type: "reject", opId, seq, reason }      — op dropped (target deleted, or read_only role)
+ *     { type: "resync", opId, seq, html, sections } — baseSeq too old to rebase; reload from this state
+ *     { type: "pong", seq }                     — heartbeat reply
+ *     { type: "locks", locks }                  — all held locks (see lib/collab-presence.ts)
+ *     { type: "lock-denied", target, reason, holder? } — lock held by someone else, or target gone
  *     { type: "cursor", user, x, y }            — remote cursor
  *     { type: "select", user, selector }         — remote selection
- *     { type: "edit", user, selector, prop, value } — remote edit
- *     { type: "users", users: string[] }         — connected users list
+ *     { type: "users", users: PresenceUser[] }   — connected users with section and idle state
+ *     { type: "site-presence", pages }           — users per page across the site
  *     { type: "bloxx:remote-save", site, page, etag } — save notification
  */
 
+import type { AuthData } from '../lib/auth';
+
 interface Env {
   COLLAB_ROOM: DurableObjectNamespace;
 }
 
-export const onRequestGet: PagesFunction<Env> = async (context) => {
+export const onRequestGet: PagesFunction<Env, any, AuthData> = async (context) => {
   const url = new URL(context.request.url);
   const site = url.searchParams.get('site');
   const page = url.searchParams.get('page');
 
-  if (!site || !page) {
+  if (!site) {
     return Response.json({ error: 'Missing ?site= or ?page= parameter' }, { status: 400 });
   }
 
+  if (!page) {
+    const hub = context.env.COLLAB_ROOM.get(context.env.COLLAB_ROOM.idFromName(site));
+    return hub.fetch(new Request('https://internal/presence'));
+  }
+
   const roomId = context.env.COLLAB_ROOM.idFromName(`${site}/${page}`);
   const room = context.env.COLLAB_ROOM.get(roomId);
 
+  // The room trusts these headers, so they only ever come from the session
+  const { user, role } = context.data;
+  const headers = new Headers(context.request.headers);
+  headers.set('X-Bloxx-User', user.name || user.email);
+  headers.set('X-Bloxx-Role', role || 'viewer');
+
   // Forward the WebSocket upgrade request to the Durable Object
-  return room.fetch(context.request);
+  return room.fetch(new Request(context.request, { headers }));
 };
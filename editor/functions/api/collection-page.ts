@@ -1,22 +1,55 @@
 /**
- * /api/collection-page — Render a collection item as a page
+ * /api/collection-page — Render a collection item or list page
  *
- * GET /api/collection-page?site={site}&collection={collection}&item={itemSlug}
+ * GET /api/collection-page?site={site}&collection={collection}&item={itemSlug}[&drafts=true|&token={token}]
+ * GET /api/collection-page?site={site}&collection={collection}[&page=n][&field={id}&value={slug}][&drafts=true]
+ *   → a list page (or an archive page with field/value), see lib/collection-list.ts.
+ *
+ * Only published items render, unless drafts=true (site members) or a
+ * preview token for the item is given (anyone with the link, see
+ * /api/preview-tokens). Token previews carry a "preview" banner.
  *
  * This endpoint:
  * 1. Fetches the collection template (stored as {collection}-template.html)
  * 2. Fetches the collection item data
- * 3. Renders the template with item data (using {{field}} placeholders)
- * 4. Returns the rendered HTML
+ * 3. Resolves reference fields, so templates can use {{author.name}}
+ * 4. Renders the template with item data (using {{field}} placeholders)
+ * 5. Sets the item's title, description, canonical, Open Graph tags and
+ *    JSON-LD (lib/collection-seo.ts)
+ * 6. Returns the rendered HTML
  */
 
 import { parseHTML } from 'linkedom';
+import { getItemUrl } from '../../lib/collections';
+import {
+  buildItemListJsonLd,
+  filterArchive,
+  getListPagination,
+  getListUrl,
+  injectListHead,
+  paginateItems,
+  type ListPage,
+  type ListPagination,
+  type ListRoute,
+} from '../../lib/collection-list';
+import {
+  getAllowedTags,
+  isRichTextDocument,
+  isRichTextEmpty,
+  renderRichText,
+  richTextToPlainText,
+} from '../../lib/richtext';
+import { buildItemSeo, getItemSeoOptions, injectItemHead, type ItemSeoOptions } from '../../lib/collection-seo';
+import { injectPreviewBanner, sameTarget } from '../../lib/preview-tokens';
+import { resolveReferences } from '../lib/collection-references';
+import { checkPreviewToken } from '../lib/preview-tokens';
 
 interface Env {
   BLOXX_SITES: R2Bucket;
+  AUTH_SECRET?: string;
 }
 
-interface CollectionItem {
+export interface CollectionItem {
   id: number;
   collectionId: number;
   slug: string;
@@ -27,7 +60,7 @@ interface CollectionItem {
   updatedAt: string;
 }
 
-interface Collection {
+export interface Collection {
   id: number;
   siteId: number;
   name: string;
@@ -40,18 +73,81 @@ interface Collection {
       type: string;
       required?: boolean;
       isSlugSource?: boolean;
+      isTitle?: boolean;
+      options?: string[];
+      referenceCollection?: string;
     }>;
   };
+  itemsPerPage?: number;
+  sortField?: string;
+  sortOrder?: 'asc' | 'desc';
+  schemaType?: string;
+  schemaMapping?: Record<string, string>;
+}
+
+/**
+ * One list or archive page, ready to render
+ */
+export interface CollectionListPage extends ListPage<CollectionItem> {
+  pagination: ListPagination;
+  /** Set on archive pages */
+  archive?: { field: string; label: string; value: string; slug: string };
+  url: string;
+  title: string;
+}
+
+export interface RenderOptions {
+  /** Tags rich text may render as (getAllowedTags of the site's settings) */
+  allowedTags?: Set<string>;
+  /** URLs and defaults for an item page's <head> (renderItemPage) */
+  seo?: ItemSeoOptions;
 }
 
 /**
  * Replace template placeholders with item data
- * Supports: {{field}}, {{field.nested}}, and conditional {{#if field}}...{{/if}}
+ * Supports: {{field}}, {{field.nested}}, {{_url}}, and conditional {{#if field}}...{{/if}}
+ * Rich text documents render as sanitized HTML.
  */
-function renderTemplate(html: string, item: CollectionItem, collection: Collection): string {
+export function renderTemplate(html: string, item: CollectionItem, collection: Collection, options: RenderOptions = {}): string {
+  const allowedTags = options.allowedTags || getAllowedTags();
   const { document } = parseHTML(html);
   let result = html;
 
+  // Loop blocks: {{#each items}}...{{/each}}
+  // Runs first so {{key}} inside a loop refers to the current element
+  // (e.g. each resolved reference of a multireference field)
+  result = result.replace(/\{\{#each\s+([^}]+)\}\}([\s\S]*?)\{\{\/each\}\}/g, (match, fieldPath, template) => {
+    const path = fieldPath.trim().split('.');
+    let value: any = item.data;
+
+    for (const key of path) {
+      if (value && typeof value === 'object' && key in value) {
+        value = value[key];
+      } else {
+        value = null;
+        break;
+      }
+    }
+
+    if (!Array.isArray(value)) return '';
+
+    return value.map((itemValue: any, index: number) => {
+      let itemResult = template;
+      // Replace {{this}} with the current item
+      if (typeof itemValue === 'object') {
+        Object.keys(itemValue).forEach(key => {
+          const keyValue = isRichTextDocument(itemValue[key]) ? renderRichText(itemValue[key], allowedTags) : String(itemValue[key] || '');
+          itemResult = itemResult.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), () => keyValue);
+        });
+        itemResult = itemResult.replace(/\{\{this\}\}/g, JSON.stringify(itemValue));
+      } else {
+        itemResult = itemResult.replace(/\{\{this\}\}/g, String(itemValue));
+      }
+      itemResult = itemResult.replace(/\{\{@index\}\}/g, String(index));
+      return itemResult;
+    }).join('');
+  });
+
   // Simple field replacement: {{fieldName}}
   result = result.replace(/\{\{([^#/}]+)\}\}/g, (match, fieldPath) => {
     const path = fieldPath.trim().split('.');
@@ -59,6 +155,7 @@ function renderTemplate(html: string, item: CollectionItem, collection: Collecti
 
     // Handle special fields
     if (path[0] === '_slug') return item.slug;
+    if (path[0] === '_url') return getItemUrl(item, collection);
     if (path[0] === '_createdAt') return new Date(item.createdAt).toLocaleDateString();
     if (path[0] === '_updatedAt') return new Date(item.updatedAt).toLocaleDateString();
     if (path[0] === '_publishedAt') return item.publishedAt ? new Date(item.publishedAt).toLocaleDateString() : '';
@@ -76,8 +173,10 @@ function renderTemplate(html: string, item: CollectionItem, collection: Collecti
 
     // Handle different types
     if (value === null || value === undefined) return '';
-    if (Array.isArray(value)) return value.join(', ');
-    if (typeof value === 'object') return JSON.stringify(value);
+    if (isRichTextDocument(value)) return renderRichText(value, allowedTags);
+    if (Array.isArray(value)) return value.map(v => (v && typeof v === 'object' && '_title' in v ? v._title : v)).join(', ');
+    // A resolved reference on its own renders as the referenced item's title
+    if (typeof value === 'object') return '_title' in value ? String(value._title) : JSON.stringify(value);
     return String(value);
   });
 
@@ -96,44 +195,13 @@ function renderTemplate(html: string, item: CollectionItem, collection: Collecti
     }
 
     // Truthy check
+    if (isRichTextDocument(value)) return isRichTextEmpty(value) ? '' : content;
     if (value && (Array.isArray(value) ? value.length > 0 : true)) {
       return content;
     }
     return '';
   });
 
-  // Loop blocks: {{#each items}}...{{/each}}
-  result = result.replace(/\{\{#each\s+([^}]+)\}\}([\s\S]*?)\{\{\/each\}\}/g, (match, fieldPath, template) => {
-    const path = fieldPath.trim().split('.');
-    let value: any = item.data;
-
-    for (const key of path) {
-      if (value && typeof value === 'object' && key in value) {
-        value = value[key];
-      } else {
-        value = null;
-        break;
-      }
-    }
-
-    if (!Array.isArray(value)) return '';
-
-    return value.map((itemValue: any, index: number) => {
-      let itemResult = template;
-      // Replace {{this}} with the current item
-      if (typeof itemValue === 'object') {
-        Object.keys(itemValue).forEach(key => {
-          itemResult = itemResult.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), String(itemValue[key] || ''));
-        });
-        itemResult = itemResult.replace(/\{\{this\}\}/g, JSON.stringify(itemValue));
-      } else {
-        itemResult = itemResult.replace(/\{\{this\}\}/g, String(itemValue));
-      }
-      itemResult = itemResult.replace(/\{\{@index\}\}/g, String(index));
-      return itemResult;
-    }).join('');
-  });
-
   // Update page title and meta
   const titleField = collection.schema.fields.find(f => f.id === 'title' || f.id === 'name');
   if (titleField && item.data[titleField.id]) {
@@ -142,7 +210,8 @@ function renderTemplate(html: string, item: CollectionItem, collection: Collecti
 
   const descField = collection.schema.fields.find(f => f.id === 'description' || f.id === 'excerpt');
   if (descField && item.data[descField.id]) {
-    const desc = item.data[descField.id].substring(0, 160);
+    const descValue = item.data[descField.id];
+    const desc = (isRichTextDocument(descValue) ? richTextToPlainText(descValue).replace(/\s+/g, ' ').trim() : String(descValue)).substring(0, 160);
     result = result.replace(
       /<meta\s+name="description"\s+content="[^"]*"/,
       `<meta name="description" content="${escapeHtml(desc)}"`
@@ -152,6 +221,150 @@ function renderTemplate(html: string, item: CollectionItem, collection: Collecti
   return result;
 }
 
+/**
+ * Render an item page: the template, then the item's title, description,
+ * canonical, Open Graph tags and JSON-LD in the <head> (lib/collection-seo.ts)
+ */
+export function renderItemPage(html: string, item: CollectionItem, collection: Collection, options: RenderOptions = {}): string {
+  const rendered = renderTemplate(html, item, collection, options);
+  return injectItemHead(rendered, buildItemSeo(item, collection, options.seo));
+}
+
+/**
+ * The items, pagination and title of one list or archive page
+ * (null when the archive or page does not exist)
+ */
+export function buildCollectionListPage(
+  collection: Collection,
+  items: CollectionItem[],
+  route: Pick<ListRoute, 'archive' | 'page'>
+): CollectionListPage | null {
+  let listed = items;
+  let archive: CollectionListPage['archive'];
+  if (route.archive) {
+    const found = filterArchive(items, collection.schema.fields, route.archive);
+    if (!found) return null;
+    listed = found.items;
+    archive = {
+      field: found.field.id,
+      label: found.field.label || found.field.name || found.field.id,
+      value: found.value,
+      slug: route.archive.value,
+    };
+  }
+
+  const listPage = paginateItems(listed, collection, route.page);
+  if (!listPage) return null;
+
+  const name = archive ? `${archive.value} | ${collection.name}` : collection.name;
+  return {
+    ...listPage,
+    pagination: getListPagination(collection, listPage.page, listPage.totalPages, route.archive),
+    archive,
+    url: getListUrl(collection, listPage.page, route.archive),
+    title: listPage.page > 1 ? `${name} – Page ${listPage.page}` : name,
+  };
+}
+
+/**
+ * Find a {{#each name}}...{{/each}} block, skipping over nested loops
+ */
+function findEachBlock(html: string, name: string, from: number): { start: number; end: number; body: string } | null {
+  const open = new RegExp(`\\{\\{#each\\s+${name}\\s*\\}\\}`, 'g');
+  open.lastIndex = from;
+  const start = open.exec(html);
+  if (!start) return null;
+
+  const tags = /\{\{(#each\s[^}]*|\/each)\}\}/g;
+  tags.lastIndex = open.lastIndex;
+  let depth = 1;
+  let tag: RegExpExecArray | null;
+  while ((tag = tags.exec(html))) {
+    depth += tag[1] === '/each' ? -1 : 1;
+    if (depth === 0) {
+      return { start: start.index, end: tags.lastIndex, body: html.slice(open.lastIndex, tag.index) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Render a list template. Inside {{#each items}} every item renders like an
+ * item page ({{title}}, {{_url}}, nested {{#each}} and {{#if}}, plus
+ * {{@index}}); outside it the page has {{title}}, {{collection.name}},
+ * {{archive.label}}, {{archive.value}}, {{page}}, {{totalPages}},
+ * {{totalItems}}, {{prevUrl}}, {{nextUrl}}, {{hasPages}} and
+ * {{#each pages}} with {{number}}, {{url}} and {{active}}.
+ * rel=prev/next links and ItemList JSON-LD are added to the <head>.
+ */
+export function renderListTemplate(
+  html: string,
+  list: CollectionListPage,
+  collection: Collection,
+  baseUrl?: string,
+  options: RenderOptions = {}
+): string {
+  // Item loops are rendered apart and put back last, so item data is never
+  // parsed as list placeholders
+  const loops: string[] = [];
+  let block: ReturnType<typeof findEachBlock>;
+  let from = 0;
+  while ((block = findEachBlock(html, 'items', from))) {
+    const rendered = list.items.map((item, index) =>
+      renderTemplate(block!.body.replace(/\{\{@index\}\}/g, String(index)), item, collection, options)
+    ).join('');
+    const marker = `<!--list-items-${loops.length}-->`;
+    loops.push(rendered);
+    html = html.slice(0, block.start) + marker + html.slice(block.end);
+    from = block.start + marker.length;
+  }
+
+  const page: CollectionItem = {
+    id: 0,
+    collectionId: 0,
+    slug: list.url,
+    status: 'published',
+    createdAt: '',
+    updatedAt: '',
+    data: {
+      title: list.title,
+      description: collection.description || '',
+      collection: { name: collection.name, slug: collection.slug, description: collection.description || '', url: getListUrl(collection) },
+      archive: list.archive || null,
+      items: list.items,
+      page: list.page,
+      totalPages: list.totalPages,
+      totalItems: list.totalItems,
+      prevUrl: list.pagination.prevUrl,
+      nextUrl: list.pagination.nextUrl,
+      hasPages: list.totalPages > 1,
+      pages: list.pagination.pages.map(p => ({ number: p.number, url: p.url, active: p.current ? 'active' : '' })),
+    },
+  };
+
+  let result = renderTemplate(html, page, collection, options);
+  result = result.replace(/<title>[^<]*<\/title>/, `<title>${escapeHtml(list.title)}</title>`);
+  loops.forEach((rendered, i) => {
+    result = result.split(`<!--list-items-${i}-->`).join(rendered);
+  });
+
+  const jsonLd = buildItemListJsonLd(collection, list, { name: list.title, url: list.url, baseUrl });
+  return injectListHead(result, list.pagination, jsonLd);
+}
+
+/**
+ * Render options from the site's settings: the rich text allowlist and SEO
+ * defaults. Previews have no public URL, so canonical URLs stay relative.
+ */
+async function loadRenderOptions(bucket: R2Bucket, site: string): Promise<RenderOptions> {
+  const obj = await bucket.get(`${site}/settings.json`);
+  let settings: Record<string, any> = {};
+  try {
+    settings = obj ? await obj.json() as Record<string, any> : {};
+  } catch { /* defaults */ }
+  return { allowedTags: getAllowedTags(settings), seo: getItemSeoOptions(settings) };
+}
+
 function escapeHtml(str: string): string {
   return str
     .replace(/&/g, '&amp;')
@@ -170,9 +383,16 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
   const site = url.searchParams.get('site');
   const collectionSlug = url.searchParams.get('collection');
   const itemSlug = url.searchParams.get('item');
+  const token = url.searchParams.get('token');
 
-  if (!site || !collectionSlug || !itemSlug) {
-    return Response.json({ ok: false, error: 'Missing site, collection, or item parameter' }, { status: 400 });
+  if (!site || !collectionSlug) {
+    return Response.json({ ok: false, error: 'Missing site or collection parameter' }, { status: 400 });
+  }
+
+  // The middleware lets token requests through unauthenticated: the token must unlock this item
+  const preview = token ? await checkPreviewToken(env.BLOXX_SITES, env.AUTH_SECRET, token, site) : null;
+  if (token && (!preview || !itemSlug || !sameTarget(preview.target, { type: 'item', collection: collectionSlug, item: itemSlug }))) {
+    return Response.json({ ok: false, error: 'Invalid or expired preview link' }, { status: 403 });
   }
 
   try {
@@ -184,20 +404,30 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     }
     const collection = await collectionObj.json() as Collection;
 
+    if (!itemSlug) {
+      return await renderListPreview(env, site, collection, url.searchParams);
+    }
+
     // Fetch item
     const itemKey = `${site}/collections/${collectionSlug}/items/${itemSlug}.json`;
     const itemObj = await env.BLOXX_SITES.get(itemKey);
     if (!itemObj) {
       return Response.json({ ok: false, error: 'Item not found' }, { status: 404 });
     }
-    const item = await itemObj.json() as CollectionItem;
+    const stored = await itemObj.json() as CollectionItem;
 
-    // Check if item is published (optional - for live sites)
-    const requirePublished = url.searchParams.get('published') === 'true';
-    if (requirePublished && item.status !== 'published') {
-      return Response.json({ ok: false, error: 'Item not published' }, { status: 404 });
+    // Token requests skip authentication, so drafts=true only counts for members
+    const showDrafts = !preview && url.searchParams.get('drafts') === 'true';
+    if (!preview && !showDrafts && stored.status !== 'published') {
+      return Response.json({ ok: false, error: 'Item not found' }, { status: 404 });
     }
 
+    // A token unlocks its own item only, not the drafts it references
+    const [item] = await resolveReferences(env.BLOXX_SITES, site, collection.schema.fields, [stored], {
+      publishedOnly: !showDrafts,
+    });
+    const options = await loadRenderOptions(env.BLOXX_SITES, site);
+
     // Fetch template
     const templateKey = `${site}/drafts/${collectionSlug}-template.html`;
     let templateObj = await env.BLOXX_SITES.get(templateKey);
@@ -209,21 +439,23 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     }
 
     // Fallback: use a default template
-    if (!templateObj) {
-      // Generate a simple default template
-      const defaultTemplate = generateDefaultTemplate(collection, site);
-      return new Response(renderTemplate(defaultTemplate, item, collection), {
-        headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    const template = templateObj ? await templateObj.text() : generateDefaultTemplate(collection, site);
+    const rendered = renderItemPage(template, item, collection, options);
+
+    if (preview) {
+      return new Response(injectPreviewBanner(rendered, previewBannerOptions(stored, preview.exp)), {
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Cache-Control': 'private, no-store'
+        }
       });
     }
 
-    const template = await templateObj.text();
-    const rendered = renderTemplate(template, item, collection);
-
     return new Response(rendered, {
       headers: {
         'Content-Type': 'text/html; charset=utf-8',
-        'Cache-Control': 'public, max-age=60'
+        // Drafts change while they're edited; don't let them linger in caches
+        'Cache-Control': showDrafts ? 'private, no-store' : 'public, max-age=60'
       }
     });
   } catch (err: any) {
@@ -231,10 +463,67 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
   }
 };
 
+function previewBannerOptions(item: CollectionItem, exp: number): { status: string; expiresAt: string } {
+  return { status: item.status, expiresAt: new Date(exp * 1000).toISOString() };
+}
+
+/**
+ * A list or archive page for the editor's preview
+ */
+async function renderListPreview(
+  env: Env,
+  site: string,
+  collection: Collection,
+  params: URLSearchParams
+): Promise<Response> {
+  const page = params.has('page') ? parseInt(params.get('page')!, 10) : 1;
+  const field = params.get('field');
+  const value = params.get('value');
+  if (!Number.isInteger(page) || page < 1) {
+    return Response.json({ ok: false, error: 'page must be a positive number' }, { status: 400 });
+  }
+  if (!!field !== !!value) {
+    return Response.json({ ok: false, error: 'Archives need both field and value' }, { status: 400 });
+  }
+
+  const indexObj = await env.BLOXX_SITES.get(`${site}/collections/${collection.slug}/index.json`);
+  let items: CollectionItem[] = [];
+  if (indexObj) {
+    try {
+      items = await indexObj.json() as CollectionItem[];
+    } catch {
+      items = [];
+    }
+  }
+
+  const requirePublished = params.get('drafts') !== 'true';
+  items = items.filter(item => item.status === 'published' || (!requirePublished && item.status === 'draft'));
+
+  const list = buildCollectionListPage(collection, items, {
+    archive: field && value ? { field, value } : undefined,
+    page,
+  });
+  if (!list) {
+    return Response.json({ ok: false, error: 'List page not found' }, { status: 404 });
+  }
+  list.items = await resolveReferences(env.BLOXX_SITES, site, collection.schema.fields, list.items, {
+    publishedOnly: requirePublished,
+  });
+
+  const templateObj = await env.BLOXX_SITES.get(`${site}/drafts/${collection.slug}-list-template.html`)
+    || await env.BLOXX_SITES.get(`${site}/collections/${collection.slug}/list-template.html`);
+  const template = templateObj ? await templateObj.text() : generateDefaultListTemplate(collection, site);
+
+  const options = await loadRenderOptions(env.BLOXX_SITES, site);
+  return new Response(renderListTemplate(template, list, collection, undefined, options), {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' }
+  });
+}
+
 /**
  * Generate a default template for a collection
  */
-function generateDefaultTemplate(collection: Collection, site: string): string {
+export function generateDefaultTemplate(collection: Collection, site: string): string {
   const fields = collection.schema.fields;
   const titleField = fields.find(f => f.id === 'title' || f.id === 'name')?.id || 'title';
   const imageField = fields.find(f => f.type === 'image')?.id;
@@ -299,7 +588,7 @@ function generateDefaultTemplate(collection: Collection, site: string): string {
       ${fieldsHtml}
 
       <hr class="my-5">
-      <a href="/${collectionSlug}" class="btn btn-outline-primary">&larr; Back to ${collection.name}</a>
+      <a href="/${collection.slug}" class="btn btn-outline-primary">&larr; Back to ${collection.name}</a>
     </article>
   </main>
 </body>
@@ -308,11 +597,12 @@ function generateDefaultTemplate(collection: Collection, site: string): string {
 
 /**
  * POST /api/collection-page — Save a collection template
+ * Body: { site, collection, html, list? }  (list: true saves the list template)
  */
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  let body: { site: string; collection: string; html: string };
+  let body: { site: string; collection: string; html: string; list?: boolean };
   try {
     body = await request.json();
   } catch {
@@ -325,10 +615,67 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
   }
 
   // Save template
-  const templateKey = `${site}/drafts/${collection}-template.html`;
+  const templateKey = `${site}/drafts/${collection}${body.list ? '-list' : ''}-template.html`;
   await env.BLOXX_SITES.put(templateKey, html, {
     httpMetadata: { contentType: 'text/html' }
   });
 
   return Response.json({ ok: true });
 };
+
+/**
+ * Generate a default list template for a collection
+ */
+export function generateDefaultListTemplate(collection: Collection, site: string): string {
+  const fields = collection.schema.fields;
+  const titleField = fields.find(f => f.id === 'title' || f.id === 'name')?.id || 'title';
+  const imageField = fields.find(f => f.type === 'image')?.id;
+  const excerptField = fields.find(f => f.id === 'excerpt' || f.id === 'description' || f.id === 'summary')?.id;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>{{title}} | ${site}</title>
+  <meta name="description" content="{{collection.description}}">
+  <link href="https://cdn.jsdelivr.net/npm/bootstrap@5.3.2/dist/css/bootstrap.min.css" rel="stylesheet">
+</head>
+<body>
+  <main class="container py-5">
+    <h1 class="mb-4">{{title}}</h1>
+    {{#if archive}}
+    <p class="text-muted"><a href="{{collection.url}}">&larr; All ${collection.name}</a></p>
+    {{/if}}
+
+    <div class="row g-4">
+      {{#each items}}
+      <div class="col-md-6 col-lg-4">
+        <article class="card h-100">
+          ${imageField ? `{{#if ${imageField}}}
+          <img src="{{${imageField}}}" alt="{{${titleField}}}" class="card-img-top" style="height: 200px; object-fit: cover;">
+          {{/if}}` : ''}
+          <div class="card-body">
+            <h2 class="h5 card-title"><a href="{{_url}}" class="stretched-link text-decoration-none">{{${titleField}}}</a></h2>
+            ${excerptField ? `<p class="card-text text-muted">{{${excerptField}}}</p>` : ''}
+          </div>
+        </article>
+      </div>
+      {{/each}}
+    </div>
+
+    {{#if hasPages}}
+    <nav aria-label="Pagination" class="mt-5">
+      <ul class="pagination justify-content-center">
+        {{#each pages}}<li class="page-item {{active}}"><a class="page-link" href="{{url}}">{{number}}</a></li>{{/each}}
+      </ul>
+    </nav>
+    {{/if}}
+    <div class="d-flex justify-content-between">
+      <span>{{#if prevUrl}}<a href="{{prevUrl}}" rel="prev" class="btn btn-outline-primary">&larr; Previous</a>{{/if}}</span>
+      <span>{{#if nextUrl}}<a href="{{nextUrl}}" rel="next" class="btn btn-outline-primary">Next &rarr;</a>{{/if}}</span>
+    </div>
+  </main>
+</body>
+</html>`;
+}
@@ -0,0 +1,99 @@
+/**
+ * /api/collection-query — Indexed queries over a collection's items
+ *
+ * GET /api/collection-query?site={site}&collection={slug}
+ *       [&where.{field}=v][&where.{field}.gte=v&where.{field}.lt=v]
+ *       [&where.{field}.contains=v][&search=words]
+ *       [&sort={field}&order=asc|desc][&limit=20][&cursor=...][&resolve=true]
+ *   → { ok, items: CollectionItem[], nextCursor: string | null }
+ *
+ *   Equality on text is case-insensitive on the first 64 characters; repeat
+ *   a where.{field} key to match any of several values. contains matches word
+ *   prefixes in searchable fields, or one value of a multiselect /
+ *   multireference field. Pass nextCursor back as cursor for the next page.
+ *
+ *   While the index is being built (first query, or after a schema change)
+ *   each request takes the build a step further and answers 503 with
+ *   Retry-After until it is complete.
+ *
+ * POST /api/collection-query  Body: { site, collection }
+ *   → { ok, indexed, complete }   (starts rebuilding the collection's index;
+ *     queries finish the build if this step didn't)
+ *
+ * See functions/lib/collection-index.ts for how the index is stored.
+ */
+
+import { parseQueryParams, type CollectionQuery } from '../../lib/collection-query';
+import type { Collection } from '../../lib/collections';
+import { queryCollection, rebuildCollectionIndex } from '../lib/collection-index';
+import { resolveReferences } from '../lib/collection-references';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+}
+
+async function getCollection(env: Env, site: string, slug: string): Promise<Collection | null> {
+  const obj = await env.BLOXX_SITES.get(`${site}/collections/${slug}.json`);
+  return obj ? await obj.json() as Collection : null;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+  const site = url.searchParams.get('site');
+  const slug = url.searchParams.get('collection');
+
+  if (!site || !slug) {
+    return Response.json({ ok: false, error: 'Missing site or collection parameter' }, { status: 400 });
+  }
+
+  const collection = await getCollection(env, site, slug);
+  if (!collection) {
+    return Response.json({ ok: false, error: 'Collection not found' }, { status: 404 });
+  }
+
+  let query: CollectionQuery;
+  try {
+    query = parseQueryParams(url.searchParams, collection.schema);
+  } catch (err: any) {
+    return Response.json({ ok: false, error: err.message }, { status: 400 });
+  }
+
+  const result = await queryCollection(env.BLOXX_SITES, site, collection, query);
+  if (!result) {
+    return Response.json(
+      { ok: false, error: 'The collection index is being built; retry shortly' },
+      { status: 503, headers: { 'Retry-After': '2' } }
+    );
+  }
+
+  const items = url.searchParams.get('resolve') === 'true'
+    ? await resolveReferences(env.BLOXX_SITES, site, collection.schema.fields, result.items)
+    : result.items;
+
+  return Response.json({ ok: true, items, nextCursor: result.nextCursor });
+};
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+
+  let body: { site: string; collection: string };
+  try {
+    body = await context.request.json();
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { site } = body;
+  if (!site || !body.collection) {
+    return Response.json({ ok: false, error: 'Missing site or collection' }, { status: 400 });
+  }
+
+  const collection = await getCollection(env, site, body.collection);
+  if (!collection) {
+    return Response.json({ ok: false, error: 'Collection not found' }, { status: 404 });
+  }
+
+  const progress = await rebuildCollectionIndex(env.BLOXX_SITES, site, collection);
+  return Response.json({ ok: true, indexed: progress.items, complete: progress.complete });
+};
@@ -5,6 +5,34 @@
  * - Collection definitions: {site}/collections/{slug}.json
  * - Collection items: {site}/collections/{slug}/items/{itemSlug}.json
  * - Collection index: {site}/collections/{slug}/index.json (item list)
+ *
+ * reference / multireference fields hold item slugs of another collection.
+ * GET ...&collection={slug}&resolve=true replaces them with the referenced
+ * items, and filter.{path}={value} filters on any field, including paths
+ * through references (filter.author.name=Ada). Deleting an item (or a
+ * collection) that others reference fails with 409 or cascades, per the
+ * referencing field's onDelete (see functions/lib/collection-references.ts).
+ *
+ * Schema changes on PUT migrate existing items (renames, type coercions,
+ * defaults, drops) and can be previewed with `dryRun: true`;
+ * GET ...&collection={slug}&migrations=true lists applied migrations.
+ *
+ * Bulk import: POST ?collection={slug}&import with CSV, a JSON array or
+ * front-matter Markdown files; export: GET ...&collection={slug}&export=csv|json|markdown.
+ *
+ * richtext fields are stored as structured documents (lib/richtext.ts).
+ * Items may send Markdown text instead, which is converted on save;
+ * inline data: images are stored as site assets. GET ...&richtext=markdown
+ * returns richtext fields as Markdown, for editing as text.
+ *
+ * Collections may set `schemaType` (a Schema.org type) and `schemaMapping`
+ * (property → field path) for their item pages' JSON-LD; item responses
+ * carry `seoWarnings` for required properties an item leaves empty
+ * (see lib/collection-seo.ts).
+ *
+ * Items accept `publishedAt` and `expiresAt`. A publish date in the future
+ * keeps a published item a draft until the scheduler publishes it; an expiry
+ * date archives it (see functions/lib/scheduler.ts).
  */
 
 import {
@@ -15,8 +43,33 @@ import {
   COLLECTION_PRESETS,
   generateSlug,
   validateItemData,
+  filterItems,
   getItemTitle,
 } from '../../lib/collections';
+import { requestAuthor } from '../lib/auth';
+import { cancelItemJobs, syncItemSchedule } from '../lib/scheduler';
+import { findMissingReferences, planCollectionDeletion, planItemDeletion, resolveReferences } from '../lib/collection-references';
+import { planMigration, type MigrationPlan } from '../../lib/collection-migrations';
+import { listMigrations, runMigration, type MigrationReport } from '../lib/collection-migrations';
+import { invalidateCollectionIndex, updateItemIndex, updateItemIndexBySlug } from '../lib/collection-index';
+import {
+  IMPORT_FORMATS,
+  csvRecords,
+  inferImportFormat,
+  itemsToCsv,
+  itemsToJson,
+  itemToMarkdown,
+  jsonRecords,
+  markdownRecord,
+  type ImportFormat,
+  type ImportRecord,
+} from '../../lib/collection-import';
+import { CONFLICT_POLICIES, MAX_IMPORT_RECORDS, importRecords, type ConflictPolicy } from '../lib/collection-import';
+import { createZip } from '../../lib/zip';
+import { documentToMarkdown, normalizeRichTextFields } from '../../lib/richtext';
+import { storeRichTextImages } from '../lib/richtext-assets';
+import { recordMediaUsage, removeCollectionMediaUsage } from '../lib/media-library';
+import { PRESET_SCHEMA_TYPES, getItemSeoWarnings, validateSchemaMapping } from '../../lib/collection-seo';
 
 interface Env {
   BLOXX_SITES: R2Bucket;
@@ -40,14 +93,25 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     return Response.json({ ok: false, error: 'Missing site parameter' }, { status: 400 });
   }
 
+  if (collectionSlug && url.searchParams.get('migrations') === 'true') {
+    const migrations = await listMigrations(env.BLOXX_SITES, site, collectionSlug);
+    return Response.json({ ok: true, migrations });
+  }
+
+  const exportFormat = url.searchParams.get('export');
+  if (collectionSlug && exportFormat) {
+    return exportCollectionItems(env, site, collectionSlug, exportFormat, url.searchParams.get('status'));
+  }
+
   // If collection slug provided, return that collection with items
   if (collectionSlug) {
-    return getCollectionWithItems(env, site, collectionSlug);
+    return getCollectionWithItems(env, site, collectionSlug, url.searchParams);
   }
 
   // List all collections
   const prefix = `${site}/collections/`;
-  const list = await env.BLOXX_SITES.list({ prefix });
+  // Delimiter keeps item folders (and their indexes) out of the listing
+  const list = await env.BLOXX_SITES.list({ prefix, delimiter: '/' });
 
   const collections: Collection[] = [];
   const seen = new Set<string>();
@@ -75,7 +139,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 /**
  * Get a single collection with its items
  */
-async function getCollectionWithItems(env: Env, site: string, slug: string) {
+async function getCollectionWithItems(env: Env, site: string, slug: string, params: URLSearchParams) {
   const collectionKey = `${site}/collections/${slug}.json`;
   const collectionObj = await env.BLOXX_SITES.get(collectionKey);
 
@@ -98,7 +162,44 @@ async function getCollectionWithItems(env: Env, site: string, slug: string) {
     }
   }
 
-  return Response.json({ ok: true, collection, items });
+  // filter.{path}={value}; repeating a key matches any of the values
+  const filters: Record<string, string | string[]> = {};
+  for (const key of new Set(params.keys())) {
+    if (!key.startsWith('filter.')) continue;
+    const values = params.getAll(key);
+    filters[key.slice('filter.'.length)] = values.length > 1 ? values : values[0];
+  }
+  const hasFilters = Object.keys(filters).length > 0;
+
+  // Filter paths through a reference need the referenced data
+  if (params.get('resolve') === 'true' || hasFilters) {
+    items = await resolveReferences(env.BLOXX_SITES, site, collection.schema.fields, items);
+  }
+  if (hasFilters) {
+    // Keep the index order; sorting is up to the caller
+    const matching = new Set(filterItems(items, { filters }, collection.schema));
+    items = items.filter(item => matching.has(item));
+  }
+
+  if (params.get('richtext') === 'markdown') {
+    const richTextFields = collection.schema.fields.filter(f => f.type === 'richtext');
+    items = items.map(item => {
+      const data = { ...item.data };
+      for (const field of richTextFields) {
+        if (data[field.id] !== undefined && data[field.id] !== null) data[field.id] = documentToMarkdown(data[field.id]);
+      }
+      return { ...item, data };
+    });
+  }
+
+  // Editor hints for items whose JSON-LD misses required properties
+  const seoWarnings: Record<string, string[]> = {};
+  for (const item of items) {
+    const warnings = getItemSeoWarnings(item, collection);
+    if (warnings.length > 0) seoWarnings[item.slug] = warnings;
+  }
+
+  return Response.json({ ok: true, collection, items, seoWarnings });
 }
 
 /**
@@ -110,8 +211,11 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
   // Check if this is an item creation (has collection param)
   const collectionSlug = url.searchParams.get('collection');
+  if (collectionSlug && url.searchParams.has('import')) {
+    return importCollectionItems(env, request, collectionSlug, requestAuthor(context.data));
+  }
   if (collectionSlug) {
-    return createCollectionItem(env, request, collectionSlug);
+    return createCollectionItem(env, request, collectionSlug, requestAuthor(context.data));
   }
 
   // Create collection
@@ -122,6 +226,8 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     description?: string;
     schema?: CollectionSchema;
     preset?: string;
+    schemaType?: string;
+    schemaMapping?: Record<string, string>;
   };
 
   try {
@@ -155,6 +261,12 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     return Response.json({ ok: false, error: 'Missing schema or preset' }, { status: 400 });
   }
 
+  const schemaType = body.schemaType || (preset ? PRESET_SCHEMA_TYPES[preset] : undefined);
+  const mappingError = validateSchemaMapping(schemaType, body.schemaMapping, schema.fields);
+  if (mappingError) {
+    return Response.json({ ok: false, error: mappingError }, { status: 400 });
+  }
+
   const collection: Collection = {
     id: Date.now(), // Simple ID generation
     siteId: 0, // Would be set by Xano in production
@@ -162,6 +274,8 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     slug,
     description,
     schema,
+    schemaType,
+    schemaMapping: body.schemaMapping,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
@@ -180,14 +294,37 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
   return Response.json({ ok: true, collection });
 };
 
+/**
+ * Validate item data for saving: rich text is normalized to documents (its
+ * inline images stored as assets) and references must exist
+ */
+async function prepareItemData(
+  env: Env,
+  site: string,
+  schema: CollectionSchema,
+  input: Record<string, any>
+): Promise<{ data: Record<string, any> } | { errors: Record<string, string> }> {
+  const normalized = normalizeRichTextFields(input, schema);
+  const validation = validateItemData(normalized, schema);
+  const errors = { ...(await findMissingReferences(env.BLOXX_SITES, site, schema.fields, normalized)), ...validation.errors };
+  if (Object.keys(errors).length > 0) return { errors };
+
+  // Only valid data gets its images stored
+  const stored = await storeRichTextImages(env.BLOXX_SITES, site, schema, normalized);
+  if (Object.keys(stored.errors).length > 0) return { errors: stored.errors };
+  return { data: stored.data };
+}
+
 /**
  * Create a new collection item
  */
-async function createCollectionItem(env: Env, request: Request, collectionSlug: string) {
+async function createCollectionItem(env: Env, request: Request, collectionSlug: string, author: string) {
   let body: {
     site: string;
     data: Record<string, any>;
     status?: ItemStatus;
+    publishedAt?: string;
+    expiresAt?: string;
   };
 
   try {
@@ -196,11 +333,14 @@ async function createCollectionItem(env: Env, request: Request, collectionSlug:
     return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
   }
 
-  const { site, data, status = 'draft' } = body;
+  const { site, status = 'draft', publishedAt, expiresAt } = body;
 
-  if (!site || !data) {
+  if (!site || !body.data) {
     return Response.json({ ok: false, error: 'Missing site or data' }, { status: 400 });
   }
+  if ([publishedAt, expiresAt].some(d => d && Number.isNaN(Date.parse(d)))) {
+    return Response.json({ ok: false, error: 'publishedAt and expiresAt must be ISO dates' }, { status: 400 });
+  }
 
   // Get collection
   const collectionKey = `${site}/collections/${collectionSlug}.json`;
@@ -213,10 +353,11 @@ async function createCollectionItem(env: Env, request: Request, collectionSlug:
   const collection = await collectionObj.json() as Collection;
 
   // Validate data
-  const validation = validateItemData(data, collection.schema);
-  if (!validation.valid) {
-    return Response.json({ ok: false, error: 'Validation failed', errors: validation.errors }, { status: 400 });
+  const prepared = await prepareItemData(env, site, collection.schema, body.data);
+  if ('errors' in prepared) {
+    return Response.json({ ok: false, error: 'Validation failed', errors: prepared.errors }, { status: 400 });
   }
+  const data = prepared.data;
 
   // Generate slug from slug source field
   const slugSourceField = collection.schema.fields.find(f => f.isSlugSource);
@@ -230,16 +371,23 @@ async function createCollectionItem(env: Env, request: Request, collectionSlug:
     slug: itemSlug,
     data,
     status,
-    publishedAt: status === 'published' ? new Date().toISOString() : undefined,
+    publishedAt: publishedAt || (status === 'published' ? new Date().toISOString() : undefined),
+    expiresAt: expiresAt || undefined,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
 
+  item.status = await syncItemSchedule(env.BLOXX_SITES, site, collectionSlug, item, author);
+
   // Save item
   const itemKey = `${site}/collections/${collectionSlug}/items/${itemSlug}.json`;
+  const previousObj = await env.BLOXX_SITES.get(itemKey);
+  const previous = previousObj ? await previousObj.json() as CollectionItem : null;
   await env.BLOXX_SITES.put(itemKey, JSON.stringify(item, null, 2), {
     httpMetadata: { contentType: 'application/json' },
   });
+  await updateItemIndex(env.BLOXX_SITES, site, collection, item, previous);
+  await recordMediaUsage(env.BLOXX_SITES, site, { type: 'item', collection: collectionSlug, slug: itemSlug }, JSON.stringify(item.data));
 
   // Update index
   const indexKey = `${site}/collections/${collectionSlug}/index.json`;
@@ -258,7 +406,165 @@ async function createCollectionItem(env: Env, request: Request, collectionSlug:
     httpMetadata: { contentType: 'application/json' },
   });
 
-  return Response.json({ ok: true, item });
+  return Response.json({ ok: true, item, seoWarnings: getItemSeoWarnings(item, collection) });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BULK IMPORT / EXPORT
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Import items in bulk
+ *
+ * multipart/form-data: site, file (repeat for Markdown files), and optionally
+ * format, mapping (JSON: column → field id, "" to ignore a column),
+ * status (for rows without one), onConflict (rename | skip | update), dryRun.
+ * JSON bodies take the same options with `content` (or `files: [{ name, content }]`).
+ *
+ * Returns the per-row report (functions/lib/collection-import.ts); valid rows
+ * are imported even when others fail.
+ */
+async function importCollectionItems(env: Env, request: Request, collectionSlug: string, author: string) {
+  let options: Record<string, any>;
+  let files: { name: string; content: string }[];
+
+  if ((request.headers.get('Content-Type') || '').includes('multipart/form-data')) {
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return Response.json({ ok: false, error: 'Invalid multipart body' }, { status: 400 });
+    }
+    options = Object.fromEntries(
+      ['site', 'format', 'mapping', 'status', 'onConflict', 'dryRun'].map(key => [key, formData.get(key) ?? undefined])
+    );
+    try {
+      options.mapping = options.mapping ? JSON.parse(options.mapping) : undefined;
+    } catch {
+      return Response.json({ ok: false, error: 'mapping must be JSON' }, { status: 400 });
+    }
+    options.dryRun = options.dryRun === 'true';
+    files = await Promise.all(
+      (formData.getAll('file') as unknown as (File | string)[])
+        .filter((file): file is File => typeof file !== 'string')
+        .map(async file => ({ name: file.name, content: await file.text() }))
+    );
+  } else {
+    try {
+      options = await request.json();
+    } catch {
+      return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+    }
+    if (options.files !== undefined
+      && (!Array.isArray(options.files)
+        || !options.files.every((file: any) => typeof file?.name === 'string' && typeof file?.content === 'string'))) {
+      return Response.json({ ok: false, error: 'files must be a list of { name, content } strings' }, { status: 400 });
+    }
+    files = options.files || (typeof options.content === 'string' ? [{ name: '', content: options.content }] : []);
+  }
+
+  const { site, mapping, status, onConflict } = options as {
+    site?: string;
+    mapping?: Record<string, string>;
+    status?: ItemStatus;
+    onConflict?: ConflictPolicy;
+  };
+  if (!site || files.length === 0) {
+    return Response.json({ ok: false, error: 'Missing site or file' }, { status: 400 });
+  }
+
+  const format = (options.format || inferImportFormat(files[0].name)) as ImportFormat;
+  if (!IMPORT_FORMATS.includes(format)) {
+    return Response.json({ ok: false, error: `format must be one of: ${IMPORT_FORMATS.join(', ')}` }, { status: 400 });
+  }
+  if (onConflict && !CONFLICT_POLICIES.includes(onConflict)) {
+    return Response.json({ ok: false, error: `onConflict must be one of: ${CONFLICT_POLICIES.join(', ')}` }, { status: 400 });
+  }
+  if (mapping !== undefined && (typeof mapping !== 'object' || Array.isArray(mapping))) {
+    return Response.json({ ok: false, error: 'mapping must map column names to field ids' }, { status: 400 });
+  }
+
+  const collectionObj = await env.BLOXX_SITES.get(`${site}/collections/${collectionSlug}.json`);
+  if (!collectionObj) {
+    return Response.json({ ok: false, error: 'Collection not found' }, { status: 404 });
+  }
+  const collection = await collectionObj.json() as Collection;
+
+  const unknownTargets = Object.values(mapping || {}).filter(id => id && !collection.schema.fields.some(f => f.id === id));
+  if (unknownTargets.length > 0) {
+    return Response.json({ ok: false, error: `Unknown fields in mapping: ${unknownTargets.join(', ')}` }, { status: 400 });
+  }
+
+  let records: ImportRecord[];
+  try {
+    records = format === 'markdown'
+      ? files.map(file => markdownRecord(file.name, file.content))
+      : files.flatMap(file => (format === 'csv' ? csvRecords(file.content) : jsonRecords(file.content)));
+  } catch (err: any) {
+    return Response.json({ ok: false, error: `Could not parse ${format}: ${err.message}` }, { status: 400 });
+  }
+  if (records.length > MAX_IMPORT_RECORDS) {
+    return Response.json({ ok: false, error: `At most ${MAX_IMPORT_RECORDS} items per import` }, { status: 413 });
+  }
+
+  const report = await importRecords(env.BLOXX_SITES, site, collection, records, {
+    format,
+    mapping,
+    status,
+    onConflict,
+    dryRun: !!options.dryRun,
+    author,
+  });
+
+  return Response.json({ ok: true, report });
+}
+
+/**
+ * Download a collection's items as CSV, JSON or a zip of Markdown files,
+ * in the formats the import accepts
+ */
+async function exportCollectionItems(env: Env, site: string, slug: string, format: string, status: string | null) {
+  if (!IMPORT_FORMATS.includes(format as ImportFormat)) {
+    return Response.json({ ok: false, error: `export must be one of: ${IMPORT_FORMATS.join(', ')}` }, { status: 400 });
+  }
+
+  const collectionObj = await env.BLOXX_SITES.get(`${site}/collections/${slug}.json`);
+  if (!collectionObj) {
+    return Response.json({ ok: false, error: 'Collection not found' }, { status: 404 });
+  }
+  const collection = await collectionObj.json() as Collection;
+
+  const indexObj = await env.BLOXX_SITES.get(`${site}/collections/${slug}/index.json`);
+  let items: CollectionItem[] = [];
+  if (indexObj) {
+    try {
+      items = await indexObj.json() as CollectionItem[];
+    } catch {
+      items = [];
+    }
+  }
+  if (status) items = items.filter(item => item.status === status);
+
+  const headers = { 'X-Export-Items': String(items.length) };
+  if (format === 'csv') {
+    return new Response(itemsToCsv(items, collection.schema), {
+      headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8', 'Content-Disposition': `attachment; filename="${slug}.csv"` },
+    });
+  }
+  if (format === 'json') {
+    return new Response(itemsToJson(items, collection.schema), {
+      headers: { ...headers, 'Content-Type': 'application/json', 'Content-Disposition': `attachment; filename="${slug}.json"` },
+    });
+  }
+
+  const zip = await createZip(items.map(item => ({
+    path: `${slug}/${item.slug}.md`,
+    data: itemToMarkdown(item, collection.schema),
+    modified: new Date(item.updatedAt),
+  })));
+  return new Response(zip, {
+    headers: { ...headers, 'Content-Type': 'application/zip', 'Content-Disposition': `attachment; filename="${slug}-markdown.zip"` },
+  });
 }
 
 /**
@@ -272,11 +578,11 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
   const itemSlug = url.searchParams.get('item');
 
   if (itemSlug && collectionSlug) {
-    return updateCollectionItem(env, request, collectionSlug, itemSlug);
+    return updateCollectionItem(env, request, collectionSlug, itemSlug, requestAuthor(context.data));
   }
 
   if (collectionSlug) {
-    return updateCollection(env, request, collectionSlug);
+    return updateCollection(env, request, collectionSlug, requestAuthor(context.data));
   }
 
   return Response.json({ ok: false, error: 'Missing collection parameter' }, { status: 400 });
@@ -284,13 +590,25 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
 
 /**
  * Update a collection
+ *
+ * A schema change migrates existing items (functions/lib/collection-migrations.ts):
+ * `renames` maps old field ids to new ones, `dryRun: true` returns the plan
+ * and per-item report without writing anything, and items that cannot be
+ * converted refuse the change with 409 unless `force: true` (they are then
+ * left as they are).
  */
-async function updateCollection(env: Env, request: Request, slug: string) {
+async function updateCollection(env: Env, request: Request, slug: string, author: string) {
   let body: {
     site: string;
     name?: string;
     description?: string;
     schema?: CollectionSchema;
+    /** null removes the type (and its mapping) */
+    schemaType?: string | null;
+    schemaMapping?: Record<string, string>;
+    renames?: Record<string, string>;
+    dryRun?: boolean;
+    force?: boolean;
   };
 
   try {
@@ -314,10 +632,54 @@ async function updateCollection(env: Env, request: Request, slug: string) {
 
   const collection = await collectionObj.json() as Collection;
 
+  const schemaType = body.schemaType === undefined ? collection.schemaType : body.schemaType || undefined;
+  let schemaMapping = body.schemaType === null ? undefined : body.schemaMapping ?? collection.schemaMapping;
+  if (schemaMapping && !body.schemaMapping && body.renames) {
+    // The stored mapping follows renamed fields
+    schemaMapping = Object.fromEntries(Object.entries(schemaMapping).map(([prop, path]) => {
+      const [first, ...rest] = path.split('.');
+      return [prop, first in body.renames! ? [body.renames![first], ...rest].join('.') : path];
+    }));
+  }
+  const mappingError = validateSchemaMapping(schemaType, schemaMapping, (body.schema || collection.schema).fields);
+  if (mappingError) {
+    return Response.json({ ok: false, error: mappingError }, { status: 400 });
+  }
+
+  let migration: MigrationReport | undefined;
+  if (body.schema) {
+    let plan: MigrationPlan;
+    try {
+      plan = planMigration(collection.schema, body.schema, body.renames);
+    } catch (err: any) {
+      return Response.json({ ok: false, error: err.message }, { status: 400 });
+    }
+
+    if (plan.steps.length > 0 || body.dryRun) {
+      migration = await runMigration(env.BLOXX_SITES, site, collection, body.schema, plan, {
+        dryRun: body.dryRun,
+        force: body.force,
+        author,
+      });
+      if (body.dryRun) {
+        return Response.json({ ok: true, dryRun: true, migration });
+      }
+      if (!migration.applied) {
+        return Response.json({
+          ok: false,
+          error: `${migration.failed.length} item(s) cannot be converted to the new schema`,
+          migration,
+        }, { status: 409 });
+      }
+    }
+  }
+
   // Update fields
   if (body.name) collection.name = body.name;
   if (body.description !== undefined) collection.description = body.description;
   if (body.schema) collection.schema = body.schema;
+  collection.schemaType = schemaType;
+  collection.schemaMapping = schemaMapping;
   collection.updatedAt = new Date().toISOString();
 
   // Save
@@ -325,17 +687,26 @@ async function updateCollection(env: Env, request: Request, slug: string) {
     httpMetadata: { contentType: 'application/json' },
   });
 
-  return Response.json({ ok: true, collection });
+  // Migrated items and changed fields both invalidate the query index;
+  // the next query rebuilds it
+  if (body.schema) {
+    await invalidateCollectionIndex(env.BLOXX_SITES, site, slug);
+  }
+
+  return Response.json({ ok: true, collection, migration });
 }
 
 /**
  * Update a collection item
  */
-async function updateCollectionItem(env: Env, request: Request, collectionSlug: string, itemSlug: string) {
+async function updateCollectionItem(env: Env, request: Request, collectionSlug: string, itemSlug: string, author: string) {
   let body: {
     site: string;
     data?: Record<string, any>;
     status?: ItemStatus;
+    /** null clears the date */
+    publishedAt?: string | null;
+    expiresAt?: string | null;
   };
 
   try {
@@ -344,11 +715,14 @@ async function updateCollectionItem(env: Env, request: Request, collectionSlug:
     return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
   }
 
-  const { site, data, status } = body;
+  const { site, data, status, publishedAt, expiresAt } = body;
 
   if (!site) {
     return Response.json({ ok: false, error: 'Missing site' }, { status: 400 });
   }
+  if ([publishedAt, expiresAt].some(d => d && Number.isNaN(Date.parse(d)))) {
+    return Response.json({ ok: false, error: 'publishedAt and expiresAt must be ISO dates' }, { status: 400 });
+  }
 
   // Get collection for validation
   const collectionKey = `${site}/collections/${collectionSlug}.json`;
@@ -369,16 +743,20 @@ async function updateCollectionItem(env: Env, request: Request, collectionSlug:
   }
 
   const item = await itemObj.json() as CollectionItem;
+  const previous = structuredClone(item);
 
   // Validate data if provided
   if (data) {
-    const validation = validateItemData(data, collection.schema);
-    if (!validation.valid) {
-      return Response.json({ ok: false, error: 'Validation failed', errors: validation.errors }, { status: 400 });
+    const prepared = await prepareItemData(env, site, collection.schema, data);
+    if ('errors' in prepared) {
+      return Response.json({ ok: false, error: 'Validation failed', errors: prepared.errors }, { status: 400 });
     }
-    item.data = data;
+    item.data = prepared.data;
   }
 
+  if (publishedAt !== undefined) item.publishedAt = publishedAt || undefined;
+  if (expiresAt !== undefined) item.expiresAt = expiresAt || undefined;
+
   // Update status
   if (status) {
     item.status = status;
@@ -387,6 +765,11 @@ async function updateCollectionItem(env: Env, request: Request, collectionSlug:
     }
   }
 
+  // Only reschedule when something schedule-related was sent
+  if (status || publishedAt !== undefined || expiresAt !== undefined) {
+    item.status = await syncItemSchedule(env.BLOXX_SITES, site, collectionSlug, item, author);
+  }
+
   item.updatedAt = new Date().toISOString();
 
   // Save item
@@ -396,8 +779,10 @@ async function updateCollectionItem(env: Env, request: Request, collectionSlug:
 
   // Update index
   await updateItemInIndex(env, site, collectionSlug, item);
+  await updateItemIndex(env.BLOXX_SITES, site, collection, item, previous);
+  await recordMediaUsage(env.BLOXX_SITES, site, { type: 'item', collection: collectionSlug, slug: itemSlug }, JSON.stringify(item.data));
 
-  return Response.json({ ok: true, item });
+  return Response.json({ ok: true, item, seoWarnings: getItemSeoWarnings(item, collection) });
 }
 
 /**
@@ -445,36 +830,94 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
   }
 
   if (itemSlug) {
-    return deleteCollectionItem(env, site, collectionSlug, itemSlug);
+    return deleteCollectionItem(env, site, collectionSlug, itemSlug, requestAuthor(context.data));
   }
 
-  return deleteCollection(env, site, collectionSlug);
+  return deleteCollection(env, site, collectionSlug, requestAuthor(context.data));
 };
 
 /**
- * Delete a collection and all its items
+ * Delete a collection and all its items, and the items in other collections
+ * cascading from them. Refused with 409 when a 'restrict' reference from
+ * another collection points at one of its items.
  */
-async function deleteCollection(env: Env, site: string, slug: string) {
+async function deleteCollection(env: Env, site: string, slug: string, author: string) {
+  const plan = await planCollectionDeletion(env.BLOXX_SITES, site, slug);
+  if (plan.blockedBy.length > 0) {
+    return Response.json({
+      ok: false,
+      error: `Collection items are referenced by ${plan.blockedBy.length} other item(s)`,
+      references: plan.blockedBy,
+    }, { status: 409 });
+  }
+
+  for (const target of plan.cascade) {
+    await removeItem(env, site, target.collection, target.item, author);
+  }
+
   // Delete collection definition
   await env.BLOXX_SITES.delete(`${site}/collections/${slug}.json`);
 
-  // Delete all items
+  // Delete all items, query indexes and migration reports
   const prefix = `${site}/collections/${slug}/`;
-  const list = await env.BLOXX_SITES.list({ prefix });
+  const itemSlugs: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const list = await env.BLOXX_SITES.list({ prefix, cursor });
+    if (list.objects.length > 0) {
+      await env.BLOXX_SITES.delete(list.objects.map(obj => obj.key));
+    }
+    for (const obj of list.objects) {
+      const match = obj.key.slice(prefix.length).match(/^items\/([^/]+)\.json$/);
+      if (match) itemSlugs.push(match[1]);
+    }
+    cursor = list.truncated ? list.cursor : undefined;
+  } while (cursor);
+  await removeCollectionMediaUsage(env.BLOXX_SITES, site, slug);
 
-  for (const obj of list.objects) {
-    await env.BLOXX_SITES.delete(obj.key);
+  // Scheduled publishes and expiries of the items go with them
+  for (const itemSlug of itemSlugs) {
+    await cancelItemJobs(env.BLOXX_SITES, site, slug, itemSlug, author);
   }
 
-  return Response.json({ ok: true });
+  return Response.json({ ok: true, cascaded: plan.cascade });
 }
 
 /**
- * Delete a collection item
+ * Delete a collection item, and the items cascading from it.
+ * Refused with 409 when a 'restrict' reference points at it.
  */
-async function deleteCollectionItem(env: Env, site: string, collectionSlug: string, itemSlug: string) {
+async function deleteCollectionItem(env: Env, site: string, collectionSlug: string, itemSlug: string, author: string) {
+  const plan = await planItemDeletion(env.BLOXX_SITES, site, collectionSlug, itemSlug);
+  if (plan.blockedBy.length > 0) {
+    return Response.json({
+      ok: false,
+      error: `Item is referenced by ${plan.blockedBy.length} other item(s)`,
+      references: plan.blockedBy,
+    }, { status: 409 });
+  }
+
+  for (const target of plan.cascade) {
+    await removeItem(env, site, target.collection, target.item, author);
+  }
+  await removeItem(env, site, collectionSlug, itemSlug, author);
+
+  return Response.json({ ok: true, cascaded: plan.cascade });
+}
+
+/**
+ * Delete an item file, its scheduled jobs and its index entry
+ */
+async function removeItem(env: Env, site: string, collectionSlug: string, itemSlug: string, author: string) {
   // Delete item file
-  await env.BLOXX_SITES.delete(`${site}/collections/${collectionSlug}/items/${itemSlug}.json`);
+  const itemKey = `${site}/collections/${collectionSlug}/items/${itemSlug}.json`;
+  const itemObj = await env.BLOXX_SITES.get(itemKey);
+  await env.BLOXX_SITES.delete(itemKey);
+  if (itemObj) {
+    await updateItemIndexBySlug(env.BLOXX_SITES, site, collectionSlug, null, await itemObj.json() as CollectionItem);
+  }
+  await cancelItemJobs(env.BLOXX_SITES, site, collectionSlug, itemSlug, author);
+  await recordMediaUsage(env.BLOXX_SITES, site, { type: 'item', collection: collectionSlug, slug: itemSlug }, null);
 
   // Update index
   const indexKey = `${site}/collections/${collectionSlug}/index.json`;
@@ -491,6 +934,4 @@ async function deleteCollectionItem(env: Env, site: string, collectionSlug: stri
       // Ignore index update errors
     }
   }
-
-  return Response.json({ ok: true });
 }
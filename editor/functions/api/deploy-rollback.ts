@@ -0,0 +1,42 @@
+/**
+ * POST /api/deploy-rollback — Make an earlier release live again
+ * Body: { site: string, release: string }
+ * Returns: { ok: true, release: string, previousRelease: string | null }
+ *
+ * Only the {site}/releases/current.json pointer changes; release files are
+ * immutable and already in R2, so nothing is copied.
+ */
+
+import { activateRelease } from '../lib/releases';
+import { requestAuthor } from '../lib/auth';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+}
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+
+  let body: { site: string; release: string };
+  try {
+    body = await context.request.json();
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const { site, release } = body;
+  if (!site || !release) {
+    return Response.json({ ok: false, error: 'Missing site or release' }, { status: 400 });
+  }
+
+  const result = await activateRelease(env.BLOXX_SITES, site, release, requestAuthor(context.data));
+  if (!result) {
+    return Response.json({ ok: false, error: 'Release not found' }, { status: 404 });
+  }
+
+  return Response.json({
+    ok: true,
+    release: result.manifest.id,
+    previousRelease: result.previousReleaseId,
+  });
+};
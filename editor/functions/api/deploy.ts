@@ -1,17 +1,45 @@
 /**
- * POST /api/deploy — Copy all drafts → live for a site
- * Body: { site: string }
- * Returns: { ok: true, deployed: string[] }
+ * POST /api/deploy — Publish drafts as a new immutable release
+ * Body: { site: string, override?: boolean, dryRun?: boolean }
+ * Returns: { ok: true, release: string, previousRelease: string | null, deployed: string[], held: string[], uploaded: number, qualityGate }
  *
- * Copies every file from {site}/drafts/ to {site}/live/
+ * Every page is first run through the quality gate (functions/lib/quality-gate.ts).
+ * If any page falls below the site's publishing thresholds the deploy is refused
+ * with 422 and a per-page report, unless `override: true` is sent.
+ * `dryRun: true` returns the gate report without deploying.
+ *
+ * Snapshots {site}/drafts/* and {site}/assets/* into a content-addressed
+ * release (see functions/lib/releases.ts) and switches the live pointer to it.
+ * Pages with a pending publish-page job are `held`: they keep their live
+ * copy until the job publishes them.
+ * sitemap.xml and robots.txt are generated into the release root
+ * (functions/lib/publish.ts).
+ * Roll back with POST /api/deploy-rollback.
+ *
+ * GET /api/deploy?site={site} — Active release, release list and deploy log
+ * GET /api/deploy?site={site}&release={id} — Full manifest for one release
  */
 
+import {
+  getActiveReleaseId,
+  getManifest,
+  listReleases,
+  getDeployLog,
+} from '../lib/releases';
+import { runQualityGate } from '../lib/quality-gate';
+import { deploySite } from '../lib/publish';
+import { listScheduledPages } from '../lib/scheduler';
+import { requestAuthor } from '../lib/auth';
+
 interface Env {
   BLOXX_SITES: R2Bucket;
+  SITES_DOMAIN?: string;
 }
 
 interface DeployBody {
   site: string;
+  override?: boolean;
+  dryRun?: boolean;
 }
 
 export const onRequestPost: PagesFunction<Env> = async (context) => {
@@ -24,25 +52,82 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     return Response.json({ ok: false, error: 'Invalid JSON' }, { status: 400 });
   }
 
-  const { site } = body;
+  const { site, override, dryRun } = body;
   if (!site) {
     return Response.json({ ok: false, error: 'Missing site' }, { status: 400 });
   }
 
-  const prefix = `${site}/drafts/`;
-  const listed = await env.BLOXX_SITES.list({ prefix });
-  const deployed: string[] = [];
+  try {
+    const qualityGate = await runQualityGate(env.BLOXX_SITES, site);
+
+    if (dryRun) {
+      return Response.json({ ok: true, dryRun: true, qualityGate });
+    }
+
+    if (!qualityGate.passed && !override) {
+      return Response.json({
+        ok: false,
+        error: 'quality_gate_failed',
+        message: `${qualityGate.blockedPages.length} page(s) below quality thresholds`,
+        qualityGate,
+      }, { status: 422 });
+    }
 
-  for (const obj of listed.objects) {
-    const draftObj = await env.BLOXX_SITES.get(obj.key);
-    if (!draftObj) continue;
+    const held = await listScheduledPages(env.BLOXX_SITES, site);
+    const { manifest, uploaded, previousReleaseId } = await deploySite(
+      env.BLOXX_SITES,
+      site,
+      requestAuthor(context.data),
+      env.SITES_DOMAIN,
+      {
+        qualityGate: {
+          passed: qualityGate.passed,
+          overridden: !qualityGate.passed,
+          blockedPages: qualityGate.blockedPages,
+        },
+      },
+      held
+    );
 
-    const livePath = obj.key.replace('/drafts/', '/live/');
-    await env.BLOXX_SITES.put(livePath, draftObj.body, {
-      httpMetadata: draftObj.httpMetadata,
+    return Response.json({
+      ok: true,
+      release: manifest.id,
+      previousRelease: previousReleaseId,
+      deployed: Object.keys(manifest.files),
+      held,
+      uploaded,
+      qualityGate,
     });
-    deployed.push(livePath);
+  } catch (err: any) {
+    // The pointer is only written after every blob and the manifest succeed,
+    // so the previous release is still live here
+    return Response.json({ ok: false, error: err.message }, { status: 500 });
   }
+};
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+  const site = url.searchParams.get('site');
+  const releaseId = url.searchParams.get('release');
+
+  if (!site) {
+    return Response.json({ ok: false, error: 'Missing site parameter' }, { status: 400 });
+  }
+
+  if (releaseId) {
+    const manifest = await getManifest(env.BLOXX_SITES, site, releaseId);
+    if (!manifest) {
+      return Response.json({ ok: false, error: 'Release not found' }, { status: 404 });
+    }
+    return Response.json({ ok: true, manifest });
+  }
+
+  const [current, releases, log] = await Promise.all([
+    getActiveReleaseId(env.BLOXX_SITES, site),
+    listReleases(env.BLOXX_SITES, site),
+    getDeployLog(env.BLOXX_SITES, site),
+  ]);
 
-  return Response.json({ ok: true, deployed });
+  return Response.json({ ok: true, current, releases, log });
 };
@@ -0,0 +1,242 @@
+/**
+ * GET /api/export?site={site}&source=drafts|live&baseUrl={url}
+ * Download a site as a self-contained static zip
+ *
+ * - source=drafts (default) reads {site}/drafts/* and {site}/assets/*;
+ *   source=live reads the active release
+ * - Settings are applied to every page (branding CSS, analytics, favicon, {{settings.*}})
+ * - Published collection items are pre-rendered to {collection}/{item}/index.html,
+ *   and list and archive pages to {collection}/index.html, {collection}/page/{n}/index.html,
+ *   {collection}/{field}/{value}/index.html and so on (unless a page has that path)
+ * - Assets sit at the zip root, so draft-relative paths (css/theme.css) keep
+ *   working and /preview/{site}/_asset/... becomes a relative path
+ * - sitemap.xml and robots.txt are added; URLs use `baseUrl`, then
+ *   seo.siteUrl, then {site}.{SITES_DOMAIN}
+ */
+
+import { createZip, type ZipEntry } from '../../lib/zip';
+import {
+  buildSitemapFiles,
+  buildRobotsTxt,
+  absoluteUrl,
+  isNoindex,
+  isSiteNoindex,
+  type SitemapEntry,
+} from '../../lib/sitemap';
+import { injectSettingsIntoHtml } from '../../lib/global-settings';
+import { getListRoutes, getListUrl } from '../../lib/collection-list';
+import { getAllowedTags } from '../../lib/richtext';
+import { getItemSeoOptions } from '../../lib/collection-seo';
+import { getActiveManifest, getReleaseFile } from '../lib/releases';
+import {
+  loadSiteSettings,
+  replaceSettingsVariables,
+  resolveCollectionTemplate,
+  resolveCollectionListTemplate,
+  listPublishedCollections,
+} from '../lib/live-site';
+import { getSiteBaseUrl } from '../lib/site-sitemap';
+import { resolveReferences } from '../lib/collection-references';
+import { buildCollectionListPage, renderItemPage, renderListTemplate } from './collection-page';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+  SITES_DOMAIN?: string;
+}
+
+interface SourceFile {
+  data: Uint8Array;
+  modified: Date;
+}
+
+/**
+ * Collect pages and assets keyed by their path in the export
+ */
+async function readDrafts(bucket: R2Bucket, site: string): Promise<Map<string, SourceFile>> {
+  const files = new Map<string, SourceFile>();
+
+  for (const prefix of [`${site}/drafts/`, `${site}/assets/`]) {
+    let cursor: string | undefined;
+    do {
+      const listed = await bucket.list({ prefix, cursor });
+      for (const obj of listed.objects) {
+        const body = await bucket.get(obj.key);
+        if (!body) continue;
+        files.set(obj.key.slice(prefix.length), {
+          data: new Uint8Array(await body.arrayBuffer()),
+          modified: obj.uploaded,
+        });
+      }
+      cursor = listed.truncated ? listed.cursor : undefined;
+    } while (cursor);
+  }
+
+  return files;
+}
+
+async function readLive(bucket: R2Bucket, site: string): Promise<Map<string, SourceFile> | null> {
+  const manifest = await getActiveManifest(bucket, site);
+  if (!manifest) return null;
+
+  const files = new Map<string, SourceFile>();
+  for (const path of Object.keys(manifest.files)) {
+    const found = await getReleaseFile(bucket, site, manifest, path);
+    if (!found) continue;
+    // Releases keep assets under assets/; the export puts them at the root
+    files.set(path.replace(/^assets\//, ''), {
+      data: new Uint8Array(await found.body.arrayBuffer()),
+      modified: new Date(manifest.createdAt),
+    });
+  }
+  return files;
+}
+
+/**
+ * Make asset and page references relative for a page `depth` folders below the root
+ */
+function rewriteForExport(html: string, site: string, depth: number): string {
+  const up = '../'.repeat(depth);
+
+  html = html.split(`/preview/${site}/_asset/`).join(up);
+
+  if (!up) return html;
+
+  return html.replace(
+    /(href|src)="(?!https?:\/\/|\/\/|\/|#|mailto:|tel:|data:|javascript:|\.\.\/)([^"]+)"/g,
+    (match, attr, path) => `${attr}="${up}${path}"`
+  );
+}
+
+function renderPage(html: string, site: string, settings: Record<string, any>, depth: number): string {
+  html = replaceSettingsVariables(html, settings);
+  html = injectSettingsIntoHtml(html, settings, 'branding.css');
+  return rewriteForExport(html, site, depth);
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+  const site = url.searchParams.get('site');
+  const source = url.searchParams.get('source') || 'drafts';
+
+  if (!site) {
+    return Response.json({ ok: false, error: 'Missing site parameter' }, { status: 400 });
+  }
+  if (source !== 'drafts' && source !== 'live') {
+    return Response.json({ ok: false, error: 'source must be "drafts" or "live"' }, { status: 400 });
+  }
+
+  try {
+    const files = source === 'live'
+      ? await readLive(env.BLOXX_SITES, site)
+      : await readDrafts(env.BLOXX_SITES, site);
+
+    if (!files) {
+      return Response.json({ ok: false, error: 'Site has no live release' }, { status: 404 });
+    }
+
+    const settings = await loadSiteSettings(env.BLOXX_SITES, site);
+    const decoder = new TextDecoder();
+    const entries: ZipEntry[] = [];
+    const sitemap: SitemapEntry[] = [];
+    const notFoundPage = `${settings.publishing?.notFoundPage || '404'}.html`;
+
+    // Pages and assets
+    for (const [path, file] of files) {
+      if (path.endsWith('-template.html')) continue;
+
+      if (!path.endsWith('.html')) {
+        entries.push({ path, data: file.data, modified: file.modified });
+        continue;
+      }
+
+      const depth = path.split('/').length - 1;
+      const html = renderPage(decoder.decode(file.data), site, settings, depth);
+      entries.push({ path, data: html, modified: file.modified });
+
+      if (path !== notFoundPage && !isNoindex(html)) {
+        sitemap.push({
+          path: path === 'index.html' ? '/' : `/${path}`,
+          lastmod: file.modified.toISOString(),
+        });
+      }
+    }
+
+    const baseUrl = url.searchParams.get('baseUrl') || getSiteBaseUrl(site, settings, env.SITES_DOMAIN);
+    // Assets sit at the zip root
+    const renderOptions = {
+      allowedTags: getAllowedTags(settings),
+      seo: getItemSeoOptions(settings, baseUrl || undefined, baseUrl ? `${baseUrl.replace(/\/+$/, '')}/` : undefined),
+    };
+
+    // Published collection items
+    let itemCount = 0;
+    for (const { collection, items } of await listPublishedCollections(env.BLOXX_SITES, site)) {
+      if (items.length === 0) continue;
+
+      const ownTemplate = files.get(`${collection.slug}-template.html`);
+      const template = await resolveCollectionTemplate(
+        env.BLOXX_SITES, site, collection, ownTemplate ? decoder.decode(ownTemplate.data) : null
+      );
+
+      for (const item of items) {
+        const html = renderPage(renderItemPage(template, item, collection, renderOptions), site, settings, 2);
+        entries.push({
+          path: `${collection.slug}/${item.slug}/index.html`,
+          data: html,
+          modified: new Date(item.updatedAt),
+        });
+        itemCount++;
+
+        if (!isNoindex(html)) {
+          sitemap.push({ path: `/${collection.slug}/${item.slug}/`, lastmod: item.updatedAt });
+        }
+      }
+
+      // List and archive pages
+      const ownListTemplate = files.get(`${collection.slug}-list-template.html`);
+      const listTemplate = await resolveCollectionListTemplate(
+        env.BLOXX_SITES, site, collection, ownListTemplate ? decoder.decode(ownListTemplate.data) : null
+      );
+      for (const route of getListRoutes(collection, items)) {
+        const dir = getListUrl(collection, route.page, route.archive).slice(1);
+        if (files.has(`${dir}index.html`) || files.has(`${dir.slice(0, -1)}.html`)) continue;
+
+        const list = buildCollectionListPage(collection, items, route);
+        if (!list) continue;
+        list.items = await resolveReferences(env.BLOXX_SITES, site, collection.schema.fields, list.items, {
+          publishedOnly: true,
+        });
+
+        const depth = dir.split('/').length - 1;
+        const html = renderPage(renderListTemplate(listTemplate, list, collection, baseUrl, renderOptions), site, settings, depth);
+        entries.push({ path: `${dir}index.html`, data: html });
+
+        if (route.page === 1 && !isNoindex(html)) {
+          sitemap.push({ path: `/${dir}` });
+        }
+      }
+    }
+
+    for (const [path, xml] of Object.entries(buildSitemapFiles(isSiteNoindex(settings) ? [] : sitemap, baseUrl))) {
+      entries.push({ path, data: xml });
+    }
+    entries.push({
+      path: 'robots.txt',
+      data: buildRobotsTxt(settings, baseUrl ? absoluteUrl(baseUrl, 'sitemap.xml') : undefined),
+    });
+
+    const zip = await createZip(entries);
+
+    return new Response(zip, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${site}-${source}.zip"`,
+        'X-Export-Files': String(entries.length),
+        'X-Export-Items': String(itemCount),
+      },
+    });
+  } catch (err: any) {
+    return Response.json({ ok: false, error: err.message }, { status: 500 });
+  }
+};
@@ -0,0 +1,68 @@
+/**
+ * /api/form-configs — Action configs, one per form (see lib/action-components.ts)
+ *
+ * GET /api/form-configs?site={site}&form={formId}
+ *       → { ok, config }
+ * PUT /api/form-configs
+ *       Body: { site, form, config }
+ *       → { ok, config }
+ *
+ * /api/forms only accepts submissions for forms with a config here (or,
+ * during the transition, a restricted one from the submission), and
+ * delivers them where it says (functions/lib/form-delivery.ts). Needs the
+ * "settings" permission.
+ */
+
+import { parseActionConfig } from '../../lib/action-components';
+import { getFormConfig, saveFormConfig } from '../lib/form-delivery';
+import { isValidFormId } from '../lib/form-inbox';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+  const site = url.searchParams.get('site');
+  const formId = url.searchParams.get('form');
+
+  if (!site || !formId) {
+    return Response.json({ ok: false, error: 'Missing site or form parameter' }, { status: 400 });
+  }
+  if (!isValidFormId(formId)) {
+    return Response.json({ ok: false, error: 'Invalid form' }, { status: 400 });
+  }
+
+  const config = await getFormConfig(env.BLOXX_SITES, site, formId);
+  if (!config) {
+    return Response.json({ ok: false, error: 'Form not configured' }, { status: 404 });
+  }
+  return Response.json({ ok: true, config }, { headers: { 'Cache-Control': 'no-store' } });
+};
+
+export const onRequestPut: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  let body: { site?: string; form?: string; config?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!body.site || !body.form) {
+    return Response.json({ ok: false, error: 'Missing site or form' }, { status: 400 });
+  }
+  if (!isValidFormId(body.form)) {
+    return Response.json({ ok: false, error: 'Invalid form' }, { status: 400 });
+  }
+
+  const config = parseActionConfig(body.config);
+  if (typeof config === 'string') {
+    return Response.json({ ok: false, error: config }, { status: 400 });
+  }
+
+  await saveFormConfig(env.BLOXX_SITES, body.site, body.form, config);
+  return Response.json({ ok: true, config });
+};
@@ -0,0 +1,57 @@
+/**
+ * /api/form-secrets — Webhook signing secrets, one per form (see functions/lib/form-actions.ts)
+ *
+ * GET  /api/form-secrets?site={site}&form={formId}
+ *        → { ok, secret }   (created on first request)
+ * POST /api/form-secrets
+ *        Body: { site, form }
+ *        → { ok, secret }   (rotates: deliveries from now on are signed with the new secret)
+ *
+ * Webhook and Zapier deliveries carry an X-Bloxx-Signature header made with
+ * this secret. Needs the "settings" permission.
+ */
+
+import { getFormSecret, rotateFormSecret } from '../lib/form-delivery';
+import { isValidFormId } from '../lib/form-inbox';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+  const site = url.searchParams.get('site');
+  const formId = url.searchParams.get('form');
+
+  if (!site || !formId) {
+    return Response.json({ ok: false, error: 'Missing site or form parameter' }, { status: 400 });
+  }
+  if (!isValidFormId(formId)) {
+    return Response.json({ ok: false, error: 'Invalid form' }, { status: 400 });
+  }
+
+  const secret = await getFormSecret(env.BLOXX_SITES, site, formId);
+  return Response.json({ ok: true, secret }, { headers: { 'Cache-Control': 'no-store' } });
+};
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  let body: { site?: string; form?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!body.site || !body.form) {
+    return Response.json({ ok: false, error: 'Missing site or form' }, { status: 400 });
+  }
+  if (!isValidFormId(body.form)) {
+    return Response.json({ ok: false, error: 'Invalid form' }, { status: 400 });
+  }
+
+  const secret = await rotateFormSecret(env.BLOXX_SITES, body.site, body.form);
+  return Response.json({ ok: true, secret }, { headers: { 'Cache-Control': 'no-store' } });
+};
@@ -0,0 +1,209 @@
+/**
+ * /api/form-submissions — The site's form inbox (see functions/lib/form-inbox.ts)
+ *
+ * GET    /api/form-submissions?site={site}[&form={formId}][&q=text][&read=true|false][&tag=x][&status=dead]
+ *          [&limit=50&offset=0]
+ *          → { ok, submissions: StoredSubmission[], total, unread }   (newest first)
+ * GET    /api/form-submissions?site={site}&format=csv[&form=...&q=...]
+ *          → CSV download of every matching submission
+ * GET    /api/form-submissions?site={site}&form={formId}&id={id}
+ *          → { ok, submission }
+ * PUT    /api/form-submissions?site={site}&form={formId}&id={id}
+ *          Body: { read?, tags? }
+ *          → { ok, submission }
+ * POST   /api/form-submissions
+ *          Body: { site, form, id }
+ *          → { ok, submission }   (replays a dead-lettered delivery now; delivery.status tells how it went)
+ *          Body: { site, all: true[, form] }
+ *          → { ok, replayed }     (queues every dead-lettered submission again)
+ * DELETE /api/form-submissions?site={site}&form={formId}&id={id}
+ *          → { ok }
+ *
+ * Submissions hold visitors' personal data, so every method needs the
+ * "content" permission, not just "read".
+ */
+
+import { attemptDelivery, replaySubmission } from '../lib/form-delivery';
+import {
+  deleteSubmission,
+  getSubmission,
+  isValidFormId,
+  isValidSubmissionId,
+  listSubmissions,
+  normalizeTags,
+  submissionsToCsv,
+  updateSubmission,
+  type DeliveryStatus,
+  type StoredSubmission,
+} from '../lib/form-inbox';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+  XANO_API_KEY?: string;
+  SENDGRID_API_KEY?: string;
+  RESEND_API_KEY?: string;
+}
+
+const DELIVERY_STATUSES: DeliveryStatus[] = ['pending', 'delivering', 'delivered', 'dead'];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * The submission named by site, form and id, or an error response
+ */
+async function findSubmission(
+  env: Env,
+  site: string | null,
+  formId: string | null,
+  id: string | null
+): Promise<StoredSubmission | Response> {
+  if (!site || !formId || !id) {
+    return Response.json({ ok: false, error: 'Missing site, form or id parameter' }, { status: 400 });
+  }
+  const submission = isValidFormId(formId) && isValidSubmissionId(id)
+    ? await getSubmission(env.BLOXX_SITES, site, formId, id)
+    : null;
+  if (!submission) {
+    return Response.json({ ok: false, error: 'Submission not found' }, { status: 404 });
+  }
+  return submission;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+  const site = url.searchParams.get('site');
+  const formId = url.searchParams.get('form');
+  const id = url.searchParams.get('id');
+
+  if (!site) {
+    return Response.json({ ok: false, error: 'Missing site parameter' }, { status: 400 });
+  }
+
+  if (id) {
+    const found = await findSubmission(env, site, formId, id);
+    if (found instanceof Response) return found;
+    return Response.json({ ok: true, submission: found });
+  }
+
+  if (formId && !isValidFormId(formId)) {
+    return Response.json({ ok: false, error: 'Invalid form' }, { status: 400 });
+  }
+  const status = url.searchParams.get('status');
+  if (status && !DELIVERY_STATUSES.includes(status as DeliveryStatus)) {
+    return Response.json({ ok: false, error: `status must be one of: ${DELIVERY_STATUSES.join(', ')}` }, { status: 400 });
+  }
+  const read = url.searchParams.get('read');
+
+  const submissions = await listSubmissions(env.BLOXX_SITES, site, {
+    formId: formId || undefined,
+    q: url.searchParams.get('q') || undefined,
+    read: read === 'true' ? true : read === 'false' ? false : undefined,
+    tag: url.searchParams.get('tag') || undefined,
+    status: (status as DeliveryStatus) || undefined,
+  });
+
+  if (url.searchParams.get('format') === 'csv') {
+    const filename = `${site}-${formId || 'forms'}-submissions.csv`;
+    return new Response(submissionsToCsv(submissions), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  }
+
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, MAX_LIMIT);
+  const offset = Math.max(parseInt(url.searchParams.get('offset') || '', 10) || 0, 0);
+
+  return Response.json({
+    ok: true,
+    submissions: submissions.slice(offset, offset + limit),
+    total: submissions.length,
+    unread: submissions.filter(s => !s.read).length,
+  });
+};
+
+export const onRequestPut: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  const url = new URL(request.url);
+
+  const found = await findSubmission(env, url.searchParams.get('site'), url.searchParams.get('form'), url.searchParams.get('id'));
+  if (found instanceof Response) return found;
+
+  let body: { read?: unknown; tags?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (body.read !== undefined && typeof body.read !== 'boolean') {
+    return Response.json({ ok: false, error: 'read must be true or false' }, { status: 400 });
+  }
+  const tags = body.tags !== undefined ? normalizeTags(body.tags) : undefined;
+  if (tags === null) {
+    return Response.json({ ok: false, error: 'tags must be a list of up to 20 short strings' }, { status: 400 });
+  }
+
+  const submission = await updateSubmission(env.BLOXX_SITES, found.site, found.formId, found.id, {
+    read: body.read as boolean | undefined,
+    tags,
+  });
+  if (!submission) {
+    return Response.json({ ok: false, error: 'Submission not found' }, { status: 404 });
+  }
+  return Response.json({ ok: true, submission });
+};
+
+/**
+ * Replay dead-lettered deliveries with the action config they were submitted with
+ */
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  let body: { site?: string; form?: string; id?: string; all?: boolean };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (body.all === true) {
+    if (!body.site) {
+      return Response.json({ ok: false, error: 'Missing site' }, { status: 400 });
+    }
+    if (body.form && !isValidFormId(body.form)) {
+      return Response.json({ ok: false, error: 'Invalid form' }, { status: 400 });
+    }
+    const dead = await listSubmissions(env.BLOXX_SITES, body.site, { formId: body.form, status: 'dead' });
+    for (const submission of dead) {
+      await replaySubmission(env.BLOXX_SITES, submission.site, submission.formId, submission.id);
+    }
+    // Queued; the cron Worker delivers them on its next tick
+    return Response.json({ ok: true, replayed: dead.length });
+  }
+
+  const found = await findSubmission(env, body.site || null, body.form || null, body.id || null);
+  if (found instanceof Response) return found;
+  if (found.delivery.status !== 'dead') {
+    return Response.json({ ok: false, error: `Only dead-lettered submissions can be replayed (this one is ${found.delivery.status})` }, { status: 409 });
+  }
+
+  await replaySubmission(env.BLOXX_SITES, found.site, found.formId, found.id);
+  const submission = await attemptDelivery(env.BLOXX_SITES, env, found.site, found.formId, found.id)
+    || await getSubmission(env.BLOXX_SITES, found.site, found.formId, found.id);
+  return Response.json({ ok: true, submission });
+};
+
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+
+  const found = await findSubmission(env, url.searchParams.get('site'), url.searchParams.get('form'), url.searchParams.get('id'));
+  if (found instanceof Response) return found;
+
+  await deleteSubmission(env.BLOXX_SITES, found);
+  return Response.json({ ok: true });
+};
@@ -2,16 +2,30 @@
  * POST /api/forms — Handle form submissions
  *
  * Routes form data to configured action (email, webhook, database)
- * based on the action configuration stored with the form component.
+ * based on the form's stored action configuration (/api/form-configs).
+ * The body only supplies field values; honeypot, rate limit, validation,
+ * destination and response all come from the stored config, and forms
+ * without one are rejected.
+ *
+ * Until FORM_BODY_CONFIGS_UNTIL (an ISO date, see wrangler.toml), forms
+ * without a stored config may still send their actionConfig in the body, as
+ * published pages did before configs were stored. It is restricted first
+ * (restrictLegacyConfig): such submissions only ever go to the site's
+ * contact email, and sites without one are rejected.
+ *
+ * Every accepted submission is stored in the site's inbox
+ * (functions/lib/form-inbox.ts, /api/form-submissions) and queued for
+ * delivery (functions/lib/form-delivery.ts). The visitor gets the success
+ * response as soon as it is queued; the first attempt runs after the
+ * response, and failed ones are retried by the cron Worker. An optional
+ * idempotencyKey in the body makes a repeated submit (double click, retry
+ * on a flaky connection) return the first one's response.
  */
 
-import {
-  type ActionConfig,
-  type ActionType,
-  validateForm,
-  replaceTemplateVariables,
-  buildEmailBody,
-} from '../../lib/action-components';
+import { type ActionConfig, restrictLegacyConfig, validateForm } from '../../lib/action-components';
+import { attemptDelivery, enqueueSubmission, getFormConfig } from '../lib/form-delivery';
+import { isValidFormId, isValidIdempotencyKey } from '../lib/form-inbox';
+import { loadSiteSettings } from '../lib/live-site';
 
 interface Env {
   BLOXX_SITES: R2Bucket;
@@ -19,15 +33,17 @@ interface Env {
   SENDGRID_API_KEY?: string;
   RESEND_API_KEY?: string;
   FORM_SUBMISSIONS?: KVNamespace; // For rate limiting
+  FORM_BODY_CONFIGS_UNTIL?: string;
 }
 
 interface FormSubmission {
   siteId: string;
   formId: string;
-  actionConfig: ActionConfig;
   formData: Record<string, any>;
   pageUrl?: string;
-  globalSettings?: Record<string, any>;
+  idempotencyKey?: string;
+  /** Only read for forms without a stored config, during the transition */
+  actionConfig?: unknown;
 }
 
 interface SubmissionResult {
@@ -88,287 +104,28 @@ async function checkRateLimit(
 }
 
 /**
- * Honeypot check
- */
-function checkHoneypot(formData: Record<string, any>, config: ActionConfig): boolean {
-  if (!config.honeypot?.enabled) return true;
-
-  const honeypotField = config.honeypot.fieldName || '_hp';
-  return !formData[honeypotField] || formData[honeypotField] === '';
-}
-
-/**
- * Send email via SendGrid
- */
-async function sendEmailSendGrid(
-  apiKey: string,
-  to: string,
-  from: string,
-  subject: string,
-  body: string,
-  replyTo?: string
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        personalizations: [{ to: [{ email: to }] }],
-        from: { email: from },
-        reply_to: replyTo ? { email: replyTo } : undefined,
-        subject,
-        content: [{ type: 'text/plain', value: body }],
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      return { success: false, error };
-    }
-
-    return { success: true };
-  } catch (err: any) {
-    return { success: false, error: err.message };
-  }
-}
-
-/**
- * Send email via Resend
- */
-async function sendEmailResend(
-  apiKey: string,
-  to: string,
-  from: string,
-  subject: string,
-  body: string,
-  replyTo?: string
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const response = await fetch('https://api.resend.com/emails', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        from,
-        to: [to],
-        reply_to: replyTo,
-        subject,
-        text: body,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      return { success: false, error };
-    }
-
-    return { success: true };
-  } catch (err: any) {
-    return { success: false, error: err.message };
-  }
-}
-
-/**
- * Handle email action
+ * The body config of a form without a stored one, restricted, while the
+ * transition lasts; null if it can't be used
  */
-async function handleEmailAction(
-  env: Env,
-  config: ActionConfig,
-  formData: Record<string, any>,
-  globalSettings?: Record<string, any>
-): Promise<{ success: boolean; error?: string }> {
-  const emailConfig = config.emailConfig;
-  if (!emailConfig) {
-    return { success: false, error: 'Email config missing' };
-  }
-
-  const to = replaceTemplateVariables(emailConfig.to, formData, globalSettings);
-  const subject = replaceTemplateVariables(emailConfig.subject, formData, globalSettings);
-  const replyTo = emailConfig.replyTo
-    ? replaceTemplateVariables(emailConfig.replyTo, formData, globalSettings)
-    : undefined;
-
-  const body = buildEmailBody(formData);
+async function legacyConfig(env: Env, siteId: string, value: unknown): Promise<ActionConfig | null> {
+  const until = env.FORM_BODY_CONFIGS_UNTIL ? Date.parse(env.FORM_BODY_CONFIGS_UNTIL) : NaN;
+  if (value === undefined || !(Date.now() < until)) return null;
 
-  // Determine email provider
-  const provider = globalSettings?.integrations?.emailProvider || 'sendgrid';
-  const fromEmail = globalSettings?.integrations?.emailFromAddress || 'noreply@bloxx.site';
-
-  if (provider === 'resend' && env.RESEND_API_KEY) {
-    return sendEmailResend(env.RESEND_API_KEY, to, fromEmail, subject, body, replyTo);
-  }
-
-  if (env.SENDGRID_API_KEY) {
-    return sendEmailSendGrid(env.SENDGRID_API_KEY, to, fromEmail, subject, body, replyTo);
-  }
+  const config = restrictLegacyConfig(value);
+  if (typeof config === 'string') return null;
 
-  return { success: false, error: 'No email provider configured' };
+  const settings = await loadSiteSettings(env.BLOXX_SITES, siteId);
+  return settings.business?.email ? config : null;
 }
 
 /**
- * Handle webhook action
- */
-async function handleWebhookAction(
-  config: ActionConfig,
-  formData: Record<string, any>
-): Promise<{ success: boolean; error?: string }> {
-  const webhookConfig = config.webhookConfig;
-  if (!webhookConfig?.url) {
-    return { success: false, error: 'Webhook URL missing' };
-  }
-
-  // Filter fields if not '*'
-  let payload = formData;
-  if (webhookConfig.includeFields !== '*') {
-    payload = {};
-    for (const field of webhookConfig.includeFields) {
-      if (formData[field] !== undefined) {
-        payload[field] = formData[field];
-      }
-    }
-  }
-
-  // Remove internal fields
-  const cleanPayload = Object.fromEntries(
-    Object.entries(payload).filter(([key]) => !key.startsWith('_'))
-  );
-
-  try {
-    const response = await fetch(webhookConfig.url, {
-      method: webhookConfig.method || 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...webhookConfig.headers,
-      },
-      body: JSON.stringify(cleanPayload),
-    });
-
-    if (!response.ok) {
-      return { success: false, error: `Webhook returned ${response.status}` };
-    }
-
-    return { success: true };
-  } catch (err: any) {
-    return { success: false, error: err.message };
-  }
-}
-
-/**
- * Handle database action (via Xano)
- */
-async function handleDatabaseAction(
-  env: Env,
-  config: ActionConfig,
-  formData: Record<string, any>,
-  globalSettings?: Record<string, any>
-): Promise<{ success: boolean; error?: string }> {
-  const dbConfig = config.databaseConfig;
-  if (!dbConfig?.table) {
-    return { success: false, error: 'Database table not configured' };
-  }
-
-  if (!env.XANO_API_KEY) {
-    return { success: false, error: 'Database not configured' };
-  }
-
-  // Build record from mappings
-  const record: Record<string, any> = {};
-  for (const [column, template] of Object.entries(dbConfig.mappings)) {
-    record[column] = replaceTemplateVariables(template, formData, globalSettings);
-  }
-
-  // Add metadata
-  record._submitted_at = new Date().toISOString();
-
-  try {
-    // Use Xano API to insert record
-    const xanoUrl = `https://xyfa-9qn6-4vhk.n7.xano.io/api:la4i98J3/${dbConfig.table}`;
-    const response = await fetch(xanoUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${env.XANO_API_KEY}`,
-      },
-      body: JSON.stringify(record),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      return { success: false, error };
-    }
-
-    return { success: true };
-  } catch (err: any) {
-    return { success: false, error: err.message };
-  }
-}
-
-/**
- * Handle Zapier action
+ * Honeypot check
  */
-async function handleZapierAction(
-  config: ActionConfig,
-  formData: Record<string, any>
-): Promise<{ success: boolean; error?: string }> {
-  const zapierConfig = config.zapierConfig;
-  if (!zapierConfig?.webhookUrl) {
-    return { success: false, error: 'Zapier webhook URL missing' };
-  }
-
-  // Filter fields if not '*'
-  let payload = formData;
-  if (zapierConfig.includeFields !== '*') {
-    payload = {};
-    for (const field of zapierConfig.includeFields) {
-      if (formData[field] !== undefined) {
-        payload[field] = formData[field];
-      }
-    }
-  }
-
-  try {
-    const response = await fetch(zapierConfig.webhookUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      return { success: false, error: `Zapier webhook returned ${response.status}` };
-    }
-
-    return { success: true };
-  } catch (err: any) {
-    return { success: false, error: err.message };
-  }
-}
+function checkHoneypot(formData: Record<string, any>, config: ActionConfig): boolean {
+  if (!config.honeypot?.enabled) return true;
 
-/**
- * Process form submission based on action type
- */
-async function processSubmission(
-  env: Env,
-  actionConfig: ActionConfig,
-  formData: Record<string, any>,
-  globalSettings?: Record<string, any>
-): Promise<{ success: boolean; error?: string }> {
-  switch (actionConfig.action) {
-    case 'email':
-      return handleEmailAction(env, actionConfig, formData, globalSettings);
-    case 'webhook':
-      return handleWebhookAction(actionConfig, formData);
-    case 'database':
-      return handleDatabaseAction(env, actionConfig, formData, globalSettings);
-    case 'zapier':
-      return handleZapierAction(actionConfig, formData);
-    default:
-      return { success: false, error: `Unknown action type: ${actionConfig.action}` };
-  }
+  const honeypotField = config.honeypot.fieldName || '_hp';
+  return !formData[honeypotField] || formData[honeypotField] === '';
 }
 
 export const onRequestPost: PagesFunction<Env> = async (context) => {
@@ -384,11 +141,26 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     return Response.json({ success: false, message: 'Invalid request' }, { status: 400 });
   }
 
-  const { siteId, formId, actionConfig, formData, pageUrl, globalSettings } = body;
+  const { siteId, formId, formData, pageUrl, idempotencyKey } = body;
 
-  if (!siteId || !formId || !actionConfig || !formData) {
+  if (!siteId || !formId || !formData) {
     return Response.json({ success: false, message: 'Missing required fields' }, { status: 400 });
   }
+  if (!/^[a-z0-9][a-z0-9_-]*$/i.test(siteId) || !isValidFormId(formId)) {
+    return Response.json({ success: false, message: 'Invalid site or form' }, { status: 400 });
+  }
+  if (idempotencyKey !== undefined && (typeof idempotencyKey !== 'string' || !isValidIdempotencyKey(idempotencyKey))) {
+    return Response.json({ success: false, message: 'Invalid idempotency key' }, { status: 400 });
+  }
+
+  // Only forms the site has configured accept submissions, and for now
+  // forms that send a config the site's contact email can stand in for
+  const storedConfig = await getFormConfig(env.BLOXX_SITES, siteId, formId);
+  const bodyConfig = storedConfig ? null : await legacyConfig(env, siteId, body.actionConfig);
+  const actionConfig = storedConfig || bodyConfig;
+  if (!actionConfig) {
+    return Response.json({ success: false, message: 'Invalid site or form' }, { status: 404 });
+  }
 
   // Honeypot check
   if (!checkHoneypot(formData, actionConfig)) {
@@ -420,17 +192,35 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     _submittedAt: new Date().toISOString(),
   };
 
-  // Process the submission
-  const result = await processSubmission(env, actionConfig, enrichedFormData, globalSettings);
-
-  if (!result.success) {
-    console.error('Form submission failed:', result.error);
+  let queued;
+  try {
+    queued = await enqueueSubmission(env.BLOXX_SITES, {
+      site: siteId,
+      formId,
+      data: enrichedFormData,
+      pageUrl,
+      action: actionConfig.action,
+      idempotencyKey,
+      ...(bodyConfig ? { legacyConfig: bodyConfig } : {}),
+    });
+  } catch (err: any) {
+    console.error('Queueing form submission failed:', err.message);
     return Response.json({
       success: false,
       message: actionConfig.onError?.message || 'Something went wrong. Please try again.',
     }, { status: 500 });
   }
 
+  // First attempt right away, without keeping the visitor waiting
+  if (!queued.duplicate) {
+    const { submission } = queued;
+    context.waitUntil(
+      attemptDelivery(env.BLOXX_SITES, env, submission.site, submission.formId, submission.id).catch(err => {
+        console.error('Form delivery attempt failed:', err.message);
+      })
+    );
+  }
+
   // Success response
   const response: SubmissionResult = {
     success: true,
@@ -1,14 +1,26 @@
 /**
  * POST /api/images — Upload an image to R2
- * Accepts multipart/form-data with fields: site, file
- * Returns: { ok: true, url: string, key: string }
+ * Accepts multipart/form-data with fields: site, file, and optionally folder, alt, caption
+ * Returns: { ok: true, url: string, key: string, width?, height?, variants: number[], duplicate: boolean }
  *
  * Stores at: {site}/assets/images/{timestamp}-{filename}
  * Serves via: /preview/{site}/_asset/images/{timestamp}-{filename}
+ *
+ * PNG, JPEG, WebP and AVIF uploads also get AVIF/WebP copies at standard
+ * widths (functions/lib/image-variants.ts); saving a page adds them to its
+ * <img> tags as a srcset.
+ *
+ * Uploads join the media library (/api/media). A file whose content is
+ * already in the library isn't stored again: the response names the
+ * existing image, with `duplicate: true`.
  */
 
+import { getImageAsset, storeImage } from '../lib/image-variants';
+import { contentHash, findDuplicate, parseMediaChanges, recordHash, updateMediaRecord } from '../lib/media-library';
+
 interface Env {
   BLOXX_SITES: R2Bucket;
+  IMAGES?: ImagesBinding;
 }
 
 const ALLOWED_TYPES = new Set([
@@ -53,21 +65,55 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     );
   }
 
+  const metadata = parseMediaChanges({
+    folder: formData.get('folder') ?? undefined,
+    alt: formData.get('alt') ?? undefined,
+    caption: formData.get('caption') ?? undefined,
+  });
+  if (typeof metadata === 'string') {
+    return Response.json({ ok: false, error: metadata }, { status: 400 });
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const hash = await contentHash(bytes);
+  const existing = await findDuplicate(env.BLOXX_SITES, site, hash);
+  if (existing) {
+    const asset = await getImageAsset(env.BLOXX_SITES, site, existing);
+    return Response.json({
+      ok: true,
+      url: `/preview/${site}/_asset/images/${existing}`,
+      key: `${site}/assets/images/${existing}`,
+      width: asset?.width,
+      height: asset?.height,
+      variants: asset?.variants || [],
+      duplicate: true,
+    });
+  }
+
   // Sanitize filename
   const safeName = file.name
     .replace(/[^a-zA-Z0-9._-]/g, '-')
     .replace(/-+/g, '-')
     .toLowerCase();
   const timestamp = Date.now();
-  const key = `${site}/assets/images/${timestamp}-${safeName}`;
-
-  await env.BLOXX_SITES.put(key, file.stream(), {
-    httpMetadata: { contentType: file.type },
+  const name = `${timestamp}-${safeName}`;
+  const key = `${site}/assets/images/${name}`;
+
+  const asset = await storeImage(env, site, name, bytes, file.type);
+  await updateMediaRecord(env.BLOXX_SITES, site, name, { ...metadata, hash });
+  await recordHash(env.BLOXX_SITES, site, hash, name);
+
+  const url = `/preview/${site}/_asset/images/${name}`;
+
+  return Response.json({
+    ok: true,
+    url,
+    key,
+    width: asset.width,
+    height: asset.height,
+    variants: asset.variants,
+    duplicate: false,
   });
-
-  const url = `/preview/${site}/_asset/images/${timestamp}-${safeName}`;
-
-  return Response.json({ ok: true, url, key });
 };
 
 /**
@@ -82,7 +128,8 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
   }
 
   const prefix = `${site}/assets/images/`;
-  const listed = await context.env.BLOXX_SITES.list({ prefix });
+  // The delimiter leaves out the _variants/ folder
+  const listed = await context.env.BLOXX_SITES.list({ prefix, delimiter: '/' });
 
   const images = listed.objects.map((obj) => ({
     key: obj.key,
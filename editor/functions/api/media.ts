@@ -0,0 +1,174 @@
+/**
+ * /api/media — The site's media library (see functions/lib/media-library.ts)
+ *
+ * GET    /api/media?site={site}[&folder=a/b][&tag=x][&q=text][&unused=true]
+ *          → { ok, assets: (MediaAsset & { usedBy })[], folders, tags }   (newest first)
+ * GET    /api/media?site={site}&name={name}
+ *          → { ok, asset }
+ * PUT    /api/media?site={site}&name={name}
+ *          Body: { title?, folder?, tags?, alt?, caption? }
+ *          → { ok, asset }
+ * DELETE /api/media?site={site}&name={name}[&force=true]
+ *          → { ok, usedBy }   (409 with usedBy while pages or items still show it, unless forced)
+ * POST   /api/media
+ *          Body: { site, action: "reindex" }
+ *          → { ok, referenced }   (rebuilds the usage index from every page and item)
+ *
+ * Uploads go through /api/images. A folder filter includes its subfolders.
+ */
+
+import {
+  deleteMediaAsset,
+  getMediaAsset,
+  getMediaUsage,
+  isValidMediaName,
+  listMediaAssets,
+  parseMediaChanges,
+  updateMediaRecord,
+  type MediaAsset,
+  type MediaReferrer,
+} from '../lib/media-library';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+}
+
+type LibraryAsset = MediaAsset & { usedBy: MediaReferrer[] };
+
+/**
+ * The named image with its metadata and usage, or an error response
+ */
+async function findAsset(env: Env, site: string | null, name: string | null): Promise<LibraryAsset | Response> {
+  if (!site || !name) {
+    return Response.json({ ok: false, error: 'Missing site or name parameter' }, { status: 400 });
+  }
+  const asset = isValidMediaName(name) ? await getMediaAsset(env.BLOXX_SITES, site, name) : null;
+  if (!asset) {
+    return Response.json({ ok: false, error: 'Image not found' }, { status: 404 });
+  }
+  const usage = await getMediaUsage(env.BLOXX_SITES, site);
+  return { ...asset, usedBy: usage.get(name) || [] };
+}
+
+function matchesFilter(asset: LibraryAsset, params: URLSearchParams): boolean {
+  const folder = params.get('folder');
+  if (folder) {
+    const assetFolder = asset.folder || '';
+    if (assetFolder !== folder && !assetFolder.startsWith(`${folder}/`)) return false;
+  }
+  const tag = params.get('tag');
+  if (tag && !asset.tags.includes(tag.toLowerCase())) return false;
+  if (params.get('unused') === 'true' && asset.usedBy.length > 0) return false;
+  const q = params.get('q')?.toLowerCase();
+  if (q) {
+    const text = [asset.name, asset.title, asset.alt, asset.caption, ...asset.tags].join('\n').toLowerCase();
+    if (!text.includes(q)) return false;
+  }
+  return true;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+  const site = url.searchParams.get('site');
+  const name = url.searchParams.get('name');
+
+  if (!site) {
+    return Response.json({ ok: false, error: 'Missing site parameter' }, { status: 400 });
+  }
+
+  if (name) {
+    const found = await findAsset(env, site, name);
+    if (found instanceof Response) return found;
+    return Response.json({ ok: true, asset: found });
+  }
+
+  const [assets, usage] = await Promise.all([
+    listMediaAssets(env.BLOXX_SITES, site),
+    getMediaUsage(env.BLOXX_SITES, site),
+  ]);
+  const withUsage: LibraryAsset[] = assets.map(asset => ({ ...asset, usedBy: usage.get(asset.name) || [] }));
+
+  // Folders and tags of the whole library, for the filter menus
+  const folders = new Set<string>();
+  const tags = new Set<string>();
+  for (const asset of withUsage) {
+    const parts = (asset.folder || '').split('/').filter(Boolean);
+    parts.forEach((_, i) => folders.add(parts.slice(0, i + 1).join('/')));
+    asset.tags.forEach(tag => tags.add(tag));
+  }
+
+  return Response.json({
+    ok: true,
+    assets: withUsage.filter(asset => matchesFilter(asset, url.searchParams)),
+    folders: Array.from(folders).sort(),
+    tags: Array.from(tags).sort(),
+  });
+};
+
+export const onRequestPut: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  const url = new URL(request.url);
+  const site = url.searchParams.get('site');
+
+  const found = await findAsset(env, site, url.searchParams.get('name'));
+  if (found instanceof Response) return found;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const changes = parseMediaChanges(body);
+  if (typeof changes === 'string') {
+    return Response.json({ ok: false, error: changes }, { status: 400 });
+  }
+
+  const record = await updateMediaRecord(env.BLOXX_SITES, site!, found.name, changes);
+  return Response.json({ ok: true, asset: { ...found, ...record } });
+};
+
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+  const site = url.searchParams.get('site');
+
+  const found = await findAsset(env, site, url.searchParams.get('name'));
+  if (found instanceof Response) return found;
+
+  // The index may have missed a page or item written another way; check afresh
+  const usedBy = (await getMediaUsage(env.BLOXX_SITES, site!, { rebuild: true })).get(found.name) || [];
+  if (usedBy.length > 0 && url.searchParams.get('force') !== 'true') {
+    return Response.json({
+      ok: false,
+      error: `Image is used by ${usedBy.length} page(s) or item(s)`,
+      usedBy,
+    }, { status: 409 });
+  }
+
+  await deleteMediaAsset(env.BLOXX_SITES, site!, found.name);
+  return Response.json({ ok: true, usedBy });
+};
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  let body: { site?: string; action?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!body.site) {
+    return Response.json({ ok: false, error: 'Missing site' }, { status: 400 });
+  }
+  if (body.action !== 'reindex') {
+    return Response.json({ ok: false, error: 'Unknown action' }, { status: 400 });
+  }
+
+  const usage = await getMediaUsage(env.BLOXX_SITES, body.site, { rebuild: true });
+  return Response.json({ ok: true, referenced: usage.size });
+};
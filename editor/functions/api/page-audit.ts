@@ -2,9 +2,11 @@
  * GET /api/pages/:page/audit — Audit a page for SEO and accessibility
  *
  * Analyzes the page content and returns a score with detailed issues and passed checks.
+ * The site's custom audit rules (settings.audit) are scored with the built-in ones.
  */
 
 import { auditPage, getGrade, getScoreColor } from '../../lib/page-audit';
+import { getAuditRuleSettings } from '../lib/quality-gate';
 
 interface Env {
   BLOXX_SITES: R2Bucket;
@@ -33,7 +35,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
   const html = await object.text();
 
   // Run audit
-  const result = auditPage(html, pageType);
+  const result = auditPage(html, pageType, await getAuditRuleSettings(env.BLOXX_SITES, site));
 
   // Add grade and color for UI
   return Response.json({
@@ -45,7 +47,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 };
 
 /**
- * POST /api/pages/audit — Audit provided HTML content (without saving)
+ * POST /api/pages/audit — Audit provided HTML content (without saving), with the built-in rules only
  */
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   let body: { html: string; pageType?: string };
@@ -0,0 +1,176 @@
+/**
+ * /api/page-history — Revision history for draft pages
+ *
+ * Every /api/save writes an immutable snapshot to {site}/history/{page}/{revision}.json
+ *
+ * GET  /api/page-history?site={site}&page={page}[&limit=50&cursor={revision}]
+ *        → { ok, revisions: RevisionSummary[], cursor? }   (newest first)
+ * GET  /api/page-history?site={site}&page={page}&revision={id}
+ *        → { ok, revision: PageRevision }
+ * GET  /api/page-history?site={site}&page={page}&from={id}&to={id|current}
+ *        → { ok, from, to, diff: DiffLine[], added, removed }
+ * POST /api/page-history
+ *        Body: { site, page, revision, etag? }
+ *        Restores a revision as the current draft (409 on etag conflict)
+ */
+
+import {
+  listRevisions,
+  getRevision,
+  writeRevision,
+  diffLines,
+} from '../lib/page-history';
+import { requestAuthor } from '../lib/auth';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+  COLLAB_ROOM?: DurableObjectNamespace;
+}
+
+/**
+ * Load HTML for a diff side: a revision id, or "current" for the live draft
+ */
+async function loadSide(env: Env, site: string, page: string, ref: string): Promise<string | null> {
+  if (ref === 'current') {
+    const obj = await env.BLOXX_SITES.get(`${site}/drafts/${page}.html`);
+    return obj ? obj.text() : null;
+  }
+  const revision = await getRevision(env.BLOXX_SITES, site, page, ref);
+  return revision ? revision.html : null;
+}
+
+/**
+ * GET /api/page-history — List, fetch or diff revisions
+ */
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+
+  const site = url.searchParams.get('site');
+  const page = url.searchParams.get('page');
+
+  if (!site || !page) {
+    return Response.json({ ok: false, error: 'Missing site or page parameter' }, { status: 400 });
+  }
+
+  try {
+    // Diff two revisions
+    const from = url.searchParams.get('from');
+    const to = url.searchParams.get('to');
+    if (from || to) {
+      if (!from || !to) {
+        return Response.json({ ok: false, error: 'Diff requires both from and to' }, { status: 400 });
+      }
+
+      const [oldHtml, newHtml] = await Promise.all([
+        loadSide(env, site, page, from),
+        loadSide(env, site, page, to),
+      ]);
+      if (oldHtml === null || newHtml === null) {
+        return Response.json({ ok: false, error: 'Revision not found' }, { status: 404 });
+      }
+
+      const diff = diffLines(oldHtml, newHtml);
+      return Response.json({
+        ok: true,
+        from,
+        to,
+        diff,
+        added: diff.filter(l => l.type === 'add').length,
+        removed: diff.filter(l => l.type === 'remove').length,
+      });
+    }
+
+    // Single revision
+    const revisionId = url.searchParams.get('revision');
+    if (revisionId) {
+      const revision = await getRevision(env.BLOXX_SITES, site, page, revisionId);
+      if (!revision) {
+        return Response.json({ ok: false, error: 'Revision not found' }, { status: 404 });
+      }
+      return Response.json({ ok: true, revision });
+    }
+
+    // List revisions
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50', 10) || 50, 200);
+    const cursor = url.searchParams.get('cursor') || undefined;
+    const result = await listRevisions(env.BLOXX_SITES, site, page, { limit, cursor });
+
+    return Response.json({ ok: true, ...result });
+  } catch (err: any) {
+    return Response.json({ ok: false, error: err.message }, { status: 500 });
+  }
+};
+
+/**
+ * POST /api/page-history — Restore a revision as the current draft
+ */
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  let body: { site: string; page: string; revision: string; etag?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { site, page, revision: revisionId, etag } = body;
+  if (!site || !page || !revisionId) {
+    return Response.json({ ok: false, error: 'Missing site, page, or revision' }, { status: 400 });
+  }
+
+  const key = `${site}/drafts/${page}.html`;
+
+  // Conflict detection (same contract as /api/save)
+  if (etag) {
+    const existing = await env.BLOXX_SITES.head(key);
+    if (existing && existing.httpEtag !== etag) {
+      return Response.json(
+        { ok: false, error: 'conflict', serverEtag: existing.httpEtag },
+        { status: 409 }
+      );
+    }
+  }
+
+  const source = await getRevision(env.BLOXX_SITES, site, page, revisionId);
+  if (!source) {
+    return Response.json({ ok: false, error: 'Revision not found' }, { status: 404 });
+  }
+
+  const putResult = await env.BLOXX_SITES.put(key, source.html, {
+    httpMetadata: { contentType: 'text/html' },
+  });
+
+  // The restore itself is a new revision, so history stays append-only
+  const restored = await writeRevision(env.BLOXX_SITES, {
+    site,
+    page,
+    author: requestAuthor(context.data),
+    etag: putResult.httpEtag,
+    enhanced: false,
+    changes: [`Restored revision ${source.id}`],
+    restoredFrom: source.id,
+    html: source.html,
+  });
+
+  // Broadcast to collaborators (best-effort)
+  try {
+    if (env.COLLAB_ROOM) {
+      const roomId = env.COLLAB_ROOM.idFromName(`${site}/${page}`);
+      const room = env.COLLAB_ROOM.get(roomId);
+      await room.fetch(new Request('https://internal/broadcast', {
+        method: 'POST',
+        body: JSON.stringify({ type: 'bloxx:remote-save', site, page, etag: putResult.httpEtag }),
+      }));
+    }
+  } catch {}
+
+  return Response.json({
+    ok: true,
+    etag: putResult.httpEtag,
+    revision: restored.id,
+    restoredFrom: source.id,
+    html: source.html,
+  });
+};
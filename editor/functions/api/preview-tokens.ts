@@ -0,0 +1,130 @@
+/**
+ * /api/preview-tokens — Shareable preview links for unpublished content
+ * (see lib/preview-tokens.ts and functions/lib/preview-tokens.ts)
+ *
+ * GET    /api/preview-tokens?site={site}
+ *          → { ok, tokens: PreviewTokenRecord[] }   (unexpired, newest first)
+ * POST   /api/preview-tokens
+ *          Body: { site, page } or { site, collection, item }, plus ttlHours?
+ *          → { ok, token, url, record }
+ * DELETE /api/preview-tokens?site={site}&id={id}
+ *          → { ok, record }                         (revokes the token)
+ *
+ * The link opens the page or item on the live site (own domain or
+ * /live/{site}) with ?preview={token}, whatever its status, under a
+ * "preview" banner. Item links need the "content" permission; page links "edit".
+ */
+
+import { roleAllows } from '../../lib/auth';
+import { requestAuthor, type AuthData } from '../lib/auth';
+import {
+  DEFAULT_PREVIEW_TTL_HOURS,
+  MAX_PREVIEW_TTL_HOURS,
+  getPreviewPath,
+  type PreviewTarget,
+} from '../../lib/preview-tokens';
+import {
+  createPreviewToken,
+  getPreviewToken,
+  isValidPreviewTokenId,
+  listPreviewTokens,
+  revokePreviewToken,
+} from '../lib/preview-tokens';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+  AUTH_SECRET?: string;
+  SITES_DOMAIN?: string;
+}
+
+function permissionFor(target: PreviewTarget) {
+  return target.type === 'page' ? 'edit' : 'content';
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const site = new URL(context.request.url).searchParams.get('site');
+
+  if (!site) {
+    return Response.json({ ok: false, error: 'Missing site parameter' }, { status: 400 });
+  }
+
+  return Response.json({ ok: true, tokens: await listPreviewTokens(env.BLOXX_SITES, site) });
+};
+
+export const onRequestPost: PagesFunction<Env, any, AuthData> = async (context) => {
+  const { env, request } = context;
+
+  let body: { site: string; page?: string; collection?: string; item?: string; ttlHours?: number };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { site, page, collection, item } = body;
+  if (!site || (!page && !(collection && item))) {
+    return Response.json({ ok: false, error: 'Missing site, and page or collection and item' }, { status: 400 });
+  }
+
+  const ttlHours = body.ttlHours ?? DEFAULT_PREVIEW_TTL_HOURS;
+  if (typeof ttlHours !== 'number' || !(ttlHours > 0) || ttlHours > MAX_PREVIEW_TTL_HOURS) {
+    return Response.json({ ok: false, error: `ttlHours must be between 0 and ${MAX_PREVIEW_TTL_HOURS}` }, { status: 400 });
+  }
+
+  const target: PreviewTarget = page
+    ? { type: 'page', page: page.replace(/\.html$/, '') }
+    : { type: 'item', collection: collection!, item: item! };
+
+  if (!roleAllows(context.data.role, permissionFor(target))) {
+    return Response.json({ ok: false, error: `Your role (${context.data.role}) cannot share ${target.type} previews` }, { status: 403 });
+  }
+  if (!env.AUTH_SECRET) {
+    return Response.json({ ok: false, error: 'Authentication is not configured (AUTH_SECRET)' }, { status: 500 });
+  }
+
+  const key = target.type === 'page'
+    ? `${site}/drafts/${target.page}.html`
+    : `${site}/collections/${target.collection}/items/${target.item}.json`;
+  if (target.type === 'page' && target.page.endsWith('-template')) {
+    return Response.json({ ok: false, error: 'Templates are previewed through their items' }, { status: 400 });
+  }
+  if (!(await env.BLOXX_SITES.head(key))) {
+    return Response.json({ ok: false, error: target.type === 'page' ? 'Page not found' : 'Item not found' }, { status: 404 });
+  }
+
+  const { token, record } = await createPreviewToken(env.BLOXX_SITES, env.AUTH_SECRET, {
+    site,
+    target,
+    ttlHours,
+    createdBy: requestAuthor(context.data),
+  });
+
+  const origin = env.SITES_DOMAIN ? `https://${site}.${env.SITES_DOMAIN}` : `${new URL(request.url).origin}/live/${site}`;
+  return Response.json({ ok: true, token, url: `${origin}${getPreviewPath(target, token)}`, record });
+};
+
+export const onRequestDelete: PagesFunction<Env, any, AuthData> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+  const site = url.searchParams.get('site');
+  const id = url.searchParams.get('id');
+
+  if (!site || !id) {
+    return Response.json({ ok: false, error: 'Missing site or id parameter' }, { status: 400 });
+  }
+  if (!isValidPreviewTokenId(id)) {
+    return Response.json({ ok: false, error: 'Preview token not found' }, { status: 404 });
+  }
+
+  const existing = await getPreviewToken(env.BLOXX_SITES, site, id);
+  if (!existing) {
+    return Response.json({ ok: false, error: 'Preview token not found' }, { status: 404 });
+  }
+  if (!roleAllows(context.data.role, permissionFor(existing.target))) {
+    return Response.json({ ok: false, error: `Your role (${context.data.role}) cannot revoke ${existing.target.type} previews` }, { status: 403 });
+  }
+
+  const record = await revokePreviewToken(env.BLOXX_SITES, site, id);
+  return Response.json({ ok: true, record: record || existing });
+};
@@ -1,14 +1,18 @@
 /**
  * POST /api/save — Save edited page HTML to R2
- * Body: { site: string, page: string, html: string, etag?: string }
- * Returns: { ok: true, etag: string, enhanced: boolean } or { ok: false, error: string }
+ * Body: { site: string, page: string, html: string, etag?: string, collabSeq?: number }
+ * Returns: { ok: true, etag: string, enhanced: boolean, revision: string } or { ok: false, error: string }
  *
  * On every save:
  * 1. Strip bridge artifacts from HTML
  * 2. Call Claude Haiku with tool_use to extract data + enhance HTML
  * 3. Use schema registry to generate deterministic JSON-LD
- * 4. Write enhanced HTML to R2 with etag conflict detection
- * 5. Return new etag + enhanced HTML for the client to update its preview
+ * 4. Give images that show uploads their size and srcset (see functions/lib/image-variants.ts),
+ *    and their media library alt text and caption where the page has none
+ * 5. Write enhanced HTML to R2 with etag conflict detection
+ * 6. Record an immutable revision snapshot (see /api/page-history) and the
+ *    images the page uses (see functions/lib/media-library.ts)
+ * 7. Return new etag + enhanced HTML for the client to update its preview
  */
 
 import { stripBridge } from '../../lib/html-editor';
@@ -19,6 +23,10 @@ import {
   type SchemaBusinessContext
 } from '../../lib/schema-registry';
 import { parseHTML } from 'linkedom';
+import { writeRevision } from '../lib/page-history';
+import { requestAuthor } from '../lib/auth';
+import { addResponsiveImages } from '../lib/image-variants';
+import { applyMediaDefaults, getMediaRecords, recordMediaUsage } from '../lib/media-library';
 
 interface Env {
   BLOXX_SITES: R2Bucket;
@@ -31,6 +39,8 @@ interface SaveBody {
   page: string;
   html: string;
   etag?: string;
+  /** Last collab sequence number the editor had applied when it took `html` */
+  collabSeq?: number;
 }
 
 interface EnhanceResult {
@@ -195,7 +205,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
   }
 
-  const { site, page, html, etag } = body;
+  const { site, page, html, etag, collabSeq } = body;
   if (!site || !page || !html) {
     return Response.json({ ok: false, error: 'Missing site, page, or html' }, { status: 400 });
   }
@@ -238,19 +248,42 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
   // Apply lazy loading to images (hero/first section excluded)
   cleanHtml = processLazyLoading(cleanHtml);
 
+  // Sizes against layout shift, srcsets for the upload variants
+  cleanHtml = await addResponsiveImages(env.BLOXX_SITES, site, cleanHtml);
+  cleanHtml = applyMediaDefaults(cleanHtml, site, await getMediaRecords(env.BLOXX_SITES, site));
+
   // Write to R2
   const putResult = await env.BLOXX_SITES.put(key, cleanHtml, {
     httpMetadata: { contentType: 'text/html' },
   });
 
-  // Broadcast to collaborators (best-effort)
+  // Snapshot the saved draft, including what the enhancement step changed
+  const revision = await writeRevision(env.BLOXX_SITES, {
+    site,
+    page,
+    author: requestAuthor(context.data),
+    etag: putResult.httpEtag,
+    enhanced,
+    changes,
+    html: cleanHtml,
+  });
+  await recordMediaUsage(env.BLOXX_SITES, site, { type: 'page', page }, cleanHtml);
+
+  // Broadcast to collaborators (best-effort); the room re-applies the ops it
+  // sequenced after collabSeq on top of this save
   try {
     if (env.COLLAB_ROOM) {
       const roomId = env.COLLAB_ROOM.idFromName(`${site}/${page}`);
       const room = env.COLLAB_ROOM.get(roomId);
       await room.fetch(new Request('https://internal/broadcast', {
         method: 'POST',
-        body: JSON.stringify({ type: 'bloxx:remote-save', site, page, etag: putResult.httpEtag }),
+        body: JSON.stringify({
+          type: 'bloxx:remote-save',
+          site,
+          page,
+          etag: putResult.httpEtag,
+          ...(Number.isInteger(collabSeq) && { seq: collabSeq }),
+        }),
       }));
     }
   } catch {}
@@ -261,6 +294,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     enhanced,
     schemaType,
     changes,
+    revision: revision.id,
     // Return enhanced HTML so client can update its preview
     ...(enhanced && { html: cleanHtml }),
   });
@@ -0,0 +1,147 @@
+/**
+ * /api/schedule — Scheduled publishing jobs (see functions/lib/scheduler.ts)
+ *
+ * GET    /api/schedule?site={site}[&status=pending&type=publish-page]
+ *          → { ok, jobs: ScheduledJob[] }   (soonest first)
+ * GET    /api/schedule?site={site}&job={id}
+ *          → { ok, job }                     (includes the job's run log)
+ * POST   /api/schedule
+ *          Body: { site, type, runAt, page?, collection?, item?, override? }
+ *          → { ok, job }
+ * DELETE /api/schedule?site={site}&job={id}
+ *          → { ok, job }                     (cancels a pending job)
+ *
+ * deploy-site and publish-page jobs need the "deploy" permission;
+ * publish-item and unpublish-item need "content".
+ */
+
+import { roleAllows } from '../../lib/auth';
+import { requestAuthor, type AuthData } from '../lib/auth';
+import {
+  cancelJob,
+  createJob,
+  getJob,
+  isValidJobId,
+  listJobs,
+  JOB_TYPES,
+  type JobStatus,
+  type JobType,
+} from '../lib/scheduler';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+}
+
+function permissionFor(type: JobType) {
+  return type === 'deploy-site' || type === 'publish-page' ? 'deploy' : 'content';
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+  const site = url.searchParams.get('site');
+  const jobId = url.searchParams.get('job');
+
+  if (!site) {
+    return Response.json({ ok: false, error: 'Missing site parameter' }, { status: 400 });
+  }
+
+  if (jobId) {
+    const job = isValidJobId(jobId) ? await getJob(env.BLOXX_SITES, site, jobId) : null;
+    if (!job) {
+      return Response.json({ ok: false, error: 'Job not found' }, { status: 404 });
+    }
+    return Response.json({ ok: true, job });
+  }
+
+  const jobs = await listJobs(env.BLOXX_SITES, site, {
+    status: (url.searchParams.get('status') as JobStatus) || undefined,
+    type: (url.searchParams.get('type') as JobType) || undefined,
+  });
+  return Response.json({ ok: true, jobs });
+};
+
+export const onRequestPost: PagesFunction<Env, any, AuthData> = async (context) => {
+  const { env } = context;
+
+  let body: { site: string; type: JobType; runAt: string; page?: string; collection?: string; item?: string; override?: boolean };
+  try {
+    body = await context.request.json();
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { site, type, runAt, page, collection, item, override } = body;
+  if (!site || !type || !runAt) {
+    return Response.json({ ok: false, error: 'Missing site, type or runAt' }, { status: 400 });
+  }
+  if (!JOB_TYPES.includes(type)) {
+    return Response.json({ ok: false, error: `type must be one of: ${JOB_TYPES.join(', ')}` }, { status: 400 });
+  }
+  if (Number.isNaN(Date.parse(runAt))) {
+    return Response.json({ ok: false, error: 'runAt must be an ISO date' }, { status: 400 });
+  }
+
+  if (!roleAllows(context.data.role, permissionFor(type))) {
+    return Response.json({ ok: false, error: `Your role (${context.data.role}) cannot schedule ${type} jobs` }, { status: 403 });
+  }
+
+  // Check the target exists now rather than failing at run time
+  if (type === 'publish-page') {
+    if (!page) {
+      return Response.json({ ok: false, error: 'Missing page' }, { status: 400 });
+    }
+    if (!(await env.BLOXX_SITES.head(`${site}/drafts/${page}.html`))) {
+      return Response.json({ ok: false, error: 'Page not found' }, { status: 404 });
+    }
+  }
+  if (type === 'publish-item' || type === 'unpublish-item') {
+    if (!collection || !item) {
+      return Response.json({ ok: false, error: 'Missing collection or item' }, { status: 400 });
+    }
+    if (!(await env.BLOXX_SITES.head(`${site}/collections/${collection}/items/${item}.json`))) {
+      return Response.json({ ok: false, error: 'Item not found' }, { status: 404 });
+    }
+  }
+
+  const job = await createJob(env.BLOXX_SITES, {
+    site,
+    type,
+    runAt,
+    page: type === 'publish-page' ? page : undefined,
+    collection: type === 'publish-item' || type === 'unpublish-item' ? collection : undefined,
+    item: type === 'publish-item' || type === 'unpublish-item' ? item : undefined,
+    override: permissionFor(type) === 'deploy' && override,
+    createdBy: requestAuthor(context.data),
+  });
+
+  return Response.json({ ok: true, job });
+};
+
+export const onRequestDelete: PagesFunction<Env, any, AuthData> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+  const site = url.searchParams.get('site');
+  const jobId = url.searchParams.get('job');
+
+  if (!site || !jobId) {
+    return Response.json({ ok: false, error: 'Missing site or job parameter' }, { status: 400 });
+  }
+
+  const existing = isValidJobId(jobId) ? await getJob(env.BLOXX_SITES, site, jobId) : null;
+  if (!existing) {
+    return Response.json({ ok: false, error: 'Job not found' }, { status: 404 });
+  }
+  if (!roleAllows(context.data.role, permissionFor(existing.type))) {
+    return Response.json({ ok: false, error: `Your role (${context.data.role}) cannot cancel ${existing.type} jobs` }, { status: 403 });
+  }
+  if (existing.status !== 'pending') {
+    return Response.json({ ok: false, error: `Job is already ${existing.status}` }, { status: 409 });
+  }
+
+  const job = await cancelJob(env.BLOXX_SITES, site, jobId, requestAuthor(context.data));
+  if (job?.status !== 'cancelled') {
+    return Response.json({ ok: false, error: `Job is already ${job?.status}` }, { status: 409 });
+  }
+  return Response.json({ ok: true, job });
+};
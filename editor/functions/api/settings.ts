@@ -9,7 +9,9 @@ import {
   validateSettings,
   generateBrandingCSS,
   generateAnalyticsScripts,
+  injectSettingsIntoHtml,
 } from '../../lib/global-settings';
+import { parseSiteAuditRules } from '../../lib/page-audit';
 
 interface Env {
   BLOXX_SITES: R2Bucket;
@@ -76,7 +78,11 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
 
   // Validate settings
   const validation = validateSettings(settings);
-  if (!validation.valid) {
+  const auditRules = parseSiteAuditRules(settings);
+  if (typeof auditRules === 'string') {
+    validation.errors.push(`Audit Rules: ${auditRules}`);
+  }
+  if (validation.errors.length > 0) {
     return Response.json({
       ok: false,
       error: 'Validation failed',
@@ -180,47 +186,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
   const settings = await settingsObject.json() as Record<string, any>;
 
-  // Inject into HTML
-  let injectedHtml = html;
-
-  // Inject branding CSS link if exists
-  if (settings.branding) {
-    const cssLink = `<link rel="stylesheet" href="/preview/${site}/_asset/branding.css">`;
-    injectedHtml = injectedHtml.replace('</head>', `${cssLink}\n</head>`);
-  }
-
-  // Inject analytics
-  if (settings.analytics) {
-    const scripts = generateAnalyticsScripts(settings.analytics);
-
-    if (scripts.head) {
-      injectedHtml = injectedHtml.replace('</head>', `${scripts.head}\n</head>`);
-    }
-
-    if (scripts.body) {
-      // Split body scripts into start and end
-      const bodyStartMatch = settings.analytics.customScripts?.bodyStart;
-      const gtmNoScript = scripts.body.includes('noscript') ? scripts.body : '';
-
-      if (bodyStartMatch || gtmNoScript) {
-        injectedHtml = injectedHtml.replace('<body', `<body>\n${gtmNoScript || ''}`);
-      }
-
-      // Body end scripts (before </body>)
-      const bodyEndScripts = settings.analytics.customScripts?.bodyEnd;
-      if (bodyEndScripts) {
-        injectedHtml = injectedHtml.replace('</body>', `${bodyEndScripts}\n</body>`);
-      }
-    }
-  }
-
-  // Inject favicon if set
-  if (settings.seo?.favicon) {
-    const faviconLink = `<link rel="icon" href="${settings.seo.favicon}">`;
-    if (!injectedHtml.includes('rel="icon"')) {
-      injectedHtml = injectedHtml.replace('</head>', `${faviconLink}\n</head>`);
-    }
-  }
+  const injectedHtml = injectSettingsIntoHtml(html, settings, `/preview/${site}/_asset/branding.css`);
 
   return Response.json({ ok: true, html: injectedHtml });
 };
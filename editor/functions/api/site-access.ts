@@ -0,0 +1,83 @@
+/**
+ * /api/site-access — Manage who can open a site (owners only)
+ *
+ * GET    /api/site-access?site={site}            → { ok, members: { [email]: { role, grantedBy, grantedAt } } }
+ * POST   /api/site-access  { site, email, role } → grant or change a role
+ * DELETE /api/site-access?site={site}&email={e}  → revoke
+ *
+ * Roles: owner, editor, content-only, viewer (see lib/auth.ts).
+ * A site always keeps at least one owner.
+ */
+
+import { isSiteRole, SITE_ROLES } from '../../lib/auth';
+import { getSiteAccess, grantSiteRole, normalizeEmail, saveSiteAccess, requestAuthor, type SiteAccess } from '../lib/auth';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+}
+
+function ownerCount(access: SiteAccess): number {
+  return Object.values(access.members).filter(m => m.role === 'owner').length;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const url = new URL(context.request.url);
+  const site = url.searchParams.get('site');
+  if (!site) {
+    return Response.json({ ok: false, error: 'Missing site parameter' }, { status: 400 });
+  }
+
+  const access = await getSiteAccess(context.env.BLOXX_SITES, site);
+  return Response.json({ ok: true, members: access.members });
+};
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  let body: { site: string; email: string; role: string };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { site, role } = body;
+  const email = normalizeEmail(body.email || '');
+  if (!site || !email) {
+    return Response.json({ ok: false, error: 'Missing site or email' }, { status: 400 });
+  }
+  if (!isSiteRole(role)) {
+    return Response.json({ ok: false, error: `Role must be one of: ${SITE_ROLES.join(', ')}` }, { status: 400 });
+  }
+
+  const access = await getSiteAccess(env.BLOXX_SITES, site);
+  if (access.members[email]?.role === 'owner' && role !== 'owner' && ownerCount(access) === 1) {
+    return Response.json({ ok: false, error: 'A site must keep at least one owner' }, { status: 409 });
+  }
+
+  const updated = await grantSiteRole(env.BLOXX_SITES, site, email, role, requestAuthor(context.data));
+  return Response.json({ ok: true, members: updated.members });
+};
+
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+  const site = url.searchParams.get('site');
+  const email = normalizeEmail(url.searchParams.get('email') || '');
+  if (!site || !email) {
+    return Response.json({ ok: false, error: 'Missing site or email parameter' }, { status: 400 });
+  }
+
+  const access = await getSiteAccess(env.BLOXX_SITES, site);
+  const member = access.members[email];
+  if (!member) {
+    return Response.json({ ok: false, error: 'Not a member of this site' }, { status: 404 });
+  }
+  if (member.role === 'owner' && ownerCount(access) === 1) {
+    return Response.json({ ok: false, error: 'A site must keep at least one owner' }, { status: 409 });
+  }
+
+  delete access.members[email];
+  await saveSiteAccess(env.BLOXX_SITES, site, access);
+  return Response.json({ ok: true, members: access.members });
+};
@@ -0,0 +1,62 @@
+/**
+ * /api/site-audit — Site-wide audit with cross-page checks (see functions/lib/site-audit.ts)
+ *
+ * GET  /api/site-audit?site={site}
+ *        → { ok, audits: SiteAuditSummary[] }   (newest first)
+ * GET  /api/site-audit?site={site}&id={auditId}
+ *        → { ok, report }
+ * POST /api/site-audit
+ *        Body: { site }
+ *        → { ok, report }   (audits every draft page and stores the report)
+ */
+
+import { getSiteAudit, listSiteAudits, runSiteAudit } from '../lib/site-audit';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+  SITES_DOMAIN?: string;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const url = new URL(context.request.url);
+  const site = url.searchParams.get('site');
+  const id = url.searchParams.get('id');
+
+  if (!site) {
+    return Response.json({ ok: false, error: 'Missing site parameter' }, { status: 400 });
+  }
+
+  if (id) {
+    const report = await getSiteAudit(env.BLOXX_SITES, site, id);
+    if (!report) {
+      return Response.json({ ok: false, error: 'Audit not found' }, { status: 404 });
+    }
+    return Response.json({ ok: true, report });
+  }
+
+  return Response.json({ ok: true, audits: await listSiteAudits(env.BLOXX_SITES, site) });
+};
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  let body: { site?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!body.site) {
+    return Response.json({ ok: false, error: 'Missing site' }, { status: 400 });
+  }
+
+  try {
+    const report = await runSiteAudit(env.BLOXX_SITES, body.site, env.SITES_DOMAIN);
+    return Response.json({ ok: true, report });
+  } catch (err: any) {
+    console.error('Site audit error:', err);
+    return Response.json({ ok: false, error: err.message }, { status: 500 });
+  }
+};
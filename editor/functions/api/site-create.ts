@@ -3,9 +3,14 @@
  *
  * Body: { industry, businessName, brandContext?, pages: string[] }
  * Returns: { ok, site, pages: [{pageName, score}], errors: [{pageName, error}] }
+ *
+ * The caller becomes owner of a new site. Adding pages to an existing site
+ * (same business name) needs the "edit" permission on it.
  */
 
+import { roleAllows } from '../../lib/auth';
 import { buildPage, TEMPLATES, PAGE_SLUGS, type Env } from '../lib/build-page';
+import { getSiteRole, grantSiteRole, type AuthData } from '../lib/auth';
 
 // ─── Industry Templates ───
 const INDUSTRY_TEMPLATES: Record<string, {
@@ -151,7 +156,7 @@ function slugify(str: string): string {
   return str.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 60);
 }
 
-export const onRequestPost: PagesFunction<Env> = async (context) => {
+export const onRequestPost: PagesFunction<Env, any, AuthData> = async (context) => {
   const { env } = context;
 
   if (!env.ANTHROPIC_API_KEY) {
@@ -180,6 +185,20 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     return Response.json({ ok: false, error: 'Invalid business name' }, { status: 400 });
   }
 
+  const { user } = context.data;
+  // The owner role is granted to the email, which only counts once verified
+  if (!user.verified) {
+    return Response.json({ ok: false, error: 'Confirm your email before creating a site' }, { status: 403 });
+  }
+  const existing = await env.BLOXX_SITES.list({ prefix: `${site}/`, limit: 1 });
+  if (existing.objects.length > 0) {
+    if (!roleAllows(await getSiteRole(env.BLOXX_SITES, site, user), 'edit')) {
+      return Response.json({ ok: false, error: `A site named "${site}" already exists` }, { status: 409 });
+    }
+  } else {
+    await grantSiteRole(env.BLOXX_SITES, site, user.email, 'owner', user.email);
+  }
+
   // Build brand context from industry defaults + user input
   const d = industryConfig.defaults;
   const fullBrandContext = [
@@ -1,19 +1,15 @@
 /**
- * GET /api/sites — List all unique site names from R2
- * Returns: { sites: ["goforma", "my-yoga-studio", ...] }
+ * GET /api/sites — List the sites the signed-in user can open
+ * Returns: { sites: ["goforma", "my-yoga-studio", ...], roles: { goforma: "owner", ... } }
  */
 
+import { listAccessibleSites, type AuthData } from '../lib/auth';
+
 interface Env {
   BLOXX_SITES: R2Bucket;
 }
 
-export const onRequestGet: PagesFunction<Env> = async (context) => {
-  const listed = await context.env.BLOXX_SITES.list({ delimiter: '/' });
-
-  // R2 list with delimiter='/' returns common prefixes as "delimitedPrefixes"
-  const sites: string[] = (listed.delimitedPrefixes || []).map((prefix: string) =>
-    prefix.replace(/\/$/, '')
-  );
-
-  return Response.json({ sites });
+export const onRequestGet: PagesFunction<Env, any, AuthData> = async (context) => {
+  const roles = await listAccessibleSites(context.env.BLOXX_SITES, context.data.user);
+  return Response.json({ sites: Object.keys(roles), roles });
 };
@@ -1,14 +1,84 @@
 /**
  * CollabRoom — Durable Object for real-time collaboration
  *
- * Each site/page pair gets its own room. Connected WebSocket clients
- * receive broadcasts of cursor movements, selections, and edits.
+ * Each site/page pair gets its own room. The room owns the page document
+ * (lib/collab-document.ts): clients send operations, the room sequences them,
+ * rebases concurrent ones and broadcasts the applied result to everyone.
+ * Cursor and selection messages are relayed as before.
+ *
+ * Snapshots are persisted to R2 at {site}/collab/{page}.json so a late joiner
+ * (or a fresh instance after eviction) starts from the current document. A
+ * snapshot is only reused while the draft it was built from is unchanged.
+ * A save from the editor carries the last sequence number its client had
+ * seen: the room rebuilds from the saved {site}/drafts/{page}.html and
+ * re-applies the ops it sequenced after that point, keeping section ids,
+ * locks and history. A restore, or a save without a usable sequence number,
+ * reloads from the draft and starts over.
+ *
+ * Presence (lib/collab-presence.ts): connections send heartbeats, go idle
+ * after a period without activity and hold at most one soft lock. A resume
+ * token lets a dropped client reconnect as the same user and replay the ops
+ * it missed. The room named after the bare site acts as the site-wide
+ * presence hub: page rooms report their users to it and it pushes the
+ * combined picture back to every page room.
  */
 
+import {
+  CollabDocument,
+  transformOver,
+  type CollabOp,
+  type CollabSnapshot,
+  type NodeRef,
+  type OpResult,
+  type SequencedOp,
+} from '../../lib/collab-document';
+import {
+  findConflictingLock,
+  HEARTBEAT_TIMEOUT_MS,
+  IDLE_AFTER_MS,
+  RESUME_TTL_MS,
+  type Lock,
+  type PresenceUser,
+  type SitePresence,
+} from '../../lib/collab-presence';
+import { roleAllows, type SiteRole } from '../../lib/auth';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+  COLLAB_ROOM?: DurableObjectNamespace;
+}
+
 interface User {
   ws: WebSocket;
+  clientId: string;
+  name: string;
+  color: string;
+  resumeToken: string;
+  section: string | null;
+  lastSeen: number;
+  lastActive: number;
+  idle: boolean;
+  /** Viewers may watch but not send ops or take locks */
+  canEdit: boolean;
+}
+
+interface ResumeEntry {
+  clientId: string;
   name: string;
   color: string;
+  expiresAt: number;
+}
+
+interface HistoryEntry extends SequencedOp {
+  color: string;
+  result: OpResult;
+}
+
+interface StoredSnapshot extends CollabSnapshot {
+  draftEtag: string | null;
+  /** seq at which the draft was loaded; later ops are not saved yet */
+  draftSeq: number;
+  updatedAt: string;
 }
 
 const COLORS = [
@@ -16,22 +86,71 @@ const COLORS = [
   '#8b5cf6', '#ef4444', '#14b8a6', '#f97316', '#06b6d4',
 ];
 
+/** Ops kept in memory for rebasing and replay; older bases must resync */
+const MAX_HISTORY = 1000;
+/** Delay before a dirty document is written to R2 */
+const SNAPSHOT_DELAY_MS = 2000;
+/** How often heartbeats and idleness are checked while anyone is connected */
+const SWEEP_INTERVAL_MS = 15_000;
+
 export class CollabRoom {
   private state: DurableObjectState;
+  private env: Env;
   private users: Map<WebSocket, User> = new Map();
   private nextColorIdx = 0;
 
-  constructor(state: DurableObjectState) {
+  private site: string | null = null;
+  private page: string | null = null;
+  private doc: CollabDocument | null = null;
+  private draftEtag: string | null = null;
+  private draftSeq = 0;
+  private history: HistoryEntry[] = [];
+  /** Lowest baseSeq that can still be rebased */
+  private floorSeq = 0;
+  private dirty = false;
+
+  private locks: Map<string, Lock> = new Map();
+  private resumeTokens: Map<string, ResumeEntry> = new Map();
+  /** Last site-wide presence pushed by the hub */
+  private sitePresence: SitePresence = {};
+
+  constructor(state: DurableObjectState, env: Env) {
     this.state = state;
+    this.env = env;
   }
 
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
 
-    // Internal broadcast endpoint (called from save.ts)
+    // Internal broadcast endpoint (called from save.ts and page-history.ts)
     if (url.pathname === '/broadcast' && request.method === 'POST') {
       const data = await request.text();
       this.broadcast(data, null);
+
+      // A save or restore replaced the draft — rebuild the document from it
+      try {
+        const msg = JSON.parse(data);
+        if (msg.type === 'bloxx:remote-save' && msg.site && msg.page) {
+          this.setPage(msg.site, msg.page);
+          const changed = Number.isInteger(msg.seq) && this.doc
+            ? await this.rebaseOnDraft(msg.seq)
+            : (await this.reloadFromDraft(), true);
+          if (changed) this.broadcastState();
+        }
+      } catch { /* ignore malformed */ }
+
+      return new Response('ok');
+    }
+
+    // Site hub: page rooms report their users here
+    if (url.pathname === '/presence') {
+      return this.handleHubPresence(request);
+    }
+
+    // Page room: combined site presence pushed by the hub
+    if (url.pathname === '/site-presence' && request.method === 'POST') {
+      this.sitePresence = await request.json() as SitePresence;
+      this.broadcast(JSON.stringify({ type: 'site-presence', pages: this.sitePresence }), null);
       return new Response('ok');
     }
 
@@ -41,49 +160,543 @@ export class CollabRoom {
       return new Response('Expected WebSocket', { status: 426 });
     }
 
+    const site = url.searchParams.get('site');
+    const page = url.searchParams.get('page');
+    if (site && page) this.setPage(site, page);
+
+    try {
+      await this.ensureLoaded();
+    } catch (err: any) {
+      return new Response(`Failed to load document: ${err.message}`, { status: 500 });
+    }
+
     const pair = new WebSocketPair();
     const [client, server] = Object.values(pair);
 
-    const userName = new URL(request.url).searchParams.get('user') || `User ${this.users.size + 1}`;
-    const color = COLORS[this.nextColorIdx % COLORS.length];
-    this.nextColorIdx++;
-
-    const user: User = { ws: server, name: userName, color };
+    const { user, resumed } = this.createUser(server, request, url);
 
     server.accept();
     this.users.set(server, user);
 
-    // Send current users list to new joiner
-    server.send(JSON.stringify({
-      type: 'users',
-      users: Array.from(this.users.values()).map(u => ({ name: u.name, color: u.color })),
-    }));
+    // Resumed clients get only what they missed; everyone else the full document
+    const missed = resumed ? this.opsSince(Number(url.searchParams.get('since'))) : null;
+    if (missed) {
+      server.send(JSON.stringify({
+        type: 'replay',
+        clientId: user.clientId,
+        resumeToken: user.resumeToken,
+        seq: this.doc?.seq || 0,
+        sections: this.doc?.sections || [],
+        ops: missed,
+      }));
+    } else {
+      server.send(JSON.stringify(this.stateMessage(user)));
+    }
+
+    server.send(JSON.stringify({ type: 'locks', locks: Array.from(this.locks.values()) }));
+    server.send(JSON.stringify({ type: 'site-presence', pages: this.sitePresence }));
 
-    // Notify all about new user
-    this.broadcastUsers();
+    // Notify all about new user (the joiner included)
+    this.presenceChanged();
+    this.scheduleAlarm(SWEEP_INTERVAL_MS);
 
     server.addEventListener('message', (event) => {
       const data = typeof event.data === 'string' ? event.data : '';
       try {
         const msg = JSON.parse(data);
-        // Attach user info and broadcast to others
-        msg.user = userName;
-        msg.color = color;
-        this.broadcast(JSON.stringify(msg), server);
+        this.handleMessage(user, msg);
       } catch { /* ignore malformed */ }
     });
 
-    server.addEventListener('close', () => {
-      this.users.delete(server);
-      this.broadcastUsers();
+    server.addEventListener('close', () => this.removeUser(server));
+    server.addEventListener('error', () => this.removeUser(server));
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  /**
+   * Debounced snapshot write and periodic heartbeat/idle sweep
+   */
+  async alarm(): Promise<void> {
+    await this.persist();
+    this.sweep();
+    if (this.users.size > 0) this.scheduleAlarm(SWEEP_INTERVAL_MS);
+  }
+
+  // ─── Messages ───
+
+  private handleMessage(user: User, msg: any) {
+    user.lastSeen = Date.now();
+
+    switch (msg.type) {
+      case 'ping':
+        user.ws.send(JSON.stringify({ type: 'pong', seq: this.doc?.seq || 0 }));
+        return;
+      case 'op':
+        if (!user.canEdit) {
+          user.ws.send(JSON.stringify({ type: 'reject', opId: msg.opId, seq: this.doc?.seq || 0, reason: 'read_only' }));
+          return;
+        }
+        this.markActive(user);
+        this.handleOp(user, msg);
+        return;
+      case 'lock':
+        if (!user.canEdit) return;
+        this.markActive(user);
+        this.handleLock(user, msg.target);
+        return;
+      case 'unlock':
+        if (this.releaseLocks(user.clientId)) this.broadcastLocks();
+        return;
+      case 'focus':
+        this.markActive(user);
+        user.section = typeof msg.section === 'string' ? msg.section : null;
+        this.presenceChanged();
+        return;
+      default:
+        if (msg.type === 'cursor' || msg.type === 'select') this.markActive(user);
+        // Attach user info and broadcast to others
+        msg.user = user.name;
+        msg.color = user.color;
+        this.broadcast(JSON.stringify(msg), user.ws);
+    }
+  }
+
+  private markActive(user: User) {
+    user.lastActive = Date.now();
+    if (user.idle) {
+      user.idle = false;
+      this.presenceChanged();
+    }
+  }
+
+  // ─── Document ───
+
+  private setPage(site: string, page: string) {
+    this.site = site;
+    this.page = page;
+  }
+
+  private snapshotKey(): string {
+    return `${this.site}/collab/${this.page}.json`;
+  }
+
+  private draftKey(): string {
+    return `${this.site}/drafts/${this.page}.html`;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (this.doc || !this.site || !this.page) return;
+
+    const [snapshotObj, draftHead] = await Promise.all([
+      this.env.BLOXX_SITES.get(this.snapshotKey()),
+      this.env.BLOXX_SITES.head(this.draftKey()),
+    ]);
+
+    let snapshot: StoredSnapshot | null = null;
+    if (snapshotObj) {
+      try {
+        snapshot = await snapshotObj.json() as StoredSnapshot;
+      } catch {
+        snapshot = null;
+      }
+    }
+
+    if (snapshot && snapshot.draftEtag === (draftHead?.httpEtag || null)) {
+      this.doc = new CollabDocument(snapshot);
+      this.draftEtag = snapshot.draftEtag;
+      this.draftSeq = snapshot.draftSeq ?? snapshot.seq;
+      this.floorSeq = snapshot.seq;
+      return;
+    }
+
+    // Keep sequence numbers increasing across reloads
+    await this.reloadFromDraft(snapshot?.seq || 0);
+  }
+
+  private async reloadFromDraft(seq: number = this.doc?.seq || 0): Promise<void> {
+    if (!this.site || !this.page) return;
+
+    const draft = await this.env.BLOXX_SITES.get(this.draftKey());
+    const html = draft ? await draft.text() : '<!DOCTYPE html><html><head></head><body></body></html>';
+
+    this.doc = CollabDocument.fromHtml(html, seq);
+    this.draftEtag = draft?.httpEtag || null;
+    this.history = [];
+    this.floorSeq = seq;
+    this.draftSeq = seq;
+    this.dirty = true;
+
+    // Section ids were regenerated, so existing locks no longer point anywhere
+    if (this.locks.size > 0) {
+      this.locks.clear();
+      this.broadcastLocks();
+    }
+
+    await this.persist();
+  }
+
+  /**
+   * A client saved the document as it was at `seq`: rebuild from the saved
+   * draft, re-apply everything sequenced since and keep the section ids.
+   * Returns whether the document changed, i.e. clients must reload it.
+   */
+  private async rebaseOnDraft(seq: number): Promise<boolean> {
+    const draft = await this.env.BLOXX_SITES.get(this.draftKey());
+    const doc = this.doc;
+    if (!draft || !doc || !this.canRebase(seq)) {
+      await this.reloadFromDraft();
+      return true;
+    }
+
+    const html = await draft.text();
+    const sections = this.sectionsAt(seq);
+    const rebuilt = new CollabDocument({ html, sections, seq: doc.seq });
+    // The saved markup no longer has the sections the room knew about
+    if (rebuilt.sections.join() !== sections.join()) {
+      await this.reloadFromDraft();
+      return true;
+    }
+
+    for (const entry of this.history) {
+      if (entry.seq <= seq) continue;
+      // Text ops are re-applied by their outcome, which the save may already contain
+      const op: CollabOp = entry.op.type === 'text'
+        ? { ...entry.op, index: 0, delete: Number.MAX_SAFE_INTEGER, insert: entry.result.text ?? '' }
+        : { ...entry.op };
+      rebuilt.apply(op);
+    }
+
+    const changed = rebuilt.toHtml() !== doc.toHtml() || rebuilt.sections.join() !== doc.sections.join();
+    this.doc = rebuilt;
+    this.draftEtag = draft.httpEtag;
+    this.draftSeq = seq;
+    this.dirty = true;
+
+    for (const lock of this.locks.values()) {
+      if (!rebuilt.hasSection(lock.target.section)) this.dropLocksForSection(lock.target.section);
+    }
+
+    await this.persist();
+    return changed;
+  }
+
+  /**
+   * Section ids as they were at `seq`, undoing the section ops in history since
+   */
+  private sectionsAt(seq: number): string[] {
+    const ids = this.doc ? this.doc.sections : [];
+    for (const { seq: at, op, result } of [...this.history].reverse()) {
+      if (at <= seq) break;
+      if (op.type === 'section-insert') {
+        ids.splice(result.index!, 1);
+      } else if (op.type === 'section-delete') {
+        ids.splice(result.from!, 0, op.id);
+      } else if (op.type === 'section-move') {
+        ids.splice(result.index!, 1);
+        ids.splice(result.from!, 0, op.id);
+      }
+    }
+    return ids;
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.doc || !this.dirty || !this.site || !this.page) return;
+    this.dirty = false;
+
+    const snapshot: StoredSnapshot = {
+      ...this.doc.snapshot(),
+      draftEtag: this.draftEtag,
+      draftSeq: this.draftSeq,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.env.BLOXX_SITES.put(this.snapshotKey(), JSON.stringify(snapshot), {
+      httpMetadata: { contentType: 'application/json' },
     });
+  }
 
-    server.addEventListener('error', () => {
-      this.users.delete(server);
-      this.broadcastUsers();
+  private scheduleSnapshot() {
+    this.dirty = true;
+    this.scheduleAlarm(SNAPSHOT_DELAY_MS);
+  }
+
+  /**
+   * Make sure the alarm fires within `delay` ms (one alarm serves snapshots and sweeps)
+   */
+  private scheduleAlarm(delay: number) {
+    const at = Date.now() + delay;
+    this.state.storage.getAlarm().then(existing => {
+      if (existing === null || existing > at) this.state.storage.setAlarm(at);
+    }).catch(() => {});
+  }
+
+  /**
+   * Rebase an incoming op over everything sequenced since the client's
+   * baseSeq, apply it and broadcast the outcome (including to the sender,
+   * which treats its own opId as the acknowledgement).
+   */
+  private handleOp(user: User, msg: { op: CollabOp; baseSeq: number; opId: string }) {
+    const doc = this.doc;
+    if (!doc || !msg.op || typeof msg.baseSeq !== 'number') return;
+
+    if (!this.canRebase(msg.baseSeq)) {
+      user.ws.send(JSON.stringify({ ...this.stateMessage(user), type: 'resync', opId: msg.opId }));
+      return;
+    }
+
+    const concurrent = this.history.filter(h => h.seq > msg.baseSeq).map(h => h.op);
+    const ops = transformOver(msg.op, concurrent);
+
+    let applied = 0;
+    for (const op of ops) {
+      const result = doc.apply(op);
+      if (!result) continue;
+
+      const entry: HistoryEntry = {
+        seq: ++doc.seq,
+        op,
+        clientId: user.clientId,
+        opId: msg.opId,
+        user: user.name,
+        at: new Date().toISOString(),
+        color: user.color,
+        result,
+      };
+      this.history.push(entry);
+      applied++;
+
+      this.broadcast(JSON.stringify({ type: 'op', ...entry }), null);
+
+      if (op.type === 'section-delete') this.dropLocksForSection(op.id);
+    }
+
+    if (this.history.length > MAX_HISTORY) {
+      this.history = this.history.slice(-MAX_HISTORY);
+    }
+
+    if (applied === 0) {
+      user.ws.send(JSON.stringify({ type: 'reject', opId: msg.opId, seq: doc.seq, reason: 'target_gone' }));
+      return;
+    }
+
+    this.scheduleSnapshot();
+  }
+
+  /**
+   * Whether every op after `seq` is still in memory
+   */
+  private canRebase(seq: number): boolean {
+    const doc = this.doc;
+    if (!doc || !Number.isInteger(seq)) return false;
+    const oldest = this.history.length > 0 ? this.history[0].seq - 1 : doc.seq;
+    return seq >= this.floorSeq && seq >= oldest && seq <= doc.seq;
+  }
+
+  private opsSince(seq: number): HistoryEntry[] | null {
+    return this.canRebase(seq) ? this.history.filter(h => h.seq > seq) : null;
+  }
+
+  private stateMessage(user?: User) {
+    const doc = this.doc;
+    return {
+      type: 'state',
+      clientId: user?.clientId,
+      resumeToken: user?.resumeToken,
+      seq: doc?.seq || 0,
+      html: doc?.toHtml() || '',
+      sections: doc?.sections || [],
+      // Ops applied since the draft was loaded — the editor should show `html`
+      unsaved: !!doc && doc.seq > this.draftSeq,
+    };
+  }
+
+  /**
+   * Send everyone the rebuilt document; their copies no longer match it
+   */
+  private broadcastState() {
+    for (const [ws, user] of this.users) {
+      try {
+        ws.send(JSON.stringify({ ...this.stateMessage(user), reload: true }));
+      } catch {
+        this.users.delete(ws);
+      }
+    }
+  }
+
+  // ─── Locks ───
+
+  private lockKey(target: NodeRef): string {
+    return `${target.section}|${target.path || ''}`;
+  }
+
+  private handleLock(user: User, target: NodeRef | undefined) {
+    if (!target || typeof target.section !== 'string') return;
+
+    if (!this.doc?.hasSection(target.section)) {
+      user.ws.send(JSON.stringify({ type: 'lock-denied', target, reason: 'target_gone' }));
+      return;
+    }
+
+    const holder = findConflictingLock(this.locks.values(), target, user.clientId);
+    if (holder) {
+      user.ws.send(JSON.stringify({
+        type: 'lock-denied',
+        target,
+        reason: 'locked',
+        holder: { user: holder.user, color: holder.color },
+      }));
+      return;
+    }
+
+    // One lock per connection: taking a new one releases the previous
+    this.releaseLocks(user.clientId);
+    this.locks.set(this.lockKey(target), {
+      target,
+      clientId: user.clientId,
+      user: user.name,
+      color: user.color,
+      acquiredAt: new Date().toISOString(),
     });
+    user.section = target.section;
 
-    return new Response(null, { status: 101, webSocket: client });
+    this.broadcastLocks();
+    this.presenceChanged();
+  }
+
+  private releaseLocks(clientId: string): boolean {
+    let released = false;
+    for (const [key, lock] of this.locks) {
+      if (lock.clientId === clientId) {
+        this.locks.delete(key);
+        released = true;
+      }
+    }
+    return released;
+  }
+
+  private dropLocksForSection(sectionId: string) {
+    let dropped = false;
+    for (const [key, lock] of this.locks) {
+      if (lock.target.section === sectionId) {
+        this.locks.delete(key);
+        dropped = true;
+      }
+    }
+    if (dropped) this.broadcastLocks();
+  }
+
+  private broadcastLocks() {
+    this.broadcast(JSON.stringify({ type: 'locks', locks: Array.from(this.locks.values()) }), null);
+  }
+
+  // ─── Connections ───
+
+  private createUser(ws: WebSocket, request: Request, url: URL): { user: User; resumed: boolean } {
+    const now = Date.now();
+    const token = url.searchParams.get('resume');
+
+    // The old socket may not have noticed the drop yet — retire it first
+    if (token) {
+      for (const [oldWs, oldUser] of this.users) {
+        if (oldUser.resumeToken !== token) continue;
+        try { oldWs.close(4001, 'Resumed elsewhere'); } catch { /* already closed */ }
+        this.removeUser(oldWs);
+      }
+    }
+
+    // X-Bloxx-User and X-Bloxx-Role come from the session, set by /api/collab
+    const name = request.headers.get('X-Bloxx-User') || `User ${this.users.size + 1}`;
+    const canEdit = roleAllows(request.headers.get('X-Bloxx-Role') as SiteRole | null, 'edit');
+
+    const resume = token ? this.resumeTokens.get(token) : undefined;
+
+    if (token && resume && resume.expiresAt > now && resume.name === name) {
+      this.resumeTokens.delete(token);
+      return {
+        resumed: true,
+        user: {
+          ws,
+          clientId: resume.clientId,
+          name: resume.name,
+          color: resume.color,
+          resumeToken: crypto.randomUUID(),
+          section: null,
+          lastSeen: now,
+          lastActive: now,
+          idle: false,
+          canEdit,
+        },
+      };
+    }
+
+    const color = COLORS[this.nextColorIdx % COLORS.length];
+    this.nextColorIdx++;
+
+    return {
+      resumed: false,
+      user: {
+        ws,
+        clientId: crypto.randomUUID(),
+        name,
+        color,
+        resumeToken: crypto.randomUUID(),
+        section: null,
+        lastSeen: now,
+        lastActive: now,
+        idle: false,
+        canEdit,
+      },
+    };
+  }
+
+  private removeUser(ws: WebSocket) {
+    const user = this.users.get(ws);
+    if (!user) return;
+    this.users.delete(ws);
+
+    // Keep the identity around briefly so a dropped connection can resume
+    this.resumeTokens.set(user.resumeToken, {
+      clientId: user.clientId,
+      name: user.name,
+      color: user.color,
+      expiresAt: Date.now() + RESUME_TTL_MS,
+    });
+
+    if (this.releaseLocks(user.clientId)) this.broadcastLocks();
+    this.presenceChanged();
+
+    // Last one out writes the snapshot now rather than waiting for the alarm
+    if (this.users.size === 0) this.state.waitUntil(this.persist());
+  }
+
+  /**
+   * Close connections that stopped sending heartbeats and mark quiet ones idle
+   */
+  private sweep() {
+    const now = Date.now();
+    let changed = false;
+
+    for (const [ws, user] of this.users) {
+      if (now - user.lastSeen > HEARTBEAT_TIMEOUT_MS) {
+        try { ws.close(4000, 'Heartbeat timeout'); } catch { /* already closed */ }
+        this.removeUser(ws);
+        continue;
+      }
+
+      if (!user.idle && now - user.lastActive > IDLE_AFTER_MS) {
+        user.idle = true;
+        changed = true;
+        // Idle users don't keep others out
+        if (this.releaseLocks(user.clientId)) this.broadcastLocks();
+      }
+    }
+
+    for (const [token, entry] of this.resumeTokens) {
+      if (entry.expiresAt <= now) this.resumeTokens.delete(token);
+    }
+
+    if (changed) this.presenceChanged();
   }
 
   private broadcast(message: string, exclude: WebSocket | null) {
@@ -97,8 +710,55 @@ export class CollabRoom {
     }
   }
 
-  private broadcastUsers() {
-    const userList = Array.from(this.users.values()).map(u => ({ name: u.name, color: u.color }));
-    this.broadcast(JSON.stringify({ type: 'users', users: userList }), null);
+  private presenceList(): PresenceUser[] {
+    return Array.from(this.users.values()).map(u => ({
+      clientId: u.clientId,
+      name: u.name,
+      color: u.color,
+      section: u.section,
+      idle: u.idle,
+    }));
+  }
+
+  /**
+   * Tell this room and the site hub who is here
+   */
+  private presenceChanged() {
+    this.broadcast(JSON.stringify({ type: 'users', users: this.presenceList() }), null);
+
+    if (!this.env.COLLAB_ROOM || !this.site || !this.page) return;
+    const hub = this.env.COLLAB_ROOM.get(this.env.COLLAB_ROOM.idFromName(this.site));
+    this.state.waitUntil(hub.fetch(new Request('https://internal/presence', {
+      method: 'POST',
+      body: JSON.stringify({ site: this.site, page: this.page, users: this.presenceList() }),
+    })).then(() => undefined).catch(() => undefined));
+  }
+
+  // ─── Site hub ───
+
+  private async handleHubPresence(request: Request): Promise<Response> {
+    if (request.method === 'GET') {
+      return Response.json({ ok: true, pages: this.sitePresence });
+    }
+
+    const { site, page, users } = await request.json() as { site: string; page: string; users: PresenceUser[] };
+    if (!site || !page) return new Response('Missing site or page', { status: 400 });
+
+    if (users.length > 0) this.sitePresence[page] = users;
+    else delete this.sitePresence[page];
+
+    // Push the combined picture to every page room that has someone in it
+    if (this.env.COLLAB_ROOM) {
+      const ns = this.env.COLLAB_ROOM;
+      const pages = new Set([...Object.keys(this.sitePresence), page]);
+      await Promise.all(Array.from(pages).map(p =>
+        ns.get(ns.idFromName(`${site}/${p}`)).fetch(new Request('https://internal/site-presence', {
+          method: 'POST',
+          body: JSON.stringify(this.sitePresence),
+        })).catch(() => undefined)
+      ));
+    }
+
+    return new Response('ok');
   }
 }
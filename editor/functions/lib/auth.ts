@@ -0,0 +1,256 @@
+/**
+ * User accounts, site access and request authentication
+ *
+ * R2 layout:
+ * - _auth/users/{email}.json — account (email, name, password hash)
+ * - {site}/access.json       — members: email → role
+ *
+ * Access is keyed by email so an owner can grant a role before the person
+ * has signed up. Emails listed in AUTH_ADMINS act as owner of every site,
+ * which is also how sites created before access control get their first owner.
+ * Signing up is open, so neither applies until the account has verified its
+ * email (verifiedAt, and `verified` in the session): whoever registers an
+ * invited or admin address first gets nothing without access to its inbox.
+ */
+
+import { isSiteRole, verifySession, VERIFICATION_TTL_SECONDS, type SiteRole } from '../../lib/auth';
+
+// ─── Types ───
+
+export interface UserRecord {
+  email: string;
+  name: string;
+  passwordHash: string;
+  passwordSalt: string;
+  createdAt: string;
+  /** When the user followed the verification link sent to the email */
+  verifiedAt?: string;
+}
+
+export interface SiteMember {
+  role: SiteRole;
+  grantedBy: string;
+  grantedAt: string;
+}
+
+export interface SiteAccess {
+  members: Record<string, SiteMember>;
+}
+
+/** The signed-in user, as the API middleware attaches it to context.data */
+export interface SessionUser {
+  email: string;
+  name: string;
+  /** The email is verified; without it, access and admin status granted to it don't apply */
+  verified: boolean;
+  admin: boolean;
+}
+
+export type AuthData = {
+  user: SessionUser;
+  /** Role on the site the request targets, when it targets one */
+  role?: SiteRole;
+};
+
+export const SESSION_COOKIE = 'bloxx_session';
+
+/** R2 prefix for accounts; never a site name since site slugs can't start with "_" */
+export const AUTH_PREFIX = '_auth';
+
+// ─── Accounts ───
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function userKey(email: string): string {
+  return `${AUTH_PREFIX}/users/${encodeURIComponent(normalizeEmail(email))}.json`;
+}
+
+export async function getUser(bucket: R2Bucket, email: string): Promise<UserRecord | null> {
+  const obj = await bucket.get(userKey(email));
+  if (!obj) return null;
+  try {
+    return await obj.json() as UserRecord;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create an account. Returns false when the email is already registered,
+ * unless that account never verified its email and its link has expired:
+ * then it is replaced, so nobody can hold an address they don't own.
+ */
+export async function createUser(bucket: R2Bucket, user: UserRecord): Promise<boolean> {
+  const options: R2PutOptions = {
+    httpMetadata: { contentType: 'application/json' },
+    onlyIf: { etagDoesNotMatch: '*' },
+  };
+  if (await bucket.put(userKey(user.email), JSON.stringify(user), options)) return true;
+
+  const existing = await bucket.get(userKey(user.email));
+  if (!existing) return false;
+  let record: UserRecord | null = null;
+  try {
+    record = await existing.json() as UserRecord;
+  } catch {
+    // Unreadable accounts stay; someone should look at them
+  }
+  const expired = record && !record.verifiedAt
+    && Date.parse(record.createdAt) + VERIFICATION_TTL_SECONDS * 1000 <= Date.now();
+  if (!expired) return false;
+
+  const result = await bucket.put(userKey(user.email), JSON.stringify(user), {
+    ...options,
+    onlyIf: { etagMatches: existing.etag },
+  });
+  return result !== null;
+}
+
+/**
+ * Mark the account verified. Returns the account, or null if it doesn't exist
+ * or isn't the one the link was sent for (`account` is its createdAt).
+ */
+export async function markUserVerified(bucket: R2Bucket, email: string, account: string): Promise<UserRecord | null> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const obj = await bucket.get(userKey(email));
+    if (!obj) return null;
+    let user: UserRecord;
+    try {
+      user = await obj.json() as UserRecord;
+    } catch {
+      return null;
+    }
+    if (user.createdAt !== account) return null;
+    if (user.verifiedAt) return user;
+
+    const verified = { ...user, verifiedAt: new Date().toISOString() };
+    const result = await bucket.put(userKey(email), JSON.stringify(verified), {
+      httpMetadata: { contentType: 'application/json' },
+      onlyIf: { etagMatches: obj.etag },
+    });
+    if (result) return verified;
+  }
+  return null;
+}
+
+export function isAdmin(email: string, admins: string | undefined): boolean {
+  if (!admins) return false;
+  const target = normalizeEmail(email);
+  return admins.split(',').some(a => normalizeEmail(a) === target);
+}
+
+// ─── Site access ───
+
+function accessKey(site: string): string {
+  return `${site}/access.json`;
+}
+
+export async function getSiteAccess(bucket: R2Bucket, site: string): Promise<SiteAccess> {
+  const obj = await bucket.get(accessKey(site));
+  if (!obj) return { members: {} };
+  try {
+    const access = await obj.json() as SiteAccess;
+    return { members: access.members || {} };
+  } catch {
+    return { members: {} };
+  }
+}
+
+export async function saveSiteAccess(bucket: R2Bucket, site: string, access: SiteAccess): Promise<void> {
+  await bucket.put(accessKey(site), JSON.stringify(access, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
+
+export async function getSiteRole(bucket: R2Bucket, site: string, user: SessionUser): Promise<SiteRole | null> {
+  if (user.admin) return 'owner';
+  if (!user.verified) return null;
+  const member = (await getSiteAccess(bucket, site)).members[normalizeEmail(user.email)];
+  return member && isSiteRole(member.role) ? member.role : null;
+}
+
+export async function grantSiteRole(
+  bucket: R2Bucket,
+  site: string,
+  email: string,
+  role: SiteRole,
+  grantedBy: string
+): Promise<SiteAccess> {
+  const access = await getSiteAccess(bucket, site);
+  access.members[normalizeEmail(email)] = { role, grantedBy, grantedAt: new Date().toISOString() };
+  await saveSiteAccess(bucket, site, access);
+  return access;
+}
+
+/**
+ * Every site the user can open, with their role on it
+ */
+export async function listAccessibleSites(bucket: R2Bucket, user: SessionUser): Promise<Record<string, SiteRole>> {
+  const sites: Record<string, SiteRole> = {};
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ delimiter: '/', cursor });
+    for (const prefix of listed.delimitedPrefixes || []) {
+      const site = prefix.replace(/\/$/, '');
+      if (site.startsWith('_')) continue;
+      const role = await getSiteRole(bucket, site, user);
+      if (role) sites[site] = role;
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return sites;
+}
+
+// ─── Requests ───
+
+/**
+ * Session token from the session cookie or an `Authorization: Bearer` header
+ */
+export function getSessionToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  if (header?.startsWith('Bearer ')) return header.slice(7).trim();
+
+  const cookies = request.headers.get('Cookie') || '';
+  for (const part of cookies.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE) return value.join('=');
+  }
+  return null;
+}
+
+export async function authenticate(
+  request: Request,
+  secret: string,
+  admins: string | undefined
+): Promise<SessionUser | null> {
+  const token = getSessionToken(request);
+  if (!token) return null;
+  const claims = await verifySession(token, secret);
+  if (!claims) return null;
+  const verified = claims.verified === true;
+  return { email: claims.sub, name: claims.name, verified, admin: verified && isAdmin(claims.sub, admins) };
+}
+
+/**
+ * The cookie covers the whole editor origin, so user-authored HTML never
+ * runs there: live sites are served on their own hosts and draft previews
+ * only run the editor bridge (functions/preview/)
+ */
+export function sessionCookie(token: string, maxAgeSeconds: number): string {
+  return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${maxAgeSeconds}`;
+}
+
+export function clearSessionCookie(): string {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=0`;
+}
+
+/**
+ * Who to record as the author of a change made in this request
+ */
+export function requestAuthor(data: Record<string, unknown>): string {
+  return (data as AuthData).user?.email || 'anonymous';
+}
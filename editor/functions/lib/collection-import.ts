@@ -0,0 +1,192 @@
+/**
+ * Bulk import of collection items from parsed records (lib/collection-import.ts)
+ *
+ * Every record is mapped and validated like a single item create
+ * (validateItemData plus reference checks). Valid records are written,
+ * invalid ones are reported per row, and index.json and the query index are
+ * written once at the end. Slugs come from a `slug` column or the slug source field; a slug that
+ * is already taken is renamed (-2, -3, …), skipped, or updates the existing
+ * item, depending on `onConflict`. Two records of the same import never
+ * overwrite each other.
+ */
+
+import {
+  generateSlug,
+  getSlugSourceField,
+  getTitleField,
+  validateItemData,
+  type Collection,
+  type CollectionItem,
+  type ItemStatus,
+} from '../../lib/collections';
+import { applyFieldDefaults, mapColumns, mapRecord, type ImportFormat, type ImportRecord } from '../../lib/collection-import';
+import { findMissingReferences } from './collection-references';
+import { updateItemsIndex } from './collection-index';
+import { syncItemSchedule } from './scheduler';
+import { storeRichTextImages } from './richtext-assets';
+import { recordMediaUsage } from './media-library';
+
+export type ConflictPolicy = 'rename' | 'skip' | 'update';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['rename', 'skip', 'update'];
+
+/** Each record costs several R2 calls; this keeps an import inside one request's budget */
+export const MAX_IMPORT_RECORDS = 100;
+
+export interface ImportReport {
+  format: ImportFormat;
+  dryRun: boolean;
+  total: number;
+  created: string[];
+  updated: string[];
+  skipped: { source: string; slug: string; reason: string }[];
+  errors: { source: string; errors: Record<string, string> }[];
+  /** Columns that matched no field and were ignored */
+  unmappedColumns: string[];
+}
+
+function uniqueSlug(base: string, taken: Set<string>): string {
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+}
+
+export async function importRecords(
+  bucket: R2Bucket,
+  site: string,
+  collection: Collection,
+  records: ImportRecord[],
+  options: {
+    format: ImportFormat;
+    mapping?: Record<string, string>;
+    status?: ItemStatus;
+    onConflict?: ConflictPolicy;
+    dryRun?: boolean;
+    author: string;
+  }
+): Promise<ImportReport> {
+  const { schema } = collection;
+  const onConflict = options.onConflict || 'rename';
+  const indexKey = `${site}/collections/${collection.slug}/index.json`;
+
+  const indexObj = await bucket.get(indexKey);
+  let index: CollectionItem[] = [];
+  if (indexObj) {
+    try {
+      index = await indexObj.json() as CollectionItem[];
+    } catch {
+      index = [];
+    }
+  }
+  const existing = new Map(index.map(item => [item.slug, item]));
+  const assigned = new Set<string>();
+  const written: { item: CollectionItem; previous: CollectionItem | null }[] = [];
+
+  const columns = [...new Set(records.flatMap(record => Object.keys(record.values)))];
+  const { fields: columnFields, unmapped } = mapColumns(columns, schema, options.mapping);
+
+  const report: ImportReport = {
+    format: options.format,
+    dryRun: !!options.dryRun,
+    total: records.length,
+    created: [],
+    updated: [],
+    skipped: [],
+    errors: [],
+    unmappedColumns: unmapped,
+  };
+
+  const slugSource = getSlugSourceField(schema) || getTitleField(schema);
+  const now = new Date().toISOString();
+
+  for (const [i, record] of records.entries()) {
+    const mapped = mapRecord(record, schema, columnFields);
+
+    const base = generateSlug(
+      mapped.slug || (slugSource && mapped.data[slugSource.id] ? String(mapped.data[slugSource.id]) : '')
+    ) || `item-${Date.now()}-${i}`;
+
+    let slug = base;
+    let previous: CollectionItem | null = null;
+    if (assigned.has(base)) {
+      slug = uniqueSlug(base, new Set([...existing.keys(), ...assigned]));
+    } else if (existing.has(base)) {
+      if (onConflict === 'skip') {
+        report.skipped.push({ source: record.source, slug: base, reason: 'An item with this slug already exists' });
+        continue;
+      }
+      if (onConflict === 'update') {
+        previous = existing.get(base)!;
+      } else {
+        slug = uniqueSlug(base, new Set([...existing.keys(), ...assigned]));
+      }
+    }
+
+    // Updates keep fields the record has no column for
+    let data = previous ? { ...previous.data, ...mapped.data } : applyFieldDefaults(mapped.data, schema);
+    const validation = validateItemData(data, schema);
+    const errors = {
+      ...(await findMissingReferences(bucket, site, schema.fields, data)),
+      ...validation.errors,
+      ...mapped.errors,
+    };
+    if (Object.keys(errors).length > 0) {
+      report.errors.push({ source: record.source, errors });
+      continue;
+    }
+
+    // Inline rich text images become assets (a dry run writes nothing)
+    if (!options.dryRun) {
+      const stored = await storeRichTextImages(bucket, site, schema, data);
+      if (Object.keys(stored.errors).length > 0) {
+        report.errors.push({ source: record.source, errors: stored.errors });
+        continue;
+      }
+      data = stored.data;
+    }
+    assigned.add(slug);
+
+    const status = mapped.status || (previous ? previous.status : options.status || 'draft');
+    const item: CollectionItem = previous
+      ? {
+          ...previous,
+          data,
+          status,
+          publishedAt: mapped.publishedAt || previous.publishedAt,
+          updatedAt: now,
+        }
+      : {
+          id: Date.now() + i,
+          collectionId: collection.id,
+          slug,
+          data,
+          status,
+          publishedAt: mapped.publishedAt || (status === 'published' ? now : undefined),
+          createdAt: now,
+          updatedAt: now,
+        };
+    if (item.status === 'published' && !item.publishedAt) item.publishedAt = now;
+
+    (previous ? report.updated : report.created).push(slug);
+    if (options.dryRun) continue;
+
+    item.status = await syncItemSchedule(bucket, site, collection.slug, item, options.author);
+    await bucket.put(`${site}/collections/${collection.slug}/items/${slug}.json`, JSON.stringify(item, null, 2), {
+      httpMetadata: { contentType: 'application/json' },
+    });
+    written.push({ item, previous });
+    await recordMediaUsage(bucket, site, { type: 'item', collection: collection.slug, slug }, JSON.stringify(item.data));
+    existing.set(slug, item);
+  }
+
+  if (!options.dryRun && (report.created.length > 0 || report.updated.length > 0)) {
+    // Map preserves insertion order: updated items keep their place, new ones go last
+    await bucket.put(indexKey, JSON.stringify([...existing.values()], null, 2), {
+      httpMetadata: { contentType: 'application/json' },
+    });
+    await updateItemsIndex(bucket, site, collection, written);
+  }
+
+  return report;
+}
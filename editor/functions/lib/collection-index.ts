@@ -0,0 +1,531 @@
+/**
+ * Secondary indexes for collection queries
+ *
+ * Index entries (see lib/collection-query.ts for the entry layout) are
+ * batched into shards under {site}/collections/{slug}/query/:
+ *   meta.json                          — the finished build: schema, item count, generation
+ *   build.json                         — progress of a build under way
+ *   {generation}/sorted/{field}/{a|d}.json — "{value}/{slug}" keys of one sort order
+ *   {generation}/text/{field}/{c}.json — "{token}/{slug}" keys of the words starting with c
+ *
+ * Each shard is a sorted JSON array, so a query reads one shard per
+ * condition and one for the sort order, however many items there are.
+ * Item writes and deletes edit the shards they touch through
+ * updateItemIndex (conditional writes; an edit that keeps losing races drops
+ * meta.json so the index is rebuilt).
+ *
+ * A missing or stale index is built from the collection's index.json, at
+ * most SHARDS_PER_STEP shards per call: queries return null until it is
+ * done, and each one moves the build along from the cursor in build.json.
+ * A build writes a new generation and switches meta.json to it when
+ * complete, so a half-built index is never queried.
+ */
+
+import {
+  INDEX_VERSION,
+  encodeCursor,
+  encodeIndexValue,
+  encodeToken,
+  getIndexedFields,
+  getItemIndexEntries,
+  tokenize,
+  type CollectionQuery,
+  type IndexedField,
+  type QueryCondition,
+} from '../../lib/collection-query';
+import type { Collection, CollectionItem, CollectionSchema } from '../../lib/collections';
+
+interface IndexMeta {
+  version: number;
+  /** Indexed fields and their flags; a different schema means a rebuild */
+  fields: string;
+  builtAt: string;
+  items: number;
+  /** Shards live under {generation}/ */
+  generation: string;
+}
+
+interface BuildState {
+  version: number;
+  fields: string;
+  generation: string;
+  /** etag of the index.json being indexed; a newer one restarts the build */
+  sourceEtag: string;
+  /** Shards written so far, in name order */
+  written: number;
+}
+
+export interface QueryResult {
+  items: CollectionItem[];
+  nextCursor: string | null;
+}
+
+export interface BuildProgress {
+  complete: boolean;
+  items: number;
+}
+
+const LIST_LIMIT = 1000;
+/** Shard writes per build step, well inside a request's subrequest budget */
+const SHARDS_PER_STEP = 40;
+const MAX_CLEANUP = 5 * LIST_LIMIT;
+const GENERATION_PATTERN = /^\d{13}-[a-z0-9]+$/;
+
+function indexPrefix(site: string, collectionSlug: string): string {
+  return `${site}/collections/${collectionSlug}/query/`;
+}
+
+function shardKey(base: string, generation: string, shard: string): string {
+  return `${base}${generation}/${shard}.json`;
+}
+
+function fieldsSignature(schema: CollectionSchema): string {
+  return getIndexedFields(schema).map(f => `${f.id}:${f.type}${f.searchable ? ':s' : ''}`).join(',');
+}
+
+function generateGeneration(): string {
+  return `${String(Date.now()).padStart(13, '0')}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function slugOf(key: string): string {
+  return key.slice(key.lastIndexOf('/') + 1);
+}
+
+/**
+ * Shard of a word: its first character, or first percent-encoded byte
+ */
+function tokenShard(fieldId: string, encodedToken: string): string {
+  const initial = encodedToken.startsWith('%') ? encodedToken.slice(0, 3) : encodedToken[0];
+  return `text/${fieldId}/${initial.toLowerCase()}`;
+}
+
+/**
+ * Shard an index entry belongs to, and its key within the shard
+ */
+function shardOf(entry: string): { shard: string; key: string } {
+  const parts = entry.split('/');
+  if (parts[0] === 'sorted') {
+    return { shard: parts.slice(0, 3).join('/'), key: parts.slice(3).join('/') };
+  }
+  return { shard: tokenShard(parts[1], parts[2]), key: parts.slice(2).join('/') };
+}
+
+async function readJson<T>(bucket: R2Bucket, key: string): Promise<{ value: T; etag: string } | null> {
+  const obj = await bucket.get(key);
+  if (!obj) return null;
+  try {
+    return { value: await obj.json() as T, etag: obj.etag };
+  } catch {
+    return null;
+  }
+}
+
+async function getMeta(bucket: R2Bucket, site: string, collectionSlug: string): Promise<IndexMeta | null> {
+  return (await readJson<IndexMeta>(bucket, `${indexPrefix(site, collectionSlug)}meta.json`))?.value || null;
+}
+
+/**
+ * The finished index, if it matches the current schema
+ */
+async function getCurrentMeta(bucket: R2Bucket, site: string, collection: Collection): Promise<IndexMeta | null> {
+  const meta = await getMeta(bucket, site, collection.slug);
+  return meta && meta.version === INDEX_VERSION && meta.fields === fieldsSignature(collection.schema) ? meta : null;
+}
+
+/**
+ * Whether the index exists and matches the current schema
+ */
+export async function isIndexCurrent(bucket: R2Bucket, site: string, collection: Collection): Promise<boolean> {
+  return !!(await getCurrentMeta(bucket, site, collection));
+}
+
+/**
+ * Keys under a prefix in order, until `visit` returns false
+ */
+async function walkKeys(
+  bucket: R2Bucket,
+  prefix: string,
+  startAfter: string | undefined,
+  visit: (key: string) => boolean | void
+): Promise<void> {
+  while (true) {
+    const listed = await bucket.list({ prefix, startAfter, limit: LIST_LIMIT });
+    for (const obj of listed.objects) {
+      if (visit(obj.key) === false) return;
+    }
+    if (!listed.truncated || listed.objects.length === 0) return;
+    startAfter = listed.objects[listed.objects.length - 1].key;
+  }
+}
+
+async function deleteKeys(bucket: R2Bucket, keys: string[]): Promise<void> {
+  // R2 deletes up to 1000 keys per call
+  for (let i = 0; i < keys.length; i += LIST_LIMIT) {
+    await bucket.delete(keys.slice(i, i + LIST_LIMIT));
+  }
+}
+
+/**
+ * Group entries by shard, each shard's keys sorted
+ */
+function groupEntries(entries: Iterable<string>): Map<string, string[]> {
+  const shards = new Map<string, string[]>();
+  for (const entry of entries) {
+    const { shard, key } = shardOf(entry);
+    const keys = shards.get(shard);
+    if (keys) keys.push(key);
+    else shards.set(shard, [key]);
+  }
+  for (const keys of shards.values()) keys.sort();
+  return shards;
+}
+
+// ─── Maintenance ───
+
+/**
+ * Drop the finished index so the next query rebuilds it, e.g. after a
+ * migration rewrote item data
+ */
+export async function invalidateCollectionIndex(bucket: R2Bucket, site: string, collectionSlug: string): Promise<void> {
+  const base = indexPrefix(site, collectionSlug);
+  await bucket.delete([`${base}meta.json`, `${base}build.json`]);
+}
+
+/**
+ * Take the next step of building a collection's index from its index.json.
+ * Builds are resumable: call again until `complete`.
+ */
+export async function buildCollectionIndex(bucket: R2Bucket, site: string, collection: Collection): Promise<BuildProgress> {
+  const base = indexPrefix(site, collection.slug);
+  const sourceKey = `${site}/collections/${collection.slug}/index.json`;
+  const fields = fieldsSignature(collection.schema);
+
+  const source = await bucket.get(sourceKey);
+  let items: CollectionItem[] = [];
+  if (source) {
+    try {
+      items = await source.json() as CollectionItem[];
+    } catch {
+      items = [];
+    }
+  }
+  const sourceEtag = source?.etag || '';
+
+  const saved = (await readJson<BuildState>(bucket, `${base}build.json`))?.value;
+  const state: BuildState = saved && saved.version === INDEX_VERSION && saved.fields === fields && saved.sourceEtag === sourceEtag
+    ? saved
+    : { version: INDEX_VERSION, fields, generation: generateGeneration(), sourceEtag, written: 0 };
+
+  const shards = groupEntries(items.flatMap(item => getItemIndexEntries(item, collection.schema)));
+  const names = [...shards.keys()].sort();
+  const batch = names.slice(state.written, state.written + SHARDS_PER_STEP);
+  for (let i = 0; i < batch.length; i += 10) {
+    await Promise.all(batch.slice(i, i + 10).map(name =>
+      bucket.put(shardKey(base, state.generation, name), JSON.stringify(shards.get(name)), {
+        httpMetadata: { contentType: 'application/json' },
+      })
+    ));
+  }
+  state.written += batch.length;
+
+  if (state.written < names.length) {
+    await bucket.put(`${base}build.json`, JSON.stringify(state), {
+      httpMetadata: { contentType: 'application/json' },
+    });
+    return { complete: false, items: items.length };
+  }
+
+  // A build that started later wins
+  const current = await getMeta(bucket, site, collection.slug);
+  if (!current || current.generation < state.generation) {
+    const meta: IndexMeta = {
+      version: INDEX_VERSION,
+      fields,
+      builtAt: new Date().toISOString(),
+      items: items.length,
+      generation: state.generation,
+    };
+    await bucket.put(`${base}meta.json`, JSON.stringify(meta, null, 2), {
+      httpMetadata: { contentType: 'application/json' },
+    });
+  }
+  await bucket.delete(`${base}build.json`);
+
+  // Items written while this step ran skipped the index; build again
+  if ((await bucket.head(sourceKey))?.etag !== (source?.etag)) {
+    await invalidateCollectionIndex(bucket, site, collection.slug);
+    return { complete: false, items: items.length };
+  }
+
+  // Shards of earlier generations and entries of the unsharded layout; newer
+  // generations may belong to a build under way. Bounded per build, the
+  // rest goes with the next one.
+  const stale: string[] = [];
+  await walkKeys(bucket, base, undefined, key => {
+    const rest = key.slice(base.length);
+    if (rest === 'meta.json' || rest === 'build.json') return;
+    const generation = rest.slice(0, rest.indexOf('/'));
+    if (!GENERATION_PATTERN.test(generation) || generation < state.generation) stale.push(key);
+    return stale.length < MAX_CLEANUP;
+  });
+  await deleteKeys(bucket, stale);
+
+  return { complete: true, items: items.length };
+}
+
+/**
+ * Drop the index and build it again from the start (one step; see buildCollectionIndex)
+ */
+export async function rebuildCollectionIndex(bucket: R2Bucket, site: string, collection: Collection): Promise<BuildProgress> {
+  await invalidateCollectionIndex(bucket, site, collection.slug);
+  return buildCollectionIndex(bucket, site, collection);
+}
+
+/**
+ * Apply removals and additions to one shard, retrying lost races
+ */
+async function editShard(bucket: R2Bucket, key: string, remove: Set<string>, add: string[]): Promise<boolean> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const found = await readJson<string[]>(bucket, key);
+    const keys = new Set((found?.value || []).filter(k => !remove.has(k)));
+    add.forEach(k => keys.add(k));
+
+    const written = await bucket.put(key, JSON.stringify([...keys].sort()), {
+      httpMetadata: { contentType: 'application/json' },
+      onlyIf: found ? { etagMatches: found.etag } : { etagDoesNotMatch: '*' },
+    });
+    if (written) return true;
+  }
+  return false;
+}
+
+/**
+ * Bring an item's index entries in line after a write (`item`) or delete
+ * (`item` null). `previous` is the item as it was before, if it existed.
+ * Does nothing until the collection's index has been built.
+ */
+export async function updateItemIndex(
+  bucket: R2Bucket,
+  site: string,
+  collection: Collection,
+  item: CollectionItem | null,
+  previous: CollectionItem | null
+): Promise<void> {
+  await updateItemsIndex(bucket, site, collection, [{ item, previous }]);
+}
+
+/**
+ * updateItemIndex for many items at once (imports), editing each shard once
+ */
+export async function updateItemsIndex(
+  bucket: R2Bucket,
+  site: string,
+  collection: Collection,
+  changes: { item: CollectionItem | null; previous: CollectionItem | null }[]
+): Promise<void> {
+  if (changes.length === 0) return;
+  const meta = await getCurrentMeta(bucket, site, collection);
+  if (!meta) return;
+
+  const base = indexPrefix(site, collection.slug);
+  const removedEntries: string[] = [];
+  const addedEntries: string[] = [];
+  for (const { item, previous } of changes) {
+    const next = new Set(item ? getItemIndexEntries(item, collection.schema) : []);
+    const old = new Set(previous ? getItemIndexEntries(previous, collection.schema) : []);
+    removedEntries.push(...[...old].filter(entry => !next.has(entry)));
+    addedEntries.push(...[...next].filter(entry => !old.has(entry)));
+  }
+
+  const removed = groupEntries(removedEntries);
+  const added = groupEntries(addedEntries);
+
+  for (const shard of new Set([...removed.keys(), ...added.keys()])) {
+    const ok = await editShard(bucket, shardKey(base, meta.generation, shard), new Set(removed.get(shard)), added.get(shard) || []);
+    // Lost every race; drop the index so the next query rebuilds it
+    if (!ok) {
+      await invalidateCollectionIndex(bucket, site, collection.slug);
+      return;
+    }
+  }
+}
+
+/**
+ * updateItemIndex for callers that only know the collection slug
+ */
+export async function updateItemIndexBySlug(
+  bucket: R2Bucket,
+  site: string,
+  collectionSlug: string,
+  item: CollectionItem | null,
+  previous: CollectionItem | null
+): Promise<void> {
+  const obj = await bucket.get(`${site}/collections/${collectionSlug}.json`);
+  if (!obj) return;
+  await updateItemIndex(bucket, site, await obj.json() as Collection, item, previous);
+}
+
+// ─── Querying ───
+
+/**
+ * Reads each shard once per query
+ */
+function shardReader(bucket: R2Bucket, base: string, generation: string): (shard: string) => Promise<string[]> {
+  const cache = new Map<string, Promise<string[]>>();
+  return shard => {
+    let keys = cache.get(shard);
+    if (!keys) {
+      keys = readJson<string[]>(bucket, shardKey(base, generation, shard)).then(found => found?.value || []);
+      cache.set(shard, keys);
+    }
+    return keys;
+  };
+}
+
+/**
+ * Position of the first key after `bound` (or at it, when inclusive)
+ */
+function seek(keys: string[], bound: string, inclusive: boolean): number {
+  let lo = 0;
+  let hi = keys.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (keys[mid] < bound || (!inclusive && keys[mid] === bound)) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function slugsWithPrefix(keys: string[], prefix: string): Set<string> {
+  const slugs = new Set<string>();
+  for (let i = seek(keys, prefix, true); i < keys.length && keys[i].startsWith(prefix); i++) {
+    slugs.add(slugOf(keys[i]));
+  }
+  return slugs;
+}
+
+function intersect(a: Set<string> | null, b: Set<string>): Set<string> {
+  return a ? new Set([...a].filter(slug => b.has(slug))) : b;
+}
+
+type ShardReader = ReturnType<typeof shardReader>;
+
+/**
+ * Items with a word starting with each token (all tokens must match),
+ * in any of the given searchable fields
+ */
+async function matchWords(read: ShardReader, fieldIds: string[], text: string): Promise<Set<string>> {
+  let result: Set<string> | null = null;
+  for (const token of tokenize(text)) {
+    const encoded = encodeToken(token);
+    const matches = new Set<string>();
+    for (const fieldId of fieldIds) {
+      for (const slug of slugsWithPrefix(await read(tokenShard(fieldId, encoded)), encoded)) {
+        matches.add(slug);
+      }
+    }
+    result = intersect(result, matches);
+    if (result.size === 0) break;
+  }
+  return result || new Set();
+}
+
+async function matchCondition(read: ShardReader, field: IndexedField, condition: QueryCondition): Promise<Set<string>> {
+  if (condition.op === 'contains' && field.searchable) {
+    return matchWords(read, [field.id], condition.values.join(' '));
+  }
+
+  const keys = await read(`sorted/${field.id}/a`);
+
+  if (condition.op === 'eq' || condition.op === 'contains') {
+    const slugs = new Set<string>();
+    for (const value of condition.values) {
+      for (const slug of slugsWithPrefix(keys, `${encodeIndexValue(value, field.type)}/`)) {
+        slugs.add(slug);
+      }
+    }
+    return slugs;
+  }
+
+  // Ranges: keys are {value}/{slug}, so start after the bound and stop past it.
+  // '~' sorts after every slug character, skipping all keys of the bound itself.
+  const bound = encodeIndexValue(condition.values[0], field.type);
+  const slugs = new Set<string>();
+  if (condition.op === 'gt' || condition.op === 'gte') {
+    const start = condition.op === 'gt' ? seek(keys, `${bound}/~`, false) : seek(keys, bound, true);
+    for (let i = start; i < keys.length; i++) {
+      // Empty values are not in any range
+      if (!keys[i].startsWith('/')) slugs.add(slugOf(keys[i]));
+    }
+  } else {
+    for (const key of keys) {
+      const value = key.slice(0, key.lastIndexOf('/'));
+      if (value > bound || (condition.op === 'lt' && value === bound)) break;
+      if (value) slugs.add(slugOf(key));
+    }
+  }
+  return slugs;
+}
+
+/**
+ * Run a query against a collection's index. Returns null while the index is
+ * still being built; each call takes the build a step further.
+ */
+export async function queryCollection(
+  bucket: R2Bucket,
+  site: string,
+  collection: Collection,
+  query: CollectionQuery
+): Promise<QueryResult | null> {
+  let meta = await getCurrentMeta(bucket, site, collection);
+  if (!meta) {
+    if (!(await buildCollectionIndex(bucket, site, collection)).complete) return null;
+    meta = await getCurrentMeta(bucket, site, collection);
+    if (!meta) return null;
+  }
+
+  const read = shardReader(bucket, indexPrefix(site, collection.slug), meta.generation);
+  const fields = new Map(getIndexedFields(collection.schema).map(f => [f.id, f]));
+
+  // Matching slugs for every condition; null means "everything"
+  let candidates: Set<string> | null = null;
+  for (const condition of query.where) {
+    candidates = intersect(candidates, await matchCondition(read, fields.get(condition.field)!, condition));
+    if (candidates.size === 0) return { items: [], nextCursor: null };
+  }
+  if (query.search) {
+    const searchable = [...fields.values()].filter(f => f.searchable).map(f => f.id);
+    candidates = intersect(candidates, await matchWords(read, searchable, query.search));
+    if (candidates.size === 0) return { items: [], nextCursor: null };
+  }
+
+  // Walk the sort order from the cursor, keeping matching items
+  const sorted = await read(`sorted/${query.sort}/${query.order === 'asc' ? 'a' : 'd'}`);
+  const page: { key: string; slug: string }[] = [];
+  for (let i = query.cursor ? seek(sorted, query.cursor.k, false) : 0; i < sorted.length; i++) {
+    const slug = slugOf(sorted[i]);
+    if (candidates && !candidates.has(slug)) continue;
+    page.push({ key: sorted[i], slug });
+    // One extra tells whether there is a next page
+    if (page.length > query.limit) break;
+  }
+
+  const hasMore = page.length > query.limit;
+  const entries = page.slice(0, query.limit);
+
+  const items: CollectionItem[] = [];
+  const objects = await Promise.all(
+    entries.map(entry => bucket.get(`${site}/collections/${collection.slug}/items/${entry.slug}.json`))
+  );
+  for (const obj of objects) {
+    // An entry can briefly outlive its item while a delete is in flight
+    if (obj) items.push(await obj.json() as CollectionItem);
+  }
+
+  return {
+    items,
+    nextCursor: hasMore
+      ? encodeCursor({ s: query.sort, o: query.order, k: entries[entries.length - 1].key })
+      : null,
+  };
+}
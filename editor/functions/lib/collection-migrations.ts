@@ -0,0 +1,140 @@
+/**
+ * Running schema migrations over a collection's items in R2
+ *
+ * Every item under {site}/collections/{slug}/items/ is migrated with the
+ * plan from lib/collection-migrations.ts. A dry run only reports; applying
+ * writes the converted items, rebuilds index.json from them and keeps the
+ * report at {site}/collections/{slug}/migrations/{id}.json.
+ */
+
+import { migrateItemData, type MigrationPlan } from '../../lib/collection-migrations';
+import type { Collection, CollectionItem, CollectionSchema } from '../../lib/collections';
+import { recordMediaUsage } from './media-library';
+
+export interface MigrationReport {
+  id: string;
+  collection: string;
+  plan: MigrationPlan;
+  dryRun: boolean;
+  applied: boolean;
+  total: number;
+  /** Items whose data changed (or would change) */
+  converted: string[];
+  /** Items that could not be converted; left untouched when applying */
+  failed: { item: string; errors: Record<string, string> }[];
+  author: string;
+  createdAt: string;
+}
+
+/**
+ * Migrate every item of a collection to `schema`.
+ * Nothing is written on a dry run, or when items fail and `force` is not set.
+ */
+export async function runMigration(
+  bucket: R2Bucket,
+  site: string,
+  collection: Collection,
+  schema: CollectionSchema,
+  plan: MigrationPlan,
+  options: { dryRun?: boolean; force?: boolean; author: string }
+): Promise<MigrationReport> {
+  const prefix = `${site}/collections/${collection.slug}/items/`;
+  const migrated: CollectionItem[] = [];
+  const now = new Date().toISOString();
+  const report: MigrationReport = {
+    id: `${String(Date.now()).padStart(13, '0')}-${Math.random().toString(36).slice(2, 8)}`,
+    collection: collection.slug,
+    plan,
+    dryRun: !!options.dryRun,
+    applied: false,
+    total: 0,
+    converted: [],
+    failed: [],
+    author: options.author,
+    createdAt: now,
+  };
+
+  let cursor: string | undefined;
+  do {
+    const listed = await bucket.list({ prefix, cursor });
+    for (const obj of listed.objects) {
+      if (!obj.key.endsWith('.json')) continue;
+      const itemObj = await bucket.get(obj.key);
+      if (!itemObj) continue;
+
+      let item: CollectionItem;
+      try {
+        item = await itemObj.json() as CollectionItem;
+      } catch {
+        report.failed.push({ item: obj.key.slice(prefix.length, -'.json'.length), errors: { _item: 'Invalid JSON' } });
+        continue;
+      }
+      report.total++;
+
+      const result = migrateItemData(item.data, plan, schema);
+      if (Object.keys(result.errors).length > 0) {
+        report.failed.push({ item: item.slug, errors: result.errors });
+      } else if (result.changed) {
+        report.converted.push(item.slug);
+        migrated.push({ ...item, data: result.data, updatedAt: now });
+      }
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  if (options.dryRun || (report.failed.length > 0 && !options.force)) {
+    return report;
+  }
+
+  for (const item of migrated) {
+    await bucket.put(`${prefix}${item.slug}.json`, JSON.stringify(item, null, 2), {
+      httpMetadata: { contentType: 'application/json' },
+    });
+    await recordMediaUsage(bucket, site, { type: 'item', collection: collection.slug, slug: item.slug }, JSON.stringify(item.data));
+  }
+
+  // The index holds full item copies, so it has to follow
+  if (migrated.length > 0) {
+    const indexKey = `${site}/collections/${collection.slug}/index.json`;
+    const indexObj = await bucket.get(indexKey);
+    let items: CollectionItem[] = [];
+    if (indexObj) {
+      try {
+        items = await indexObj.json() as CollectionItem[];
+      } catch {
+        items = [];
+      }
+    }
+    const bySlug = new Map(migrated.map(item => [item.slug, item]));
+    await bucket.put(indexKey, JSON.stringify(items.map(item => bySlug.get(item.slug) || item), null, 2), {
+      httpMetadata: { contentType: 'application/json' },
+    });
+  }
+
+  report.applied = true;
+  await bucket.put(`${site}/collections/${collection.slug}/migrations/${report.id}.json`, JSON.stringify(report, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+
+  return report;
+}
+
+/**
+ * Applied migration reports of a collection, newest first
+ */
+export async function listMigrations(bucket: R2Bucket, site: string, collectionSlug: string): Promise<MigrationReport[]> {
+  const prefix = `${site}/collections/${collectionSlug}/migrations/`;
+  const reports: MigrationReport[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix, cursor });
+    for (const obj of listed.objects) {
+      const reportObj = await bucket.get(obj.key);
+      if (reportObj) reports.push(await reportObj.json() as MigrationReport);
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return reports.sort((a, b) => b.id.localeCompare(a.id));
+}
@@ -0,0 +1,219 @@
+/**
+ * Reference fields across collections
+ *
+ * reference / multireference fields store item slugs of their
+ * referenceCollection. This module loads the referenced items from R2 to
+ * resolve those slugs when items are read, checks that referenced items
+ * exist when they are written, and works out what an item delete would
+ * break according to each field's onDelete policy.
+ */
+
+import {
+  getReferenceFields,
+  getReferencedSlugs,
+  resolveItemReferences,
+  type Collection,
+  type CollectionItem,
+  type ReferenceDeletePolicy,
+} from '../../lib/collections';
+
+type ReferenceFieldLike = { id: string; type: string; referenceCollection?: string };
+
+export interface ItemReference {
+  /** The referencing item */
+  collection: string;
+  item: string;
+  field: string;
+  policy: ReferenceDeletePolicy;
+}
+
+export interface DeletionPlan {
+  /** References with the 'restrict' policy; the delete must be refused */
+  blockedBy: ItemReference[];
+  /** Items deleted along with the target through 'cascade' references */
+  cascade: { collection: string; item: string }[];
+}
+
+// ─── Loading ───
+
+async function loadCollection(bucket: R2Bucket, site: string, slug: string): Promise<Collection | null> {
+  const obj = await bucket.get(`${site}/collections/${slug}.json`);
+  if (!obj) return null;
+  try {
+    return await obj.json() as Collection;
+  } catch {
+    return null;
+  }
+}
+
+async function loadItems(bucket: R2Bucket, site: string, slug: string): Promise<CollectionItem[]> {
+  const obj = await bucket.get(`${site}/collections/${slug}/index.json`);
+  if (!obj) return [];
+  try {
+    return await obj.json() as CollectionItem[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Every collection definition of a site
+ */
+async function loadAllCollections(bucket: R2Bucket, site: string): Promise<Collection[]> {
+  const prefix = `${site}/collections/`;
+  const collections: Collection[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix, cursor, delimiter: '/' });
+    for (const obj of listed.objects) {
+      if (!obj.key.endsWith('.json')) continue;
+      const collection = await loadCollection(bucket, site, obj.key.slice(prefix.length, -'.json'.length));
+      if (collection) collections.push(collection);
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return collections;
+}
+
+// ─── Reading ───
+
+/**
+ * Resolve reference fields of `items` into the referenced items' data.
+ * With `publishedOnly`, drafts and archived items are treated as missing,
+ * which is what the live site needs.
+ */
+export async function resolveReferences<T extends { data: Record<string, any> }>(
+  bucket: R2Bucket,
+  site: string,
+  fields: ReferenceFieldLike[],
+  items: T[],
+  options: { publishedOnly?: boolean } = {}
+): Promise<T[]> {
+  const referenceFields = getReferenceFields(fields);
+  if (referenceFields.length === 0 || items.length === 0) return items;
+
+  // One definition + index read per referenced collection
+  const targets = new Map<string, { collection: Collection; bySlug: Map<string, CollectionItem> }>();
+  for (const slug of new Set(referenceFields.map(f => f.referenceCollection!))) {
+    const collection = await loadCollection(bucket, site, slug);
+    if (!collection) continue;
+    const visible = (await loadItems(bucket, site, slug))
+      .filter(item => !options.publishedOnly || item.status === 'published');
+    targets.set(slug, { collection, bySlug: new Map(visible.map(item => [item.slug, item])) });
+  }
+
+  return items.map(item =>
+    resolveItemReferences(item, referenceFields, (collectionSlug, itemSlug) => {
+      const target = targets.get(collectionSlug);
+      const found = target?.bySlug.get(itemSlug);
+      return target && found ? { item: found, collection: target.collection } : undefined;
+    })
+  );
+}
+
+// ─── Writing ───
+
+/**
+ * Errors (keyed by field id, like validateItemData) for reference slugs
+ * that do not exist in their target collection
+ */
+export async function findMissingReferences(
+  bucket: R2Bucket,
+  site: string,
+  fields: ReferenceFieldLike[],
+  data: Record<string, any>
+): Promise<Record<string, string>> {
+  const errors: Record<string, string> = {};
+
+  for (const field of getReferenceFields(fields)) {
+    const slugs = getReferencedSlugs(data[field.id]);
+    if (slugs.length === 0) continue;
+
+    const existing = await Promise.all(
+      slugs.map(slug => bucket.head(`${site}/collections/${field.referenceCollection}/items/${slug}.json`))
+    );
+    const missing = slugs.filter((_, i) => !existing[i]);
+    if (missing.length > 0) {
+      errors[field.id] = `Not found in ${field.referenceCollection}: ${missing.join(', ')}`;
+    }
+  }
+
+  return errors;
+}
+
+// ─── Deleting ───
+
+/**
+ * Work out what deleting an item means for the items referencing it.
+ * Cascades are followed transitively; anything reached through a 'restrict'
+ * reference blocks the whole delete. References from items that are
+ * themselves being deleted do not block.
+ */
+export async function planItemDeletion(
+  bucket: R2Bucket,
+  site: string,
+  collectionSlug: string,
+  itemSlug: string
+): Promise<DeletionPlan> {
+  return planDeletion(bucket, site, [{ collection: collectionSlug, item: itemSlug }]);
+}
+
+/**
+ * planItemDeletion for every item of a collection at once, so references
+ * between its own items don't block
+ */
+export async function planCollectionDeletion(bucket: R2Bucket, site: string, collectionSlug: string): Promise<DeletionPlan> {
+  const items = await loadItems(bucket, site, collectionSlug);
+  return planDeletion(bucket, site, items.map(item => ({ collection: collectionSlug, item: item.slug })));
+}
+
+async function planDeletion(
+  bucket: R2Bucket,
+  site: string,
+  targets: { collection: string; item: string }[]
+): Promise<DeletionPlan> {
+  // Only collections with reference fields can point at anything
+  const referencing: { collection: Collection; items: CollectionItem[] }[] = [];
+  for (const collection of await loadAllCollections(bucket, site)) {
+    if (getReferenceFields(collection.schema.fields).length === 0) continue;
+    referencing.push({ collection, items: await loadItems(bucket, site, collection.slug) });
+  }
+
+  const key = (collection: string, item: string) => `${collection}/${item}`;
+  const deleting = new Set(targets.map(target => key(target.collection, target.item)));
+  const queue = [...targets];
+  const cascade: DeletionPlan['cascade'] = [];
+  const references: ItemReference[] = [];
+
+  while (queue.length > 0) {
+    const target = queue.shift()!;
+
+    for (const { collection, items } of referencing) {
+      const fields = getReferenceFields(collection.schema.fields)
+        .filter(f => f.referenceCollection === target.collection);
+      if (fields.length === 0) continue;
+
+      for (const item of items) {
+        for (const field of fields) {
+          if (!getReferencedSlugs(item.data[field.id]).includes(target.item)) continue;
+
+          const policy = field.onDelete || 'restrict';
+          references.push({ collection: collection.slug, item: item.slug, field: field.id, policy });
+
+          if (policy === 'cascade' && !deleting.has(key(collection.slug, item.slug))) {
+            deleting.add(key(collection.slug, item.slug));
+            cascade.push({ collection: collection.slug, item: item.slug });
+            queue.push({ collection: collection.slug, item: item.slug });
+          }
+        }
+      }
+    }
+  }
+
+  return {
+    blockedBy: references.filter(ref => ref.policy === 'restrict' && !deleting.has(key(ref.collection, ref.item))),
+    cascade,
+  };
+}
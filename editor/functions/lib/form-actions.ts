@@ -0,0 +1,371 @@
+/**
+ * Form actions — one delivery attempt of a form submission
+ *
+ * Sends a submission to its configured action (email, webhook, Xano
+ * database, Zapier). Attempts are queued and retried by
+ * functions/lib/form-delivery.ts; each one carries the submission's
+ * idempotency key, so a receiver can drop the duplicates a retry after a
+ * timeout may cause.
+ *
+ * Webhook and Zapier payloads are signed with the form's secret
+ * (/api/form-secrets):
+ *   X-Bloxx-Signature: t={unix seconds},v1={hex HMAC-SHA256 of "{t}.{raw body}"}
+ * Receivers recompute the HMAC with the secret, compare in constant time and
+ * reject old timestamps to stop replays.
+ */
+
+import {
+  type ActionConfig,
+  replaceTemplateVariables,
+  buildEmailBody,
+} from '../../lib/action-components';
+
+// ─── Types ───
+
+export interface FormActionEnv {
+  XANO_API_KEY?: string;
+  SENDGRID_API_KEY?: string;
+  RESEND_API_KEY?: string;
+}
+
+export interface DeliveryContext {
+  /** Same for every attempt at one submission */
+  idempotencyKey: string;
+  /** The form's webhook signing secret */
+  secret?: string;
+}
+
+export interface ActionResult {
+  success: boolean;
+  error?: string;
+  /** False when retrying can't help (missing config, a 4xx other than 408/429) */
+  retryable?: boolean;
+}
+
+export const SIGNATURE_HEADER = 'X-Bloxx-Signature';
+
+// ─── Helpers ───
+
+/** Config problems need someone to fix the form; retrying won't help */
+function configError(error: string): ActionResult {
+  return { success: false, error, retryable: false };
+}
+
+async function httpError(response: Response, label: string): Promise<ActionResult> {
+  const detail = (await response.text().catch(() => '')).slice(0, 500);
+  return {
+    success: false,
+    error: `${label} returned ${response.status}${detail ? `: ${detail}` : ''}`,
+    retryable: response.status >= 500 || response.status === 408 || response.status === 429,
+  };
+}
+
+export async function signPayload(secret: string, body: string, timestamp: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+  const hex = Array.from(new Uint8Array(signature), b => b.toString(16).padStart(2, '0')).join('');
+  return `t=${timestamp},v1=${hex}`;
+}
+
+/**
+ * Headers identifying and authenticating one delivery of `body`
+ */
+async function deliveryHeaders(body: string, delivery: DeliveryContext): Promise<Record<string, string>> {
+  const headers: Record<string, string> = { 'Idempotency-Key': delivery.idempotencyKey };
+  if (delivery.secret) {
+    headers[SIGNATURE_HEADER] = await signPayload(delivery.secret, body, Math.floor(Date.now() / 1000));
+  }
+  return headers;
+}
+
+function pickFields(formData: Record<string, any>, include: '*' | string[]): Record<string, any> {
+  if (include === '*') return formData;
+  const payload: Record<string, any> = {};
+  for (const field of include) {
+    if (formData[field] !== undefined) {
+      payload[field] = formData[field];
+    }
+  }
+  return payload;
+}
+
+// ─── Email ───
+
+/**
+ * Send email via SendGrid
+ */
+async function sendEmailSendGrid(
+  apiKey: string,
+  to: string,
+  from: string,
+  subject: string,
+  body: string,
+  delivery: DeliveryContext,
+  replyTo?: string
+): Promise<ActionResult> {
+  try {
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: to }] }],
+        from: { email: from },
+        reply_to: replyTo ? { email: replyTo } : undefined,
+        subject,
+        content: [{ type: 'text/plain', value: body }],
+        // SendGrid has no idempotency support; tag the message so duplicates can be traced
+        custom_args: { idempotency_key: delivery.idempotencyKey },
+      }),
+    });
+
+    if (!response.ok) return httpError(response, 'SendGrid');
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+/**
+ * Send email via Resend
+ */
+async function sendEmailResend(
+  apiKey: string,
+  to: string,
+  from: string,
+  subject: string,
+  body: string,
+  delivery: DeliveryContext,
+  replyTo?: string
+): Promise<ActionResult> {
+  try {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+        'Idempotency-Key': delivery.idempotencyKey,
+      },
+      body: JSON.stringify({
+        from,
+        to: [to],
+        reply_to: replyTo,
+        subject,
+        text: body,
+      }),
+    });
+
+    if (!response.ok) return httpError(response, 'Resend');
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+/**
+ * Send a plain-text email from the platform itself (not a site's form), with
+ * Resend if it is configured, else SendGrid
+ */
+export async function sendEmail(
+  env: FormActionEnv,
+  message: { to: string; subject: string; body: string },
+  delivery: DeliveryContext
+): Promise<ActionResult> {
+  const from = 'noreply@bloxx.site';
+  if (env.RESEND_API_KEY) {
+    return sendEmailResend(env.RESEND_API_KEY, message.to, from, message.subject, message.body, delivery);
+  }
+  if (env.SENDGRID_API_KEY) {
+    return sendEmailSendGrid(env.SENDGRID_API_KEY, message.to, from, message.subject, message.body, delivery);
+  }
+  return configError('No email provider configured');
+}
+
+/**
+ * Handle email action
+ */
+async function handleEmailAction(
+  env: FormActionEnv,
+  config: ActionConfig,
+  formData: Record<string, any>,
+  delivery: DeliveryContext,
+  globalSettings?: Record<string, any>
+): Promise<ActionResult> {
+  const emailConfig = config.emailConfig;
+  if (!emailConfig) {
+    return configError('Email config missing');
+  }
+
+  const to = replaceTemplateVariables(emailConfig.to, formData, globalSettings);
+  const subject = replaceTemplateVariables(emailConfig.subject, formData, globalSettings);
+  const replyTo = emailConfig.replyTo
+    ? replaceTemplateVariables(emailConfig.replyTo, formData, globalSettings)
+    : undefined;
+
+  const body = buildEmailBody(formData);
+
+  // Determine email provider
+  const provider = globalSettings?.integrations?.emailProvider || 'sendgrid';
+  const fromEmail = globalSettings?.integrations?.emailFromAddress || 'noreply@bloxx.site';
+
+  if (provider === 'resend' && env.RESEND_API_KEY) {
+    return sendEmailResend(env.RESEND_API_KEY, to, fromEmail, subject, body, delivery, replyTo);
+  }
+
+  if (env.SENDGRID_API_KEY) {
+    return sendEmailSendGrid(env.SENDGRID_API_KEY, to, fromEmail, subject, body, delivery, replyTo);
+  }
+
+  return configError('No email provider configured');
+}
+
+// ─── Webhooks ───
+
+/**
+ * Handle webhook action
+ */
+async function handleWebhookAction(
+  config: ActionConfig,
+  formData: Record<string, any>,
+  delivery: DeliveryContext
+): Promise<ActionResult> {
+  const webhookConfig = config.webhookConfig;
+  if (!webhookConfig?.url) {
+    return configError('Webhook URL missing');
+  }
+
+  // Remove internal fields
+  const cleanPayload = Object.fromEntries(
+    Object.entries(pickFields(formData, webhookConfig.includeFields)).filter(([key]) => !key.startsWith('_'))
+  );
+  const body = JSON.stringify(cleanPayload);
+
+  try {
+    const response = await fetch(webhookConfig.url, {
+      method: webhookConfig.method || 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...webhookConfig.headers,
+        ...(await deliveryHeaders(body, delivery)),
+      },
+      body,
+    });
+
+    if (!response.ok) return httpError(response, 'Webhook');
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+/**
+ * Handle Zapier action
+ */
+async function handleZapierAction(
+  config: ActionConfig,
+  formData: Record<string, any>,
+  delivery: DeliveryContext
+): Promise<ActionResult> {
+  const zapierConfig = config.zapierConfig;
+  if (!zapierConfig?.webhookUrl) {
+    return configError('Zapier webhook URL missing');
+  }
+
+  const body = JSON.stringify(pickFields(formData, zapierConfig.includeFields));
+
+  try {
+    const response = await fetch(zapierConfig.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await deliveryHeaders(body, delivery)),
+      },
+      body,
+    });
+
+    if (!response.ok) return httpError(response, 'Zapier webhook');
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+// ─── Database ───
+
+/**
+ * Handle database action (via Xano)
+ */
+async function handleDatabaseAction(
+  env: FormActionEnv,
+  config: ActionConfig,
+  formData: Record<string, any>,
+  delivery: DeliveryContext,
+  globalSettings?: Record<string, any>
+): Promise<ActionResult> {
+  const dbConfig = config.databaseConfig;
+  if (!dbConfig?.table) {
+    return configError('Database table not configured');
+  }
+
+  if (!env.XANO_API_KEY) {
+    return configError('Database not configured');
+  }
+
+  // Build record from mappings
+  const record: Record<string, any> = {};
+  for (const [column, template] of Object.entries(dbConfig.mappings)) {
+    record[column] = replaceTemplateVariables(template, formData, globalSettings);
+  }
+
+  // Add metadata; the submission time stays the same across retries
+  record._submitted_at = formData._submittedAt || new Date().toISOString();
+
+  try {
+    // Use Xano API to insert record
+    const xanoUrl = `https://xyfa-9qn6-4vhk.n7.xano.io/api:la4i98J3/${dbConfig.table}`;
+    const response = await fetch(xanoUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${env.XANO_API_KEY}`,
+        'Idempotency-Key': delivery.idempotencyKey,
+      },
+      body: JSON.stringify(record),
+    });
+
+    if (!response.ok) return httpError(response, 'Xano');
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+// ─── Dispatch ───
+
+/**
+ * Process form submission based on action type
+ */
+export async function processSubmission(
+  env: FormActionEnv,
+  actionConfig: ActionConfig,
+  formData: Record<string, any>,
+  delivery: DeliveryContext,
+  globalSettings?: Record<string, any>
+): Promise<ActionResult> {
+  switch (actionConfig.action) {
+    case 'email':
+      return handleEmailAction(env, actionConfig, formData, delivery, globalSettings);
+    case 'webhook':
+      return handleWebhookAction(actionConfig, formData, delivery);
+    case 'database':
+      return handleDatabaseAction(env, actionConfig, formData, delivery, globalSettings);
+    case 'zapier':
+      return handleZapierAction(actionConfig, formData, delivery);
+    default:
+      return configError(`Unknown action type: ${actionConfig.action}`);
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * Durable delivery queue for form submissions
+ *
+ * R2 layout:
+ *   _forms/due/{attempt ms}/{site}/{formId}/{id} — empty marker per queued attempt
+ *   {site}/forms/{formId}/config.json            — the form's action config, set in the editor
+ *   {site}/forms/{formId}/secret.json            — the form's webhook signing secret
+ *
+ * Submissions live in the inbox (functions/lib/form-inbox.ts) and their
+ * delivery state is part of that record. As with scheduled jobs, markers
+ * sort by time, so the cron Worker (functions/scheduler/worker.ts) lists
+ * the due ones each tick. An attempt claims the submission with a
+ * conditional write, so the request that queued it and a cron tick never
+ * deliver it twice; a claim left behind by a crashed attempt expires after
+ * CLAIM_TIMEOUT_MS.
+ *
+ * Every attempt works from the form's stored action config and the site's
+ * settings as they are at that moment. Forms from before stored configs may
+ * still send theirs for a while (see /api/forms); those submissions keep it,
+ * restricted to the site's contact email, and use it until the form has a
+ * stored config.
+ *
+ * Failed attempts are retried with exponential backoff (1 min, 2 min, 4 min,
+ * ... up to 6 hours apart). After MAX_ATTEMPTS, or a failure retrying can't
+ * fix (form-actions.ts), the submission is dead-lettered: status "dead",
+ * listed by /api/form-submissions?status=dead until someone replays it.
+ */
+
+import { parseActionConfig, type ActionConfig } from '../../lib/action-components';
+import { processSubmission, type FormActionEnv } from './form-actions';
+import {
+  readSubmission,
+  storeSubmission,
+  writeSubmission,
+  type StoredSubmission,
+  type SubmissionDelivery,
+} from './form-inbox';
+import { loadSiteSettings } from './live-site';
+
+// ─── Constants ───
+
+const DUE_PREFIX = '_forms/due/';
+
+export const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 60_000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60_000;
+/** An attempt that hasn't finished after this long is presumed dead */
+const CLAIM_TIMEOUT_MS = 10 * 60_000;
+const MAX_LOG_ENTRIES = 20;
+/** Attempts per cron tick; the rest wait for the next one */
+const MAX_DELIVERIES_PER_RUN = 50;
+
+// ─── Keys ───
+
+function dueKey(submission: Pick<StoredSubmission, 'site' | 'formId' | 'id'>, at: number): string {
+  return `${DUE_PREFIX}${String(at).padStart(13, '0')}/${submission.site}/${submission.formId}/${submission.id}`;
+}
+
+function configKey(site: string, formId: string): string {
+  return `${site}/forms/${formId}/config.json`;
+}
+
+function secretKey(site: string, formId: string): string {
+  return `${site}/forms/${formId}/secret.json`;
+}
+
+/** Sent with every attempt at a submission, so receivers can drop duplicates */
+function idempotencyKey(submission: Pick<StoredSubmission, 'site' | 'formId' | 'id'>): string {
+  return `${submission.site}-${submission.formId}-${submission.id}`;
+}
+
+export function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// ─── Action configs ───
+
+/**
+ * The form's stored action config, or null if it has none (or an invalid one)
+ */
+export async function getFormConfig(bucket: R2Bucket, site: string, formId: string): Promise<ActionConfig | null> {
+  const obj = await bucket.get(configKey(site, formId));
+  if (!obj) return null;
+  try {
+    const config = parseActionConfig(await obj.json());
+    return typeof config === 'string' ? null : config;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store the form's action config; submissions queued earlier are delivered
+ * with it too
+ */
+export async function saveFormConfig(bucket: R2Bucket, site: string, formId: string, config: ActionConfig): Promise<void> {
+  await bucket.put(configKey(site, formId), JSON.stringify(config, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
+
+// ─── Signing secrets ───
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `whsec_${Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * The form's webhook signing secret, created on first use
+ */
+export async function getFormSecret(bucket: R2Bucket, site: string, formId: string): Promise<string> {
+  const obj = await bucket.get(secretKey(site, formId));
+  if (obj) {
+    try {
+      const { secret } = await obj.json() as { secret: string };
+      if (secret) return secret;
+    } catch {
+      // Replaced below
+    }
+  }
+  return rotateFormSecret(bucket, site, formId);
+}
+
+/**
+ * Replace the form's signing secret; deliveries from now on use the new one
+ */
+export async function rotateFormSecret(bucket: R2Bucket, site: string, formId: string): Promise<string> {
+  const secret = generateSecret();
+  await bucket.put(secretKey(site, formId), JSON.stringify({ secret, createdAt: new Date().toISOString() }, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+  return secret;
+}
+
+// ─── Queue ───
+
+/**
+ * Store a submission and queue its first attempt, due now
+ */
+export async function enqueueSubmission(
+  bucket: R2Bucket,
+  input: Parameters<typeof storeSubmission>[1]
+): Promise<{ submission: StoredSubmission; duplicate: boolean }> {
+  const stored = await storeSubmission(bucket, input);
+  if (stored.duplicate) return stored;
+
+  await bucket.put(dueKey(stored.submission, Date.now()), '');
+  return stored;
+}
+
+function isClaimable(delivery: SubmissionDelivery, now: number): boolean {
+  if (delivery.status === 'pending') {
+    return !delivery.nextAttemptAt || Date.parse(delivery.nextAttemptAt) <= now;
+  }
+  return delivery.status === 'delivering'
+    && !!delivery.lastAttemptAt
+    && Date.parse(delivery.lastAttemptAt) + CLAIM_TIMEOUT_MS <= now;
+}
+
+/**
+ * Replace a submission's delivery state, keeping changes made to the rest of
+ * it (read flag, tags) since it was claimed
+ */
+async function saveDelivery(bucket: R2Bucket, submission: StoredSubmission, delivery: SubmissionDelivery): Promise<StoredSubmission> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const found = await readSubmission(bucket, submission.site, submission.formId, submission.id);
+    // Deleted while it was being delivered
+    if (!found) return { ...submission, delivery };
+
+    const updated = { ...found.submission, delivery };
+    if (await writeSubmission(bucket, updated, found.etag)) return updated;
+  }
+  const updated = { ...submission, delivery };
+  await writeSubmission(bucket, updated);
+  return updated;
+}
+
+/**
+ * Claim a due submission and attempt its delivery once. Returns the
+ * submission afterwards, or null if it isn't due or another attempt has it.
+ */
+export async function attemptDelivery(
+  bucket: R2Bucket,
+  env: FormActionEnv,
+  site: string,
+  formId: string,
+  id: string
+): Promise<StoredSubmission | null> {
+  const found = await readSubmission(bucket, site, formId, id);
+  const now = Date.now();
+  if (!found || !isClaimable(found.submission.delivery, now)) return null;
+
+  const claimed: StoredSubmission = {
+    ...found.submission,
+    delivery: { ...found.submission.delivery, status: 'delivering', lastAttemptAt: new Date(now).toISOString() },
+  };
+  if (!(await writeSubmission(bucket, claimed, found.etag))) return null;
+
+  // Picks the submission up again if this attempt never finishes
+  const claimMarker = dueKey(claimed, now + CLAIM_TIMEOUT_MS);
+  await bucket.put(claimMarker, '');
+
+  // A config stored since takes over from the one sent with the submission
+  const config = await getFormConfig(bucket, site, formId) || claimed.legacyConfig || null;
+  const action = config?.action || claimed.delivery.action;
+  const secret = action === 'webhook' || action === 'zapier'
+    ? await getFormSecret(bucket, site, formId)
+    : undefined;
+
+  const result = config
+    ? await processSubmission(
+      env,
+      config,
+      claimed.data,
+      { idempotencyKey: idempotencyKey(claimed), secret },
+      await loadSiteSettings(bucket, site)
+    ).catch((err: any) => ({ success: false, error: err.message || String(err), retryable: true }))
+    : { success: false, error: 'The form has no action config', retryable: false };
+
+  const attempts = claimed.delivery.attempts + 1;
+  const log = [
+    ...claimed.delivery.log,
+    { at: claimed.delivery.lastAttemptAt!, success: result.success, ...(result.error ? { error: result.error } : {}) },
+  ].slice(-MAX_LOG_ENTRIES);
+
+  let delivery: SubmissionDelivery;
+  if (result.success) {
+    delivery = { action, status: 'delivered', attempts, lastAttemptAt: claimed.delivery.lastAttemptAt, log };
+  } else if (result.retryable !== false && attempts < MAX_ATTEMPTS) {
+    const next = Date.now() + retryDelay(attempts);
+    delivery = {
+      action,
+      status: 'pending',
+      attempts,
+      nextAttemptAt: new Date(next).toISOString(),
+      lastAttemptAt: claimed.delivery.lastAttemptAt,
+      error: result.error,
+      log,
+    };
+    await bucket.put(dueKey(claimed, next), '');
+  } else {
+    delivery = { action, status: 'dead', attempts, lastAttemptAt: claimed.delivery.lastAttemptAt, error: result.error, log };
+  }
+
+  const updated = await saveDelivery(bucket, claimed, delivery);
+  await bucket.delete(claimMarker);
+  return updated;
+}
+
+export interface DeliveryRunReport {
+  attempted: { site: string; formId: string; id: string; status: SubmissionDelivery['status'] }[];
+  /** Due attempts left for the next tick */
+  remaining: boolean;
+}
+
+/**
+ * Attempt every queued delivery whose time has come, oldest first
+ */
+export async function runDueDeliveries(bucket: R2Bucket, env: FormActionEnv, now: number = Date.now()): Promise<DeliveryRunReport> {
+  const report: DeliveryRunReport = { attempted: [], remaining: false };
+  const nowKey = `${DUE_PREFIX}${String(now).padStart(13, '0')}`;
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix: DUE_PREFIX, cursor });
+
+    for (const obj of listed.objects) {
+      // Keys sort by attempt time, so the first future one ends the scan
+      if (obj.key > nowKey) return report;
+      if (report.attempted.length >= MAX_DELIVERIES_PER_RUN) {
+        report.remaining = true;
+        return report;
+      }
+
+      const [, site, formId, id] = obj.key.slice(DUE_PREFIX.length).split('/');
+      // Remove the marker first: a retry writes a new one with its new time
+      await bucket.delete(obj.key);
+
+      const submission = await attemptDelivery(bucket, env, site, formId, id);
+      if (submission) report.attempted.push({ site, formId, id, status: submission.delivery.status });
+    }
+
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return report;
+}
+
+// ─── Dead letters ───
+
+/**
+ * Put a dead-lettered submission back in the queue with a fresh set of
+ * attempts, due now. Returns null if it doesn't exist, or the submission
+ * unchanged if it isn't dead.
+ */
+export async function replaySubmission(
+  bucket: R2Bucket,
+  site: string,
+  formId: string,
+  id: string
+): Promise<StoredSubmission | null> {
+  const found = await readSubmission(bucket, site, formId, id);
+  if (!found) return null;
+  if (found.submission.delivery.status !== 'dead') return found.submission;
+
+  const now = Date.now();
+  const replayed: StoredSubmission = {
+    ...found.submission,
+    delivery: {
+      ...found.submission.delivery,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date(now).toISOString(),
+    },
+  };
+  if (!(await writeSubmission(bucket, replayed, found.etag))) {
+    return (await readSubmission(bucket, site, formId, id))?.submission || null;
+  }
+  await bucket.put(dueKey(replayed, now), '');
+  return replayed;
+}
@@ -0,0 +1,312 @@
+/**
+ * Form submission inbox
+ *
+ * R2 layout:
+ *   {site}/forms/{formId}/submissions/{id}.json — one submission, its delivery state,
+ *                                                 read flag and tags
+ *   {site}/forms/{formId}/idempotency/{key}     — submission id for a client's idempotency key
+ *
+ * Every submission /api/forms accepts is stored here before it is delivered
+ * (email, webhook, Xano, Zapier), so a lead survives a failed or misconfigured
+ * integration. The delivery queue (functions/lib/form-delivery.ts) works from
+ * this record and the form's stored action config. Ids start with the submission time, so they sort oldest first.
+ */
+
+import type { ActionConfig, ActionType } from '../../lib/action-components';
+import { toCsv } from '../../lib/collection-import';
+
+// ─── Types ───
+
+/**
+ * - pending:    queued, waiting for its next attempt
+ * - delivering: claimed by an attempt in progress
+ * - delivered:  the action succeeded
+ * - dead:       out of attempts or failed for good; waits in the dead-letter list for a replay
+ */
+export type DeliveryStatus = 'pending' | 'delivering' | 'delivered' | 'dead';
+
+export interface DeliveryAttempt {
+  at: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface SubmissionDelivery {
+  action: ActionType;
+  status: DeliveryStatus;
+  /** Attempts since the submission (or its last replay) was queued */
+  attempts: number;
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  /** Error of the last failed attempt */
+  error?: string;
+  /** Every attempt, oldest first, capped */
+  log: DeliveryAttempt[];
+}
+
+export interface StoredSubmission {
+  id: string;
+  site: string;
+  formId: string;
+  /** Fields as submitted, with _pageUrl and _submittedAt */
+  data: Record<string, any>;
+  pageUrl?: string;
+  submittedAt: string;
+  read: boolean;
+  tags: string[];
+  /** The client's key, which makes resubmitting the same form fill a no-op */
+  idempotencyKey?: string;
+  /** Restricted config the form sent with the submission, for forms without a stored one */
+  legacyConfig?: ActionConfig;
+  delivery: SubmissionDelivery;
+}
+
+export interface SubmissionFilter {
+  formId?: string;
+  /** Case-insensitive text anywhere in the submitted fields */
+  q?: string;
+  read?: boolean;
+  tag?: string;
+  status?: DeliveryStatus;
+}
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+
+// ─── Keys ───
+
+function formPrefix(site: string, formId: string): string {
+  return `${site}/forms/${formId}/submissions/`;
+}
+
+function submissionKey(site: string, formId: string, id: string): string {
+  return `${formPrefix(site, formId)}${id}.json`;
+}
+
+function generateSubmissionId(): string {
+  return `${String(Date.now()).padStart(13, '0')}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isValidSubmissionId(id: string): boolean {
+  return /^\d{13}-[a-z0-9]+$/.test(id);
+}
+
+/** Form ids become part of R2 keys */
+export function isValidFormId(formId: string): boolean {
+  return /^[\w-]{1,100}$/.test(formId);
+}
+
+/** Client idempotency keys too, e.g. a UUID generated when the form is rendered */
+export function isValidIdempotencyKey(key: string): boolean {
+  return /^[\w-]{8,100}$/.test(key);
+}
+
+function idempotencyKeyPath(site: string, formId: string, key: string): string {
+  return `${site}/forms/${formId}/idempotency/${key}`;
+}
+
+/**
+ * Tags trimmed, lowercased and de-duplicated; null if they're not a list of short strings
+ */
+export function normalizeTags(tags: unknown): string[] | null {
+  if (!Array.isArray(tags) || tags.length > MAX_TAGS) return null;
+  const result = new Set<string>();
+  for (const tag of tags) {
+    if (typeof tag !== 'string') return null;
+    const clean = tag.trim().toLowerCase();
+    if (clean.length > MAX_TAG_LENGTH) return null;
+    if (clean) result.add(clean);
+  }
+  return Array.from(result);
+}
+
+// ─── Storage ───
+
+export async function readSubmission(
+  bucket: R2Bucket,
+  site: string,
+  formId: string,
+  id: string
+): Promise<{ submission: StoredSubmission; etag: string } | null> {
+  const obj = await bucket.get(submissionKey(site, formId, id));
+  if (!obj) return null;
+  try {
+    return { submission: await obj.json() as StoredSubmission, etag: obj.etag };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a submission; with `etag`, only if nobody else wrote it since. Returns false on conflict.
+ */
+export async function writeSubmission(bucket: R2Bucket, submission: StoredSubmission, etag?: string): Promise<boolean> {
+  const result = await bucket.put(
+    submissionKey(submission.site, submission.formId, submission.id),
+    JSON.stringify(submission, null, 2),
+    {
+      httpMetadata: { contentType: 'application/json' },
+      ...(etag ? { onlyIf: { etagMatches: etag } } : {}),
+    }
+  );
+  return result !== null;
+}
+
+/**
+ * Store a new submission, not yet delivered. With an idempotency key the
+ * client already used, returns the earlier submission instead (`duplicate`).
+ */
+export async function storeSubmission(
+  bucket: R2Bucket,
+  input: Pick<StoredSubmission, 'site' | 'formId' | 'data' | 'pageUrl' | 'idempotencyKey' | 'legacyConfig'> & { action: ActionType }
+): Promise<{ submission: StoredSubmission; duplicate: boolean }> {
+  const id = generateSubmissionId();
+
+  if (input.idempotencyKey) {
+    // Claim the key first; whoever loses the race gets the winner's submission
+    const path = idempotencyKeyPath(input.site, input.formId, input.idempotencyKey);
+    const claimed = await bucket.put(path, id, { onlyIf: { etagDoesNotMatch: '*' } });
+    if (!claimed) {
+      const earlierId = await (await bucket.get(path))?.text();
+      const earlier = earlierId ? await getSubmission(bucket, input.site, input.formId, earlierId) : null;
+      if (earlier) return { submission: earlier, duplicate: true };
+      // The earlier request never got its submission stored; this one takes the key over
+      await bucket.put(path, id);
+    }
+  }
+
+  const submission: StoredSubmission = {
+    id,
+    site: input.site,
+    formId: input.formId,
+    data: input.data,
+    pageUrl: input.pageUrl,
+    submittedAt: new Date().toISOString(),
+    read: false,
+    tags: [],
+    ...(input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : {}),
+    ...(input.legacyConfig ? { legacyConfig: input.legacyConfig } : {}),
+    delivery: { action: input.action, status: 'pending', attempts: 0, log: [] },
+  };
+  await writeSubmission(bucket, submission);
+  return { submission, duplicate: false };
+}
+
+export async function getSubmission(bucket: R2Bucket, site: string, formId: string, id: string): Promise<StoredSubmission | null> {
+  return (await readSubmission(bucket, site, formId, id))?.submission || null;
+}
+
+/**
+ * Change the read flag and/or tags of a submission. Re-reads it, so a
+ * delivery attempt finishing meanwhile isn't overwritten; null if it's gone.
+ */
+export async function updateSubmission(
+  bucket: R2Bucket,
+  site: string,
+  formId: string,
+  id: string,
+  changes: { read?: boolean; tags?: string[] }
+): Promise<StoredSubmission | null> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const found = await readSubmission(bucket, site, formId, id);
+    if (!found) return null;
+
+    const updated = { ...found.submission };
+    if (changes.read !== undefined) updated.read = changes.read;
+    if (changes.tags !== undefined) updated.tags = changes.tags;
+    if (await writeSubmission(bucket, updated, found.etag)) return updated;
+  }
+  throw new Error('Submission is being updated; try again');
+}
+
+export async function deleteSubmission(bucket: R2Bucket, submission: StoredSubmission): Promise<void> {
+  const keys = [submissionKey(submission.site, submission.formId, submission.id)];
+  if (submission.idempotencyKey) keys.push(idempotencyKeyPath(submission.site, submission.formId, submission.idempotencyKey));
+  await bucket.delete(keys);
+}
+
+// ─── Listing ───
+
+function matchesFilter(submission: StoredSubmission, filter: SubmissionFilter): boolean {
+  if (filter.read !== undefined && submission.read !== filter.read) return false;
+  if (filter.tag && !submission.tags.includes(filter.tag.toLowerCase())) return false;
+  if (filter.status && submission.delivery.status !== filter.status) return false;
+  if (filter.q) {
+    const q = filter.q.toLowerCase();
+    const text = Object.values(submission.data)
+      .map(value => (typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '')))
+      .join('\n')
+      .toLowerCase();
+    if (!text.includes(q) && !submission.tags.some(tag => tag.includes(q))) return false;
+  }
+  return true;
+}
+
+/**
+ * Submissions of a site (or one of its forms) matching `filter`, newest first
+ */
+export async function listSubmissions(
+  bucket: R2Bucket,
+  site: string,
+  filter: SubmissionFilter = {}
+): Promise<StoredSubmission[]> {
+  const prefix = filter.formId ? formPrefix(site, filter.formId) : `${site}/forms/`;
+  const result: StoredSubmission[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix, cursor });
+    for (const obj of listed.objects) {
+      if (!/\/submissions\/[^/]+\.json$/.test(obj.key)) continue;
+      const stored = await bucket.get(obj.key);
+      if (!stored) continue;
+      try {
+        const submission = await stored.json() as StoredSubmission;
+        if (matchesFilter(submission, filter)) result.push(submission);
+      } catch {
+        // Skip unreadable records
+      }
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return result.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+// ─── Export ───
+
+/**
+ * Visitor text opened in a spreadsheet must not run as a formula: cells
+ * starting with =, +, -, @, tab or CR get a leading '
+ */
+function spreadsheetSafe(value: any): any {
+  const text = Array.isArray(value) ? value.join(', ') : value;
+  return typeof text === 'string' && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+/**
+ * CSV of submissions: inbox columns, then every submitted field (internal
+ * _fields left out) in order of first appearance. Meant for spreadsheets,
+ * not re-import, so formula-like cells are escaped.
+ */
+export function submissionsToCsv(submissions: StoredSubmission[]): string {
+  const fields: string[] = [];
+  for (const submission of submissions) {
+    for (const key of Object.keys(submission.data)) {
+      if (!key.startsWith('_') && !fields.includes(key)) fields.push(key);
+    }
+  }
+
+  const header = ['id', 'form', 'submittedAt', 'pageUrl', 'read', 'tags', 'delivery', ...fields];
+  const rows = submissions.map(s => [
+    s.id,
+    s.formId,
+    s.submittedAt,
+    s.pageUrl,
+    s.read ? 'yes' : 'no',
+    s.tags,
+    s.delivery.status,
+    ...fields.map(field => s.data[field]),
+  ].map(spreadsheetSafe));
+  return toCsv(header, rows);
+}
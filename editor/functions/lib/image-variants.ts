@@ -0,0 +1,155 @@
+/**
+ * Image uploads with their intrinsic size and resized variants
+ *
+ * R2 layout:
+ *   {site}/assets/images/{name}                          — the original; customMetadata
+ *                                                         width, height, variants, formats
+ *   {site}/assets/images/_variants/{base}-{width}w.avif  — resized copies (lib/responsive-images.ts)
+ *   {site}/assets/images/_variants/{base}-{width}w.webp
+ *
+ * Variants are made with the Cloudflare Images binding (IMAGES). Without it,
+ * or for GIFs and SVGs, only the original is stored, with its size read from
+ * the file header where possible. Variants live under assets/, so deploys and
+ * exports carry them like any other asset.
+ */
+
+import {
+  applyResponsiveImages,
+  findImageAssets,
+  isResizableType,
+  readImageSize,
+  variantPath,
+  variantWidths,
+  VARIANT_FORMATS,
+  type ImageAsset,
+  type VariantFormat,
+} from '../../lib/responsive-images';
+
+export interface ImageVariantsEnv {
+  BLOXX_SITES: R2Bucket;
+  IMAGES?: ImagesBinding;
+}
+
+const VARIANT_QUALITY: Record<VariantFormat, number> = {
+  avif: 60,
+  webp: 80,
+};
+
+function imageKey(site: string, path: string): string {
+  return `${site}/assets/images/${path}`;
+}
+
+function bytesStream(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  return new Blob([bytes]).stream();
+}
+
+async function intrinsicSize(
+  images: ImagesBinding | undefined,
+  bytes: Uint8Array,
+  contentType: string
+): Promise<{ width: number; height: number } | null> {
+  if (images && contentType !== 'image/svg+xml') {
+    try {
+      const info = await images.info(bytesStream(bytes));
+      if ('width' in info && info.width > 0 && info.height > 0) return { width: info.width, height: info.height };
+    } catch {
+      // Fall back to reading the header
+    }
+  }
+  return readImageSize(bytes);
+}
+
+/**
+ * Resize `bytes` to each variant width in every format. Returns the widths
+ * that made it in all formats; a failed width is left out.
+ */
+async function storeVariants(
+  env: ImageVariantsEnv & { IMAGES: ImagesBinding },
+  site: string,
+  name: string,
+  bytes: Uint8Array,
+  width: number
+): Promise<number[]> {
+  const stored: number[] = [];
+  for (const variantWidth of variantWidths(width)) {
+    try {
+      for (const format of VARIANT_FORMATS) {
+        const result = await env.IMAGES
+          .input(bytesStream(bytes))
+          .transform({ width: variantWidth })
+          .output({ format: `image/${format}`, quality: VARIANT_QUALITY[format] });
+        // R2 needs the length up front, which a transform stream doesn't have
+        const body = await result.response().arrayBuffer();
+        await env.BLOXX_SITES.put(imageKey(site, variantPath(name, variantWidth, format)), body, {
+          httpMetadata: { contentType: result.contentType() },
+        });
+      }
+      stored.push(variantWidth);
+    } catch (err) {
+      console.error(`Image variant ${variantWidth}w of ${site}/${name} failed:`, err);
+    }
+  }
+  return stored;
+}
+
+/**
+ * Store an uploaded image under images/{name} with its size and variants.
+ * The original is written last, so its metadata never names missing variants.
+ */
+export async function storeImage(
+  env: ImageVariantsEnv,
+  site: string,
+  name: string,
+  bytes: Uint8Array,
+  contentType: string
+): Promise<ImageAsset> {
+  const size = await intrinsicSize(env.IMAGES, bytes, contentType);
+  const variants = size && env.IMAGES && isResizableType(contentType)
+    ? await storeVariants({ ...env, IMAGES: env.IMAGES }, site, name, bytes, size.width)
+    : [];
+  const asset: ImageAsset = {
+    name,
+    ...(size || {}),
+    variants,
+    formats: variants.length > 0 ? VARIANT_FORMATS : [],
+  };
+
+  await env.BLOXX_SITES.put(imageKey(site, name), bytes, {
+    httpMetadata: { contentType },
+    customMetadata: {
+      ...(size ? { width: String(size.width), height: String(size.height) } : {}),
+      ...(variants.length > 0 ? { variants: variants.join(','), formats: asset.formats.join(',') } : {}),
+    },
+  });
+  return asset;
+}
+
+/**
+ * Size and variants of an upload from its metadata; null if it doesn't exist
+ */
+export async function getImageAsset(bucket: R2Bucket, site: string, name: string): Promise<ImageAsset | null> {
+  const head = await bucket.head(imageKey(site, name));
+  if (!head) return null;
+
+  const meta = head.customMetadata || {};
+  const width = parseInt(meta.width || '', 10);
+  const height = parseInt(meta.height || '', 10);
+  return {
+    name,
+    ...(width > 0 && height > 0 ? { width, height } : {}),
+    variants: (meta.variants || '').split(',').map(Number).filter(w => w > 0),
+    formats: (meta.formats || '').split(',').filter((f): f is VariantFormat => (VARIANT_FORMATS as string[]).includes(f)),
+  };
+}
+
+/**
+ * Rewrite the page's <img> tags showing uploads with their sizes and srcsets
+ */
+export async function addResponsiveImages(bucket: R2Bucket, site: string, html: string): Promise<string> {
+  const assets = new Map<string, ImageAsset>();
+  for (const name of findImageAssets(html, site)) {
+    const asset = await getImageAsset(bucket, site, name);
+    if (asset) assets.set(name, asset);
+  }
+  return applyResponsiveImages(html, site, assets);
+}
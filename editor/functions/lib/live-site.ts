@@ -0,0 +1,531 @@
+/**
+ * Live site renderer shared by the production routes
+ *
+ * Serves the active release (functions/lib/releases.ts) with clean URLs:
+ *   /                 → index.html
+ *   /about, /about/   → about.html or about/index.html
+ *   /about.html       → 301 to /about
+ *   /_asset/{path}    → assets/{path} from the release
+ *   /{collection}/{item} → published collection item rendered through its template
+ *   /{collection}/, /{collection}/page/{n}/, /{collection}/{field}/{value}/
+ *                     → list and archive pages (lib/collection-list.ts), when no page
+ *                       has that path
+ *   /sitemap.xml, /robots.txt → generated at deploy time
+ *   any page or item path with ?preview={token}
+ *                     → the draft page or the item, whatever its status, under a
+ *                       preview banner (lib/preview-tokens.ts)
+ *
+ * Settings (branding CSS, analytics, favicon) and {{settings.*}} globals are
+ * applied at request time, so settings changes show up without a redeploy.
+ */
+
+import { getActiveManifest, getReleaseFile, type ReleaseManifest } from './releases';
+import { getDefaultSettings, getSettingValue, injectSettingsIntoHtml } from '../../lib/global-settings';
+import {
+  renderItemPage,
+  renderListTemplate,
+  buildCollectionListPage,
+  generateDefaultTemplate,
+  generateDefaultListTemplate,
+  type Collection,
+  type CollectionItem,
+} from '../api/collection-page';
+import { parseListPath } from '../../lib/collection-list';
+import { getAllowedTags } from '../../lib/richtext';
+import { getItemSeoOptions } from '../../lib/collection-seo';
+import { injectPreviewBanner, sameTarget, type PreviewTarget } from '../../lib/preview-tokens';
+import { resolveReferences } from './collection-references';
+import { checkPreviewToken } from './preview-tokens';
+
+export interface LiveSiteEnv {
+  BLOXX_SITES: R2Bucket;
+  AUTH_SECRET?: string;
+}
+
+interface LiveContext {
+  env: LiveSiteEnv;
+  site: string;
+  manifest: ReleaseManifest;
+  settings: Record<string, any>;
+  /** Changes whenever settings.json does; branding and analytics are injected from it */
+  settingsVersion: string;
+  /** Prefix for root-relative URLs: '' on a site's own domain, '/live/{site}' otherwise */
+  basePath: string;
+  request: Request;
+}
+
+const HTML_CACHE = 'public, max-age=60';
+const ASSET_CACHE = 'public, max-age=86400';
+const IMMUTABLE_ASSET_CACHE = 'public, max-age=31536000, immutable';
+
+// ─── Helpers ───
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export async function loadSiteSettings(bucket: R2Bucket, site: string): Promise<Record<string, any>> {
+  return (await readSiteSettings(bucket, site)).settings;
+}
+
+/**
+ * Settings with a version for ETags: the R2 etag, or "default" without a settings.json
+ */
+async function readSiteSettings(bucket: R2Bucket, site: string): Promise<{ settings: Record<string, any>; version: string }> {
+  const obj = await bucket.get(`${site}/settings.json`);
+  if (!obj) return { settings: getDefaultSettings(), version: 'default' };
+  try {
+    return { settings: await obj.json() as Record<string, any>, version: obj.etag.slice(0, 16) };
+  } catch {
+    return { settings: getDefaultSettings(), version: 'default' };
+  }
+}
+
+/**
+ * Map a clean URL path to candidate release file paths, most specific first
+ */
+export function resolvePagePaths(pathname: string): string[] {
+  const clean = pathname.replace(/^\/+|\/+$/g, '');
+  if (!clean) return ['index.html'];
+  return [`${clean}.html`, `${clean}/index.html`];
+}
+
+/**
+ * Rewrite editor-only asset URLs so pages work on the live site
+ */
+function rewriteUrls(html: string, ctx: Pick<LiveContext, 'site' | 'basePath'>): string {
+  const { site, basePath } = ctx;
+
+  // Uploaded images are referenced through the preview proxy in drafts
+  html = html.split(`/preview/${site}/_asset/`).join(`${basePath}/_asset/`);
+
+  return html.replace(
+    /(href|src)="(?!https?:\/\/|\/\/|#|mailto:|tel:|data:|javascript:)([^"]+)"/g,
+    (match, attr, path: string) => {
+      if (path.startsWith('/')) {
+        // Root-relative links only need a prefix when served under /live/{site}
+        return basePath && !path.startsWith(`${basePath}/`) ? `${attr}="${basePath}${path}"` : match;
+      }
+      // Page links become clean URLs: about.html → /about, index.html → /
+      const page = path.match(/^(?:\.\/)?(.*?)(?:\/?index)?\.html$/);
+      if (page) return `${attr}="${basePath}/${page[1]}"`;
+      return `${attr}="${basePath}/_asset/${path}"`;
+    }
+  );
+}
+
+/**
+ * Replace {{settings.category.field}} globals with escaped setting values
+ */
+export function replaceSettingsVariables(html: string, settings: Record<string, any>): string {
+  return html.replace(/\{\{settings\.([\w.]+)\}\}/g, (match, path) => {
+    const value = getSettingValue(settings, path);
+    if (value === undefined || value === null || typeof value === 'object') return '';
+    return escapeHtml(String(value));
+  });
+}
+
+/**
+ * Template for a collection's item pages: the one supplied by the caller
+ * (from drafts or a release), then {site}/collections/{slug}/template.html,
+ * then a generated default
+ */
+export async function resolveCollectionTemplate(
+  bucket: R2Bucket,
+  site: string,
+  collection: Collection,
+  template: string | null
+): Promise<string> {
+  if (template) return template;
+  const fallback = await bucket.get(`${site}/collections/${collection.slug}/template.html`);
+  return fallback ? await fallback.text() : generateDefaultTemplate(collection, site);
+}
+
+/**
+ * Template for a collection's list pages, like resolveCollectionTemplate:
+ * the caller's, then {site}/collections/{slug}/list-template.html, then a
+ * generated default
+ */
+export async function resolveCollectionListTemplate(
+  bucket: R2Bucket,
+  site: string,
+  collection: Collection,
+  template: string | null
+): Promise<string> {
+  if (template) return template;
+  const fallback = await bucket.get(`${site}/collections/${collection.slug}/list-template.html`);
+  return fallback ? await fallback.text() : generateDefaultListTemplate(collection, site);
+}
+
+/**
+ * A collection definition, or null if it is missing or not valid JSON
+ */
+async function loadCollection(bucket: R2Bucket, site: string, slug: string): Promise<Collection | null> {
+  const obj = await bucket.get(`${site}/collections/${slug}.json`);
+  if (!obj) return null;
+  try {
+    return await obj.json() as Collection;
+  } catch {
+    return null;
+  }
+}
+
+async function loadItem(bucket: R2Bucket, site: string, collectionSlug: string, itemSlug: string): Promise<CollectionItem | null> {
+  const obj = await bucket.get(`${site}/collections/${collectionSlug}/items/${itemSlug}.json`);
+  if (!obj) return null;
+  try {
+    return await obj.json() as CollectionItem;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every collection of a site with its published items (from each collection's index.json)
+ */
+export async function listPublishedCollections(
+  bucket: R2Bucket,
+  site: string
+): Promise<{ collection: Collection; items: CollectionItem[] }[]> {
+  const prefix = `${site}/collections/`;
+  const result: { collection: Collection; items: CollectionItem[] }[] = [];
+  let cursor: string | undefined;
+
+  do {
+    // Delimiter keeps item folders out of the listing; only {slug}.json remain
+    const listed = await bucket.list({ prefix, cursor, delimiter: '/' });
+    for (const obj of listed.objects) {
+      if (!obj.key.endsWith('.json')) continue;
+
+      const collection = await loadCollection(bucket, site, obj.key.slice(prefix.length, -'.json'.length));
+      if (!collection) continue;
+
+      const indexObj = await bucket.get(`${prefix}${collection.slug}/index.json`);
+      let items: CollectionItem[] = [];
+      if (indexObj) {
+        try {
+          items = await indexObj.json() as CollectionItem[];
+        } catch {
+          items = [];
+        }
+      }
+
+      result.push({ collection, items: items.filter(item => item.status === 'published') });
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return result;
+}
+
+function finalizeHtml(html: string, ctx: Pick<LiveContext, 'site' | 'basePath' | 'settings'>): string {
+  html = replaceSettingsVariables(html, ctx.settings);
+  html = injectSettingsIntoHtml(html, ctx.settings, `${ctx.basePath}/_asset/branding.css`);
+  return rewriteUrls(html, ctx);
+}
+
+/**
+ * ETag of a rendered page: the release, the settings injected into it and
+ * `version`, which stands for the page's own content
+ */
+function htmlEtag(ctx: Pick<LiveContext, 'manifest' | 'settingsVersion'>, version: string): string {
+  return `"${ctx.manifest.id}-${ctx.settingsVersion}-${version}"`;
+}
+
+/**
+ * 304 when the client already has `etag`
+ */
+function notModified(ctx: LiveContext, etag: string): Response | null {
+  return ctx.request.headers.get('If-None-Match') === etag
+    ? new Response(null, { status: 304, headers: { 'ETag': etag } })
+    : null;
+}
+
+function htmlResponse(html: string, status: number, etag: string): Response {
+  return new Response(html, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': status === 200 ? HTML_CACHE : 'no-store',
+      'ETag': etag,
+    },
+  });
+}
+
+// ─── Handlers ───
+
+async function serveAsset(ctx: LiveContext, assetPath: string): Promise<Response> {
+  const found = await getReleaseFile(ctx.env.BLOXX_SITES, ctx.site, ctx.manifest, `assets/${assetPath}`);
+  if (!found) return serveNotFound(ctx);
+
+  const etag = `"${found.file.hash}"`;
+  const unchanged = notModified(ctx, etag);
+  if (unchanged) return unchanged;
+
+  // Uploaded images carry a timestamp in their name and never change in place
+  const immutable = /(^|\/)\d{13}-[^/]+$/.test(assetPath);
+
+  const headers = new Headers();
+  found.file.contentType && headers.set('Content-Type', found.file.contentType);
+  headers.set('Cache-Control', immutable ? IMMUTABLE_ASSET_CACHE : ASSET_CACHE);
+  headers.set('ETag', etag);
+  return new Response(found.body.body, { headers });
+}
+
+async function serveRootFile(ctx: LiveContext, path: string): Promise<Response> {
+  const found = await getReleaseFile(ctx.env.BLOXX_SITES, ctx.site, ctx.manifest, path);
+  if (!found) return serveNotFound(ctx);
+
+  const headers = new Headers();
+  found.file.contentType && headers.set('Content-Type', found.file.contentType);
+  headers.set('Cache-Control', 'public, max-age=3600');
+  headers.set('ETag', `"${found.file.hash}"`);
+  return new Response(found.body.body, { headers });
+}
+
+async function servePage(ctx: LiveContext, pathname: string): Promise<Response | null> {
+  for (const path of resolvePagePaths(pathname)) {
+    // Collection templates are only reachable through their items
+    if (path.endsWith('-template.html')) continue;
+
+    const found = await getReleaseFile(ctx.env.BLOXX_SITES, ctx.site, ctx.manifest, path);
+    if (!found) continue;
+
+    const etag = htmlEtag(ctx, found.file.hash.slice(0, 16));
+    const unchanged = notModified(ctx, etag);
+    if (unchanged) return unchanged;
+
+    return htmlResponse(finalizeHtml(await found.body.text(), ctx), 200, etag);
+  }
+  return null;
+}
+
+async function serveCollectionItem(ctx: LiveContext, pathname: string): Promise<Response | null> {
+  const parts = pathname.replace(/^\/+|\/+$/g, '').split('/');
+  if (parts.length !== 2) return null;
+
+  const [collectionSlug, itemSlug] = parts;
+  const bucket = ctx.env.BLOXX_SITES;
+
+  const collection = await loadCollection(bucket, ctx.site, collectionSlug);
+  if (!collection) return null;
+
+  const stored = await loadItem(bucket, ctx.site, collectionSlug, itemSlug);
+  if (!stored) return null;
+
+  // Drafts and archived items are never served live, not even as references
+  if (stored.status !== 'published') return null;
+
+  const etag = htmlEtag(ctx, stored.updatedAt);
+  const unchanged = notModified(ctx, etag);
+  if (unchanged) return unchanged;
+
+  const [item] = await resolveReferences(bucket, ctx.site, collection.schema.fields, [stored], { publishedOnly: true });
+
+  // Prefer the template deployed with the release
+  const released = await getReleaseFile(bucket, ctx.site, ctx.manifest, `${collectionSlug}-template.html`);
+  const template = await resolveCollectionTemplate(
+    bucket, ctx.site, collection, released ? await released.body.text() : null
+  );
+
+  const baseUrl = ctx.settings.seo?.siteUrl || `${new URL(ctx.request.url).origin}${ctx.basePath}`;
+  const options = { allowedTags: getAllowedTags(ctx.settings), seo: getItemSeoOptions(ctx.settings, baseUrl) };
+  return htmlResponse(finalizeHtml(renderItemPage(template, item, collection, options), ctx), 200, etag);
+}
+
+async function serveCollectionList(ctx: LiveContext, pathname: string): Promise<Response | null> {
+  const route = parseListPath(pathname);
+  if (!route) return null;
+
+  const bucket = ctx.env.BLOXX_SITES;
+  const collection = await loadCollection(bucket, ctx.site, route.collectionSlug);
+  if (!collection) return null;
+
+  const indexObj = await bucket.get(`${ctx.site}/collections/${collection.slug}/index.json`);
+  let items: CollectionItem[] = [];
+  if (indexObj) {
+    try {
+      items = await indexObj.json() as CollectionItem[];
+    } catch {
+      items = [];
+    }
+  }
+  const published = items.filter(item => item.status === 'published');
+
+  const list = buildCollectionListPage(collection, published, route);
+  if (!list) return null;
+
+  const latest = published.reduce((max, item) => (item.updatedAt > max ? item.updatedAt : max), '');
+  const etag = htmlEtag(ctx, `${published.length}-${latest}`);
+  const unchanged = notModified(ctx, etag);
+  if (unchanged) return unchanged;
+
+  list.items = await resolveReferences(bucket, ctx.site, collection.schema.fields, list.items, { publishedOnly: true });
+
+  const released = await getReleaseFile(bucket, ctx.site, ctx.manifest, `${collection.slug}-list-template.html`);
+  const template = await resolveCollectionListTemplate(
+    bucket, ctx.site, collection, released ? await released.body.text() : null
+  );
+
+  const baseUrl = ctx.settings.seo?.siteUrl || `${new URL(ctx.request.url).origin}${ctx.basePath}`;
+  return htmlResponse(finalizeHtml(renderListTemplate(template, list, collection, baseUrl, { allowedTags: getAllowedTags(ctx.settings) }), ctx), 200, etag);
+}
+
+/**
+ * The page or item a preview URL points at
+ */
+function previewTargetFor(pathname: string): PreviewTarget | null {
+  const clean = pathname.replace(/^\/+|\/+$/g, '');
+  const parts = clean.split('/');
+  if (parts.length === 2) return { type: 'item', collection: parts[0], item: parts[1] };
+  if (parts.length === 1) return { type: 'page', page: clean || 'index' };
+  return null;
+}
+
+/**
+ * A draft page or an item of any status, for a valid preview token. Rendered
+ * from the drafts rather than the release, and never cached.
+ */
+async function servePreview(
+  ctx: Pick<LiveContext, 'env' | 'site' | 'basePath' | 'settings' | 'request'>,
+  pathname: string,
+  token: string
+): Promise<Response> {
+  const bucket = ctx.env.BLOXX_SITES;
+  const claims = await checkPreviewToken(bucket, ctx.env.AUTH_SECRET, token, ctx.site);
+  const target = previewTargetFor(pathname);
+
+  const respond = (html: string, status: number) => new Response(html, {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'private, no-store' },
+  });
+
+  if (!claims || !target || !sameTarget(claims.target, target)) {
+    return respond(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>Preview link expired</title>
+</head>
+<body>
+  <main style="font-family: system-ui, sans-serif; text-align: center; padding: 4rem 1rem;">
+    <h1>Preview link expired</h1>
+    <p>This preview link is no longer valid. Ask for a new one.</p>
+  </main>
+</body>
+</html>`, 403);
+  }
+
+  const banner = { status: 'draft', expiresAt: new Date(claims.exp * 1000).toISOString() };
+  let html: string;
+
+  if (target.type === 'page') {
+    const page = await bucket.get(`${ctx.site}/drafts/${target.page}.html`);
+    if (!page) return respond('<!DOCTYPE html><title>Not found</title><p>This page no longer exists.</p>', 404);
+    html = await page.text();
+  } else {
+    const collection = await loadCollection(bucket, ctx.site, target.collection);
+    const stored = await loadItem(bucket, ctx.site, target.collection, target.item);
+    if (!collection || !stored) {
+      return respond('<!DOCTYPE html><title>Not found</title><p>This item no longer exists.</p>', 404);
+    }
+    banner.status = stored.status;
+
+    // The token unlocks this item only; its references stay published-only
+    const [item] = await resolveReferences(bucket, ctx.site, collection.schema.fields, [stored], { publishedOnly: true });
+    const draftTemplate = await bucket.get(`${ctx.site}/drafts/${collection.slug}-template.html`);
+    const template = await resolveCollectionTemplate(
+      bucket, ctx.site, collection, draftTemplate ? await draftTemplate.text() : null
+    );
+
+    const baseUrl = ctx.settings.seo?.siteUrl || `${new URL(ctx.request.url).origin}${ctx.basePath}`;
+    const options = { allowedTags: getAllowedTags(ctx.settings), seo: getItemSeoOptions(ctx.settings, baseUrl) };
+    html = renderItemPage(template, item, collection, options);
+  }
+
+  return respond(injectPreviewBanner(finalizeHtml(html, ctx), banner), 200);
+}
+
+async function serveNotFound(ctx: LiveContext): Promise<Response> {
+  const notFoundPage = ctx.settings.publishing?.notFoundPage || '404';
+  const found = await getReleaseFile(ctx.env.BLOXX_SITES, ctx.site, ctx.manifest, `${notFoundPage}.html`);
+
+  const html = found
+    ? await found.body.text()
+    : `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>Page not found</title>
+</head>
+<body>
+  <main style="font-family: system-ui, sans-serif; text-align: center; padding: 4rem 1rem;">
+    <h1>Page not found</h1>
+    <p>The page you were looking for doesn't exist.</p>
+    <p><a href="/">Go to the homepage</a></p>
+  </main>
+</body>
+</html>`;
+
+  return htmlResponse(finalizeHtml(html, ctx), 404, htmlEtag(ctx, '404'));
+}
+
+/**
+ * Serve one request for a live site. `pathname` is relative to the site root.
+ */
+export async function serveLiveSite(
+  env: LiveSiteEnv,
+  request: Request,
+  site: string,
+  pathname: string,
+  basePath: string = ''
+): Promise<Response> {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return new Response('Method not allowed', { status: 405, headers: { 'Allow': 'GET, HEAD' } });
+  }
+
+  // Previews render drafts, so they work before the site's first deploy too
+  const previewToken = new URL(request.url).searchParams.get('preview');
+  if (previewToken && !pathname.startsWith('/_asset/')) {
+    const settings = await loadSiteSettings(env.BLOXX_SITES, site);
+    return servePreview({ env, site, basePath, settings, request }, pathname, previewToken);
+  }
+
+  const manifest = await getActiveManifest(env.BLOXX_SITES, site);
+  if (!manifest) {
+    return new Response('Site not published', { status: 404 });
+  }
+
+  const { settings, version: settingsVersion } = await readSiteSettings(env.BLOXX_SITES, site);
+  const ctx: LiveContext = { env, site, manifest, settings, settingsVersion, basePath, request };
+
+  if (pathname.startsWith('/_asset/')) {
+    return serveAsset(ctx, pathname.slice('/_asset/'.length));
+  }
+
+  // Deploy-generated root files (functions/lib/site-sitemap.ts)
+  if (/^\/(robots\.txt|sitemap(-\d+)?\.xml)$/.test(pathname)) {
+    return serveRootFile(ctx, pathname.slice(1));
+  }
+
+  // Canonicalize /about.html and /index.html to clean URLs
+  const htmlMatch = pathname.match(/^(.*?)(?:\/index)?\.html$/);
+  if (htmlMatch) {
+    const url = new URL(request.url);
+    url.pathname = `${basePath}${htmlMatch[1] || '/'}`;
+    return Response.redirect(url.toString(), 301);
+  }
+
+  return (await servePage(ctx, pathname))
+    || (await serveCollectionItem(ctx, pathname))
+    || (await serveCollectionList(ctx, pathname))
+    || serveNotFound(ctx);
+}
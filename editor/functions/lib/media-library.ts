@@ -0,0 +1,462 @@
+/**
+ * Media library — metadata, de-duplication and usage of uploaded images
+ *
+ * R2 layout:
+ *   {site}/media/library.json     — a MediaRecord per image (title, folder, tags, alt, caption)
+ *   {site}/media/hashes/{sha256}  — name of the image with that content
+ *   {site}/media/usage.json       — the images each page and collection item references
+ *
+ * The images themselves stay at {site}/assets/images/{name}
+ * (functions/lib/image-variants.ts). Titles, folders and tags are library
+ * metadata only: renaming or moving an image never changes its URL, so pages
+ * showing it keep working. Images uploaded before the library existed are
+ * listed with empty metadata.
+ *
+ * The usage index is updated whenever a page is saved or an item written
+ * (editor, imports, migrations), and rebuilt from every draft and item when
+ * missing. Deleting an image rebuilds it first, so a reference written to R2
+ * some other way is never taken for unused.
+ */
+
+import { VARIANT_FORMATS, VARIANT_WIDTHS, variantPath } from '../../lib/responsive-images';
+import { LIST_CUSTOM_METADATA } from './r2';
+
+// ─── Types ───
+
+export interface MediaRecord {
+  /** Display name; defaults to the file name */
+  title?: string;
+  /** Slash-separated virtual folder, e.g. "team/2024"; '' or absent for the root */
+  folder?: string;
+  tags: string[];
+  /** Default alt text, used where the image is inserted without one */
+  alt?: string;
+  /** Default caption, likewise */
+  caption?: string;
+  /** SHA-256 of the uploaded file */
+  hash?: string;
+}
+
+export interface MediaAsset extends MediaRecord {
+  name: string;
+  key: string;
+  url: string;
+  size: number;
+  uploaded: string;
+  width?: number;
+  height?: number;
+  variants: number[];
+}
+
+export type MediaReferrer =
+  | { type: 'page'; page: string }
+  | { type: 'item'; collection: string; slug: string };
+
+interface Library {
+  assets: Record<string, MediaRecord>;
+}
+
+interface UsageIndex {
+  builtAt: string;
+  /** Referrer key ("page:{page}", "item:{collection}/{slug}") → image names */
+  refs: Record<string, string[]>;
+}
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+const MAX_TEXT_LENGTH = 1000;
+
+// ─── Keys ───
+
+function libraryKey(site: string): string {
+  return `${site}/media/library.json`;
+}
+
+function hashKey(site: string, hash: string): string {
+  return `${site}/media/hashes/${hash}`;
+}
+
+function usageKey(site: string): string {
+  return `${site}/media/usage.json`;
+}
+
+function imagesPrefix(site: string): string {
+  return `${site}/assets/images/`;
+}
+
+export function mediaUrl(site: string, name: string): string {
+  return `/preview/${site}/_asset/images/${name}`;
+}
+
+/** Upload names as /api/images makes them; they become part of R2 keys */
+export function isValidMediaName(name: string): boolean {
+  return /^[\w.-]{1,200}$/.test(name) && !name.startsWith('.');
+}
+
+function referrerKey(referrer: MediaReferrer): string {
+  return referrer.type === 'page' ? `page:${referrer.page}` : `item:${referrer.collection}/${referrer.slug}`;
+}
+
+function parseReferrerKey(key: string): MediaReferrer | null {
+  if (key.startsWith('page:')) return { type: 'page', page: key.slice(5) };
+  const item = key.match(/^item:([^/]+)\/(.+)$/);
+  return item ? { type: 'item', collection: item[1], slug: item[2] } : null;
+}
+
+// ─── Validation ───
+
+/**
+ * Folder path trimmed of stray slashes; null if it isn't a path of short names
+ */
+export function normalizeFolder(folder: unknown): string | null {
+  if (typeof folder !== 'string') return null;
+  const parts = folder.split('/').map(part => part.trim()).filter(Boolean);
+  if (parts.some(part => !/^[\w .-]{1,60}$/.test(part) || part.startsWith('.'))) return null;
+  return parts.join('/');
+}
+
+/**
+ * Tags trimmed, lowercased and de-duplicated; null if they're not a list of short strings
+ */
+export function normalizeMediaTags(tags: unknown): string[] | null {
+  if (!Array.isArray(tags) || tags.length > MAX_TAGS) return null;
+  const result = new Set<string>();
+  for (const tag of tags) {
+    if (typeof tag !== 'string') return null;
+    const clean = tag.trim().toLowerCase();
+    if (clean.length > MAX_TAG_LENGTH) return null;
+    if (clean) result.add(clean);
+  }
+  return Array.from(result);
+}
+
+/**
+ * Metadata changes from a request body, or an error message
+ */
+export function parseMediaChanges(body: Record<string, unknown>): Partial<MediaRecord> | string {
+  const changes: Partial<MediaRecord> = {};
+  for (const field of ['title', 'alt', 'caption'] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || value.length > MAX_TEXT_LENGTH) return `${field} must be text of up to ${MAX_TEXT_LENGTH} characters`;
+    changes[field] = value.trim();
+  }
+  if (body.folder !== undefined) {
+    const folder = normalizeFolder(body.folder);
+    if (folder === null) return 'folder must be a path of names made of letters, digits, spaces, ".", "_" and "-"';
+    changes.folder = folder;
+  }
+  if (body.tags !== undefined) {
+    const tags = normalizeMediaTags(body.tags);
+    if (tags === null) return `tags must be a list of up to ${MAX_TAGS} short strings`;
+    changes.tags = tags;
+  }
+  return changes;
+}
+
+// ─── Library ───
+
+async function readLibrary(bucket: R2Bucket, site: string): Promise<{ library: Library; etag?: string }> {
+  const obj = await bucket.get(libraryKey(site));
+  if (!obj) return { library: { assets: {} } };
+  try {
+    return { library: await obj.json() as Library, etag: obj.etag };
+  } catch {
+    return { library: { assets: {} }, etag: obj.etag };
+  }
+}
+
+export async function getMediaRecords(bucket: R2Bucket, site: string): Promise<Record<string, MediaRecord>> {
+  return (await readLibrary(bucket, site)).library.assets;
+}
+
+/**
+ * Merge `changes` into an image's record, or remove it with null. Re-reads
+ * the library on a conflicting write, so concurrent edits of other images
+ * aren't lost.
+ */
+export async function updateMediaRecord(
+  bucket: R2Bucket,
+  site: string,
+  name: string,
+  changes: Partial<MediaRecord> | null
+): Promise<MediaRecord | null> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const { library, etag } = await readLibrary(bucket, site);
+    let record: MediaRecord | null = null;
+    if (changes) {
+      record = { ...library.assets[name], ...changes, tags: changes.tags || library.assets[name]?.tags || [] };
+      library.assets[name] = record;
+    } else {
+      if (!library.assets[name]) return null;
+      delete library.assets[name];
+    }
+
+    const written = await bucket.put(libraryKey(site), JSON.stringify(library, null, 2), {
+      httpMetadata: { contentType: 'application/json' },
+      onlyIf: etag ? { etagMatches: etag } : { etagDoesNotMatch: '*' },
+    });
+    if (written) return record;
+  }
+  throw new Error('Media library is being updated; try again');
+}
+
+function toMediaAsset(site: string, obj: R2Object, record: MediaRecord | undefined): MediaAsset {
+  const name = obj.key.slice(imagesPrefix(site).length);
+  const meta = obj.customMetadata || {};
+  const width = parseInt(meta.width || '', 10);
+  const height = parseInt(meta.height || '', 10);
+  return {
+    ...record,
+    tags: record?.tags || [],
+    name,
+    key: obj.key,
+    url: mediaUrl(site, name),
+    size: obj.size,
+    uploaded: obj.uploaded.toISOString(),
+    ...(width > 0 && height > 0 ? { width, height } : {}),
+    variants: (meta.variants || '').split(',').map(Number).filter(w => w > 0),
+  };
+}
+
+export async function getMediaAsset(bucket: R2Bucket, site: string, name: string): Promise<MediaAsset | null> {
+  const head = await bucket.head(`${imagesPrefix(site)}${name}`);
+  if (!head) return null;
+  return toMediaAsset(site, head, (await getMediaRecords(bucket, site))[name]);
+}
+
+/**
+ * Every uploaded image with its library metadata, newest first
+ */
+export async function listMediaAssets(bucket: R2Bucket, site: string): Promise<MediaAsset[]> {
+  const records = await getMediaRecords(bucket, site);
+  const prefix = imagesPrefix(site);
+  const assets: MediaAsset[] = [];
+  let cursor: string | undefined;
+
+  do {
+    // The delimiter leaves out the _variants/ folder
+    const listed = await bucket.list({ prefix, delimiter: '/', cursor, ...LIST_CUSTOM_METADATA });
+    for (const obj of listed.objects) {
+      assets.push(toMediaAsset(site, obj, records[obj.key.slice(prefix.length)]));
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return assets.sort((a, b) => b.uploaded.localeCompare(a.uploaded));
+}
+
+// ─── De-duplication ───
+
+export async function contentHash(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Name of an image already uploaded with this content, if it still exists
+ */
+export async function findDuplicate(bucket: R2Bucket, site: string, hash: string): Promise<string | null> {
+  const name = await (await bucket.get(hashKey(site, hash)))?.text();
+  if (!name || !(await bucket.head(`${imagesPrefix(site)}${name}`))) return null;
+  return name;
+}
+
+export async function recordHash(bucket: R2Bucket, site: string, hash: string, name: string): Promise<void> {
+  await bucket.put(hashKey(site, hash), name);
+}
+
+// ─── Usage ───
+
+/**
+ * Names of the uploaded images a page's HTML or an item's JSON references
+ */
+export function findMediaReferences(text: string, site: string): string[] {
+  const escaped = site.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // Variants (_variants/...) are found through the img src they sit next to
+  const pattern = new RegExp(`/preview/${escaped}/_asset/images/(?!_variants/)([\\w.-]+)`, 'g');
+  return Array.from(new Set(Array.from(text.matchAll(pattern), match => match[1])));
+}
+
+async function readUsage(bucket: R2Bucket, site: string): Promise<{ usage: UsageIndex; etag: string } | null> {
+  const obj = await bucket.get(usageKey(site));
+  if (!obj) return null;
+  try {
+    return { usage: await obj.json() as UsageIndex, etag: obj.etag };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Apply `edit` to the index's references, retrying on conflicting writes.
+ * `edit` returns false when it changed nothing. Until the index is first
+ * built there's nothing to update.
+ */
+async function editUsage(bucket: R2Bucket, site: string, edit: (refs: UsageIndex['refs']) => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const found = await readUsage(bucket, site);
+    if (!found || !edit(found.usage.refs)) return;
+
+    const written = await bucket.put(usageKey(site), JSON.stringify(found.usage), {
+      httpMetadata: { contentType: 'application/json' },
+      onlyIf: { etagMatches: found.etag },
+    });
+    if (written) return;
+  }
+  // Lost every race; drop the index so the next read rebuilds it
+  await bucket.delete(usageKey(site));
+}
+
+/**
+ * Record the images a page or item references now; null content removes it
+ */
+export async function recordMediaUsage(
+  bucket: R2Bucket,
+  site: string,
+  referrer: MediaReferrer,
+  content: string | null
+): Promise<void> {
+  const key = referrerKey(referrer);
+  const names = content === null ? [] : findMediaReferences(content, site);
+
+  await editUsage(bucket, site, (refs) => {
+    const current = refs[key] || [];
+    if (current.length === names.length && current.every(name => names.includes(name))) return false;
+    if (names.length > 0) refs[key] = names;
+    else delete refs[key];
+    return true;
+  });
+}
+
+/**
+ * Forget the references of every item of a deleted collection
+ */
+export async function removeCollectionMediaUsage(bucket: R2Bucket, site: string, collection: string): Promise<void> {
+  const prefix = referrerKey({ type: 'item', collection, slug: '' });
+  await editUsage(bucket, site, (refs) => {
+    const keys = Object.keys(refs).filter(key => key.startsWith(prefix));
+    keys.forEach(key => delete refs[key]);
+    return keys.length > 0;
+  });
+}
+
+/**
+ * Rebuild the usage index from every draft page and collection item
+ */
+export async function rebuildMediaUsage(bucket: R2Bucket, site: string): Promise<UsageIndex> {
+  const usage: UsageIndex = { builtAt: new Date().toISOString(), refs: {} };
+  const sources: { prefix: string; referrer: (path: string) => MediaReferrer | null }[] = [
+    {
+      prefix: `${site}/drafts/`,
+      referrer: path => (path.endsWith('.html') ? { type: 'page', page: path.slice(0, -5) } : null),
+    },
+    {
+      prefix: `${site}/collections/`,
+      referrer: path => {
+        const match = path.match(/^([^/]+)\/items\/(.+)\.json$/);
+        return match ? { type: 'item', collection: match[1], slug: match[2] } : null;
+      },
+    },
+  ];
+
+  for (const source of sources) {
+    let cursor: string | undefined;
+    do {
+      const listed = await bucket.list({ prefix: source.prefix, cursor });
+      for (const obj of listed.objects) {
+        const referrer = source.referrer(obj.key.slice(source.prefix.length));
+        if (!referrer) continue;
+        const content = await (await bucket.get(obj.key))?.text();
+        const names = content ? findMediaReferences(content, site) : [];
+        if (names.length > 0) usage.refs[referrerKey(referrer)] = names;
+      }
+      cursor = listed.truncated ? listed.cursor : undefined;
+    } while (cursor);
+  }
+
+  await bucket.put(usageKey(site), JSON.stringify(usage), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+  return usage;
+}
+
+/**
+ * Pages and items referencing each image, from the index (built if missing)
+ */
+export async function getMediaUsage(
+  bucket: R2Bucket,
+  site: string,
+  options: { rebuild?: boolean } = {}
+): Promise<Map<string, MediaReferrer[]>> {
+  const usage = !options.rebuild && (await readUsage(bucket, site))?.usage || await rebuildMediaUsage(bucket, site);
+  const byName = new Map<string, MediaReferrer[]>();
+  for (const [key, names] of Object.entries(usage.refs)) {
+    const referrer = parseReferrerKey(key);
+    if (!referrer) continue;
+    for (const name of names) {
+      if (!byName.has(name)) byName.set(name, []);
+      byName.get(name)!.push(referrer);
+    }
+  }
+  return byName;
+}
+
+// ─── Deletion ───
+
+/**
+ * Delete an image, its variants and its library record. Callers check usage first.
+ */
+export async function deleteMediaAsset(bucket: R2Bucket, site: string, name: string): Promise<void> {
+  const record = (await getMediaRecords(bucket, site))[name];
+  const keys = [`${imagesPrefix(site)}${name}`];
+  for (const width of VARIANT_WIDTHS) {
+    for (const format of VARIANT_FORMATS) keys.push(`${imagesPrefix(site)}${variantPath(name, width, format)}`);
+  }
+  // Variants at the image's own width, when narrower than the widest standard one
+  const head = await bucket.head(keys[0]);
+  for (const width of (head?.customMetadata?.variants || '').split(',').map(Number).filter(w => w > 0)) {
+    for (const format of VARIANT_FORMATS) keys.push(`${imagesPrefix(site)}${variantPath(name, width, format)}`);
+  }
+  if (record?.hash) keys.push(hashKey(site, record.hash));
+
+  await bucket.delete(Array.from(new Set(keys)));
+  await updateMediaRecord(bucket, site, name, null);
+}
+
+// ─── Defaults ───
+
+function escapeAttr(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Give images inserted without alt text their library default, and figures
+ * showing one without a caption its default caption. An empty alt=""
+ * (a decorative image) is left alone.
+ */
+export function applyMediaDefaults(html: string, site: string, records: Record<string, MediaRecord>): string {
+  const nameOf = (imgTag: string): string | null => {
+    const src = imgTag.match(/\ssrc\s*=\s*["']([^"']+)["']/i)?.[1];
+    return src ? findMediaReferences(src, site)[0] || null : null;
+  };
+
+  const captioned = html.replace(/<figure\b[^>]*>[\s\S]*?<\/figure>/gi, (figure) => {
+    if (/<figcaption\b/i.test(figure)) return figure;
+    const img = figure.match(/<img\b[^>]*>/i)?.[0];
+    const caption = img && records[nameOf(img) || '']?.caption;
+    if (!caption) return figure;
+    return figure.replace(/<\/figure>$/i, `<figcaption>${escapeText(caption)}</figcaption></figure>`);
+  });
+
+  return captioned.replace(/<img\b[^>]*>/gi, (img) => {
+    if (/\salt\s*=/i.test(img)) return img;
+    const alt = records[nameOf(img) || '']?.alt;
+    if (!alt) return img;
+    return img.replace(/^<img\b/i, `<img alt="${escapeAttr(alt)}"`);
+  });
+}
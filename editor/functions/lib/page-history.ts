@@ -0,0 +1,258 @@
+/**
+ * Page revision history shared by save.ts and page-history.ts
+ *
+ * Every draft write also records an immutable snapshot in R2:
+ *   {site}/history/{page}/{revisionId}.json
+ *
+ * Revision ids start with a zero-padded timestamp so R2's lexicographic
+ * listing order is also chronological order.
+ */
+
+import { LIST_CUSTOM_METADATA } from './r2';
+
+// ─── Types ───
+
+export interface PageRevision {
+  id: string;
+  site: string;
+  page: string;
+  author: string;
+  createdAt: string;
+  etag: string;
+  enhanced: boolean;
+  changes: string[];
+  restoredFrom?: string;
+  html: string;
+}
+
+export type RevisionSummary = Omit<PageRevision, 'html' | 'changes'> & { changeCount: number };
+
+export interface DiffLine {
+  type: 'equal' | 'add' | 'remove';
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+// ─── Keys ───
+
+export function historyPrefix(site: string, page: string): string {
+  return `${site}/history/${page}/`;
+}
+
+function revisionKey(site: string, page: string, id: string): string {
+  return `${historyPrefix(site, page)}${id}.json`;
+}
+
+function generateRevisionId(): string {
+  return `${String(Date.now()).padStart(13, '0')}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// ─── R2 operations ───
+
+/**
+ * Record a snapshot of a draft that was just written.
+ * Summary fields are mirrored into customMetadata so listing doesn't need to read bodies.
+ */
+export async function writeRevision(
+  bucket: R2Bucket,
+  revision: Omit<PageRevision, 'id' | 'createdAt'>
+): Promise<PageRevision> {
+  const full: PageRevision = {
+    ...revision,
+    id: generateRevisionId(),
+    createdAt: new Date().toISOString(),
+  };
+
+  await bucket.put(revisionKey(full.site, full.page, full.id), JSON.stringify(full), {
+    httpMetadata: { contentType: 'application/json' },
+    customMetadata: {
+      author: full.author,
+      createdAt: full.createdAt,
+      etag: full.etag,
+      enhanced: String(full.enhanced),
+      changeCount: String(full.changes.length),
+      ...(full.restoredFrom && { restoredFrom: full.restoredFrom }),
+    },
+  });
+
+  return full;
+}
+
+/**
+ * List revisions for a page, newest first
+ */
+export async function listRevisions(
+  bucket: R2Bucket,
+  site: string,
+  page: string,
+  options: { limit?: number; cursor?: string } = {}
+): Promise<{ revisions: RevisionSummary[]; cursor?: string }> {
+  const prefix = historyPrefix(site, page);
+  const summaries: RevisionSummary[] = [];
+  let cursor: string | undefined;
+
+  // R2 lists oldest first, so walk the full listing and reverse
+  do {
+    const listed = await bucket.list({ prefix, cursor, ...LIST_CUSTOM_METADATA });
+    for (const obj of listed.objects) {
+      const id = obj.key.slice(prefix.length).replace(/\.json$/, '');
+      // Skip nested pages (e.g. blog/ when listing "blog")
+      if (id.includes('/')) continue;
+      const meta = obj.customMetadata || {};
+      summaries.push({
+        id,
+        site,
+        page,
+        author: meta.author || 'unknown',
+        createdAt: meta.createdAt || obj.uploaded.toISOString(),
+        etag: meta.etag || '',
+        enhanced: meta.enhanced === 'true',
+        changeCount: parseInt(meta.changeCount || '0', 10),
+        ...(meta.restoredFrom && { restoredFrom: meta.restoredFrom }),
+      });
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  summaries.reverse();
+
+  // Offset-style cursor over the sorted list (the revision id to continue after)
+  let start = 0;
+  if (options.cursor) {
+    const idx = summaries.findIndex(r => r.id === options.cursor);
+    start = idx >= 0 ? idx + 1 : 0;
+  }
+  const limit = options.limit ?? 50;
+  const revisions = summaries.slice(start, start + limit);
+  const hasMore = start + limit < summaries.length;
+
+  return {
+    revisions,
+    cursor: hasMore ? revisions[revisions.length - 1]?.id : undefined,
+  };
+}
+
+/**
+ * Fetch a single revision including its HTML
+ */
+export async function getRevision(
+  bucket: R2Bucket,
+  site: string,
+  page: string,
+  id: string
+): Promise<PageRevision | null> {
+  // Revision ids are generated by us — reject anything else to prevent path traversal
+  if (!/^\d{13}-[a-z0-9]+$/.test(id)) return null;
+
+  const obj = await bucket.get(revisionKey(site, page, id));
+  if (!obj) return null;
+
+  try {
+    return await obj.json() as PageRevision;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Diff ───
+
+/**
+ * Line-based diff (Myers O(ND) algorithm).
+ * Returns every line of both inputs tagged as equal, added or removed.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // Most saves touch a small region — strip the shared head and tail before diffing
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (
+    tail < a.length - head && tail < b.length - head &&
+    a[a.length - 1 - tail] === b[b.length - 1 - tail]
+  ) tail++;
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < head; i++) {
+    result.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const middle = myersDiff(a.slice(head, a.length - tail), b.slice(head, b.length - tail));
+  for (const line of middle) {
+    result.push({
+      ...line,
+      ...(line.oldLine !== undefined && { oldLine: line.oldLine + head }),
+      ...(line.newLine !== undefined && { newLine: line.newLine + head }),
+    });
+  }
+
+  for (let i = tail; i > 0; i--) {
+    result.push({
+      type: 'equal',
+      text: a[a.length - i],
+      oldLine: a.length - i + 1,
+      newLine: b.length - i + 1,
+    });
+  }
+
+  return result;
+}
+
+function myersDiff(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  // trace[d] holds V[-d-1 .. d+1] as it was before step d
+  const trace: number[][] = [];
+
+  // Forward pass: find the shortest edit script, keeping each V for backtracking
+  outer:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break outer;
+    }
+  }
+
+  // Backtrack through the saved V arrays to recover the edit script
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const at = (k: number) => vd[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: 'equal', text: a[x - 1], oldLine: x, newLine: y });
+      x--;
+      y--;
+    }
+    if (d === 0) break;
+    if (x === prevX) {
+      result.push({ type: 'add', text: b[y - 1], newLine: y });
+    } else {
+      result.push({ type: 'remove', text: a[x - 1], oldLine: x });
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return result.reverse();
+}
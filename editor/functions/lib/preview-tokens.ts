@@ -0,0 +1,132 @@
+/**
+ * Preview tokens in R2 (signing is in lib/preview-tokens.ts)
+ *
+ * R2 layout:
+ *   {site}/preview-tokens/{id}.json — who minted the token, for what, until when
+ *
+ * A token is valid while its signature checks out, it has not expired and
+ * its record still exists. Revoking deletes the record; expired records are
+ * cleaned up whenever a site's tokens are listed.
+ */
+
+import {
+  signPreviewToken,
+  verifyPreviewToken,
+  type PreviewClaims,
+  type PreviewTarget,
+} from '../../lib/preview-tokens';
+
+// ─── Types ───
+
+export interface PreviewTokenRecord {
+  id: string;
+  site: string;
+  target: PreviewTarget;
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// ─── Storage ───
+
+function recordKey(site: string, id: string): string {
+  return `${site}/preview-tokens/${id}.json`;
+}
+
+export function isValidPreviewTokenId(id: string): boolean {
+  return /^[0-9a-f-]{36}$/.test(id);
+}
+
+export async function getPreviewToken(bucket: R2Bucket, site: string, id: string): Promise<PreviewTokenRecord | null> {
+  const obj = await bucket.get(recordKey(site, id));
+  if (!obj) return null;
+  try {
+    return await obj.json() as PreviewTokenRecord;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Mint a token for one page or item, valid for `ttlHours`
+ */
+export async function createPreviewToken(
+  bucket: R2Bucket,
+  secret: string,
+  options: { site: string; target: PreviewTarget; ttlHours: number; createdBy: string }
+): Promise<{ token: string; record: PreviewTokenRecord }> {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: PreviewClaims = {
+    jti: crypto.randomUUID(),
+    site: options.site,
+    target: options.target,
+    iat: now,
+    exp: now + Math.round(options.ttlHours * 3600),
+  };
+
+  const record: PreviewTokenRecord = {
+    id: claims.jti,
+    site: options.site,
+    target: options.target,
+    createdBy: options.createdBy,
+    createdAt: new Date(now * 1000).toISOString(),
+    expiresAt: new Date(claims.exp * 1000).toISOString(),
+  };
+  await bucket.put(recordKey(options.site, record.id), JSON.stringify(record, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+
+  return { token: await signPreviewToken(claims, secret), record };
+}
+
+/**
+ * Unexpired tokens of a site, newest first; expired records are deleted on the way
+ */
+export async function listPreviewTokens(bucket: R2Bucket, site: string): Promise<PreviewTokenRecord[]> {
+  const records: PreviewTokenRecord[] = [];
+  const expired: string[] = [];
+  const now = Date.now();
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix: `${site}/preview-tokens/`, cursor });
+    for (const obj of listed.objects) {
+      const id = obj.key.slice(`${site}/preview-tokens/`.length, -'.json'.length);
+      const record = await getPreviewToken(bucket, site, id);
+      if (!record || Date.parse(record.expiresAt) <= now) {
+        expired.push(obj.key);
+      } else {
+        records.push(record);
+      }
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  if (expired.length > 0) await bucket.delete(expired);
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Revoke a token; returns its record, or null when there was none
+ */
+export async function revokePreviewToken(bucket: R2Bucket, site: string, id: string): Promise<PreviewTokenRecord | null> {
+  const record = await getPreviewToken(bucket, site, id);
+  if (!record) return null;
+  await bucket.delete(recordKey(site, id));
+  return record;
+}
+
+/**
+ * The claims of a token that is valid for `site`: signed, unexpired and not revoked
+ */
+export async function checkPreviewToken(
+  bucket: R2Bucket,
+  secret: string | undefined,
+  token: string,
+  site: string
+): Promise<PreviewClaims | null> {
+  if (!secret) return null;
+  const claims = await verifyPreviewToken(token, secret);
+  if (!claims || claims.site !== site) return null;
+  return (await bucket.head(recordKey(site, claims.jti))) ? claims : null;
+}
@@ -0,0 +1,125 @@
+/**
+ * Publishing drafts to the live site, shared by deploy.ts and the scheduler
+ *
+ * A full deploy snapshots {site}/drafts/* and {site}/assets/*, except pages
+ * waiting on a publish-page job: those keep their live copy (or stay
+ * unpublished) until the job runs. A page publish replaces a single page in
+ * the active release. Both regenerate sitemap.xml and robots.txt from the
+ * pages of the new release, since either can change which URLs are live.
+ */
+
+import {
+  createRelease,
+  createPartialRelease,
+  type DeployLogEntry,
+  type GeneratedFile,
+  type ReleaseFile,
+} from './releases';
+import { loadSiteSettings } from './live-site';
+import { generateSitemapFiles, getSiteBaseUrl, listReleasePages } from './site-sitemap';
+
+type LogDetails = Pick<DeployLogEntry, 'qualityGate' | 'scheduledJob'>;
+
+/**
+ * sitemap.xml (+ parts) and robots.txt as release files. Pages come from
+ * `files`, the release being made, or else from the drafts. A site without
+ * a public base URL gets no sitemap, and loses any from an earlier release.
+ */
+export async function buildGeneratedFiles(
+  bucket: R2Bucket,
+  site: string,
+  sitesDomain?: string,
+  files?: Record<string, ReleaseFile>
+): Promise<Record<string, GeneratedFile>> {
+  const settings = await loadSiteSettings(bucket, site);
+  const sitemapFiles = await generateSitemapFiles(
+    bucket,
+    site,
+    settings,
+    getSiteBaseUrl(site, settings, sitesDomain),
+    files && listReleasePages(site, files)
+  );
+
+  if (files && !sitemapFiles['sitemap.xml']) {
+    for (const path of Object.keys(files)) {
+      if (/^sitemap(-\d+)?\.xml$/.test(path)) delete files[path];
+    }
+  }
+
+  const generated: Record<string, GeneratedFile> = {};
+  for (const [path, body] of Object.entries(sitemapFiles)) {
+    generated[path] = {
+      body,
+      contentType: path.endsWith('.xml') ? 'application/xml' : 'text/plain; charset=utf-8',
+    };
+  }
+  return generated;
+}
+
+/**
+ * Release every draft page and asset, except `heldPages` (see
+ * listScheduledPages in scheduler.ts)
+ */
+export async function deploySite(
+  bucket: R2Bucket,
+  site: string,
+  author: string,
+  sitesDomain?: string,
+  logDetails: LogDetails = {},
+  heldPages: string[] = []
+) {
+  return createRelease(
+    bucket,
+    site,
+    {
+      [`${site}/drafts/`]: '',
+      [`${site}/assets/`]: 'assets/',
+    },
+    files => buildGeneratedFiles(bucket, site, sitesDomain, files),
+    author,
+    logDetails,
+    heldPages.map(page => `${page}.html`)
+  );
+}
+
+/**
+ * Release the active release with one page's draft swapped in
+ */
+export async function publishPage(
+  bucket: R2Bucket,
+  site: string,
+  page: string,
+  author: string,
+  sitesDomain?: string,
+  logDetails: LogDetails = {}
+) {
+  return createPartialRelease(
+    bucket,
+    site,
+    { [`${page}.html`]: `${site}/drafts/${page}.html` },
+    files => buildGeneratedFiles(bucket, site, sitesDomain, files),
+    author,
+    logDetails
+  );
+}
+
+/**
+ * Regenerate only the sitemap and robots.txt, e.g. after collection items
+ * were published or unpublished
+ */
+export async function refreshSitemap(
+  bucket: R2Bucket,
+  site: string,
+  author: string,
+  sitesDomain?: string,
+  logDetails: LogDetails = {}
+) {
+  return createPartialRelease(
+    bucket,
+    site,
+    {},
+    files => buildGeneratedFiles(bucket, site, sitesDomain, files),
+    author,
+    logDetails
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * Pre-deploy quality gate used by deploy.ts
+ *
+ * Audits every draft page (lib/audit-engine.ts) and compares the rule and
+ * SEO analysis scores with the thresholds in the site's `publishing` settings.
+ */
+
+import { runAudit } from '../../lib/audit-engine';
+import { getSiteAuditRules, type AuditIssue } from '../../lib/page-audit';
+import type { AuditRuleSettings } from '../../lib/audit-rules';
+import type { Finding } from '../../lib/seo-analysis';
+import { getDefaultSettings } from '../../lib/global-settings';
+import { loadSiteSettings } from './live-site';
+
+// ─── Types ───
+
+export interface QualityGateSettings {
+  qualityGate: boolean;
+  minPageScore: number;
+  minSeoScore: number;
+  blockOnCritical: boolean;
+}
+
+export interface GateFinding {
+  source: 'page-audit' | 'audit-details';
+  id: string;
+  message: string;
+  severity?: Finding['severity'];
+  weight?: number;
+}
+
+export interface GateBlocker {
+  type: 'pageScore' | 'seoScore' | 'critical';
+  message: string;
+  findings: GateFinding[];
+}
+
+export interface PageGateReport {
+  page: string;
+  pageScore: number;
+  seoScore: number;
+  passed: boolean;
+  blockers: GateBlocker[];
+}
+
+export interface QualityGateReport {
+  enabled: boolean;
+  passed: boolean;
+  thresholds: QualityGateSettings;
+  pages: PageGateReport[];
+  blockedPages: string[];
+}
+
+// ─── Settings ───
+
+/**
+ * Read publishing thresholds from {site}/settings.json, falling back to schema defaults
+ */
+export async function getQualityGateSettings(bucket: R2Bucket, site: string): Promise<QualityGateSettings> {
+  const defaults = getDefaultSettings().publishing as QualityGateSettings;
+
+  const obj = await bucket.get(`${site}/settings.json`);
+  if (!obj) return defaults;
+
+  try {
+    const settings = await obj.json() as Record<string, any>;
+    const publishing = settings.publishing || {};
+    return {
+      qualityGate: publishing.qualityGate ?? defaults.qualityGate,
+      minPageScore: Number(publishing.minPageScore ?? defaults.minPageScore),
+      minSeoScore: Number(publishing.minSeoScore ?? defaults.minSeoScore),
+      blockOnCritical: publishing.blockOnCritical ?? defaults.blockOnCritical,
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+/**
+ * The site's custom audit rules and built-in overrides (settings.audit), if any
+ */
+export async function getAuditRuleSettings(bucket: R2Bucket, site: string): Promise<AuditRuleSettings | undefined> {
+  return getSiteAuditRules(await loadSiteSettings(bucket, site));
+}
+
+// ─── Evaluation ───
+
+function toGateFinding(issue: AuditIssue): GateFinding {
+  return { source: 'page-audit', id: issue.ruleId, message: issue.message, weight: issue.weight };
+}
+
+function fixToGateFinding(fix: Finding): GateFinding {
+  return { source: 'audit-details', id: fix.fixType || fix.issue, message: fix.issue, severity: fix.severity };
+}
+
+/**
+ * Evaluate a single page against the thresholds
+ */
+export function evaluatePage(
+  page: string,
+  html: string,
+  thresholds: QualityGateSettings,
+  rules?: AuditRuleSettings
+): PageGateReport {
+  // Pages named after a page type (faq, pricing, ...) get that type's rules
+  const report = runAudit(html, { page, rules });
+  const audit = report.rules;
+  const seoScore = report.seo.score;
+
+  const blockers: GateBlocker[] = [];
+
+  if (audit.score < thresholds.minPageScore) {
+    blockers.push({
+      type: 'pageScore',
+      message: `Page score ${audit.score} is below the minimum of ${thresholds.minPageScore}`,
+      findings: audit.issues.map(toGateFinding),
+    });
+  }
+
+  if (seoScore < thresholds.minSeoScore) {
+    blockers.push({
+      type: 'seoScore',
+      message: `SEO analysis score ${seoScore} is below the minimum of ${thresholds.minSeoScore}`,
+      findings: report.findings
+        .filter(f => f.severity === 'critical' || f.severity === 'high')
+        .map(fixToGateFinding),
+    });
+  }
+
+  if (thresholds.blockOnCritical) {
+    const critical = report.findings.filter(f => f.severity === 'critical');
+    if (critical.length > 0) {
+      blockers.push({
+        type: 'critical',
+        message: `${critical.length} critical issue(s) found`,
+        findings: critical.map(fixToGateFinding),
+      });
+    }
+  }
+
+  return {
+    page,
+    pageScore: audit.score,
+    seoScore,
+    passed: blockers.length === 0,
+    blockers,
+  };
+}
+
+/**
+ * Audit every draft page of a site. Collection templates are skipped since
+ * they contain unrendered {{placeholders}}.
+ */
+export async function runQualityGate(bucket: R2Bucket, site: string): Promise<QualityGateReport> {
+  const thresholds = await getQualityGateSettings(bucket, site);
+
+  if (!thresholds.qualityGate) {
+    return { enabled: false, passed: true, thresholds, pages: [], blockedPages: [] };
+  }
+
+  const rules = await getAuditRuleSettings(bucket, site);
+  const prefix = `${site}/drafts/`;
+  const pages: PageGateReport[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix, cursor });
+    for (const obj of listed.objects) {
+      const match = obj.key.slice(prefix.length).match(/^(.+)\.html$/);
+      if (!match || match[1].endsWith('-template')) continue;
+
+      const pageObj = await bucket.get(obj.key);
+      if (!pageObj) continue;
+
+      pages.push(evaluatePage(match[1], await pageObj.text(), thresholds, rules));
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  const blockedPages = pages.filter(p => !p.passed).map(p => p.page);
+
+  return {
+    enabled: true,
+    passed: blockedPages.length === 0,
+    thresholds,
+    pages,
+    blockedPages,
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * R2 options shared by the libraries that list objects
+ */
+
+/**
+ * Spread into bucket.list() options to get each object's customMetadata,
+ * which R2 only lists when asked. The binding supports `include`; our
+ * workers-types version doesn't declare it, hence the spread.
+ */
+export const LIST_CUSTOM_METADATA = { include: ['customMetadata'] };
@@ -0,0 +1,388 @@
+/**
+ * Immutable, content-addressed releases shared by deploy.ts and deploy-rollback.ts
+ *
+ * R2 layout:
+ *   {site}/releases/blobs/{sha256}            — file contents, written once
+ *   {site}/releases/manifests/{releaseId}.json — path → hash map for one deploy
+ *   {site}/releases/current.json               — pointer to the active release
+ *   {site}/releases/log.json                   — deploy/rollback history (newest first)
+ *
+ * A deploy uploads blobs, then the manifest, then swaps the pointer. Until the
+ * pointer is written nothing visible changes, so a failed deploy leaves the
+ * previous release fully live. Rollback only rewrites the pointer.
+ */
+
+// ─── Types ───
+
+export interface ReleaseFile {
+  hash: string;
+  size: number;
+  contentType?: string;
+  sourceEtag: string;
+}
+
+export interface ReleaseManifest {
+  id: string;
+  site: string;
+  createdAt: string;
+  author: string;
+  files: Record<string, ReleaseFile>;
+}
+
+export interface ReleasePointer {
+  releaseId: string;
+  updatedAt: string;
+}
+
+export interface DeployLogEntry {
+  action: 'deploy' | 'rollback';
+  releaseId: string;
+  previousReleaseId: string | null;
+  at: string;
+  author: string;
+  fileCount: number;
+  uploaded?: number;
+  qualityGate?: {
+    passed: boolean;
+    overridden: boolean;
+    blockedPages: string[];
+  };
+  /** Set when a scheduled job (functions/lib/scheduler.ts) made the release */
+  scheduledJob?: string;
+}
+
+export interface GeneratedFile {
+  body: string;
+  contentType: string;
+}
+
+const MAX_LOG_ENTRIES = 200;
+
+// ─── Keys ───
+
+export function blobKey(site: string, hash: string): string {
+  return `${site}/releases/blobs/${hash}`;
+}
+
+function manifestKey(site: string, releaseId: string): string {
+  return `${site}/releases/manifests/${releaseId}.json`;
+}
+
+function pointerKey(site: string): string {
+  return `${site}/releases/current.json`;
+}
+
+function logKey(site: string): string {
+  return `${site}/releases/log.json`;
+}
+
+function generateReleaseId(): string {
+  return `${String(Date.now()).padStart(13, '0')}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+async function sha256(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function readJson<T>(bucket: R2Bucket, key: string): Promise<T | null> {
+  const obj = await bucket.get(key);
+  if (!obj) return null;
+  try {
+    return await obj.json() as T;
+  } catch {
+    return null;
+  }
+}
+
+async function writeJson(bucket: R2Bucket, key: string, value: unknown): Promise<void> {
+  await bucket.put(key, JSON.stringify(value, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
+
+// ─── Reads ───
+
+export async function getActiveReleaseId(bucket: R2Bucket, site: string): Promise<string | null> {
+  const pointer = await readJson<ReleasePointer>(bucket, pointerKey(site));
+  return pointer?.releaseId || null;
+}
+
+export async function getManifest(bucket: R2Bucket, site: string, releaseId: string): Promise<ReleaseManifest | null> {
+  if (!/^\d{13}-[a-z0-9]+$/.test(releaseId)) return null;
+  return readJson<ReleaseManifest>(bucket, manifestKey(site, releaseId));
+}
+
+export async function getActiveManifest(bucket: R2Bucket, site: string): Promise<ReleaseManifest | null> {
+  const releaseId = await getActiveReleaseId(bucket, site);
+  return releaseId ? getManifest(bucket, site, releaseId) : null;
+}
+
+/**
+ * Read a file from a release by its path (e.g. "about.html", "assets/css/theme.css")
+ */
+export async function getReleaseFile(
+  bucket: R2Bucket,
+  site: string,
+  manifest: ReleaseManifest,
+  path: string
+): Promise<{ file: ReleaseFile; body: R2ObjectBody } | null> {
+  const file = manifest.files[path];
+  if (!file) return null;
+  const body = await bucket.get(blobKey(site, file.hash));
+  return body ? { file, body } : null;
+}
+
+export async function getDeployLog(bucket: R2Bucket, site: string): Promise<DeployLogEntry[]> {
+  return (await readJson<DeployLogEntry[]>(bucket, logKey(site))) || [];
+}
+
+/**
+ * List release manifests (newest first) without their file maps
+ */
+export async function listReleases(
+  bucket: R2Bucket,
+  site: string
+): Promise<{ id: string; createdAt: string }[]> {
+  const prefix = `${site}/releases/manifests/`;
+  const releases: { id: string; createdAt: string }[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix, cursor });
+    for (const obj of listed.objects) {
+      releases.push({
+        id: obj.key.slice(prefix.length).replace(/\.json$/, ''),
+        createdAt: obj.uploaded.toISOString(),
+      });
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return releases.reverse();
+}
+
+// ─── Writes ───
+
+async function appendLog(bucket: R2Bucket, site: string, entry: DeployLogEntry): Promise<void> {
+  const log = await getDeployLog(bucket, site);
+  log.unshift(entry);
+  await writeJson(bucket, logKey(site), log.slice(0, MAX_LOG_ENTRIES));
+}
+
+/**
+ * Copy one R2 object into the blob store, reusing the prior release's entry
+ * when the source hasn't changed
+ */
+async function snapshotObject(
+  bucket: R2Bucket,
+  site: string,
+  key: string,
+  etag: string,
+  prior: ReleaseFile | undefined
+): Promise<{ file: ReleaseFile; uploaded: boolean } | null> {
+  // Unchanged since the last release — reuse its blob without re-reading
+  if (prior && prior.sourceEtag === etag) return { file: prior, uploaded: false };
+
+  const source = await bucket.get(key);
+  if (!source) return null;
+
+  const data = await source.arrayBuffer();
+  const hash = await sha256(data);
+  const blob = blobKey(site, hash);
+
+  let uploaded = false;
+  if (!(await bucket.head(blob))) {
+    await bucket.put(blob, data, { httpMetadata: source.httpMetadata });
+    uploaded = true;
+  }
+
+  return {
+    file: { hash, size: source.size, contentType: source.httpMetadata?.contentType, sourceEtag: source.httpEtag },
+    uploaded,
+  };
+}
+
+async function storeGenerated(
+  bucket: R2Bucket,
+  site: string,
+  generated: Record<string, GeneratedFile>,
+  files: Record<string, ReleaseFile>
+): Promise<number> {
+  let uploaded = 0;
+  for (const [path, file] of Object.entries(generated)) {
+    const data = new TextEncoder().encode(file.body);
+    const hash = await sha256(data);
+    const key = blobKey(site, hash);
+
+    if (!(await bucket.head(key))) {
+      await bucket.put(key, data, { httpMetadata: { contentType: file.contentType } });
+      uploaded++;
+    }
+
+    files[path] = { hash, size: data.byteLength, contentType: file.contentType, sourceEtag: '' };
+  }
+  return uploaded;
+}
+
+/**
+ * Write the manifest, move the pointer and log the deploy
+ */
+async function commitRelease(
+  bucket: R2Bucket,
+  site: string,
+  files: Record<string, ReleaseFile>,
+  author: string,
+  previousReleaseId: string | null,
+  uploaded: number,
+  logDetails: Pick<DeployLogEntry, 'qualityGate' | 'scheduledJob'>
+): Promise<ReleaseManifest> {
+  const manifest: ReleaseManifest = {
+    id: generateReleaseId(),
+    site,
+    createdAt: new Date().toISOString(),
+    author,
+    files,
+  };
+
+  await writeJson(bucket, manifestKey(site, manifest.id), manifest);
+
+  // Atomic switch: everything above is invisible until the pointer moves
+  await writeJson(bucket, pointerKey(site), {
+    releaseId: manifest.id,
+    updatedAt: manifest.createdAt,
+  } satisfies ReleasePointer);
+
+  await appendLog(bucket, site, {
+    action: 'deploy',
+    releaseId: manifest.id,
+    previousReleaseId,
+    at: manifest.createdAt,
+    author,
+    fileCount: Object.keys(files).length,
+    uploaded,
+    ...logDetails,
+  });
+
+  return manifest;
+}
+
+/**
+ * Snapshot every object under the given prefixes into a new release and activate it.
+ * `sources` maps an R2 prefix to the path prefix it gets inside the release,
+ * e.g. { 'site/drafts/': '', 'site/assets/': 'assets/' }.
+ * `generate` builds files at deploy time (sitemap.xml, robots.txt) from the
+ * new release's other files. Paths in `held` are not taken from the sources:
+ * they keep the active release's copy, or stay out if it has none.
+ */
+export async function createRelease(
+  bucket: R2Bucket,
+  site: string,
+  sources: Record<string, string>,
+  generate: (files: Record<string, ReleaseFile>) => Promise<Record<string, GeneratedFile>>,
+  author: string,
+  logDetails: Pick<DeployLogEntry, 'qualityGate' | 'scheduledJob'> = {},
+  held: string[] = []
+): Promise<{ manifest: ReleaseManifest; uploaded: number; previousReleaseId: string | null }> {
+  const previousReleaseId = await getActiveReleaseId(bucket, site);
+  const previous = previousReleaseId ? await getManifest(bucket, site, previousReleaseId) : null;
+
+  const files: Record<string, ReleaseFile> = {};
+  let uploaded = 0;
+
+  for (const [sourcePrefix, releasePrefix] of Object.entries(sources)) {
+    let cursor: string | undefined;
+    do {
+      const listed = await bucket.list({ prefix: sourcePrefix, cursor });
+
+      for (const obj of listed.objects) {
+        const path = releasePrefix + obj.key.slice(sourcePrefix.length);
+        if (held.includes(path)) continue;
+        const result = await snapshotObject(bucket, site, obj.key, obj.httpEtag, previous?.files[path]);
+        if (!result) continue;
+        files[path] = result.file;
+        if (result.uploaded) uploaded++;
+      }
+
+      cursor = listed.truncated ? listed.cursor : undefined;
+    } while (cursor);
+  }
+
+  for (const path of held) {
+    const prior = previous?.files[path];
+    if (prior) files[path] = prior;
+  }
+
+  uploaded += await storeGenerated(bucket, site, await generate(files), files);
+
+  const manifest = await commitRelease(bucket, site, files, author, previousReleaseId, uploaded, logDetails);
+  return { manifest, uploaded, previousReleaseId };
+}
+
+/**
+ * Release the active release with only some files changed, e.g. one page
+ * published on schedule. `updates` maps release path → R2 key to snapshot;
+ * a null key removes the path. Without an active release the new one holds
+ * only the updated files. `generate` builds the generated files from the
+ * new release's other files, since drafts may differ from what is live.
+ */
+export async function createPartialRelease(
+  bucket: R2Bucket,
+  site: string,
+  updates: Record<string, string | null>,
+  generate: (files: Record<string, ReleaseFile>) => Promise<Record<string, GeneratedFile>>,
+  author: string,
+  logDetails: Pick<DeployLogEntry, 'qualityGate' | 'scheduledJob'> = {}
+): Promise<{ manifest: ReleaseManifest; uploaded: number; previousReleaseId: string | null }> {
+  const previousReleaseId = await getActiveReleaseId(bucket, site);
+  const previous = previousReleaseId ? await getManifest(bucket, site, previousReleaseId) : null;
+
+  const files: Record<string, ReleaseFile> = { ...(previous?.files || {}) };
+  let uploaded = 0;
+
+  for (const [path, key] of Object.entries(updates)) {
+    if (key === null) {
+      delete files[path];
+      continue;
+    }
+    const head = await bucket.head(key);
+    const result = head && await snapshotObject(bucket, site, key, head.httpEtag, previous?.files[path]);
+    if (!result) throw new Error(`Source not found: ${key}`);
+    files[path] = result.file;
+    if (result.uploaded) uploaded++;
+  }
+
+  uploaded += await storeGenerated(bucket, site, await generate(files), files);
+
+  const manifest = await commitRelease(bucket, site, files, author, previousReleaseId, uploaded, logDetails);
+  return { manifest, uploaded, previousReleaseId };
+}
+
+/**
+ * Point the site back at an existing release. No files are copied.
+ */
+export async function activateRelease(
+  bucket: R2Bucket,
+  site: string,
+  releaseId: string,
+  author: string
+): Promise<{ manifest: ReleaseManifest; previousReleaseId: string | null } | null> {
+  const manifest = await getManifest(bucket, site, releaseId);
+  if (!manifest) return null;
+
+  const previousReleaseId = await getActiveReleaseId(bucket, site);
+  const at = new Date().toISOString();
+
+  await writeJson(bucket, pointerKey(site), { releaseId, updatedAt: at } satisfies ReleasePointer);
+
+  await appendLog(bucket, site, {
+    action: 'rollback',
+    releaseId,
+    previousReleaseId,
+    at,
+    author,
+    fileCount: Object.keys(manifest.files).length,
+  });
+
+  return { manifest, previousReleaseId };
+}
@@ -0,0 +1,107 @@
+/**
+ * Rich text images into the site's R2 assets
+ *
+ * Images pasted into rich text arrive as data: URIs. Before an item is
+ * written they are stored like uploads from /api/images
+ * ({site}/assets/images/{timestamp}-{name}) and the block's src becomes the
+ * preview URL, which the live site and exports rewrite like any other asset.
+ * Images that already have a URL are left alone, except that library images
+ * without alt text or a caption get the media library's defaults
+ * (functions/lib/media-library.ts).
+ */
+
+import type { CollectionSchema } from '../../lib/collections';
+import { generateSlug } from '../../lib/collections';
+import { getRichTextImages, isRichTextDocument, type RichTextDocument } from '../../lib/richtext';
+import { findMediaReferences, getMediaRecords, type MediaRecord } from './media-library';
+
+const IMAGE_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+};
+
+const MAX_SIZE = 10 * 1024 * 1024; // 10 MB, as for uploads
+
+function decodeDataUri(uri: string): { type: string; bytes: Uint8Array } | null {
+  const match = uri.match(/^data:([\w/+.-]+);base64,([A-Za-z0-9+/=\s]*)$/);
+  if (!match) return null;
+  try {
+    const binary = atob(match[2].replace(/\s/g, ''));
+    return { type: match[1].toLowerCase(), bytes: Uint8Array.from(binary, c => c.charCodeAt(0)) };
+  } catch {
+    return null;
+  }
+}
+
+async function storeDocumentImages(bucket: R2Bucket, site: string, doc: RichTextDocument): Promise<{ doc: RichTextDocument; error?: string }> {
+  const images = getRichTextImages(doc).filter(block => block.src.startsWith('data:'));
+  if (images.length === 0) return { doc };
+
+  const result: RichTextDocument = structuredClone(doc);
+  const timestamp = Date.now();
+  let stored = 0;
+
+  for (const block of getRichTextImages(result)) {
+    if (!block.src.startsWith('data:')) continue;
+
+    const decoded = decodeDataUri(block.src);
+    const ext = decoded && IMAGE_TYPES[decoded.type];
+    if (!decoded || !ext) return { doc, error: 'Inline images must be PNG, JPEG, WebP, GIF or AVIF' };
+    if (decoded.bytes.length > MAX_SIZE) return { doc, error: 'Inline images must be 10 MB or smaller' };
+
+    // Distinct timestamps keep several images of one save apart
+    const name = `${timestamp + stored++}-${generateSlug(block.alt || '') || 'image'}.${ext}`;
+    await bucket.put(`${site}/assets/images/${name}`, decoded.bytes, {
+      httpMetadata: { contentType: decoded.type === 'image/jpg' ? 'image/jpeg' : decoded.type },
+    });
+    block.src = `/preview/${site}/_asset/images/${name}`;
+  }
+
+  return { doc: result };
+}
+
+function applyImageDefaults(site: string, doc: RichTextDocument, records: Record<string, MediaRecord>): RichTextDocument {
+  const result: RichTextDocument = structuredClone(doc);
+  for (const block of getRichTextImages(result)) {
+    const record = records[findMediaReferences(block.src, site)[0] || ''];
+    if (!record) continue;
+    if (block.alt === undefined && record.alt) block.alt = record.alt;
+    if (!block.caption && record.caption) block.caption = record.caption;
+  }
+  return result;
+}
+
+/**
+ * Store the inline images of every richtext field; errors are keyed by field id
+ */
+export async function storeRichTextImages(
+  bucket: R2Bucket,
+  site: string,
+  schema: CollectionSchema,
+  data: Record<string, any>
+): Promise<{ data: Record<string, any>; errors: Record<string, string> }> {
+  const result = { ...data };
+  const errors: Record<string, string> = {};
+  let records: Record<string, MediaRecord> | undefined;
+
+  for (const field of schema.fields) {
+    if (field.type !== 'richtext' || !isRichTextDocument(result[field.id])) continue;
+    const { doc, error } = await storeDocumentImages(bucket, site, result[field.id]);
+    if (error) {
+      errors[field.id] = error;
+      continue;
+    }
+    if (getRichTextImages(doc).length === 0) {
+      result[field.id] = doc;
+      continue;
+    }
+    records ??= await getMediaRecords(bucket, site);
+    result[field.id] = applyImageDefaults(site, doc, records);
+  }
+
+  return { data: result, errors };
+}
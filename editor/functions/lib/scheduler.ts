@@ -0,0 +1,545 @@
+/**
+ * Scheduled publishing jobs, run by the cron Worker in functions/scheduler/worker.ts
+ *
+ * R2 layout:
+ *   {site}/schedule/jobs/{jobId}.json            — job, status and its run log
+ *   _schedule/due/{runAt ms}/{site}/{jobId}      — empty marker per pending job
+ *   {site}/schedule/items/{collection}/{slug}.json — ids of the jobs made from one item's dates
+ *
+ * Markers sort by run time, so a cron tick lists _schedule/due/ in order and
+ * stops at the first one in the future instead of scanning every site. A job
+ * is claimed with a conditional write before it runs, so overlapping ticks
+ * never run it twice, and a marker is left for when the claim expires: a run
+ * that dies midway leaves the job "running", and a tick after
+ * CLAIM_TIMEOUT_MS picks it up again. Failed jobs are retried with a growing
+ * delay, then left as failed with the error in their log.
+ *
+ * Job types:
+ * - deploy-site:    full deploy of drafts + assets (quality gate applies)
+ * - publish-page:   promote one draft page into the live release (quality gate applies).
+ *                   Until it runs, full deploys (manual or deploy-site) keep
+ *                   the page's live copy, so it doesn't go out early
+ * - publish-item:   set a collection item to published
+ * - unpublish-item: archive a collection item (expiry)
+ */
+
+import type { CollectionItem } from '../../lib/collections';
+import { updateItemIndexBySlug } from './collection-index';
+import { evaluatePage, getAuditRuleSettings, getQualityGateSettings, runQualityGate } from './quality-gate';
+import { deploySite, publishPage, refreshSitemap } from './publish';
+import { getActiveReleaseId } from './releases';
+
+// ─── Types ───
+
+export type JobType = 'deploy-site' | 'publish-page' | 'publish-item' | 'unpublish-item';
+
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobLogEntry {
+  at: string;
+  level: 'info' | 'error';
+  message: string;
+  details?: unknown;
+}
+
+export interface ScheduledJob {
+  id: string;
+  site: string;
+  type: JobType;
+  /** ISO time the job becomes due */
+  runAt: string;
+  status: JobStatus;
+  /** publish-page */
+  page?: string;
+  /** publish-item / unpublish-item */
+  collection?: string;
+  item?: string;
+  /** Publish even if the quality gate fails */
+  override?: boolean;
+  /** "item" for jobs derived from an item's publishedAt/expiresAt, replaced when the item is saved */
+  source: 'api' | 'item';
+  attempts: number;
+  /** When the latest run claimed the job */
+  lastAttemptAt?: string;
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+  log: JobLogEntry[];
+}
+
+export interface NewJob {
+  site: string;
+  type: JobType;
+  runAt: string;
+  page?: string;
+  collection?: string;
+  item?: string;
+  override?: boolean;
+  source?: ScheduledJob['source'];
+  createdBy: string;
+}
+
+export const JOB_TYPES: JobType[] = ['deploy-site', 'publish-page', 'publish-item', 'unpublish-item'];
+
+const MAX_ATTEMPTS = 3;
+/** Retry delay grows with each attempt */
+const RETRY_DELAY_MS = 5 * 60_000;
+const MAX_LOG_ENTRIES = 100;
+/** A run that hasn't finished after this long is presumed dead */
+const CLAIM_TIMEOUT_MS = 30 * 60_000;
+/** Jobs run per cron tick; the rest wait for the next one */
+const MAX_JOBS_PER_RUN = 25;
+
+const DUE_PREFIX = '_schedule/due/';
+
+// ─── Keys ───
+
+function jobKey(site: string, jobId: string): string {
+  return `${site}/schedule/jobs/${jobId}.json`;
+}
+
+function dueKey(job: Pick<ScheduledJob, 'id' | 'site' | 'runAt'>, at: number = Date.parse(job.runAt)): string {
+  return `${DUE_PREFIX}${String(at).padStart(13, '0')}/${job.site}/${job.id}`;
+}
+
+function itemJobsKey(site: string, collection: string, slug: string): string {
+  return `${site}/schedule/items/${collection}/${slug}.json`;
+}
+
+/** Present once the item jobs created before itemJobsKey existed are indexed */
+function itemJobsIndexedKey(site: string): string {
+  return `${site}/schedule/items/_indexed`;
+}
+
+function generateJobId(): string {
+  return `${String(Date.now()).padStart(13, '0')}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isValidJobId(id: string): boolean {
+  return /^\d{13}-[a-z0-9]+$/.test(id);
+}
+
+// ─── Storage ───
+
+async function readJob(bucket: R2Bucket, site: string, jobId: string): Promise<{ job: ScheduledJob; etag: string } | null> {
+  const obj = await bucket.get(jobKey(site, jobId));
+  if (!obj) return null;
+  try {
+    return { job: await obj.json() as ScheduledJob, etag: obj.etag };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a job; with `etag`, only if nobody else wrote it since. Returns false on conflict.
+ */
+async function writeJob(bucket: R2Bucket, job: ScheduledJob, etag?: string): Promise<boolean> {
+  job.updatedAt = new Date().toISOString();
+  if (job.log.length > MAX_LOG_ENTRIES) job.log = job.log.slice(-MAX_LOG_ENTRIES);
+
+  const result = await bucket.put(jobKey(job.site, job.id), JSON.stringify(job, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+    ...(etag ? { onlyIf: { etagMatches: etag } } : {}),
+  });
+  return result !== null;
+}
+
+function addLog(job: ScheduledJob, level: JobLogEntry['level'], message: string, details?: unknown) {
+  job.log.push({ at: new Date().toISOString(), level, message, ...(details !== undefined ? { details } : {}) });
+}
+
+export async function getJob(bucket: R2Bucket, site: string, jobId: string): Promise<ScheduledJob | null> {
+  return (await readJob(bucket, site, jobId))?.job || null;
+}
+
+/**
+ * All jobs for a site, soonest first
+ */
+export async function listJobs(
+  bucket: R2Bucket,
+  site: string,
+  filter: { status?: JobStatus; type?: JobType } = {}
+): Promise<ScheduledJob[]> {
+  const prefix = `${site}/schedule/jobs/`;
+  const jobs: ScheduledJob[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix, cursor });
+    for (const obj of listed.objects) {
+      const jobObj = await bucket.get(obj.key);
+      if (!jobObj) continue;
+      try {
+        const job = await jobObj.json() as ScheduledJob;
+        if (filter.status && job.status !== filter.status) continue;
+        if (filter.type && job.type !== filter.type) continue;
+        jobs.push(job);
+      } catch {
+        // Skip invalid JSON
+      }
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return jobs.sort((a, b) => a.runAt.localeCompare(b.runAt));
+}
+
+export async function createJob(bucket: R2Bucket, input: NewJob): Promise<ScheduledJob> {
+  const now = new Date().toISOString();
+  const job: ScheduledJob = {
+    id: generateJobId(),
+    site: input.site,
+    type: input.type,
+    runAt: new Date(input.runAt).toISOString(),
+    status: 'pending',
+    ...(input.page ? { page: input.page } : {}),
+    ...(input.collection ? { collection: input.collection, item: input.item } : {}),
+    ...(input.override ? { override: true } : {}),
+    source: input.source || 'api',
+    attempts: 0,
+    createdAt: now,
+    createdBy: input.createdBy,
+    updatedAt: now,
+    log: [],
+  };
+  addLog(job, 'info', `Scheduled by ${input.createdBy} for ${job.runAt}`);
+
+  await writeJob(bucket, job);
+  await bucket.put(dueKey(job), '');
+  if (job.source === 'item' && job.collection && job.item) {
+    await updateItemJobs(bucket, job.site, job.collection, job.item, ids => [...ids, job.id]);
+  }
+  return job;
+}
+
+/**
+ * Pages with a pending publish-page job, which full deploys leave as they are live
+ */
+export async function listScheduledPages(bucket: R2Bucket, site: string): Promise<string[]> {
+  const jobs = await listJobs(bucket, site, { status: 'pending', type: 'publish-page' });
+  return [...new Set(jobs.map(job => job.page!))];
+}
+
+/**
+ * Cancel a pending job. Returns null if it doesn't exist, or the job
+ * unchanged if it already ran.
+ */
+export async function cancelJob(bucket: R2Bucket, site: string, jobId: string, by: string): Promise<ScheduledJob | null> {
+  const found = await readJob(bucket, site, jobId);
+  if (!found) return null;
+  const { job, etag } = found;
+  if (job.status !== 'pending') return job;
+
+  job.status = 'cancelled';
+  addLog(job, 'info', `Cancelled by ${by}`);
+  if (!(await writeJob(bucket, job, etag))) {
+    // Claimed by a run in the meantime
+    return getJob(bucket, site, jobId);
+  }
+  await bucket.delete(dueKey(job));
+  return job;
+}
+
+// ─── Collection items ───
+
+async function readItemJobs(bucket: R2Bucket, site: string, collection: string, slug: string): Promise<{ ids: string[]; etag?: string }> {
+  const obj = await bucket.get(itemJobsKey(site, collection, slug));
+  if (!obj) return { ids: [] };
+  try {
+    return { ids: await obj.json() as string[], etag: obj.etag };
+  } catch {
+    return { ids: [], etag: obj.etag };
+  }
+}
+
+/**
+ * Change the ids of an item's jobs; an empty list removes the index
+ */
+async function updateItemJobs(
+  bucket: R2Bucket,
+  site: string,
+  collection: string,
+  slug: string,
+  update: (ids: string[]) => string[]
+): Promise<void> {
+  const key = itemJobsKey(site, collection, slug);
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { ids, etag } = await readItemJobs(bucket, site, collection, slug);
+    const next = update(ids);
+    if (next.length === 0) {
+      await bucket.delete(key);
+      return;
+    }
+    const written = await bucket.put(key, JSON.stringify(next), {
+      httpMetadata: { contentType: 'application/json' },
+      onlyIf: etag ? { etagMatches: etag } : { etagDoesNotMatch: '*' },
+    });
+    if (written) return;
+  }
+  throw new Error(`Could not update the scheduled jobs of ${collection}/${slug}`);
+}
+
+/**
+ * Index the site's pending item jobs from before the per-item index, once
+ */
+async function indexLegacyItemJobs(bucket: R2Bucket, site: string): Promise<void> {
+  if (await bucket.head(itemJobsIndexedKey(site))) return;
+
+  for (const job of await listJobs(bucket, site, { status: 'pending' })) {
+    if (job.source !== 'item' || !job.collection || !job.item) continue;
+    await updateItemJobs(bucket, site, job.collection, job.item, ids => (ids.includes(job.id) ? ids : [...ids, job.id]));
+  }
+  await bucket.put(itemJobsIndexedKey(site), '');
+}
+
+/**
+ * Cancel the pending jobs derived from an item's dates (e.g. when it is deleted)
+ */
+export async function cancelItemJobs(bucket: R2Bucket, site: string, collection: string, slug: string, by: string): Promise<void> {
+  await indexLegacyItemJobs(bucket, site);
+
+  // Jobs that already ran stay unchanged
+  const { ids } = await readItemJobs(bucket, site, collection, slug);
+  for (const id of ids) {
+    if (isValidJobId(id)) await cancelJob(bucket, site, id, by);
+  }
+  await updateItemJobs(bucket, site, collection, slug, current => current.filter(id => !ids.includes(id)));
+}
+
+/**
+ * Keep an item's automatic jobs in line with its publishedAt / expiresAt.
+ * Pending jobs from an earlier save are cancelled and recreated. Returns the
+ * status the item should be stored with: a publish date in the future keeps
+ * it a draft until the job runs.
+ */
+export async function syncItemSchedule(
+  bucket: R2Bucket,
+  site: string,
+  collection: string,
+  item: CollectionItem,
+  by: string
+): Promise<CollectionItem['status']> {
+  await cancelItemJobs(bucket, site, collection, item.slug, by);
+
+  const now = Date.now();
+  let status = item.status;
+
+  if (item.status === 'published' && item.publishedAt && Date.parse(item.publishedAt) > now) {
+    status = 'draft';
+    await createJob(bucket, {
+      site, type: 'publish-item', runAt: item.publishedAt, collection, item: item.slug, source: 'item', createdBy: by,
+    });
+  }
+
+  if (item.expiresAt && Date.parse(item.expiresAt) > now && item.status !== 'archived') {
+    await createJob(bucket, {
+      site, type: 'unpublish-item', runAt: item.expiresAt, collection, item: item.slug, source: 'item', createdBy: by,
+    });
+  }
+
+  return status;
+}
+
+async function setItemStatus(
+  bucket: R2Bucket,
+  site: string,
+  collection: string,
+  slug: string,
+  status: CollectionItem['status']
+): Promise<CollectionItem> {
+  const itemKey = `${site}/collections/${collection}/items/${slug}.json`;
+  const itemObj = await bucket.get(itemKey);
+  if (!itemObj) throw new Error(`Item not found: ${collection}/${slug}`);
+
+  const item = await itemObj.json() as CollectionItem;
+  const previous = structuredClone(item);
+  const now = new Date().toISOString();
+  item.status = status;
+  if (status === 'published' && !item.publishedAt) item.publishedAt = now;
+  item.updatedAt = now;
+
+  await bucket.put(itemKey, JSON.stringify(item, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+
+  const indexKey = `${site}/collections/${collection}/index.json`;
+  const indexObj = await bucket.get(indexKey);
+  let items: CollectionItem[] = [];
+  if (indexObj) {
+    try {
+      items = await indexObj.json() as CollectionItem[];
+    } catch {
+      items = [];
+    }
+  }
+  const idx = items.findIndex(i => i.slug === item.slug);
+  if (idx >= 0) items[idx] = item;
+  else items.push(item);
+
+  await bucket.put(indexKey, JSON.stringify(items, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+  await updateItemIndexBySlug(bucket, site, collection, item, previous);
+
+  return item;
+}
+
+// ─── Running ───
+
+async function executeJob(bucket: R2Bucket, job: ScheduledJob, sitesDomain?: string): Promise<void> {
+  const author = `scheduler (${job.createdBy})`;
+
+  switch (job.type) {
+    case 'deploy-site': {
+      const gate = await runQualityGate(bucket, job.site);
+      if (!gate.passed && !job.override) {
+        addLog(job, 'error', `Quality gate blocked ${gate.blockedPages.length} page(s)`, { blockedPages: gate.blockedPages });
+        throw new QualityGateError();
+      }
+      const held = await listScheduledPages(bucket, job.site);
+      const { manifest } = await deploySite(bucket, job.site, author, sitesDomain, {
+        qualityGate: { passed: gate.passed, overridden: !gate.passed, blockedPages: gate.blockedPages },
+        scheduledJob: job.id,
+      }, held);
+      addLog(job, 'info', `Deployed release ${manifest.id} (${Object.keys(manifest.files).length} files)`, held.length > 0 ? { held } : undefined);
+      return;
+    }
+
+    case 'publish-page': {
+      const page = job.page!;
+      const draft = await bucket.get(`${job.site}/drafts/${page}.html`);
+      if (!draft) throw new Error(`Draft not found: ${page}`);
+
+      const thresholds = await getQualityGateSettings(bucket, job.site);
+      if (thresholds.qualityGate) {
+        const rules = await getAuditRuleSettings(bucket, job.site);
+        const report = evaluatePage(page, await draft.text(), thresholds, rules);
+        if (!report.passed && !job.override) {
+          addLog(job, 'error', `Quality gate blocked ${page}`, report);
+          throw new QualityGateError();
+        }
+      }
+
+      const { manifest } = await publishPage(bucket, job.site, page, author, sitesDomain, { scheduledJob: job.id });
+      addLog(job, 'info', `Published ${page} in release ${manifest.id}`);
+      return;
+    }
+
+    case 'publish-item':
+    case 'unpublish-item': {
+      const status = job.type === 'publish-item' ? 'published' : 'archived';
+      await setItemStatus(bucket, job.site, job.collection!, job.item!, status);
+      addLog(job, 'info', `Set ${job.collection}/${job.item} to ${status}`);
+
+      // The item's URL joined or left the live site; keep the sitemap honest
+      if (await getActiveReleaseId(bucket, job.site)) {
+        const { manifest } = await refreshSitemap(bucket, job.site, author, sitesDomain, { scheduledJob: job.id });
+        addLog(job, 'info', `Updated sitemap in release ${manifest.id}`);
+      }
+      return;
+    }
+  }
+}
+
+/** Gate failures need someone to fix the page; retrying won't help */
+class QualityGateError extends Error {
+  constructor() {
+    super('Quality gate failed');
+  }
+}
+
+function isClaimable(job: ScheduledJob, now: number): boolean {
+  if (job.status === 'pending') return true;
+  return job.status === 'running'
+    && !!job.lastAttemptAt
+    && Date.parse(job.lastAttemptAt) + CLAIM_TIMEOUT_MS <= now;
+}
+
+/**
+ * Claim and run one due job. Returns the job after the run, or null if
+ * another run claimed it first or it no longer needs running.
+ */
+async function runJob(bucket: R2Bucket, site: string, jobId: string, sitesDomain?: string): Promise<ScheduledJob | null> {
+  const found = await readJob(bucket, site, jobId);
+  const now = Date.now();
+  if (!found || !isClaimable(found.job, now)) return null;
+
+  const { job, etag } = found;
+  if (job.status === 'running') {
+    addLog(job, 'error', `Run ${job.attempts} never finished`);
+    if (job.attempts >= MAX_ATTEMPTS) {
+      job.status = 'failed';
+      return (await writeJob(bucket, job, etag)) ? job : null;
+    }
+  }
+  job.status = 'running';
+  job.attempts++;
+  job.lastAttemptAt = new Date(now).toISOString();
+  addLog(job, 'info', `Run ${job.attempts} started`);
+  if (!(await writeJob(bucket, job, etag))) return null;
+
+  // Picks the job up again if this run never finishes
+  const claimMarker = dueKey(job, now + CLAIM_TIMEOUT_MS);
+  await bucket.put(claimMarker, '');
+
+  try {
+    await executeJob(bucket, job, sitesDomain);
+    job.status = 'succeeded';
+  } catch (err: any) {
+    const retry = !(err instanceof QualityGateError) && job.attempts < MAX_ATTEMPTS;
+    if (!(err instanceof QualityGateError)) addLog(job, 'error', err.message || String(err));
+
+    if (retry) {
+      job.status = 'pending';
+      job.runAt = new Date(Date.now() + RETRY_DELAY_MS * job.attempts).toISOString();
+      addLog(job, 'info', `Retrying at ${job.runAt}`);
+      await bucket.put(dueKey(job), '');
+    } else {
+      job.status = 'failed';
+    }
+  }
+
+  await writeJob(bucket, job);
+  await bucket.delete(claimMarker);
+  return job;
+}
+
+export interface SchedulerRunReport {
+  ran: { site: string; id: string; type: JobType; status: JobStatus }[];
+  /** Due jobs left for the next tick */
+  remaining: boolean;
+}
+
+/**
+ * Run every job whose time has come, oldest first
+ */
+export async function runDueJobs(bucket: R2Bucket, sitesDomain?: string, now: number = Date.now()): Promise<SchedulerRunReport> {
+  const report: SchedulerRunReport = { ran: [], remaining: false };
+  const nowKey = `${DUE_PREFIX}${String(now).padStart(13, '0')}`;
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix: DUE_PREFIX, cursor });
+
+    for (const obj of listed.objects) {
+      // Keys sort by run time, so the first future one ends the scan
+      if (obj.key > nowKey) return report;
+      if (report.ran.length >= MAX_JOBS_PER_RUN) {
+        report.remaining = true;
+        return report;
+      }
+
+      const [, site, jobId] = obj.key.slice(DUE_PREFIX.length).split('/');
+      // Remove the marker first: a retry writes a new one with its new time
+      await bucket.delete(obj.key);
+
+      const job = await runJob(bucket, site, jobId, sitesDomain);
+      if (job) report.ran.push({ site, id: job.id, type: job.type, status: job.status });
+    }
+
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return report;
+}
@@ -0,0 +1,252 @@
+/**
+ * Site audits: every draft page audited on its own and against the others
+ *
+ * R2 layout:
+ *   {site}/audits/site/{auditId}.json  — a SiteAuditReport; customMetadata
+ *                                        createdAt, score, grade, pageCount, issueCount
+ *
+ * Each page gets the single-page audit (lib/audit-engine.ts); the site gets
+ * the cross-page checks (lib/site-audit.ts). Audit ids start with a
+ * zero-padded timestamp, so R2's listing order is run order. The newest
+ * MAX_HISTORY reports are kept, and each report compares itself with the
+ * one before.
+ */
+
+import { runAudit } from '../../lib/audit-engine';
+import { getGrade, getSiteAuditRules } from '../../lib/page-audit';
+import { getItemUrl } from '../../lib/collections';
+import { getListRoutes, getListUrl } from '../../lib/collection-list';
+import {
+  calculateSiteScore,
+  checkSite,
+  snapshotPage,
+  type PageSnapshot,
+  type SiteAuditIssue,
+  type SiteIssueSeverity,
+} from '../../lib/site-audit';
+import { listPublishedCollections, loadSiteSettings } from './live-site';
+import { getSiteBaseUrl } from './site-sitemap';
+import { LIST_CUSTOM_METADATA } from './r2';
+
+// ─── Types ───
+
+export const SITE_AUDIT_VERSION = 1;
+
+export interface SiteAuditPage {
+  page: string;
+  title: string;
+  /** Single-page audit score */
+  score: number;
+  grade: string;
+  /** Site issues that name this page */
+  siteIssues: number;
+  /** Critical and high findings of the single-page audit */
+  topIssues: string[];
+}
+
+export interface SiteAuditReport {
+  version: typeof SITE_AUDIT_VERSION;
+  id: string;
+  site: string;
+  createdAt: string;
+  score: number;
+  grade: string;
+  pageCount: number;
+  counts: Record<SiteIssueSeverity, number>;
+  /** Ranked, most severe first */
+  issues: SiteAuditIssue[];
+  /** Lowest score first */
+  pages: SiteAuditPage[];
+  /** Compared with the previous audit, if any */
+  trend: {
+    previousId: string;
+    scoreChange: number;
+    newIssues: number;
+    resolvedIssues: number;
+  } | null;
+}
+
+export type SiteAuditSummary = Pick<SiteAuditReport, 'id' | 'createdAt' | 'score' | 'grade' | 'pageCount'> & {
+  issueCount: number;
+};
+
+const MAX_HISTORY = 30;
+
+// ─── Keys ───
+
+function auditPrefix(site: string): string {
+  return `${site}/audits/site/`;
+}
+
+function auditKey(site: string, id: string): string {
+  return `${auditPrefix(site)}${id}.json`;
+}
+
+function generateAuditId(): string {
+  return `${String(Date.now()).padStart(13, '0')}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// ─── History ───
+
+/**
+ * List past site audits, newest first
+ */
+export async function listSiteAudits(bucket: R2Bucket, site: string): Promise<SiteAuditSummary[]> {
+  const prefix = auditPrefix(site);
+  const audits: SiteAuditSummary[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix, cursor, ...LIST_CUSTOM_METADATA });
+    for (const obj of listed.objects) {
+      const meta = obj.customMetadata || {};
+      audits.push({
+        id: obj.key.slice(prefix.length).replace(/\.json$/, ''),
+        createdAt: meta.createdAt || obj.uploaded.toISOString(),
+        score: parseInt(meta.score || '0', 10),
+        grade: meta.grade || '',
+        pageCount: parseInt(meta.pageCount || '0', 10),
+        issueCount: parseInt(meta.issueCount || '0', 10),
+      });
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return audits.reverse();
+}
+
+/**
+ * Fetch one site audit report
+ */
+export async function getSiteAudit(bucket: R2Bucket, site: string, id: string): Promise<SiteAuditReport | null> {
+  // Audit ids are generated by us — reject anything else to prevent path traversal
+  if (!/^\d{13}-[a-z0-9]+$/.test(id)) return null;
+
+  const obj = await bucket.get(auditKey(site, id));
+  if (!obj) return null;
+
+  try {
+    return await obj.json() as SiteAuditReport;
+  } catch {
+    return null;
+  }
+}
+
+async function saveSiteAudit(bucket: R2Bucket, report: SiteAuditReport, history: SiteAuditSummary[]): Promise<void> {
+  await bucket.put(auditKey(report.site, report.id), JSON.stringify(report), {
+    httpMetadata: { contentType: 'application/json' },
+    customMetadata: {
+      createdAt: report.createdAt,
+      score: String(report.score),
+      grade: report.grade,
+      pageCount: String(report.pageCount),
+      issueCount: String(report.issues.length),
+    },
+  });
+
+  // history is newest first and doesn't include this report yet
+  const expired = history.slice(MAX_HISTORY - 1).map(audit => auditKey(report.site, audit.id));
+  if (expired.length > 0) await bucket.delete(expired);
+}
+
+// ─── Audit ───
+
+/**
+ * Paths served for published collections: item pages, lists and archives
+ */
+async function collectionPaths(bucket: R2Bucket, site: string): Promise<Set<string>> {
+  const paths = new Set<string>();
+  for (const { collection, items } of await listPublishedCollections(bucket, site)) {
+    for (const item of items) paths.add(getItemUrl(item, collection).replace(/\/$/, ''));
+    for (const route of getListRoutes(collection, items)) {
+      paths.add(getListUrl(collection, route.page, route.archive).replace(/\/$/, ''));
+    }
+  }
+  return paths;
+}
+
+/**
+ * Audit every draft page of a site, check the pages against each other and
+ * store the report. Collection templates are skipped since they contain
+ * unrendered {{placeholders}}.
+ */
+export async function runSiteAudit(bucket: R2Bucket, site: string, sitesDomain?: string): Promise<SiteAuditReport> {
+  const settings = await loadSiteSettings(bucket, site);
+  const rules = getSiteAuditRules(settings);
+  const prefix = `${site}/drafts/`;
+  const snapshots: PageSnapshot[] = [];
+  const pages: SiteAuditPage[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix, cursor });
+    for (const obj of listed.objects) {
+      const match = obj.key.slice(prefix.length).match(/^(.+)\.html$/);
+      if (!match || match[1].endsWith('-template')) continue;
+
+      const pageObj = await bucket.get(obj.key);
+      if (!pageObj) continue;
+      const html = await pageObj.text();
+
+      const snapshot = snapshotPage(match[1], html, obj.uploaded.toISOString());
+      const audit = runAudit(html, { page: match[1], rules });
+      snapshots.push(snapshot);
+      pages.push({
+        page: match[1],
+        title: snapshot.title,
+        score: audit.score,
+        grade: audit.grade,
+        siteIssues: 0,
+        topIssues: audit.topIssues.map(finding => finding.issue),
+      });
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  const issues = checkSite(snapshots, {
+    baseUrl: getSiteBaseUrl(site, settings, sitesDomain),
+    extraPaths: await collectionPaths(bucket, site),
+    entryPages: [settings.publishing?.notFoundPage || '404'],
+  });
+
+  for (const page of pages) {
+    page.siteIssues = issues.filter(found => found.pages.includes(page.page)).length;
+  }
+  pages.sort((a, b) => a.score - b.score || b.siteIssues - a.siteIssues || a.page.localeCompare(b.page));
+
+  const counts: Record<SiteIssueSeverity, number> = { high: 0, medium: 0, low: 0 };
+  issues.forEach(found => counts[found.severity]++);
+
+  const score = calculateSiteScore(pages.map(page => page.score), issues);
+  const history = await listSiteAudits(bucket, site);
+  const previous = history.length > 0 ? await getSiteAudit(bucket, site, history[0].id) : null;
+
+  let trend: SiteAuditReport['trend'] = null;
+  if (previous) {
+    const before = new Set(previous.issues.map(found => found.key));
+    const now = new Set(issues.map(found => found.key));
+    trend = {
+      previousId: previous.id,
+      scoreChange: score - previous.score,
+      newIssues: issues.filter(found => !before.has(found.key)).length,
+      resolvedIssues: previous.issues.filter(found => !now.has(found.key)).length,
+    };
+  }
+
+  const report: SiteAuditReport = {
+    version: SITE_AUDIT_VERSION,
+    id: generateAuditId(),
+    site,
+    createdAt: new Date().toISOString(),
+    score,
+    grade: getGrade(score),
+    pageCount: pages.length,
+    counts,
+    issues,
+    pages,
+    trend,
+  };
+
+  await saveSiteAudit(bucket, report, history);
+  return report;
+}
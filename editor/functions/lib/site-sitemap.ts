@@ -0,0 +1,133 @@
+/**
+ * Deploy-time sitemap.xml and robots.txt for the live site
+ *
+ * URLs are the clean live URLs served by functions/lib/live-site.ts: the
+ * pages being released with their R2 upload time as lastmod (the drafts for
+ * a full deploy, the release's own files otherwise), every published collection
+ * item, and the first page of each collection list and archive. Pages with <meta name="robots" content="noindex">, collection
+ * templates and the 404 page are left out.
+ */
+
+import { buildSitemapFiles, buildRobotsTxt, absoluteUrl, isNoindex, isSiteNoindex, type SitemapEntry } from '../../lib/sitemap';
+import { getItemUrl } from '../../lib/collections';
+import { filterArchive, getListRoutes, getListUrl } from '../../lib/collection-list';
+import { listPublishedCollections } from './live-site';
+import { blobKey, type ReleaseFile } from './releases';
+
+/** A page to list: its name without .html and the R2 object holding it */
+export interface SitemapPage {
+  page: string;
+  key: string;
+}
+
+/**
+ * Every draft page of a site
+ */
+async function listDraftPages(bucket: R2Bucket, site: string): Promise<SitemapPage[]> {
+  const prefix = `${site}/drafts/`;
+  const pages: SitemapPage[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix, cursor });
+    for (const obj of listed.objects) {
+      const match = obj.key.slice(prefix.length).match(/^(.+)\.html$/);
+      if (match) pages.push({ page: match[1], key: obj.key });
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return pages;
+}
+
+/**
+ * The pages of a release, from its files; assets are left out
+ */
+export function listReleasePages(site: string, files: Record<string, ReleaseFile>): SitemapPage[] {
+  const pages: SitemapPage[] = [];
+  for (const [path, file] of Object.entries(files)) {
+    const match = path.match(/^(.+)\.html$/);
+    if (match && !path.startsWith('assets/')) pages.push({ page: match[1], key: blobKey(site, file.hash) });
+  }
+  return pages;
+}
+
+/**
+ * Public base URL of a site: seo.siteUrl, else {site}.{SITES_DOMAIN}
+ */
+export function getSiteBaseUrl(site: string, settings: Record<string, any>, sitesDomain?: string): string {
+  return settings.seo?.siteUrl || (sitesDomain ? `https://${site}.${sitesDomain}` : '');
+}
+
+/**
+ * Collect sitemap entries for a site's pages (by default its drafts) and
+ * published items
+ */
+export async function collectSitemapEntries(
+  bucket: R2Bucket,
+  site: string,
+  settings: Record<string, any>,
+  pages?: SitemapPage[]
+): Promise<SitemapEntry[]> {
+  // A site-wide noindex directive empties the sitemap
+  if (isSiteNoindex(settings)) return [];
+
+  const notFoundPage = settings.publishing?.notFoundPage || '404';
+  const entries: SitemapEntry[] = [];
+
+  for (const { page, key } of pages || await listDraftPages(bucket, site)) {
+    if (page.endsWith('-template') || page === notFoundPage) continue;
+
+    const pageObj = await bucket.get(key);
+    if (!pageObj || isNoindex(await pageObj.text())) continue;
+
+    entries.push({ path: `/${page.replace(/(^|\/)index$/, '')}`, lastmod: pageObj.uploaded.toISOString() });
+  }
+
+  // A page at /{collection} is served instead of the collection's list
+  const pagePaths = new Set(entries.map(entry => entry.path.replace(/\/$/, '')));
+
+  for (const { collection, items } of await listPublishedCollections(bucket, site)) {
+    for (const item of items) {
+      entries.push({
+        path: getItemUrl(item, collection),
+        lastmod: item.updatedAt || item.publishedAt,
+      });
+    }
+
+    if (items.length === 0) continue;
+    for (const route of getListRoutes(collection, items)) {
+      const path = getListUrl(collection, route.page, route.archive);
+      if (route.page > 1 || pagePaths.has(path.replace(/\/$/, ''))) continue;
+      const listed = route.archive ? filterArchive(items, collection.schema.fields, route.archive)?.items || [] : items;
+      entries.push({
+        path,
+        lastmod: listed.reduce((max, item) => (item.updatedAt > max ? item.updatedAt : max), ''),
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * sitemap.xml (or a sitemap index with sitemap-N.xml parts) and robots.txt,
+ * keyed by their path at the site root. Sitemaps need absolute URLs, so
+ * without a base URL (no seo.siteUrl and no SITES_DOMAIN) only robots.txt
+ * is generated.
+ */
+export async function generateSitemapFiles(
+  bucket: R2Bucket,
+  site: string,
+  settings: Record<string, any>,
+  baseUrl: string,
+  pages?: SitemapPage[]
+): Promise<Record<string, string>> {
+  if (!baseUrl) return { 'robots.txt': buildRobotsTxt(settings) };
+
+  const entries = await collectSitemapEntries(bucket, site, settings, pages);
+  return {
+    ...buildSitemapFiles(entries, baseUrl),
+    'robots.txt': buildRobotsTxt(settings, absoluteUrl(baseUrl, 'sitemap.xml')),
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Live site — /live/{site}/{...path}
+ *
+ * Serves the site's active release with clean URLs, e.g.
+ *   /live/goforma              → index.html
+ *   /live/goforma/about        → about.html
+ *   /live/goforma/blog/my-post → collection item "my-post" in "blog"
+ *   /live/goforma/_asset/css/theme.css → assets/css/theme.css
+ *
+ * Sites on their own hostname are served by functions/_middleware.ts.
+ * Rendering lives in functions/lib/live-site.ts.
+ *
+ * Site pages are user-authored and may carry scripts, so they are only
+ * served here when SITES_DOMAIN is not set (local development). Otherwise
+ * /live/{site}/... redirects to {site}.{SITES_DOMAIN}, off the editor's
+ * origin and its session cookie.
+ */
+
+import { serveLiveSite } from '../lib/live-site';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+  AUTH_SECRET?: string;
+  SITES_DOMAIN?: string;
+}
+
+export const onRequest: PagesFunction<Env> = async (context) => {
+  const { params, env, request } = context;
+  const pathParts = (params.path as string[]) || [];
+
+  if (pathParts.length < 1) {
+    return new Response('Not found. Use /live/{site}/{path}', { status: 404 });
+  }
+
+  const site = pathParts[0];
+  const url = new URL(request.url);
+
+  // Keep the trailing slash so /about/ resolves like /about
+  const rest = url.pathname.slice(`/live/${site}`.length) || '/';
+
+  if (env.SITES_DOMAIN) {
+    return Response.redirect(`https://${site}.${env.SITES_DOMAIN}${rest}${url.search}`, 302);
+  }
+
+  return serveLiveSite(env, request, site, rest, `/live/${site}`);
+};
@@ -4,6 +4,12 @@
  * Example: /preview/goforma/index → R2 key: goforma/drafts/index.html
  *
  * Also serves assets: /preview/{site}/_asset/css/theme.css → goforma/assets/css/theme.css
+ * Only for signed-in users who can read the site (./_middleware.ts).
+ *
+ * Drafts are shown on the editor's origin, next to the session cookie, so
+ * the page's own scripts must not run: a Content-Security-Policy nonce lets
+ * only the bridge through (the editor reuses it when it rewrites the
+ * canvas), and assets opened directly, e.g. an SVG, are sandboxed.
  */
 
 interface Env {
@@ -353,7 +359,9 @@ export const onRequest: PagesFunction<Env> = async (context) => {
     if (!obj) return new Response('Asset not found', { status: 404 });
     const headers = new Headers();
     obj.httpMetadata?.contentType && headers.set('Content-Type', obj.httpMetadata.contentType);
-    headers.set('Cache-Control', 'public, max-age=3600');
+    // Behind a session, so no shared caches
+    headers.set('Cache-Control', 'private, max-age=3600');
+    headers.set('Content-Security-Policy', 'sandbox');
     return new Response(obj.body, { headers });
   }
 
@@ -376,12 +384,15 @@ export const onRequest: PagesFunction<Env> = async (context) => {
     }
   );
 
-  // Inject bridge before </body>
-  html = html.replace('</body>', BRIDGE_SCRIPT + '\n</body>');
+  // Inject bridge before </body>; it is the only script allowed to run
+  const nonce = crypto.randomUUID().replace(/-/g, '');
+  const bridge = BRIDGE_SCRIPT.replace('<script id="bloxx-editor-bridge">', `<script id="bloxx-editor-bridge" nonce="${nonce}">`);
+  html = html.replace('</body>', bridge + '\n</body>');
 
   return new Response(html, {
     headers: {
       'Content-Type': 'text/html; charset=utf-8',
+      'Content-Security-Policy': `script-src 'nonce-${nonce}'; object-src 'none'; base-uri 'none'`,
       'ETag': obj.httpEtag,
       'Cache-Control': 'no-cache',
     },
@@ -0,0 +1,41 @@
+/**
+ * Access control for /preview/{site}/... — drafts and their assets
+ *
+ * The preview is the editor's canvas, loaded in an iframe on the editor's
+ * own origin, so the session cookie comes along. It needs the "read"
+ * permission on the site, like reading drafts through /api does. Sharing a
+ * draft with someone who can't sign in goes through preview tokens on the
+ * live site instead (functions/lib/preview-tokens.ts).
+ */
+
+import { roleAllows } from '../../lib/auth';
+import { authenticate, getSiteRole, type AuthData } from '../lib/auth';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+  AUTH_SECRET?: string;
+  AUTH_ADMINS?: string;
+}
+
+const SITE_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export const onRequest: PagesFunction<Env, any, AuthData> = async (context) => {
+  const { env, request } = context;
+  if (!env.AUTH_SECRET) {
+    return new Response('Authentication is not configured (AUTH_SECRET)', { status: 500 });
+  }
+
+  const user = await authenticate(request, env.AUTH_SECRET, env.AUTH_ADMINS);
+  if (!user) {
+    return new Response('Not signed in', { status: 401 });
+  }
+
+  const site = new URL(request.url).pathname.split('/')[2] || '';
+  // Don't reveal whether the site exists
+  if (!SITE_NAME.test(site) || !roleAllows(await getSiteRole(env.BLOXX_SITES, site, user), 'read')) {
+    return new Response('Site not found', { status: 404 });
+  }
+
+  context.data.user = user;
+  return context.next();
+};
@@ -0,0 +1,38 @@
+/**
+ * Scheduler — Cron Trigger entry point for scheduled publishing and form delivery
+ *
+ * Pages Functions can't receive Cron Triggers, so this runs as its own
+ * Worker with the same BLOXX_SITES bucket binding (see wrangler.toml).
+ * Each tick runs the jobs that have come due (functions/lib/scheduler.ts)
+ * and retries queued form deliveries (functions/lib/form-delivery.ts).
+ */
+
+import { runDueDeliveries } from '../lib/form-delivery';
+import { runDueJobs } from '../lib/scheduler';
+
+interface Env {
+  BLOXX_SITES: R2Bucket;
+  SITES_DOMAIN?: string;
+  XANO_API_KEY?: string;
+  SENDGRID_API_KEY?: string;
+  RESEND_API_KEY?: string;
+}
+
+export default {
+  async scheduled(controller, env, ctx) {
+    ctx.waitUntil(
+      runDueJobs(env.BLOXX_SITES, env.SITES_DOMAIN, controller.scheduledTime).then(report => {
+        if (report.ran.length > 0) {
+          console.log(`Scheduler ran ${report.ran.length} job(s)${report.remaining ? ', more due' : ''}`, report.ran);
+        }
+      })
+    );
+    ctx.waitUntil(
+      runDueDeliveries(env.BLOXX_SITES, env, controller.scheduledTime).then(report => {
+        if (report.attempted.length > 0) {
+          console.log(`Attempted ${report.attempted.length} form deliveries${report.remaining ? ', more due' : ''}`, report.attempted);
+        }
+      })
+    );
+  },
+} satisfies ExportedHandler<Env>;
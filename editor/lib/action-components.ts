@@ -350,6 +350,130 @@ export function validateForm(
   return errors;
 }
 
+const ACTION_TYPES: ActionType[] = ['email', 'webhook', 'database', 'zapier'];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isHttpsUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function isFieldList(value: unknown): boolean {
+  return value === '*' || (Array.isArray(value) && value.every(field => typeof field === 'string'));
+}
+
+/**
+ * Check an action config before it is stored for a form; returns the config,
+ * or an error message. Delivery uses stored configs (or, for now, the
+ * restricted ones of restrictLegacyConfig), so this is where destinations
+ * are vetted.
+ */
+export function parseActionConfig(value: unknown): ActionConfig | string {
+  if (!isObject(value)) return 'Action config must be an object';
+  if (!ACTION_TYPES.includes(value.action)) return `action must be one of ${ACTION_TYPES.join(', ')}`;
+
+  switch (value.action as ActionType) {
+    case 'email': {
+      const email = value.emailConfig;
+      if (!isObject(email) || typeof email.to !== 'string' || !email.to || typeof email.subject !== 'string') {
+        return 'emailConfig needs to and subject';
+      }
+      break;
+    }
+    case 'webhook': {
+      const webhook = value.webhookConfig;
+      if (!isObject(webhook) || !isHttpsUrl(webhook.url)) return 'webhookConfig.url must be an https URL';
+      if (webhook.method !== undefined && !['POST', 'PUT', 'PATCH'].includes(webhook.method)) {
+        return 'webhookConfig.method must be POST, PUT or PATCH';
+      }
+      if (webhook.headers !== undefined
+        && (!isObject(webhook.headers) || !Object.values(webhook.headers).every(header => typeof header === 'string'))) {
+        return 'webhookConfig.headers must map header names to strings';
+      }
+      if (!isFieldList(webhook.includeFields)) return 'webhookConfig.includeFields must be "*" or a list of fields';
+      break;
+    }
+    case 'database': {
+      const database = value.databaseConfig;
+      if (!isObject(database) || typeof database.table !== 'string' || !database.table || !isObject(database.mappings)) {
+        return 'databaseConfig needs table and mappings';
+      }
+      break;
+    }
+    case 'zapier': {
+      const zapier = value.zapierConfig;
+      if (!isObject(zapier) || !isHttpsUrl(zapier.webhookUrl)) return 'zapierConfig.webhookUrl must be an https URL';
+      if (!isFieldList(zapier.includeFields)) return 'zapierConfig.includeFields must be "*" or a list of fields';
+      break;
+    }
+  }
+
+  if (value.onSuccess !== undefined && !isObject(value.onSuccess)) return 'onSuccess must be an object';
+  if (value.onError !== undefined && !isObject(value.onError)) return 'onError must be an object';
+  if (value.validation !== undefined
+    && (!isObject(value.validation) || !Object.values(value.validation).every(Array.isArray))) {
+    return 'validation must map field names to lists of rules';
+  }
+  if (value.rateLimit !== undefined) {
+    const { maxSubmissions, windowMinutes } = isObject(value.rateLimit) ? value.rateLimit : {} as Record<string, any>;
+    if (!Number.isInteger(maxSubmissions) || maxSubmissions < 1 || !Number.isInteger(windowMinutes) || windowMinutes < 1) {
+      return 'rateLimit needs whole, positive maxSubmissions and windowMinutes';
+    }
+  }
+  if (value.honeypot !== undefined && !isObject(value.honeypot)) return 'honeypot must be an object';
+
+  return {
+    ...value,
+    onSuccess: value.onSuccess || { type: 'message' },
+    onError: value.onError || { type: 'message' },
+    validation: value.validation || {},
+  } as ActionConfig;
+}
+
+/** Where restricted legacy configs deliver: the site's contact email */
+export const SITE_CONTACT_EMAIL = '{{global.business.email}}';
+
+/**
+ * Action config for a form that still sends its config with each submission,
+ * from before configs were stored (/api/form-configs). Only the parts that
+ * can't send data anywhere are kept (validation, honeypot, rate limit,
+ * messages, redirects within the site); whatever destination the body
+ * names, submissions are emailed to the site's contact email.
+ */
+export function restrictLegacyConfig(value: unknown): ActionConfig | string {
+  if (!isObject(value)) return 'Action config must be an object';
+
+  const email = isObject(value.emailConfig) ? value.emailConfig : {};
+  const config = parseActionConfig({
+    action: 'email',
+    emailConfig: {
+      to: SITE_CONTACT_EMAIL,
+      subject: typeof email.subject === 'string' && email.subject ? email.subject : 'New form submission',
+      ...(typeof email.replyTo === 'string' ? { replyTo: email.replyTo } : {}),
+    },
+    onSuccess: value.onSuccess,
+    onError: value.onError,
+    validation: value.validation,
+    rateLimit: value.rateLimit,
+    honeypot: value.honeypot,
+  });
+  if (typeof config === 'string') return config;
+
+  const redirect = config.onSuccess.redirectUrl;
+  if (config.onSuccess.type === 'redirect'
+    && !(typeof redirect === 'string' && /^\/(?![/\\])/.test(redirect))) {
+    config.onSuccess = { type: 'message', message: config.onSuccess.message };
+  }
+  return config;
+}
+
 /**
  * Replace template variables in a string
  * Supports {{fieldName}} and {{global.path.to.value}} syntax
@@ -0,0 +1,122 @@
+/**
+ * audit-engine.ts — One in-process audit of a page
+ *
+ * Runs the weighted page rules (page-audit.ts) and the category analyzers
+ * (seo-analysis.ts) over the same HTML and combines them into an AuditReport.
+ * Nothing is fetched or stored, so drafts never leave the editor and the
+ * audit works offline. The report shape is versioned; add fields rather than
+ * changing existing ones, and bump AUDIT_SCHEMA_VERSION when that can't be
+ * avoided.
+ */
+
+import { auditPage, getGrade, type PageAuditResult } from './page-audit';
+import type { AuditRuleSettings } from './audit-rules';
+import { getPageType } from './page-types';
+import { analyzeHtml, type BreakdownItem, type DetailedAnalysis, type Finding } from './seo-analysis';
+
+// ─── Types ───
+
+export const AUDIT_SCHEMA_VERSION = 1;
+
+export type AuditCategory = keyof DetailedAnalysis['scores'];
+
+export type AuditStatus = 'excellent' | 'good' | 'needs_improvement' | 'poor';
+
+export interface AuditCategoryResult {
+  score: number;
+  description: string;
+  items: BreakdownItem[];
+}
+
+export interface AuditReport {
+  version: typeof AUDIT_SCHEMA_VERSION;
+  page: string | null;
+  pageType: string;
+  /** The mean of the rule score and the category score, 0-100 */
+  score: number;
+  grade: string;
+  status: AuditStatus;
+  /** Weighted page rules */
+  rules: PageAuditResult;
+  /** Category analyzers */
+  seo: {
+    score: number;
+    grade: string;
+    categories: Record<AuditCategory, AuditCategoryResult>;
+    llmReadabilityScore: number;
+  };
+  /** Fixes from the analyzers, most severe first */
+  findings: Finding[];
+  /** Critical and high findings, at most five */
+  topIssues: Finding[];
+  /** Findings that take a few minutes to fix, at most five */
+  quickWins: Finding[];
+  /** Components that would lift the score */
+  recommendations: Finding[];
+  /** What each analyzer measured */
+  details: DetailedAnalysis['detailedFindings'];
+}
+
+export interface AuditOptions {
+  /** Page name; picks the page type and schema expectations */
+  page?: string;
+  /** Page type id (lib/page-types.ts); defaults to the one named after the page */
+  pageType?: string;
+  /** The site's custom rules and built-in overrides (settings.audit) */
+  rules?: AuditRuleSettings;
+}
+
+// ─── Audit ───
+
+function getStatus(score: number): AuditStatus {
+  if (score >= 80) return 'excellent';
+  if (score >= 60) return 'good';
+  if (score >= 40) return 'needs_improvement';
+  return 'poor';
+}
+
+/**
+ * The page type a page is audited as: the given one, or the type the page is
+ * named after (faq, pricing, ...), or 'custom'
+ */
+export function resolvePageType(page?: string, pageType?: string): string {
+  if (pageType) return pageType;
+  return (page && getPageType(page)?.id) || 'custom';
+}
+
+/**
+ * Audit a page's HTML
+ */
+export function runAudit(html: string, options: AuditOptions = {}): AuditReport {
+  const pageType = resolvePageType(options.page, options.pageType);
+  const rules = auditPage(html, pageType, options.rules);
+  const analysis = analyzeHtml(html, options.page);
+
+  const categories = {} as Record<AuditCategory, AuditCategoryResult>;
+  for (const category of Object.keys(analysis.scores) as AuditCategory[]) {
+    categories[category] = { score: analysis.scores[category], ...analysis.scoreBreakdowns[category] };
+  }
+
+  const score = Math.round((rules.score + analysis.summary.overallScore) / 2);
+
+  return {
+    version: AUDIT_SCHEMA_VERSION,
+    page: options.page ?? null,
+    pageType,
+    score,
+    grade: getGrade(score),
+    status: getStatus(score),
+    rules,
+    seo: {
+      score: analysis.summary.overallScore,
+      grade: analysis.summary.grade,
+      categories,
+      llmReadabilityScore: analysis.llmReadabilityScore,
+    },
+    findings: analysis.allFixes,
+    topIssues: analysis.topIssues,
+    quickWins: analysis.quickWins,
+    recommendations: analysis.componentRecommendations,
+    details: analysis.detailedFindings,
+  };
+}
@@ -0,0 +1,332 @@
+/**
+ * audit-rules.ts — Site-defined page audit rules
+ *
+ * A site adds its own rules to the page audit in settings.audit, and can turn
+ * off or reweight the built-in ones (PAGE_AUDIT_RULES in page-audit.ts):
+ *
+ *   "audit": {
+ *     "builtInRules": { "hasFAQ": false, "wordCount": 25 },
+ *     "rules": [
+ *       { "id": "footerPhone", "label": "Phone number in footer", "type": "selector",
+ *         "selector": "footer a[href^='tel:']", "weight": 10 },
+ *       { "id": "bannedPhrases", "label": "No banned phrases", "type": "text",
+ *         "pattern": "world-class|cheapest", "flags": "i", "forbid": true, "weight": 5 },
+ *       { "id": "ctaCount", "label": "At least two calls to action", "type": "count",
+ *         "selector": ".btn, [data-cta]", "min": 2, "weight": 10 },
+ *       { "id": "brandButtons", "label": "Buttons use brand colors", "type": "attribute",
+ *         "selector": ".btn[style]", "attribute": "style", "pattern": "var\\(--brand-", "weight": 5 }
+ *     ]
+ *   }
+ *
+ * Rule types:
+ * - selector:  an element matching `selector` must exist (with `forbid`, must not)
+ * - text:      the text of `selector` (default body) must match `pattern` (with `forbid`, must not)
+ * - attribute: every element matching `selector` must have `attribute`, matching
+ *              `pattern` if given (with `forbid`, none may)
+ * - count:     the number of elements matching `selector` must be within `min`..`max`
+ *
+ * `pageTypes` limits a rule to those page types (page-types.ts).
+ *
+ * Patterns run on every audit, so patterns that can backtrack for a long
+ * time are rejected when saved: nested quantifiers like (a+)+, repeated
+ * alternations like (a|a)+, and more than one unbounded quantifier. Text is
+ * cut at MAX_MATCH_LENGTH before matching.
+ */
+
+import { parseHTML, type HTMLElement } from 'linkedom';
+import type { AuditCheckResult, AuditRule, PageAuditData } from './page-audit';
+
+// ─── Types ───
+
+export type CustomRuleType = 'selector' | 'text' | 'attribute' | 'count';
+
+export interface CustomAuditRule {
+  id: string;
+  /** What the rule checks, e.g. "Phone number in footer" */
+  label: string;
+  type: CustomRuleType;
+  weight: number;
+  selector?: string;
+  pattern?: string;
+  flags?: string;
+  attribute?: string;
+  forbid?: boolean;
+  min?: number;
+  max?: number;
+  pageTypes?: string[];
+}
+
+export interface AuditRuleSettings {
+  /** Built-in rule id → new weight, or false to turn it off */
+  builtInRules: Record<string, number | false>;
+  rules: CustomAuditRule[];
+}
+
+// ─── Constants ───
+
+const RULE_TYPES: CustomRuleType[] = ['selector', 'text', 'attribute', 'count'];
+
+const MAX_CUSTOM_RULES = 50;
+
+/** Patterns run on every audit; keep them short */
+const MAX_PATTERN_LENGTH = 500;
+
+/** Characters of page text or attribute value a pattern is matched against */
+const MAX_MATCH_LENGTH = 100_000;
+
+const MAX_WEIGHT = 100;
+
+// ─── Validation ───
+
+function isValidSelector(selector: string): boolean {
+  try {
+    parseHTML('<html><body></body></html>').document.querySelectorAll(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Why a pattern could backtrack catastrophically, or null. Rejects the
+ * shapes behind it: a repeated group that itself repeats ((a+)+), a repeated
+ * alternation, whose branches may overlap ((a|a)+, (\w|\d)*), and more than
+ * one unbounded quantifier (.*.*x), which backtracks polynomially. Stricter
+ * than needed for some safe patterns; audit rules rarely need more.
+ */
+function backtrackingRisk(pattern: string): string | null {
+  // Per open group: does it contain a quantifier, an alternation?
+  const groups: { quantified: boolean; alternation: boolean }[] = [];
+  let closed: { quantified: boolean; alternation: boolean } | null = null;
+  let unbounded = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const range = char === '{' ? /^\{\d+(,\d*)?\}/.exec(pattern.slice(i)) : null;
+    const isQuantifier = char === '+' || char === '*' || !!range;
+
+    if (isQuantifier) {
+      if (closed?.quantified) return 'repeats a group that itself repeats';
+      if (closed?.alternation) return 'repeats a group with alternatives (|)';
+      if (char !== '{' || /,\}$/.test(range![0])) unbounded++;
+      if (unbounded > 1) return 'has more than one unbounded quantifier (+, *, {n,})';
+      if (groups.length > 0) groups[groups.length - 1].quantified = true;
+    }
+    closed = null;
+
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Skip the character class; quantifiers inside it are literal
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '|') {
+      if (groups.length > 0) groups[groups.length - 1].alternation = true;
+    } else if (char === '(') {
+      groups.push({ quantified: false, alternation: false });
+    } else if (char === ')') {
+      const group = groups.pop() ?? { quantified: false, alternation: false };
+      const parent = groups[groups.length - 1];
+      if (parent) {
+        parent.quantified ||= group.quantified;
+        parent.alternation ||= group.alternation;
+      }
+      closed = group;
+    }
+  }
+  return null;
+}
+
+function isValidWeight(weight: unknown): weight is number {
+  return typeof weight === 'number' && Number.isFinite(weight) && weight > 0 && weight <= MAX_WEIGHT;
+}
+
+function parseCustomRule(value: unknown, index: number, taken: Set<string>): CustomAuditRule | string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return `Rule ${index + 1} must be an object`;
+  const rule = value as Record<string, unknown>;
+  const name = typeof rule.id === 'string' && rule.id ? `Rule "${rule.id}"` : `Rule ${index + 1}`;
+
+  if (typeof rule.id !== 'string' || !/^[A-Za-z][\w-]{0,63}$/.test(rule.id)) {
+    return `${name}: id must start with a letter and use only letters, digits, - and _`;
+  }
+  if (taken.has(rule.id)) return `${name}: id is already used by another rule`;
+  if (typeof rule.label !== 'string' || !rule.label.trim()) return `${name}: label is required`;
+  if (!RULE_TYPES.includes(rule.type as CustomRuleType)) return `${name}: type must be one of ${RULE_TYPES.join(', ')}`;
+  if (!isValidWeight(rule.weight)) return `${name}: weight must be a number from 1 to ${MAX_WEIGHT}`;
+
+  const type = rule.type as CustomRuleType;
+  const parsed: CustomAuditRule = { id: rule.id, label: rule.label.trim(), type, weight: rule.weight };
+
+  if (rule.selector !== undefined || type !== 'text') {
+    if (typeof rule.selector !== 'string' || !rule.selector.trim()) return `${name}: selector is required`;
+    if (!isValidSelector(rule.selector)) return `${name}: "${rule.selector}" is not a valid CSS selector`;
+    parsed.selector = rule.selector.trim();
+  }
+
+  if (rule.pattern !== undefined || type === 'text') {
+    if (typeof rule.pattern !== 'string' || !rule.pattern) return `${name}: pattern is required`;
+    if (rule.pattern.length > MAX_PATTERN_LENGTH) return `${name}: pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+    const flags = rule.flags ?? '';
+    if (typeof flags !== 'string' || !/^[imsu]*$/.test(flags)) return `${name}: flags may only contain i, m, s and u`;
+    try {
+      new RegExp(rule.pattern, flags);
+    } catch {
+      return `${name}: pattern is not a valid regular expression`;
+    }
+    const risk = backtrackingRisk(rule.pattern);
+    if (risk) {
+      return `${name}: pattern ${risk}, which can make audits hang; simplify it`;
+    }
+    parsed.pattern = rule.pattern;
+    if (flags) parsed.flags = flags;
+  }
+
+  if (type === 'attribute') {
+    if (typeof rule.attribute !== 'string' || !/^[^\s"'>/=]+$/.test(rule.attribute)) return `${name}: attribute is required`;
+    parsed.attribute = rule.attribute.toLowerCase();
+  }
+
+  if (type === 'count') {
+    for (const bound of ['min', 'max'] as const) {
+      const limit = rule[bound];
+      if (limit === undefined) continue;
+      if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 0) return `${name}: ${bound} must be a whole number`;
+      parsed[bound] = limit;
+    }
+    if (parsed.min === undefined && parsed.max === undefined) return `${name}: min or max is required`;
+    if (parsed.min !== undefined && parsed.max !== undefined && parsed.min > parsed.max) return `${name}: min is above max`;
+  }
+
+  if (rule.forbid !== undefined) {
+    if (typeof rule.forbid !== 'boolean') return `${name}: forbid must be true or false`;
+    if (rule.forbid) parsed.forbid = true;
+  }
+
+  if (rule.pageTypes !== undefined) {
+    if (!Array.isArray(rule.pageTypes) || !rule.pageTypes.every(t => typeof t === 'string' && t)) {
+      return `${name}: pageTypes must be a list of page type ids`;
+    }
+    parsed.pageTypes = rule.pageTypes as string[];
+  }
+
+  return parsed;
+}
+
+/**
+ * Check settings.audit; returns the settings, or an error message.
+ * `builtInIds` are the rules that can be turned off or reweighted.
+ */
+export function parseAuditRuleSettings(value: unknown, builtInIds: string[]): AuditRuleSettings | string {
+  if (value === undefined || value === null) return { builtInRules: {}, rules: [] };
+  if (typeof value !== 'object' || Array.isArray(value)) return 'Audit settings must be an object';
+  const { builtInRules = {}, rules = [] } = value as Record<string, unknown>;
+
+  if (!builtInRules || typeof builtInRules !== 'object' || Array.isArray(builtInRules)) {
+    return 'builtInRules must map rule ids to a weight or false';
+  }
+  const overrides: AuditRuleSettings['builtInRules'] = {};
+  for (const [id, setting] of Object.entries(builtInRules)) {
+    if (!builtInIds.includes(id)) return `Unknown built-in rule "${id}"`;
+    if (setting !== false && !isValidWeight(setting)) {
+      return `Built-in rule "${id}" must be false or a weight from 1 to ${MAX_WEIGHT}`;
+    }
+    overrides[id] = setting;
+  }
+
+  if (!Array.isArray(rules)) return 'rules must be a list';
+  if (rules.length > MAX_CUSTOM_RULES) return `At most ${MAX_CUSTOM_RULES} custom rules are allowed`;
+  const taken = new Set(builtInIds);
+  const parsed: CustomAuditRule[] = [];
+  for (const [index, rule] of rules.entries()) {
+    const result = parseCustomRule(rule, index, taken);
+    if (typeof result === 'string') return result;
+    taken.add(result.id);
+    parsed.push(result);
+  }
+
+  return { builtInRules: overrides, rules: parsed };
+}
+
+// ─── Evaluation ───
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Text of an element without its scripts and styles; the page's document is
+ * shared between rules, so a copy is trimmed
+ */
+function visibleText(el: HTMLElement | null): string {
+  if (!el) return '';
+  const copy: HTMLElement = el.cloneNode(true);
+  copy.querySelectorAll('script, style, noscript').forEach((hidden: HTMLElement) => hidden.remove());
+  return copy.textContent || '';
+}
+
+function checkCustomRule(rule: CustomAuditRule, data: PageAuditData): AuditCheckResult {
+  if (rule.pageTypes && !rule.pageTypes.includes(data.pageType)) {
+    // Not for this page type; an empty message leaves it out of the score
+    return { passed: true, message: '', value: false };
+  }
+
+  const document = data.document || parseHTML(data.html).document;
+  const matches = rule.selector ? Array.from(document.querySelectorAll(rule.selector)) as HTMLElement[] : [];
+  const pass = (value: number | string | boolean): AuditCheckResult => ({ passed: true, message: rule.label, value });
+  const fail = (detail: string, value: number | string | boolean): AuditCheckResult => ({
+    passed: false,
+    message: `${rule.label}: ${detail}`,
+    value,
+  });
+
+  switch (rule.type) {
+    case 'selector':
+      if (rule.forbid) {
+        return matches.length === 0 ? pass(0) : fail(`found ${plural(matches.length, 'element')} matching ${rule.selector}`, matches.length);
+      }
+      return matches.length > 0 ? pass(matches.length) : fail(`nothing matches ${rule.selector}`, 0);
+
+    case 'text': {
+      const scope = rule.selector ? matches : [document.body];
+      const text = scope.map(el => visibleText(el)).join('\n').slice(0, MAX_MATCH_LENGTH);
+      const found = text.match(new RegExp(rule.pattern!, rule.flags));
+      if (rule.forbid) {
+        return found ? fail(`found "${found[0].trim().slice(0, 60)}"`, found[0]) : pass(false);
+      }
+      return found ? pass(true) : fail(`no text matches /${rule.pattern}/`, false);
+    }
+
+    case 'attribute': {
+      const pattern = rule.pattern ? new RegExp(rule.pattern, rule.flags) : null;
+      const conforms = (el: HTMLElement) => {
+        const value = el.getAttribute(rule.attribute!);
+        return value !== null && (!pattern || pattern.test(value.slice(0, MAX_MATCH_LENGTH)));
+      };
+      const offending = matches.filter(el => (rule.forbid ? conforms(el) : !conforms(el))).length;
+      if (offending === 0) return pass(0);
+      const expectation = rule.forbid ? 'has' : 'lacks';
+      return fail(`${plural(offending, 'element')} matching ${rule.selector} ${expectation} ${rule.attribute}${pattern ? ` matching /${rule.pattern}/` : ''}`, offending);
+    }
+
+    case 'count':
+      if (rule.min !== undefined && matches.length < rule.min) {
+        return fail(`${matches.length}/${rule.min} minimum`, matches.length);
+      }
+      if (rule.max !== undefined && matches.length > rule.max) {
+        return fail(`${matches.length}/${rule.max} maximum`, matches.length);
+      }
+      return pass(matches.length);
+  }
+}
+
+/**
+ * Turn a custom rule into an audit rule, scored like the built-ins
+ */
+export function compileCustomRule(rule: CustomAuditRule): AuditRule {
+  return {
+    id: rule.id,
+    weight: rule.weight,
+    check: (data) => checkCustomRule(rule, data),
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * auth.ts — Session tokens, password hashing and per-site roles
+ *
+ * Sessions are HS256-signed JWTs carrying the user's email and display name,
+ * and whether that email has been verified. Verification tokens are signed
+ * the same way, with a key of their own, so they can't stand in for a session.
+ * Access is granted per site, per email, with one of four roles. Each role
+ * is a fixed set of permissions; API routes ask for a permission, never a
+ * role, so the role → permission mapping lives only here.
+ *
+ * Uses WebCrypto only, so it runs in Workers and in Node alike.
+ */
+
+// ─── Roles ───
+
+export type SiteRole = 'owner' | 'editor' | 'content-only' | 'viewer';
+
+export type Permission =
+  /** Read pages, collections, settings, history */
+  | 'read'
+  /** Create, edit and delete collection items */
+  | 'content'
+  /** Edit pages, collection schemas, images and other site content */
+  | 'edit'
+  /** Publish and roll back releases */
+  | 'deploy'
+  /** Change site settings */
+  | 'settings'
+  /** Grant and revoke access to the site */
+  | 'access';
+
+export const SITE_ROLES: SiteRole[] = ['owner', 'editor', 'content-only', 'viewer'];
+
+export const ROLE_PERMISSIONS: Record<SiteRole, Permission[]> = {
+  owner: ['read', 'content', 'edit', 'deploy', 'settings', 'access'],
+  editor: ['read', 'content', 'edit', 'deploy'],
+  'content-only': ['read', 'content'],
+  viewer: ['read'],
+};
+
+export function isSiteRole(value: unknown): value is SiteRole {
+  return typeof value === 'string' && (SITE_ROLES as string[]).includes(value);
+}
+
+export function roleAllows(role: SiteRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// ─── Sessions ───
+
+export interface SessionClaims {
+  /** Lower-cased email */
+  sub: string;
+  name: string;
+  /** The user proved they own the email; roles granted to it only apply then */
+  verified?: boolean;
+  /** Issued at / expiry, seconds since epoch */
+  iat: number;
+  exp: number;
+}
+
+/** Sessions last a week */
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const encoder = new TextEncoder();
+
+export function base64url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64url(str: string): Uint8Array {
+  const binary = atob(str.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+export function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+async function signJwt(claims: object, secret: string, typ: string): Promise<string> {
+  const header = base64url(encoder.encode(JSON.stringify({ alg: 'HS256', typ })));
+  const payload = base64url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), encoder.encode(`${header}.${payload}`));
+
+  return `${header}.${payload}.${base64url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Check a token's signature, type and expiry; returns its claims
+ */
+async function verifyJwt<T extends { exp: number }>(token: string, secret: string, typ: string): Promise<T | null> {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  const [header, payload, signature] = parts;
+
+  try {
+    const decoded = JSON.parse(new TextDecoder().decode(fromBase64url(header)));
+    if (decoded.alg !== 'HS256' || decoded.typ !== typ) return null;
+
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await hmacKey(secret),
+      fromBase64url(signature),
+      encoder.encode(`${header}.${payload}`)
+    );
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64url(payload))) as T;
+    if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(Date.now() / 1000)) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+export async function signSession(
+  user: { email: string; name: string; verified?: boolean },
+  secret: string,
+  ttlSeconds: number = SESSION_TTL_SECONDS
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: SessionClaims = {
+    sub: user.email.toLowerCase(),
+    name: user.name,
+    ...(user.verified ? { verified: true } : {}),
+    iat: now,
+    exp: now + ttlSeconds,
+  };
+  return signJwt(claims, secret, 'JWT');
+}
+
+/**
+ * Check a session token's signature and expiry. Returns null for anything invalid.
+ */
+export async function verifySession(token: string, secret: string): Promise<SessionClaims | null> {
+  const claims = await verifyJwt<SessionClaims>(token, secret, 'JWT');
+  return claims?.sub ? claims : null;
+}
+
+// ─── Email verification ───
+
+export interface VerificationClaims {
+  /** Lower-cased email */
+  sub: string;
+  /** createdAt of the account the link was sent for; a re-registered account needs a new link */
+  account: string;
+  exp: number;
+}
+
+/** Verification links last a day */
+export const VERIFICATION_TTL_SECONDS = 24 * 60 * 60;
+
+export async function signVerificationToken(email: string, account: string, secret: string): Promise<string> {
+  const claims: VerificationClaims = {
+    sub: email.toLowerCase(),
+    account,
+    exp: Math.floor(Date.now() / 1000) + VERIFICATION_TTL_SECONDS,
+  };
+  return signJwt(claims, `${secret}:verify`, 'verify');
+}
+
+export async function verifyVerificationToken(token: string, secret: string): Promise<VerificationClaims | null> {
+  const claims = await verifyJwt<VerificationClaims>(token, `${secret}:verify`, 'verify');
+  return claims?.sub && claims.account ? claims : null;
+}
+
+// ─── Passwords ───
+
+/** Workers caps PBKDF2 at 100k iterations */
+const PBKDF2_ITERATIONS = 100_000;
+
+export async function hashPassword(password: string, salt?: string): Promise<{ hash: string; salt: string }> {
+  const saltBytes = salt ? fromBase64url(salt) : crypto.getRandomValues(new Uint8Array(16));
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: saltBytes, iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return { hash: base64url(new Uint8Array(bits)), salt: base64url(saltBytes) };
+}
+
+export async function verifyPassword(password: string, hash: string, salt: string): Promise<boolean> {
+  const computed = await hashPassword(password, salt);
+  // Constant-time compare
+  if (computed.hash.length !== hash.length) return false;
+  let diff = 0;
+  for (let i = 0; i < hash.length; i++) diff |= computed.hash.charCodeAt(i) ^ hash.charCodeAt(i);
+  return diff === 0;
+}
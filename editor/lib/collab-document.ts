@@ -0,0 +1,414 @@
+/**
+ * collab-document.ts — Server-owned page document for real-time collaboration
+ *
+ * CollabRoom holds one CollabDocument per page and is the only writer. Clients
+ * send operations tagged with the last sequence number they have seen
+ * (`baseSeq`); the room transforms each operation against everything that was
+ * sequenced after that point, applies it, and broadcasts the result.
+ *
+ * Sections (the `section`, `header` and `footer` children of <main>, or of
+ * <body> when there is no <main>) get stable ids that live alongside the HTML,
+ * so concurrent inserts and moves never retarget an operation. Elements inside
+ * a section are addressed by a selector relative to that section.
+ *
+ * Resolution rules:
+ * - text: character-level OT on the element's text content; concurrent
+ *   inserts at the same offset are ordered by sequence number. Only plain
+ *   text elements take text ops: setting the text of one with inline markup
+ *   (<strong>, <a>, <br>) would flatten it, so those are edited with a
+ *   section replace
+ * - attr, section-replace, section-move of the same section: last writer wins
+ * - anything targeting a section deleted concurrently is dropped
+ */
+
+import { parseHTML, type HTMLElement, type HTMLTemplateElement } from 'linkedom';
+
+// ─── Types ───
+
+export interface NodeRef {
+  /** Section id */
+  section: string;
+  /** Selector relative to the section; omitted targets the section itself */
+  path?: string;
+}
+
+export interface TextOp {
+  type: 'text';
+  target: NodeRef;
+  index: number;
+  delete: number;
+  insert: string;
+}
+
+export interface AttrOp {
+  type: 'attr';
+  target: NodeRef;
+  name: string;
+  /** null removes the attribute */
+  value: string | null;
+}
+
+export interface SectionInsertOp {
+  type: 'section-insert';
+  /** Client-chosen id for the new section */
+  id: string;
+  index: number;
+  html: string;
+}
+
+export interface SectionMoveOp {
+  type: 'section-move';
+  id: string;
+  index: number;
+  /** Position before the move, filled in when applied */
+  from?: number;
+}
+
+export interface SectionDeleteOp {
+  type: 'section-delete';
+  id: string;
+  /** Position before the delete, filled in when applied */
+  from?: number;
+}
+
+export interface SectionReplaceOp {
+  type: 'section-replace';
+  id: string;
+  html: string;
+}
+
+export type CollabOp = TextOp | AttrOp | SectionInsertOp | SectionMoveOp | SectionDeleteOp | SectionReplaceOp;
+
+export interface SequencedOp {
+  seq: number;
+  op: CollabOp;
+  clientId: string;
+  opId: string;
+  user: string;
+  at: string;
+}
+
+/**
+ * What an applied operation did, in terms the editor bridge understands
+ */
+export interface OpResult {
+  /** Absolute selector of the affected element in the current document */
+  selector?: string;
+  /** New text content (text ops) */
+  text?: string;
+  /** Section index after the operation (insert, move) */
+  index?: number;
+  /** Section index before the operation (move, delete) */
+  from?: number;
+  /** Section HTML (insert, replace) */
+  html?: string;
+}
+
+export interface CollabSnapshot {
+  html: string;
+  sections: string[];
+  seq: number;
+}
+
+const SECTION_SELECTOR = ':scope > section, :scope > header, :scope > footer';
+
+export function generateSectionId(): string {
+  return `s-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// ─── Transform ───
+
+function sameTarget(a: NodeRef, b: NodeRef): boolean {
+  return a.section === b.section && (a.path || '') === (b.path || '');
+}
+
+function targetSection(op: CollabOp): string {
+  return op.type === 'text' || op.type === 'attr' ? op.target.section : op.id;
+}
+
+/**
+ * Shift a list position past a concurrent section change
+ */
+function transformIndex(index: number, prior: CollabOp): number {
+  switch (prior.type) {
+    case 'section-insert':
+      return prior.index <= index ? index + 1 : index;
+    case 'section-delete':
+      return prior.from !== undefined && prior.from < index ? index - 1 : index;
+    case 'section-move': {
+      if (prior.from === undefined) return index;
+      let i = prior.from < index ? index - 1 : index;
+      if (prior.index <= i) i++;
+      return i;
+    }
+    default:
+      return index;
+  }
+}
+
+/**
+ * Rebase a text edit over an earlier text edit on the same element.
+ * Returns more than one op when the earlier insert landed inside this
+ * op's deleted range — the inserted text is kept.
+ */
+function transformText(op: TextOp, prior: TextOp): TextOp[] {
+  const pStart = prior.index;
+  const pEnd = prior.index + prior.delete;
+  const inserted = prior.insert.length;
+
+  const throughDelete = (x: number) => (x <= pStart ? x : x >= pEnd ? x - prior.delete : pStart);
+
+  let start = throughDelete(op.index);
+  let end = throughDelete(op.index + op.delete);
+
+  // Earlier inserts at the same offset stay first
+  if (start >= pStart) start += inserted;
+  if (end > pStart) end += inserted;
+
+  if (inserted > 0 && start < pStart && end > pStart + inserted) {
+    return [
+      { ...op, index: pStart + inserted, delete: end - (pStart + inserted), insert: '' },
+      { ...op, index: start, delete: pStart - start },
+    ];
+  }
+
+  return [{ ...op, index: start, delete: Math.max(0, end - start) }];
+}
+
+/**
+ * Transform `op` so it applies after `prior`, which was sequenced first.
+ * An empty result means the op no longer has a target.
+ */
+export function transformOp(op: CollabOp, prior: CollabOp): CollabOp[] {
+  if (prior.type === 'section-delete' && targetSection(op) === prior.id) {
+    return op.type === 'section-insert' ? [op] : [];
+  }
+
+  switch (op.type) {
+    case 'text':
+      if (prior.type === 'text' && sameTarget(op.target, prior.target)) {
+        return transformText(op, prior);
+      }
+      // The section was rewritten wholesale; offsets no longer mean anything
+      if (prior.type === 'section-replace' && prior.id === op.target.section) return [];
+      return [op];
+
+    case 'attr':
+      if (prior.type === 'section-replace' && prior.id === op.target.section) return [];
+      return [op];
+
+    case 'section-insert':
+      return [{ ...op, index: transformIndex(op.index, prior) }];
+
+    case 'section-move':
+      // A later move of the same section wins, so its target index stands
+      if (prior.type === 'section-move' && prior.id === op.id) return [op];
+      return [{ ...op, index: transformIndex(op.index, prior) }];
+
+    case 'section-delete':
+    case 'section-replace':
+      return [op];
+  }
+}
+
+/**
+ * Transform `op` over a run of already-sequenced operations
+ */
+export function transformOver(op: CollabOp, history: CollabOp[]): CollabOp[] {
+  let ops = [op];
+  for (const prior of history) {
+    ops = ops.flatMap(o => transformOp(o, prior));
+    if (ops.length === 0) break;
+  }
+  return ops;
+}
+
+// ─── Document ───
+
+/** The part of linkedom's document used here; the package exports no Document type */
+interface ParsedDocument {
+  body: HTMLElement | null;
+  querySelector(selectors: string): HTMLElement | null;
+  createElement(tagName: string): HTMLElement;
+  toString(): string;
+}
+
+export class CollabDocument {
+  private document: ParsedDocument;
+  private sectionIds: string[];
+  seq: number;
+
+  constructor(snapshot: CollabSnapshot) {
+    this.document = parseHTML(snapshot.html).document;
+    this.seq = snapshot.seq;
+
+    // Keep ids from the snapshot when they still line up with the markup
+    const count = this.sectionElements().length;
+    this.sectionIds = snapshot.sections.length === count
+      ? [...snapshot.sections]
+      : Array.from({ length: count }, () => generateSectionId());
+  }
+
+  static fromHtml(html: string, seq: number = 0): CollabDocument {
+    return new CollabDocument({ html, sections: [], seq });
+  }
+
+  private container(): HTMLElement | null {
+    return this.document.querySelector('main') || this.document.body;
+  }
+
+  private sectionElements(): HTMLElement[] {
+    const container = this.container();
+    return container ? Array.from(container.querySelectorAll(SECTION_SELECTOR)) as HTMLElement[] : [];
+  }
+
+  private sectionElement(id: string): HTMLElement | null {
+    const index = this.sectionIds.indexOf(id);
+    return index >= 0 ? this.sectionElements()[index] || null : null;
+  }
+
+  private resolve(target: NodeRef): HTMLElement | null {
+    const section = this.sectionElement(target.section);
+    if (!section || !target.path) return section;
+    try {
+      return section.querySelector(`:scope > ${target.path}`) || section.querySelector(target.path);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Absolute selector for an element, matching the editor bridge's cssPath format
+   */
+  private selectorFor(el: HTMLElement | null): string {
+    const parts: string[] = [];
+    while (el && el.nodeType === 1) {
+      if (el.id) { parts.unshift(`#${el.id}`); break; }
+      let selector = el.tagName.toLowerCase();
+      const parent = el.parentElement;
+      if (parent) {
+        const tagName = el.tagName;
+        const siblings = (Array.from(parent.children) as HTMLElement[]).filter(c => c.tagName === tagName);
+        if (siblings.length > 1) selector += `:nth-of-type(${siblings.indexOf(el) + 1})`;
+      }
+      parts.unshift(selector);
+      el = parent;
+    }
+    return parts.join(' > ');
+  }
+
+  private fragment(html: string): HTMLElement | null {
+    const template = this.document.createElement('template') as HTMLTemplateElement;
+    template.innerHTML = html.trim();
+    return template.content.firstElementChild || null;
+  }
+
+  get sections(): string[] {
+    return [...this.sectionIds];
+  }
+
+  hasSection(id: string): boolean {
+    return this.sectionIds.includes(id);
+  }
+
+  /**
+   * Apply an already-transformed op. Returns null when the target is gone,
+   * in which case nothing changed.
+   */
+  apply(op: CollabOp): OpResult | null {
+    switch (op.type) {
+      case 'text': {
+        const el = this.resolve(op.target);
+        if (!el || el.children.length > 0) return null;
+        const current: string = el.textContent || '';
+        const index = Math.min(Math.max(0, op.index), current.length);
+        const text = current.slice(0, index) + op.insert + current.slice(index + Math.max(0, op.delete));
+        el.textContent = text;
+        return { selector: this.selectorFor(el), text };
+      }
+
+      case 'attr': {
+        const el = this.resolve(op.target);
+        if (!el) return null;
+        if (op.value === null) el.removeAttribute(op.name);
+        else el.setAttribute(op.name, op.value);
+        return { selector: this.selectorFor(el) };
+      }
+
+      case 'section-insert': {
+        if (this.hasSection(op.id)) return null;
+        const node = this.fragment(op.html);
+        const container = this.container();
+        if (!node || !container) return null;
+
+        const elements = this.sectionElements();
+        const index = Math.min(Math.max(0, op.index), elements.length);
+        const ref = elements[index];
+        if (ref) container.insertBefore(node, ref);
+        else {
+          // Appended sections go above the footer, like the editor does
+          const footer = container.querySelector(':scope > footer');
+          footer ? container.insertBefore(node, footer) : container.appendChild(node);
+        }
+
+        // Re-read positions: the element may not have landed where asked
+        const actual = this.sectionElements().indexOf(node);
+        if (actual < 0) {
+          node.remove();
+          return null;
+        }
+        this.sectionIds.splice(actual, 0, op.id);
+        return { index: actual, html: node.outerHTML };
+      }
+
+      case 'section-move': {
+        const from = this.sectionIds.indexOf(op.id);
+        if (from < 0) return null;
+        const elements = this.sectionElements();
+        const el = elements[from];
+        const to = Math.min(Math.max(0, op.index), elements.length - 1);
+        op.from = from;
+        if (to === from) return { from, index: to };
+
+        const ref = to > from ? elements[to].nextSibling : elements[to];
+        el.parentNode.insertBefore(el, ref);
+        this.sectionIds.splice(from, 1);
+        this.sectionIds.splice(to, 0, op.id);
+        return { from, index: to };
+      }
+
+      case 'section-delete': {
+        const from = this.sectionIds.indexOf(op.id);
+        if (from < 0) return null;
+        const el = this.sectionElements()[from];
+        const selector = this.selectorFor(el);
+        el.remove();
+        this.sectionIds.splice(from, 1);
+        op.from = from;
+        return { from, selector };
+      }
+
+      case 'section-replace': {
+        const el = this.sectionElement(op.id);
+        const node = el && this.fragment(op.html);
+        if (!el || !node) return null;
+        const selector = this.selectorFor(el);
+        el.replaceWith(node);
+        // A replacement that isn't a section any more would desync the id list
+        if (this.sectionElements().length !== this.sectionIds.length) {
+          node.replaceWith(el);
+          return null;
+        }
+        return { selector, html: node.outerHTML };
+      }
+    }
+  }
+
+  toHtml(): string {
+    return this.document.toString();
+  }
+
+  snapshot(): CollabSnapshot {
+    return { html: this.toHtml(), sections: this.sections, seq: this.seq };
+  }
+}
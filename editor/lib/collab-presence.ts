@@ -0,0 +1,62 @@
+/**
+ * collab-presence.ts — Presence and soft locks for CollabRoom
+ *
+ * A lock marks an element (or a whole section) as being edited by one user.
+ * Locks are advisory: the room still accepts operations on a locked target,
+ * but editors show who holds it and a second user cannot take it. Each
+ * connection holds at most one lock, which follows its selection and is
+ * released on disconnect or when the user goes idle.
+ */
+
+import type { NodeRef } from './collab-document';
+
+// ─── Types ───
+
+export interface Lock {
+  target: NodeRef;
+  clientId: string;
+  user: string;
+  color: string;
+  acquiredAt: string;
+}
+
+export interface PresenceUser {
+  clientId: string;
+  name: string;
+  color: string;
+  /** Section id the user is working in, if any */
+  section: string | null;
+  idle: boolean;
+}
+
+/** Site-wide presence: page name → users in that page's room */
+export type SitePresence = Record<string, PresenceUser[]>;
+
+/** No heartbeat for this long closes the connection */
+export const HEARTBEAT_TIMEOUT_MS = 45_000;
+/** No edits, locks or selections for this long marks a user idle */
+export const IDLE_AFTER_MS = 5 * 60_000;
+/** How long a resume token survives a disconnect */
+export const RESUME_TTL_MS = 2 * 60_000;
+
+// ─── Locks ───
+
+/**
+ * Two lock targets overlap when they are the same element, or one of them
+ * is the whole section the other sits in
+ */
+export function locksOverlap(a: NodeRef, b: NodeRef): boolean {
+  if (a.section !== b.section) return false;
+  if (!a.path || !b.path) return true;
+  return a.path === b.path;
+}
+
+/**
+ * The lock held by someone other than `clientId` that blocks `target`, if any
+ */
+export function findConflictingLock(locks: Iterable<Lock>, target: NodeRef, clientId: string): Lock | null {
+  for (const lock of locks) {
+    if (lock.clientId !== clientId && locksOverlap(lock.target, target)) return lock;
+  }
+  return null;
+}
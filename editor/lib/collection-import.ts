@@ -0,0 +1,397 @@
+/**
+ * collection-import.ts — CSV / JSON / Markdown formats for collection items
+ *
+ * Parsing turns every format into records (column → value) with a source
+ * location for error reports; mapping turns a record into item data for a
+ * schema. Serializing writes the same formats back, so an export can be
+ * edited and imported again.
+ *
+ * Besides field columns, records may carry `slug`, `status` and `publishedAt`,
+ * which set the item's own properties. In Markdown files the front matter
+ * holds the columns and the text after it is the `body` column.
+ */
+
+import { coerceValue } from './collection-migrations';
+import { documentToMarkdown } from './richtext';
+import type { CollectionField, CollectionItem, CollectionSchema, ItemStatus } from './collections';
+
+// ─── Types ───
+
+export type ImportFormat = 'csv' | 'json' | 'markdown';
+
+export interface ImportRecord {
+  /** e.g. "row 3" or "posts/hello.md" */
+  source: string;
+  values: Record<string, any>;
+}
+
+export interface MappedRecord {
+  data: Record<string, any>;
+  slug?: string;
+  status?: ItemStatus;
+  publishedAt?: string;
+  errors: Record<string, string>;
+}
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'json', 'markdown'];
+
+/** Columns that set item properties rather than data fields */
+export const ITEM_COLUMNS = ['slug', 'status', 'publishedAt'] as const;
+
+/** The Markdown text after the front matter */
+export const MARKDOWN_BODY_COLUMN = 'body';
+
+const ITEM_STATUSES: ItemStatus[] = ['draft', 'published', 'archived'];
+
+export function inferImportFormat(fileName: string): ImportFormat | null {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'csv') return 'csv';
+  if (ext === 'json') return 'json';
+  if (ext === 'md' || ext === 'markdown') return 'markdown';
+  return null;
+}
+
+// ─── CSV ───
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  text = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines are not records
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+function csvCell(value: any): string {
+  if (value === undefined || value === null) return '';
+  const text = Array.isArray(value)
+    ? value.join(', ')
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: any[][]): string {
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export function csvRecords(text: string): ImportRecord[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map(h => h.trim());
+
+  return rows.map((cells, i) => {
+    const values: Record<string, any> = {};
+    columns.forEach((column, c) => {
+      if (column) values[column] = cells[c] ?? '';
+    });
+    // Row 1 is the header
+    return { source: `row ${i + 2}`, values };
+  });
+}
+
+// ─── JSON ───
+
+export function jsonRecords(text: string): ImportRecord[] {
+  const parsed = JSON.parse(text);
+  // Accept this module's own export shape as well as a bare array
+  const rows = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.items) ? parsed.items : null;
+  if (!rows) throw new Error('Expected a JSON array of objects');
+
+  return rows.map((row: any, i: number) => ({
+    source: `item ${i + 1}`,
+    values: row && typeof row === 'object' && !Array.isArray(row) ? row : {},
+  }));
+}
+
+// ─── Markdown front matter ───
+
+function parseScalar(raw: string): any {
+  const text = raw.trim();
+  if (text === '') return '';
+  if (/^"(.*)"$/.test(text)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+  if (/^'(.*)'$/.test(text)) return text.slice(1, -1).replace(/''/g, "'");
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (text === 'null' || text === '~') return null;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return parseFloat(text);
+  if (text.startsWith('[') && text.endsWith(']')) {
+    const inner = text.slice(1, -1).trim();
+    return inner ? inner.split(',').map(parseScalar) : [];
+  }
+  return text;
+}
+
+/**
+ * `---` delimited front matter with the YAML most tools write for it:
+ * `key: value`, quoted strings, `[a, b]` and `- item` lists
+ */
+export function parseFrontMatter(text: string): { attributes: Record<string, any>; body: string } {
+  const match = text.replace(/^\uFEFF/, '').match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)([\s\S]*)$/);
+  if (!match) return { attributes: {}, body: text };
+
+  const attributes: Record<string, any> = {};
+  let listKey: string | null = null;
+  const blockLists = new Set<string>();
+
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const item = line.match(/^\s+-\s+(.*)$|^-\s+(.*)$/);
+    if (item && listKey) {
+      attributes[listKey].push(parseScalar(item[1] ?? item[2]));
+      continue;
+    }
+
+    const pair = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!pair) continue;
+    if (pair[2].trim() === '') {
+      // A key without a value starts a "- item" list
+      attributes[pair[1]] = [];
+      listKey = pair[1];
+      blockLists.add(pair[1]);
+    } else {
+      attributes[pair[1]] = parseScalar(pair[2]);
+      listKey = null;
+    }
+  }
+
+  // A key without a value that never got items was just empty
+  for (const key of blockLists) {
+    if (attributes[key].length === 0) attributes[key] = '';
+  }
+
+  return { attributes, body: match[2].replace(/^\r?\n/, '') };
+}
+
+function yamlScalar(value: any): string {
+  if (value === null || value === undefined) return '""';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (typeof value === 'object' && !Array.isArray(value)) return JSON.stringify(JSON.stringify(value));
+  const text = String(value);
+  // JSON strings are valid YAML double-quoted strings
+  return /^[\w][\w .\/@+-]*$/.test(text) && !/^(true|false|null|-?\d+(\.\d+)?)$/.test(text)
+    ? text
+    : JSON.stringify(text);
+}
+
+export function toFrontMatterMarkdown(attributes: Record<string, any>, body: string): string {
+  const lines = Object.entries(attributes).map(([key, value]) =>
+    Array.isArray(value) ? `${key}: [${value.map(yamlScalar).join(', ')}]` : `${key}: ${yamlScalar(value)}`
+  );
+  return `---\n${lines.join('\n')}\n---\n\n${body}${body.endsWith('\n') ? '' : '\n'}`;
+}
+
+export function markdownRecord(fileName: string, text: string): ImportRecord {
+  const { attributes, body } = parseFrontMatter(text);
+  return { source: fileName, values: { ...attributes, [MARKDOWN_BODY_COLUMN]: body } };
+}
+
+// ─── Mapping ───
+
+/**
+ * The field a Markdown body goes to: one named body/content, else the first richtext field
+ */
+export function getBodyField(schema: CollectionSchema): CollectionField | undefined {
+  return schema.fields.find(f => f.id === 'body' || f.id === 'content')
+    || schema.fields.find(f => f.type === 'richtext');
+}
+
+/**
+ * Column → field id for the given columns. Explicit `mapping` entries win
+ * (an empty target ignores the column); otherwise a column matches a field
+ * by id or label, case-insensitively.
+ */
+export function mapColumns(
+  columns: string[],
+  schema: CollectionSchema,
+  mapping: Record<string, string> = {}
+): { fields: Record<string, string>; unmapped: string[] } {
+  const fields: Record<string, string> = {};
+  const unmapped: string[] = [];
+  const byName = new Map<string, string>();
+  for (const field of schema.fields) {
+    byName.set(field.label.toLowerCase(), field.id);
+    byName.set(field.id.toLowerCase(), field.id);
+  }
+  const bodyField = getBodyField(schema);
+
+  for (const column of columns) {
+    if (column in mapping) {
+      if (mapping[column]) fields[column] = mapping[column];
+      continue;
+    }
+    if ((ITEM_COLUMNS as readonly string[]).includes(column)) continue;
+
+    const fieldId = byName.get(column.toLowerCase())
+      ?? (column === MARKDOWN_BODY_COLUMN ? bodyField?.id : undefined);
+    if (fieldId) {
+      fields[column] = fieldId;
+    } else {
+      unmapped.push(column);
+    }
+  }
+
+  return { fields, unmapped };
+}
+
+/**
+ * Item data (values converted to each field's type) and item properties of a record
+ */
+export function mapRecord(
+  record: ImportRecord,
+  schema: CollectionSchema,
+  columnFields: Record<string, string>
+): MappedRecord {
+  const fieldsById = new Map(schema.fields.map(f => [f.id, f]));
+  const data: Record<string, any> = {};
+  const errors: Record<string, string> = {};
+
+  for (const [column, fieldId] of Object.entries(columnFields)) {
+    const field = fieldsById.get(fieldId);
+    if (!field || !(column in record.values)) continue;
+
+    const value = record.values[column];
+
+    // Values arrive as text (CSV, front matter) or JSON; convert from whatever they are
+    const from = typeof value === 'number' ? 'number'
+      : typeof value === 'boolean' ? 'boolean'
+      : Array.isArray(value) ? 'multiselect'
+      : 'text';
+    const coerced = from === field.type ? { ok: true as const, value } : coerceValue(value, from, field.type);
+    if (coerced.ok) {
+      data[fieldId] = coerced.value;
+    } else {
+      errors[fieldId] = coerced.error;
+    }
+  }
+
+  const mapped: MappedRecord = { data, errors };
+
+  const slug = record.values.slug;
+  if (typeof slug === 'string' && slug.trim()) mapped.slug = slug.trim();
+
+  const status = record.values.status;
+  if (status !== undefined && status !== '') {
+    if (ITEM_STATUSES.includes(status)) {
+      mapped.status = status;
+    } else {
+      errors.status = `status must be one of: ${ITEM_STATUSES.join(', ')}`;
+    }
+  }
+
+  const publishedAt = record.values.publishedAt;
+  if (publishedAt !== undefined && publishedAt !== '') {
+    if (Number.isNaN(Date.parse(String(publishedAt)))) {
+      errors.publishedAt = 'publishedAt must be a date';
+    } else {
+      mapped.publishedAt = new Date(String(publishedAt)).toISOString();
+    }
+  }
+
+  return mapped;
+}
+
+/**
+ * Defaults for fields a new item's record leaves empty
+ */
+export function applyFieldDefaults(data: Record<string, any>, schema: CollectionSchema): Record<string, any> {
+  const result = { ...data };
+  for (const field of schema.fields) {
+    if (field.defaultValue !== undefined && (result[field.id] === undefined || result[field.id] === '')) {
+      result[field.id] = field.defaultValue;
+    }
+  }
+  return result;
+}
+
+// ─── Export ───
+
+/**
+ * A field value for the text formats: rich text as Markdown
+ */
+function textValue(field: CollectionField, value: any): any {
+  return field.type === 'richtext' && value !== undefined && value !== null ? documentToMarkdown(value) : value;
+}
+
+export function itemsToCsv(items: CollectionItem[], schema: CollectionSchema): string {
+  return toCsv(
+    [...ITEM_COLUMNS, ...schema.fields.map(f => f.id)],
+    items.map(item => [
+      item.slug,
+      item.status,
+      item.publishedAt ?? '',
+      ...schema.fields.map(field => textValue(field, item.data[field.id])),
+    ])
+  );
+}
+
+export function itemsToJson(items: CollectionItem[], schema: CollectionSchema): string {
+  return JSON.stringify(
+    items.map(item => {
+      const row: Record<string, any> = { slug: item.slug, status: item.status };
+      if (item.publishedAt) row.publishedAt = item.publishedAt;
+      for (const field of schema.fields) {
+        if (item.data[field.id] !== undefined) row[field.id] = item.data[field.id];
+      }
+      return row;
+    }),
+    null,
+    2
+  );
+}
+
+/**
+ * One Markdown file per item; the body field becomes the text after the front matter
+ */
+export function itemToMarkdown(item: CollectionItem, schema: CollectionSchema): string {
+  const bodyField = getBodyField(schema);
+  const attributes: Record<string, any> = { slug: item.slug, status: item.status };
+  if (item.publishedAt) attributes.publishedAt = item.publishedAt;
+  for (const field of schema.fields) {
+    if (field.id !== bodyField?.id && item.data[field.id] !== undefined) {
+      attributes[field.id] = textValue(field, item.data[field.id]);
+    }
+  }
+  return toFrontMatterMarkdown(attributes, bodyField ? String(textValue(bodyField, item.data[bodyField.id]) ?? '') : '');
+}
@@ -0,0 +1,322 @@
+/**
+ * collection-list.ts — List and archive pages of a collection
+ *
+ * URLs, all with a trailing slash like getCollectionUrl:
+ *
+ *   /{collection}/                           first page of every item
+ *   /{collection}/page/{n}/                  page n (n >= 2)
+ *   /{collection}/{field}/{value}/           archive: items with that select/multiselect value
+ *   /{collection}/{field}/{value}/page/{n}/
+ *
+ * {value} is the option's slug (generateSlug), so "Web Design" becomes
+ * web-design. A field with the id `page` cannot have archives, since
+ * /{collection}/page/{n}/ is pagination.
+ *
+ * Items are ordered by the collection's sortField/sortOrder and split into
+ * pages of itemsPerPage (functions/api/collection-page.ts renders them).
+ */
+
+import { filterItems, generateSlug, getItemUrl, type CollectionItem } from './collections';
+import { buildJsonLd, serializeJsonLd } from './schema-registry';
+
+// ─── Types ───
+
+/** Loose enough for the renderer's own types (functions/api/collection-page.ts) */
+export interface ListFieldLike {
+  id: string;
+  type: string;
+  label?: string;
+  name?: string;
+  options?: string[];
+  isTitle?: boolean;
+}
+
+export interface ListCollectionLike {
+  slug: string;
+  name: string;
+  description?: string;
+  itemsPerPage?: number;
+  sortField?: string;
+  sortOrder?: 'asc' | 'desc';
+  schema: { fields: ListFieldLike[] };
+}
+
+type ListItemLike = { slug: string; data: Record<string, any>; createdAt: string };
+
+/** A list or archive page, as parsed from its URL */
+export interface ListRoute {
+  collectionSlug: string;
+  archive?: ArchiveRoute;
+  page: number;
+}
+
+export interface ArchiveRoute {
+  field: string;
+  /** Slug of the field value */
+  value: string;
+}
+
+export interface ArchiveValue {
+  value: string;
+  slug: string;
+  count: number;
+}
+
+export interface ListPage<T> {
+  items: T[];
+  page: number;
+  totalPages: number;
+  totalItems: number;
+  /** Position of the page's first item in the whole list, from 0 */
+  offset: number;
+}
+
+export interface ListPagination {
+  page: number;
+  totalPages: number;
+  prevUrl: string;
+  nextUrl: string;
+  pages: { number: number; url: string; current: boolean }[];
+}
+
+// ─── Constants ───
+
+export const DEFAULT_ITEMS_PER_PAGE = 10;
+export const MAX_ITEMS_PER_PAGE = 100;
+
+const ARCHIVE_TYPES = ['select', 'multiselect'];
+
+// ─── URLs ───
+
+/**
+ * URL of a list page: the collection itself, or one of its archives
+ */
+export function getListUrl(collection: Pick<ListCollectionLike, 'slug'>, page: number = 1, archive?: ArchiveRoute): string {
+  let url = `/${collection.slug}/`;
+  if (archive) url += `${archive.field}/${archive.value}/`;
+  if (page > 1) url += `page/${page}/`;
+  return url;
+}
+
+/**
+ * Parse a list or archive URL (relative to the site root); null for any
+ * other path, including /{collection}/{item}/ and /{collection}/page/1/
+ */
+export function parseListPath(pathname: string): ListRoute | null {
+  const parts = pathname.replace(/^\/+|\/+$/g, '').split('/');
+  if (!parts[0]) return null;
+
+  let page = 1;
+  if (parts.length >= 3 && parts[parts.length - 2] === 'page') {
+    const pageParam = parts[parts.length - 1];
+    if (!/^[1-9]\d*$/.test(pageParam) || pageParam === '1') return null;
+    page = parseInt(pageParam, 10);
+    parts.splice(-2);
+  }
+
+  if (parts.length === 1) return { collectionSlug: parts[0], page };
+  if (parts.length === 3 && parts[1] !== 'page') {
+    return { collectionSlug: parts[0], archive: { field: parts[1], value: parts[2] }, page };
+  }
+  return null;
+}
+
+// ─── Archives ───
+
+/**
+ * select and multiselect fields, which get an archive per value
+ */
+export function getArchiveFields<F extends ListFieldLike>(fields: F[]): F[] {
+  return fields.filter(f => ARCHIVE_TYPES.includes(f.type) && f.id !== 'page');
+}
+
+function fieldValues(item: ListItemLike, fieldId: string): string[] {
+  const value = item.data[fieldId];
+  const values = Array.isArray(value) ? value : [value];
+  return values.filter(v => v !== undefined && v !== null && v !== '').map(v => String(v));
+}
+
+/**
+ * Values of an archive field that at least one item has: the field's
+ * options in their order, then any other values in order of appearance
+ */
+export function getArchiveValues(items: ListItemLike[], field: ListFieldLike): ArchiveValue[] {
+  const counts = new Map<string, ArchiveValue>();
+  for (const option of field.options || []) {
+    const slug = generateSlug(option);
+    if (slug && !counts.has(slug)) counts.set(slug, { value: option, slug, count: 0 });
+  }
+
+  for (const item of items) {
+    // An item counts once per archive, even with two values sharing a slug
+    for (const slug of new Set(fieldValues(item, field.id).map(generateSlug))) {
+      if (!slug) continue;
+      const entry = counts.get(slug);
+      if (entry) {
+        entry.count++;
+      } else {
+        const value = fieldValues(item, field.id).find(v => generateSlug(v) === slug)!;
+        counts.set(slug, { value, slug, count: 1 });
+      }
+    }
+  }
+
+  return [...counts.values()].filter(entry => entry.count > 0);
+}
+
+/**
+ * Items in an archive, with the value the archive stands for
+ * (null when the field has no archives or no item has the value)
+ */
+export function filterArchive<T extends ListItemLike>(
+  items: T[],
+  fields: ListFieldLike[],
+  archive: ArchiveRoute
+): { field: ListFieldLike; value: string; items: T[] } | null {
+  const field = getArchiveFields(fields).find(f => f.id === archive.field);
+  if (!field) return null;
+
+  const found = getArchiveValues(items, field).find(entry => entry.slug === archive.value);
+  if (!found) return null;
+
+  return {
+    field,
+    value: found.value,
+    items: items.filter(item => fieldValues(item, field.id).some(v => generateSlug(v) === archive.value)),
+  };
+}
+
+// ─── Pagination ───
+
+export function getItemsPerPage(collection: Pick<ListCollectionLike, 'itemsPerPage'>): number {
+  const perPage = collection.itemsPerPage;
+  return perPage && Number.isInteger(perPage) && perPage > 0
+    ? Math.min(perPage, MAX_ITEMS_PER_PAGE)
+    : DEFAULT_ITEMS_PER_PAGE;
+}
+
+/**
+ * One page of items in the collection's sort order; null past the last
+ * page (the first page exists even when there are no items)
+ */
+export function paginateItems<T extends ListItemLike>(
+  items: T[],
+  collection: ListCollectionLike,
+  page: number
+): ListPage<T> | null {
+  const sorted = filterItems(items as unknown as CollectionItem[], {
+    sortField: collection.sortField,
+    sortOrder: collection.sortOrder,
+  }, { fields: [] }) as unknown as T[];
+
+  const perPage = getItemsPerPage(collection);
+  const totalPages = Math.max(1, Math.ceil(sorted.length / perPage));
+  if (page < 1 || page > totalPages) return null;
+
+  const offset = (page - 1) * perPage;
+  return {
+    items: sorted.slice(offset, offset + perPage),
+    page,
+    totalPages,
+    totalItems: sorted.length,
+    offset,
+  };
+}
+
+/**
+ * Previous/next and numbered page links for a list page
+ */
+export function getListPagination(
+  collection: Pick<ListCollectionLike, 'slug'>,
+  page: number,
+  totalPages: number,
+  archive?: ArchiveRoute
+): ListPagination {
+  const pages = [];
+  for (let n = 1; n <= totalPages; n++) {
+    pages.push({ number: n, url: getListUrl(collection, n, archive), current: n === page });
+  }
+
+  return {
+    page,
+    totalPages,
+    prevUrl: page > 1 ? getListUrl(collection, page - 1, archive) : '',
+    nextUrl: page < totalPages ? getListUrl(collection, page + 1, archive) : '',
+    pages,
+  };
+}
+
+/**
+ * Every list page of a collection: all pages of the full list, then of each archive
+ */
+export function getListRoutes(collection: ListCollectionLike, items: ListItemLike[]): ListRoute[] {
+  const perPage = getItemsPerPage(collection);
+  const routes: ListRoute[] = [];
+  const addPages = (count: number, archive?: ArchiveRoute) => {
+    for (let page = 1; page <= Math.max(1, Math.ceil(count / perPage)); page++) {
+      routes.push({ collectionSlug: collection.slug, archive, page });
+    }
+  };
+
+  addPages(items.length);
+  for (const field of getArchiveFields(collection.schema.fields)) {
+    for (const entry of getArchiveValues(items, field)) {
+      addPages(entry.count, { field: field.id, value: entry.slug });
+    }
+  }
+  return routes;
+}
+
+// ─── Head ───
+
+function itemName(item: ListItemLike, fields: ListFieldLike[]): string {
+  const titleField = fields.find(f => f.isTitle) || fields.find(f => f.id === 'title' || f.id === 'name');
+  const value = titleField ? item.data[titleField.id] : undefined;
+  return value ? String(value) : item.slug;
+}
+
+function absolute(baseUrl: string, path: string): string {
+  return baseUrl ? `${baseUrl.replace(/\/+$/, '')}${path}` : path;
+}
+
+/**
+ * ItemList JSON-LD for one list page; positions continue across pages.
+ * URLs are absolute when `baseUrl` is known.
+ */
+export function buildItemListJsonLd(
+  collection: ListCollectionLike,
+  listPage: ListPage<ListItemLike>,
+  options: { name: string; url: string; baseUrl?: string }
+): object {
+  const baseUrl = options.baseUrl || '';
+  return buildJsonLd('ItemList', {
+    name: options.name,
+    description: collection.description,
+    numberOfItems: listPage.totalItems,
+    itemListElement: listPage.items.map((item, i) => ({
+      '@type': 'ListItem',
+      position: listPage.offset + i + 1,
+      url: absolute(baseUrl, getItemUrl(item, collection)),
+      name: itemName(item, collection.schema.fields),
+    })),
+  }, absolute(baseUrl, options.url));
+}
+
+function escapeAttr(str: string): string {
+  return str.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Add rel=prev/next links and the ItemList JSON-LD to a list page's <head>
+ */
+export function injectListHead(html: string, pagination: ListPagination, jsonLd: object): string {
+  const tags: string[] = [];
+  if (pagination.prevUrl) tags.push(`<link rel="prev" href="${escapeAttr(pagination.prevUrl)}">`);
+  if (pagination.nextUrl) tags.push(`<link rel="next" href="${escapeAttr(pagination.nextUrl)}">`);
+  tags.push(`<script type="application/ld+json">${serializeJsonLd(jsonLd)}</script>`);
+
+  const head = tags.join('\n  ');
+  return /<\/head>/i.test(html)
+    ? html.replace(/<\/head>/i, `  ${head}\n</head>`)
+    : `${head}\n${html}`;
+}
@@ -0,0 +1,215 @@
+/**
+ * collection-migrations.ts — Migrating item data when a collection schema changes
+ *
+ * Comparing the old and new schema (plus any renames the caller declares,
+ * since a rename is indistinguishable from a drop + add) gives a plan of
+ * steps. The plan is applied to each item's data, and the result validated
+ * against the new schema, so failures can be reported per item before
+ * anything is written.
+ */
+
+import {
+  validateItemData,
+  type CollectionField,
+  type CollectionFieldType,
+  type CollectionSchema,
+} from './collections';
+import { isRichTextDocument, markdownToDocument, richTextToPlainText } from './richtext';
+
+// ─── Types ───
+
+export type MigrationStep =
+  | { op: 'rename'; from: string; to: string }
+  | { op: 'coerce'; field: string; from: CollectionFieldType; to: CollectionFieldType }
+  | { op: 'default'; field: string; value: any }
+  | { op: 'drop'; field: string };
+
+export interface MigrationPlan {
+  steps: MigrationStep[];
+  /** Problems that will make items fail, e.g. a new required field without a default */
+  warnings: string[];
+}
+
+export interface ItemMigrationResult {
+  data: Record<string, any>;
+  /** Field id → reason; empty when the item converts cleanly */
+  errors: Record<string, string>;
+  changed: boolean;
+}
+
+// ─── Planning ───
+
+/**
+ * Steps turning data shaped by `oldSchema` into data valid for `newSchema`.
+ * `renames` maps old field ids to new ones.
+ */
+export function planMigration(
+  oldSchema: CollectionSchema,
+  newSchema: CollectionSchema,
+  renames: Record<string, string> = {}
+): MigrationPlan {
+  const steps: MigrationStep[] = [];
+  const warnings: string[] = [];
+  const oldFields = new Map(oldSchema.fields.map(f => [f.id, f]));
+  const newFields = new Map(newSchema.fields.map(f => [f.id, f]));
+
+  // Old field id each new field takes its data from
+  const sources = new Map<string, CollectionField>();
+
+  for (const [from, to] of Object.entries(renames)) {
+    const oldField = oldFields.get(from);
+    if (!oldField) throw new Error(`Cannot rename "${from}": no such field`);
+    if (!newFields.has(to)) throw new Error(`Cannot rename "${from}" to "${to}": "${to}" is not in the new schema`);
+    if (sources.has(to)) throw new Error(`Two fields are renamed to "${to}"`);
+    if (from === to) continue;
+    steps.push({ op: 'rename', from, to });
+    sources.set(to, oldField);
+  }
+
+  for (const field of newSchema.fields) {
+    if (!sources.has(field.id) && oldFields.has(field.id) && !(field.id in renames)) {
+      sources.set(field.id, oldFields.get(field.id)!);
+    }
+  }
+
+  // Fields no new field takes data from
+  const kept = new Set([...sources.values()].map(f => f.id));
+  for (const field of oldSchema.fields) {
+    if (!kept.has(field.id)) steps.push({ op: 'drop', field: field.id });
+  }
+
+  for (const field of newSchema.fields) {
+    const source = sources.get(field.id);
+    if (source && source.type !== field.type) {
+      steps.push({ op: 'coerce', field: field.id, from: source.type, to: field.type });
+    }
+
+    // New fields, and fields that just became required, get the default where empty
+    if (field.defaultValue !== undefined && (!source || (field.required && !source.required))) {
+      steps.push({ op: 'default', field: field.id, value: field.defaultValue });
+    } else if (field.required && (!source || !source.required)) {
+      warnings.push(`"${field.id}" is required but has no defaultValue; items without a value will fail`);
+    }
+  }
+
+  return { steps, warnings };
+}
+
+// ─── Applying ───
+
+function isEmpty(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+const STRING_TYPES: CollectionFieldType[] = ['text', 'textarea', 'url', 'email', 'image', 'file', 'select', 'reference'];
+
+/**
+ * Convert one value between field types
+ */
+export function coerceValue(
+  value: any,
+  from: CollectionFieldType,
+  to: CollectionFieldType
+): { ok: true; value: any } | { ok: false; error: string } {
+  if (isEmpty(value)) return { ok: true, value };
+  const fail = { ok: false as const, error: `Cannot convert ${JSON.stringify(value)} from ${from} to ${to}` };
+
+  // Rich text leaves as its text, without formatting
+  if (isRichTextDocument(value) && to !== 'richtext' && to !== 'json') value = richTextToPlainText(value);
+
+  switch (to) {
+    case 'number': {
+      const num = typeof value === 'number' ? value : parseFloat(String(value).replace(/,/g, ''));
+      return Number.isFinite(num) ? { ok: true, value: num } : fail;
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return { ok: true, value };
+      if (typeof value === 'number') return { ok: true, value: value !== 0 };
+      const text = String(value).trim().toLowerCase();
+      if (['true', 'yes', '1', 'on'].includes(text)) return { ok: true, value: true };
+      if (['false', 'no', '0', 'off'].includes(text)) return { ok: true, value: false };
+      return fail;
+    }
+
+    case 'date':
+    case 'datetime': {
+      const time = Date.parse(String(value));
+      if (Number.isNaN(time)) return fail;
+      const iso = new Date(time).toISOString();
+      return { ok: true, value: to === 'date' ? iso.slice(0, 10) : iso };
+    }
+
+    case 'multiselect':
+    case 'multireference':
+      if (Array.isArray(value)) return { ok: true, value: value.map(String) };
+      // Comma-separated text splits into entries; a single value becomes a list of one
+      return { ok: true, value: typeof value === 'string' ? value.split(',').map(s => s.trim()).filter(Boolean) : [String(value)] };
+
+    case 'richtext':
+      if (isRichTextDocument(value)) return { ok: true, value };
+      // Text is read as Markdown
+      return typeof value === 'object' ? fail : { ok: true, value: markdownToDocument(String(value)) };
+
+    case 'json':
+      if (typeof value !== 'string') return { ok: true, value };
+      try {
+        return { ok: true, value: JSON.parse(value) };
+      } catch {
+        return fail;
+      }
+
+    default:
+      if (!STRING_TYPES.includes(to)) return fail;
+      if (Array.isArray(value)) {
+        // Narrowing a list only works when there is nothing to lose
+        if (value.length > 1) return fail;
+        return { ok: true, value: value.length ? String(value[0]) : '' };
+      }
+      if (typeof value === 'object') return to === 'textarea' ? { ok: true, value: JSON.stringify(value) } : fail;
+      return { ok: true, value: String(value) };
+  }
+}
+
+/**
+ * Apply a plan to one item's data and validate the result
+ */
+export function migrateItemData(
+  data: Record<string, any>,
+  plan: MigrationPlan,
+  newSchema: CollectionSchema
+): ItemMigrationResult {
+  const result = { ...data };
+  const errors: Record<string, string> = {};
+
+  // Renames read the original data so swaps (a → b, b → a) work
+  for (const step of plan.steps) {
+    if (step.op === 'rename' || step.op === 'drop') {
+      delete result[step.op === 'rename' ? step.from : step.field];
+    }
+  }
+  for (const step of plan.steps) {
+    if (step.op === 'rename' && step.from in data) result[step.to] = data[step.from];
+  }
+
+  for (const step of plan.steps) {
+    if (step.op === 'coerce' && step.field in result) {
+      const coerced = coerceValue(result[step.field], step.from, step.to);
+      if (coerced.ok) {
+        result[step.field] = coerced.value;
+      } else {
+        errors[step.field] = coerced.error;
+      }
+    } else if (step.op === 'default' && isEmpty(result[step.field])) {
+      result[step.field] = step.value;
+    }
+  }
+
+  // Coercion errors are more specific than what validation says about the same field
+  const validation = validateItemData(result, newSchema);
+  for (const [field, error] of Object.entries(validation.errors)) {
+    errors[field] ??= error;
+  }
+
+  return { data: result, errors, changed: JSON.stringify(result) !== JSON.stringify(data) };
+}
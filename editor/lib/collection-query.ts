@@ -0,0 +1,287 @@
+/**
+ * collection-query.ts — Index entries and query parsing for collection queries
+ *
+ * Collections are queried through index entries whose paths carry the indexed
+ * value, so that sorting the entries does the work. They are stored in sorted
+ * shards, one per sort order and per token initial (see
+ * functions/lib/collection-index.ts):
+ *
+ *   sorted/{field}/a/{value}/{itemSlug}    ascending order, equality and ranges
+ *   sorted/{field}/d/{value'}z/{itemSlug}  descending order (value' = complement)
+ *   text/{field}/{token}/{itemSlug}        inverted index of searchable fields
+ *
+ * Values are hex-encoded so that byte order matches value order: numbers
+ * through their IEEE 754 bits, everything else as lowercased UTF-8 (only the
+ * first MAX_INDEXED_CHARS characters). Empty values are indexed too, so every
+ * item appears in every sorted index and sorts first ascending, last descending.
+ */
+
+import type { CollectionFieldType, CollectionItem, CollectionSchema } from './collections';
+import { richTextToPlainText } from './richtext';
+
+// ─── Types ───
+
+export type QueryOperator = 'eq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains';
+
+export interface QueryCondition {
+  field: string;
+  op: QueryOperator;
+  /** Several values for 'eq' match any of them */
+  values: string[];
+}
+
+export interface CollectionQuery {
+  where: QueryCondition[];
+  /** Every word must match (as a prefix) in one of the searchable fields */
+  search?: string;
+  sort: string;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: QueryCursor;
+}
+
+export interface QueryCursor {
+  /** Sort field and order the cursor was issued for */
+  s: string;
+  o: 'asc' | 'desc';
+  /** Last shard key ({value}/{itemSlug}) of the previous page */
+  k: string;
+}
+
+export interface IndexedField {
+  id: string;
+  type: CollectionFieldType | 'system';
+  /** Holds several values, so it can be filtered on but not sorted by */
+  multi: boolean;
+  searchable: boolean;
+}
+
+// ─── Constants ───
+
+/** Bump when the key layout or encoding changes; stale indexes are rebuilt */
+export const INDEX_VERSION = 2;
+
+export const DEFAULT_QUERY_LIMIT = 20;
+export const MAX_QUERY_LIMIT = 100;
+
+export const MAX_INDEXED_CHARS = 64;
+export const MAX_TOKENS_PER_FIELD = 300;
+export const MIN_TOKEN_LENGTH = 2;
+
+const SYSTEM_FIELDS = ['status', 'createdAt', 'updatedAt', 'publishedAt'] as const;
+
+const SORTED_TYPES: CollectionFieldType[] = [
+  'text', 'number', 'boolean', 'date', 'datetime', 'url', 'email', 'select', 'reference',
+];
+const MULTI_TYPES: CollectionFieldType[] = ['multiselect', 'multireference'];
+const TEXT_TYPES: CollectionFieldType[] = ['text', 'textarea', 'richtext', 'select', 'multiselect'];
+
+// ─── Fields ───
+
+/**
+ * Fields with index entries: the item's system fields plus every schema
+ * field with a sortable, multi-valued or searchable type
+ */
+export function getIndexedFields(schema: CollectionSchema): IndexedField[] {
+  const fields: IndexedField[] = SYSTEM_FIELDS.map(id => ({ id, type: 'system', multi: false, searchable: false }));
+
+  for (const field of schema.fields) {
+    const sorted = SORTED_TYPES.includes(field.type);
+    const multi = MULTI_TYPES.includes(field.type);
+    const searchable = !!field.searchable && TEXT_TYPES.includes(field.type);
+    if (sorted || multi || searchable) {
+      fields.push({ id: field.id, type: field.type, multi, searchable });
+    }
+  }
+
+  return fields;
+}
+
+function hasSortedIndex(field: IndexedField): boolean {
+  return field.type === 'system' || SORTED_TYPES.includes(field.type) || field.multi;
+}
+
+// ─── Encoding ───
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hex string whose lexical order matches the value's order ('' when empty)
+ */
+export function encodeIndexValue(value: any, type: IndexedField['type']): string {
+  if (value === undefined || value === null || value === '') return '';
+
+  if (type === 'number') {
+    const num = typeof value === 'number' ? value : parseFloat(value);
+    if (!Number.isFinite(num)) return '';
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setFloat64(0, num);
+    // Negative numbers: flip every bit; positive: flip the sign bit
+    if (bytes[0] & 0x80) {
+      for (let i = 0; i < 8; i++) bytes[i] = ~bytes[i] & 0xff;
+    } else {
+      bytes[0] |= 0x80;
+    }
+    return toHex(bytes);
+  }
+
+  if (type === 'boolean') {
+    return toHex(new TextEncoder().encode(value === true || value === 'true' || value === '1' ? 'true' : 'false'));
+  }
+
+  const text = Array.from(String(value).trim().toLowerCase()).slice(0, MAX_INDEXED_CHARS).join('');
+  return toHex(new TextEncoder().encode(text));
+}
+
+/**
+ * Reverse the order of an encoded value; the trailing 'z' sorts shorter
+ * values after longer ones sharing their prefix
+ */
+export function complementIndexValue(encoded: string): string {
+  return encoded.replace(/[0-9a-f]/g, d => (15 - parseInt(d, 16)).toString(16)) + 'z';
+}
+
+/**
+ * Lowercased words of a text (HTML tags stripped), unique, in order of appearance
+ */
+export function tokenize(text: string): string[] {
+  const words = String(text)
+    .replace(/<[^>]*>/g, ' ')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(w => w.length >= MIN_TOKEN_LENGTH);
+  return [...new Set(words)].slice(0, MAX_TOKENS_PER_FIELD);
+}
+
+/**
+ * Key segment for a token; tokens only hold letters and digits, so this
+ * keeps prefixes of words prefixes of their keys
+ */
+export function encodeToken(token: string): string {
+  return encodeURIComponent(token);
+}
+
+/**
+ * Index entry keys of an item, relative to the collection's index prefix
+ */
+export function getItemIndexEntries(item: CollectionItem, schema: CollectionSchema): string[] {
+  const entries: string[] = [];
+
+  for (const field of getIndexedFields(schema)) {
+    const raw = field.type === 'system' ? item[field.id as keyof CollectionItem] : item.data[field.id];
+
+    if (hasSortedIndex(field)) {
+      if (field.multi) {
+        const values = Array.isArray(raw) ? raw : [];
+        for (const value of new Set(values.map(v => encodeIndexValue(v, field.type)))) {
+          if (value) entries.push(`sorted/${field.id}/a/${value}/${item.slug}`);
+        }
+      } else {
+        const value = encodeIndexValue(raw, field.type);
+        entries.push(`sorted/${field.id}/a/${value}/${item.slug}`);
+        entries.push(`sorted/${field.id}/d/${complementIndexValue(value)}/${item.slug}`);
+      }
+    }
+
+    if (field.searchable && raw !== undefined && raw !== null) {
+      const text = field.type === 'richtext' ? richTextToPlainText(raw) : Array.isArray(raw) ? raw.join(' ') : String(raw);
+      for (const token of tokenize(text)) {
+        entries.push(`text/${field.id}/${encodeToken(token)}/${item.slug}`);
+      }
+    }
+  }
+
+  return entries;
+}
+
+// ─── Parsing ───
+
+/**
+ * Cursors are opaque to clients: base64url JSON
+ */
+export function encodeCursor(cursor: QueryCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeCursor(value: string): QueryCursor | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const cursor = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0))));
+    return typeof cursor?.k === 'string' && typeof cursor?.s === 'string' && (cursor.o === 'asc' || cursor.o === 'desc')
+      ? cursor
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a query from URL parameters:
+ *   where.{field}=v            equality (repeat for any-of)
+ *   where.{field}.gt|gte|lt|lte=v   range
+ *   where.{field}.contains=v   words in a searchable field, or a value of a multi field
+ *   search=words  sort={field}  order=asc|desc  limit=n  cursor=...
+ * Throws with a message suitable for a 400 response.
+ */
+export function parseQueryParams(params: URLSearchParams, schema: CollectionSchema): CollectionQuery {
+  const fields = new Map(getIndexedFields(schema).map(f => [f.id, f]));
+  const where: QueryCondition[] = [];
+
+  for (const key of new Set(params.keys())) {
+    if (!key.startsWith('where.')) continue;
+
+    const path = key.slice('where.'.length);
+    const match = path.match(/^(.+?)(?:\.(eq|gt|gte|lt|lte|contains))?$/);
+    const fieldId = match?.[1] || '';
+    const op = (match?.[2] || 'eq') as QueryOperator;
+    const field = fields.get(fieldId);
+    if (!field) throw new Error(`"${fieldId}" is not an indexed field`);
+
+    const values = params.getAll(key);
+    if (op === 'contains') {
+      if (!field.searchable && !field.multi) throw new Error(`"${fieldId}" does not support contains`);
+    } else if (op !== 'eq' && field.multi) {
+      throw new Error(`"${fieldId}" holds several values and only supports equality and contains`);
+    } else if (op !== 'eq' && values.length > 1) {
+      throw new Error(`where.${path} takes a single value`);
+    }
+    if (field.type === 'number' && op !== 'contains' && values.some(v => !Number.isFinite(parseFloat(v)))) {
+      throw new Error(`"${fieldId}" is a number field`);
+    }
+
+    where.push({ field: fieldId, op, values });
+  }
+
+  const sort = params.get('sort') || 'createdAt';
+  const sortField = fields.get(sort);
+  if (!sortField || sortField.multi || !hasSortedIndex(sortField)) {
+    throw new Error(`Cannot sort by "${sort}"`);
+  }
+
+  const order = params.get('order') || 'desc';
+  if (order !== 'asc' && order !== 'desc') throw new Error('order must be asc or desc');
+
+  const limit = params.has('limit') ? parseInt(params.get('limit')!, 10) : DEFAULT_QUERY_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+    throw new Error(`limit must be between 1 and ${MAX_QUERY_LIMIT}`);
+  }
+
+  let cursor: QueryCursor | undefined;
+  if (params.get('cursor')) {
+    const decoded = decodeCursor(params.get('cursor')!);
+    if (!decoded || decoded.s !== sort || decoded.o !== order) {
+      throw new Error('Invalid cursor for this sort order');
+    }
+    cursor = decoded;
+  }
+
+  const search = params.get('search')?.trim() || undefined;
+  if (search && tokenize(search).length === 0) {
+    throw new Error(`Search words need at least ${MIN_TOKEN_LENGTH} characters`);
+  }
+
+  return { where, search, sort, order, limit, cursor };
+}
@@ -0,0 +1,441 @@
+/**
+ * collection-seo.ts — Per-item <head> for collection pages
+ *
+ * A collection names a Schema.org type from SCHEMA_REGISTRY (`schemaType`)
+ * and maps that type's properties to its fields (`schemaMapping`, property →
+ * field path). Properties the collection does not map are matched by field
+ * id and a few common names (title → headline, excerpt → description, ...);
+ * mapping a property to '' leaves it out.
+ *
+ * Field paths may go through resolved references (author.name) or use the
+ * item's own values: _url, _slug, _publishedAt, _updatedAt, _createdAt.
+ *
+ * Every item page gets its title, meta description, canonical and Open Graph
+ * tags; collections with a schemaType also get JSON-LD (buildJsonLd) and
+ * warnings for missing required properties (validateContent).
+ */
+
+import { parseHTML } from 'linkedom';
+import { getItemUrl } from './collections';
+import { isRichTextDocument, richTextToPlainText } from './richtext';
+import {
+  SCHEMA_REGISTRY,
+  buildJsonLd,
+  getSchemaWithInheritance,
+  serializeJsonLd,
+  validateContent,
+  type SchemaProperty,
+} from './schema-registry';
+
+// ─── Types ───
+
+/** Loose enough for both collection types (lib/collections.ts and functions/api/collection-page.ts) */
+export interface SeoFieldLike {
+  id: string;
+  type: string;
+  isTitle?: boolean;
+}
+
+export interface SeoCollectionLike {
+  slug: string;
+  name: string;
+  description?: string;
+  /** Key of SCHEMA_REGISTRY, e.g. BlogPosting */
+  schemaType?: string;
+  /** Schema.org property → field path; '' leaves the property out */
+  schemaMapping?: Record<string, string>;
+  schema: { fields: SeoFieldLike[] };
+}
+
+type SeoItemLike = {
+  slug: string;
+  data: Record<string, any>;
+  publishedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export interface ItemSeoOptions {
+  /** Public site URL; canonical, og:url and JSON-LD URLs are absolute when set */
+  baseUrl?: string;
+  /** Public URL of {site}/assets/, for images referenced through the preview proxy */
+  assetUrl?: string;
+  /** settings.seo.titleSuffix */
+  titleSuffix?: string;
+  /** settings.seo.defaultImage, for og:image when the item has none */
+  defaultImage?: string;
+}
+
+export interface ItemSeo {
+  title: string;
+  description: string;
+  canonical: string;
+  image: string;
+  /** og:type */
+  type: 'website' | 'article' | 'profile' | 'book';
+  publishedTime?: string;
+  modifiedTime?: string;
+  /** Set when the collection has a schemaType */
+  jsonLd?: object;
+  warnings: string[];
+}
+
+// ─── Constants ───
+
+export const SPECIAL_PATHS = ['_url', '_slug', '_publishedAt', '_updatedAt', '_createdAt'];
+
+/** Schema.org types of the COLLECTION_PRESETS, set when a collection is created from one */
+export const PRESET_SCHEMA_TYPES: Record<string, string> = {
+  'blog-posts': 'BlogPosting',
+  'products': 'Product',
+  'team': 'Person',
+  'testimonials': 'Review',
+  'services': 'Service',
+  'events': 'Event',
+  'portfolio': 'CreativeWork',
+};
+
+/** Field ids tried for a property, after the property's own name */
+const PROPERTY_ALIASES: Record<string, string[]> = {
+  name: ['title'],
+  headline: ['title', 'name'],
+  description: ['excerpt', 'shortDescription', 'summary', 'bio'],
+  articleBody: ['content', 'body'],
+  reviewBody: ['quote', 'review', 'content'],
+  image: ['featuredImage', 'photo', 'thumbnail', 'images', 'avatar'],
+  jobTitle: ['role', 'position'],
+  telephone: ['phone'],
+  datePublished: ['publishDate', 'publishedDate', 'date'],
+  reviewRating: ['rating'],
+};
+
+/** Used when no field matches */
+const PROPERTY_FALLBACKS: Record<string, string> = {
+  datePublished: '_publishedAt',
+  dateModified: '_updatedAt',
+};
+
+/** The canonical URL comes from the item, not from a field */
+const UNMAPPED_PROPERTIES = ['url'];
+
+const DESCRIPTION_FIELDS = ['description', 'excerpt', 'shortDescription', 'summary', 'bio'];
+
+const DESCRIPTION_LENGTH = 160;
+
+// ─── Mapping ───
+
+function schemaProperties(schemaType: string): SchemaProperty[] {
+  return getSchemaWithInheritance(schemaType)?.properties || [];
+}
+
+function titleFieldOf(fields: SeoFieldLike[]): SeoFieldLike | undefined {
+  return fields.find(f => f.isTitle) || fields.find(f => f.id === 'title' || f.id === 'name');
+}
+
+/**
+ * Field paths for a schema type's properties, guessed from field ids
+ */
+export function suggestSchemaMapping(schemaType: string, fields: SeoFieldLike[]): Record<string, string> {
+  const byId = new Map(fields.map(f => [f.id.toLowerCase(), f.id]));
+  const titleField = titleFieldOf(fields);
+  const mapping: Record<string, string> = {};
+
+  for (const prop of schemaProperties(schemaType)) {
+    if (UNMAPPED_PROPERTIES.includes(prop.name)) continue;
+
+    const candidates = [prop.name, ...(PROPERTY_ALIASES[prop.name] || [])];
+    let fieldId = candidates.map(c => byId.get(c.toLowerCase())).find(Boolean);
+    if (!fieldId && (prop.name === 'name' || prop.name === 'headline')) fieldId = titleField?.id;
+    if (!fieldId && prop.type === 'image') fieldId = fields.find(f => f.type === 'image')?.id;
+
+    const path = fieldId || PROPERTY_FALLBACKS[prop.name];
+    if (path) mapping[prop.name] = path;
+  }
+
+  return mapping;
+}
+
+/**
+ * The collection's mapping on top of the suggested one
+ */
+export function getSchemaMapping(collection: SeoCollectionLike): Record<string, string> {
+  if (!collection.schemaType) return {};
+  const mapping = { ...suggestSchemaMapping(collection.schemaType, collection.schema.fields), ...collection.schemaMapping };
+  for (const [prop, path] of Object.entries(mapping)) {
+    if (!path) delete mapping[prop];
+  }
+  return mapping;
+}
+
+/**
+ * Check a schemaType and schemaMapping before they are saved; null when valid
+ */
+export function validateSchemaMapping(
+  schemaType: string | undefined,
+  mapping: Record<string, string> | undefined,
+  fields: SeoFieldLike[]
+): string | null {
+  if (!schemaType) return mapping && Object.keys(mapping).length > 0 ? 'schemaMapping needs a schemaType' : null;
+  if (!SCHEMA_REGISTRY[schemaType]) return `Unknown schema type "${schemaType}"`;
+  if (!mapping) return null;
+  if (typeof mapping !== 'object' || Array.isArray(mapping)) return 'schemaMapping must map properties to field paths';
+
+  const properties = new Set(schemaProperties(schemaType).map(p => p.name));
+  const fieldIds = new Set(fields.map(f => f.id));
+  for (const [prop, path] of Object.entries(mapping)) {
+    if (!properties.has(prop)) return `${schemaType} has no property "${prop}"`;
+    if (typeof path !== 'string') return `The mapping for "${prop}" must be a field path`;
+    if (path && !SPECIAL_PATHS.includes(path) && !fieldIds.has(path.split('.')[0])) {
+      return `The mapping for "${prop}" points at an unknown field "${path}"`;
+    }
+  }
+  return null;
+}
+
+// ─── Values ───
+
+/**
+ * ItemSeoOptions from site settings; `assetUrl` defaults to the site's /_asset/ path
+ */
+export function getItemSeoOptions(settings: Record<string, any>, baseUrl?: string, assetUrl?: string): ItemSeoOptions {
+  return {
+    baseUrl,
+    assetUrl: assetUrl ?? (baseUrl ? `${baseUrl.replace(/\/+$/, '')}/_asset/` : undefined),
+    titleSuffix: settings.seo?.titleSuffix || undefined,
+    defaultImage: settings.seo?.defaultImage || undefined,
+  };
+}
+
+function absolute(baseUrl: string | undefined, path: string): string {
+  return baseUrl && path.startsWith('/') && !path.startsWith('//') ? `${baseUrl.replace(/\/+$/, '')}${path}` : path;
+}
+
+/**
+ * A public URL for a stored value: images uploaded through the editor are
+ * referenced as /preview/{site}/_asset/..., which only the editor serves
+ */
+function publicUrl(value: string, options: ItemSeoOptions): string {
+  const asset = value.match(/^\/preview\/[^/]+\/_asset\/(.+)$/);
+  if (asset && options.assetUrl) return `${options.assetUrl.replace(/\/+$/, '')}/${asset[1]}`;
+  return absolute(options.baseUrl, value);
+}
+
+function readPath(item: SeoItemLike, collection: SeoCollectionLike, path: string, options: ItemSeoOptions): any {
+  switch (path) {
+    case '_url': return absolute(options.baseUrl, getItemUrl(item, collection));
+    case '_slug': return item.slug;
+    case '_publishedAt': return item.publishedAt;
+    case '_updatedAt': return item.updatedAt;
+    case '_createdAt': return item.createdAt;
+  }
+
+  let value: any = item.data;
+  for (const key of path.split('.')) {
+    if (value === null || value === undefined) return undefined;
+    // An unresolved reference is still a value, e.g. for required checks in the editor
+    if (typeof value !== 'object') return value;
+    value = value[key];
+  }
+  return value;
+}
+
+function toText(value: any): any {
+  if (isRichTextDocument(value)) return richTextToPlainText(value).replace(/\s+/g, ' ').trim();
+  // A resolved reference stands for its title
+  if (value && typeof value === 'object' && !Array.isArray(value) && '_title' in value) return String(value._title);
+  return value;
+}
+
+function toPropertyValue(value: any, prop: SchemaProperty, options: ItemSeoOptions): any {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (Array.isArray(value)) {
+    const values = value.map(v => toPropertyValue(v, prop, options)).filter(v => v !== undefined);
+    if (values.length === 0) return undefined;
+    // Single images and dates are more useful than lists of one
+    return values.length === 1 || prop.type === 'image' || prop.type === 'date' ? values[0] : values;
+  }
+
+  const text = toText(value);
+  switch (prop.type) {
+    case 'number':
+    case 'currency':
+    case 'rating': {
+      const num = typeof text === 'number' ? text : parseFloat(String(text));
+      return Number.isFinite(num) ? num : String(text);
+    }
+    case 'date': {
+      const time = Date.parse(String(text));
+      return Number.isNaN(time) ? String(text) : new Date(time).toISOString();
+    }
+    case 'url':
+    case 'image':
+      return publicUrl(String(text), options);
+    case 'boolean':
+      return typeof text === 'boolean' ? text : String(text);
+    default:
+      return typeof text === 'object' ? JSON.stringify(text) : String(text);
+  }
+}
+
+/**
+ * Schema.org property values of an item, per the collection's mapping
+ */
+export function getSchemaContent(
+  item: SeoItemLike,
+  collection: SeoCollectionLike,
+  options: ItemSeoOptions = {}
+): Record<string, any> {
+  if (!collection.schemaType) return {};
+  const properties = new Map(schemaProperties(collection.schemaType).map(p => [p.name, p]));
+  const content: Record<string, any> = {};
+
+  const mapped = collection.schemaMapping || {};
+
+  for (const [name, path] of Object.entries(getSchemaMapping(collection))) {
+    const prop = properties.get(name);
+    if (!prop) continue;
+    let value = toPropertyValue(readPath(item, collection, path, options), prop, options);
+    // A guessed field that is empty falls back to the item's own value (publishDate → _publishedAt)
+    if (value === undefined && !(name in mapped) && PROPERTY_FALLBACKS[name]) {
+      value = toPropertyValue(readPath(item, collection, PROPERTY_FALLBACKS[name], options), prop, options);
+    }
+    if (value !== undefined) content[name] = value;
+  }
+  return content;
+}
+
+/**
+ * Missing required properties of an item's JSON-LD, for the item editor
+ */
+export function getItemSeoWarnings(item: SeoItemLike, collection: SeoCollectionLike): string[] {
+  if (!collection.schemaType) return [];
+  return validateContent(collection.schemaType, getSchemaContent(item, collection)).errors;
+}
+
+function truncate(text: string, length: number): string {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length - 1);
+  const space = cut.lastIndexOf(' ');
+  return `${space > length / 2 ? cut.slice(0, space) : cut}…`;
+}
+
+function ogType(schemaType: string | undefined): ItemSeo['type'] {
+  let type = schemaType;
+  while (type && SCHEMA_REGISTRY[type]) {
+    if (type === 'Article') return 'article';
+    if (type === 'Person') return 'profile';
+    if (type === 'Book') return 'book';
+    type = SCHEMA_REGISTRY[type].parent;
+  }
+  return 'website';
+}
+
+/**
+ * Title, description, canonical, Open Graph values and JSON-LD of an item page
+ */
+export function buildItemSeo(item: SeoItemLike, collection: SeoCollectionLike, options: ItemSeoOptions = {}): ItemSeo {
+  const content = getSchemaContent(item, collection, options);
+  const fields = collection.schema.fields;
+  const fieldText = (id: string | undefined) => {
+    const value = id ? toText(item.data[id]) : undefined;
+    return value === undefined || value === null || typeof value === 'object' ? '' : String(value).trim();
+  };
+
+  const title = String(content.headline || content.name || '') || fieldText(titleFieldOf(fields)?.id) || item.slug;
+
+  const descriptionField = fields.find(f => DESCRIPTION_FIELDS.includes(f.id) && fieldText(f.id))
+    || fields.find(f => f.type === 'richtext' && fieldText(f.id));
+  const description = String(content.description || '') || fieldText(descriptionField?.id) || collection.description || '';
+
+  const imageField = fields.find(f => f.type === 'image' && item.data[f.id]);
+  const image = content.image
+    || (imageField ? toPropertyValue(item.data[imageField.id], { name: 'image', type: 'image' }, options) : '')
+    || (options.defaultImage ? publicUrl(options.defaultImage, options) : '');
+
+  const canonical = absolute(options.baseUrl, getItemUrl(item, collection));
+  const type = ogType(collection.schemaType);
+
+  return {
+    title: `${title}${options.titleSuffix || ''}`,
+    description: truncate(description.replace(/\s+/g, ' ').trim(), DESCRIPTION_LENGTH),
+    canonical,
+    image: String(image || ''),
+    type,
+    publishedTime: type === 'article' ? item.publishedAt : undefined,
+    modifiedTime: type === 'article' ? item.updatedAt : undefined,
+    jsonLd: collection.schemaType ? buildJsonLd(collection.schemaType, content, canonical) : undefined,
+    warnings: collection.schemaType ? validateContent(collection.schemaType, content).errors : [],
+  };
+}
+
+// ─── Head ───
+
+function escapeHtml(str: string): string {
+  return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Write an item's SEO tags into the page <head>, replacing any the template
+ * already has (JSON-LD of other types is kept)
+ */
+export function injectItemHead(html: string, seo: ItemSeo): string {
+  const { document } = parseHTML(html);
+  const head = document.querySelector('head');
+  if (!head) return html;
+
+  const setTag = (selector: string, create: () => Element, attr: string, value: string | undefined) => {
+    // Without a value the template's tag, if any, stays
+    if (!value) return;
+    let el = document.querySelector(selector);
+    if (!el) {
+      el = create();
+      head.appendChild(el);
+    }
+    el.setAttribute(attr, value);
+  };
+  const meta = (key: 'name' | 'property', name: string, value: string | undefined) =>
+    setTag(`meta[${key}="${name}"]`, () => {
+      const el = document.createElement('meta');
+      el.setAttribute(key, name);
+      return el;
+    }, 'content', value);
+
+  let titleEl = document.querySelector('title');
+  if (!titleEl) {
+    titleEl = document.createElement('title');
+    head.appendChild(titleEl);
+  }
+  // linkedom writes title text as is, and "</title>" in it would end the element
+  titleEl.textContent = escapeHtml(seo.title);
+
+  meta('name', 'description', seo.description);
+  setTag('link[rel="canonical"]', () => {
+    const el = document.createElement('link');
+    el.setAttribute('rel', 'canonical');
+    return el;
+  }, 'href', seo.canonical);
+
+  meta('property', 'og:title', seo.title);
+  meta('property', 'og:description', seo.description);
+  meta('property', 'og:url', seo.canonical);
+  meta('property', 'og:type', seo.type);
+  meta('property', 'og:image', seo.image);
+  meta('property', 'article:published_time', seo.publishedTime);
+  meta('property', 'article:modified_time', seo.modifiedTime);
+  meta('name', 'twitter:card', seo.image ? 'summary_large_image' : 'summary');
+
+  if (seo.jsonLd) {
+    const type = (seo.jsonLd as Record<string, any>)['@type'];
+    for (const script of document.querySelectorAll('script[type="application/ld+json"]')) {
+      try {
+        if (JSON.parse(script.textContent || '')['@type'] === type) script.remove();
+      } catch { /* not ours to fix */ }
+    }
+    const script = document.createElement('script');
+    script.setAttribute('type', 'application/ld+json');
+    script.textContent = serializeJsonLd(seo.jsonLd);
+    head.appendChild(script);
+  }
+
+  return document.toString();
+}
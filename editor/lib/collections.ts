@@ -5,6 +5,8 @@
  * with defined schemas that can be used in templates with {{collection.fieldName}} syntax.
  */
 
+import { isRichTextEmpty, renderRichText, richTextToPlainText, validateRichTextDocument } from './richtext';
+
 export type CollectionFieldType =
   | 'text'
   | 'textarea'
@@ -20,10 +22,17 @@ export type CollectionFieldType =
   | 'select'
   | 'multiselect'
   | 'reference'
+  | 'multireference'
   | 'json';
 
 export type ItemStatus = 'draft' | 'published' | 'archived';
 
+/**
+ * What happens to items that reference an item being deleted:
+ * 'restrict' refuses the delete, 'cascade' deletes the referencing items too
+ */
+export type ReferenceDeletePolicy = 'restrict' | 'cascade';
+
 /**
  * Collection field definition
  */
@@ -38,7 +47,8 @@ export interface CollectionField {
 
   // Type-specific options
   options?: string[]; // For select/multiselect
-  referenceCollection?: string; // For reference type
+  referenceCollection?: string; // For reference/multireference type (collection slug)
+  onDelete?: ReferenceDeletePolicy; // For reference/multireference type, defaults to 'restrict'
   minLength?: number; // For text/textarea
   maxLength?: number; // For text/textarea
   min?: number; // For number
@@ -73,6 +83,8 @@ export interface Collection {
   itemsPerPage?: number;
   sortField?: string;
   sortOrder?: 'asc' | 'desc';
+  schemaType?: string; // Schema.org type for item pages (key of SCHEMA_REGISTRY)
+  schemaMapping?: Record<string, string>; // Schema.org property → field path (see lib/collection-seo.ts)
   createdAt: string;
   updatedAt: string;
 }
@@ -86,7 +98,10 @@ export interface CollectionItem {
   slug: string;
   data: Record<string, any>;
   status: ItemStatus;
+  /** A future date keeps the item a draft until the scheduler publishes it */
   publishedAt?: string;
+  /** When set, the scheduler archives the item at this time */
+  expiresAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -256,7 +271,8 @@ export function validateItemData(
     const value = data[field.id];
 
     // Required validation
-    if (field.required && (value === undefined || value === null || value === '')) {
+    if (field.required && (value === undefined || value === null || value === ''
+      || (field.type === 'richtext' && isRichTextEmpty(value)))) {
       errors[field.id] = `${field.label} is required`;
       continue;
     }
@@ -303,6 +319,31 @@ export function validateItemData(
           errors[field.id] = `Must be no more than ${field.maxLength} characters`;
         }
         break;
+
+      // Rich text is stored as a document (lib/richtext.ts); Markdown strings
+      // are converted before validation
+      case 'richtext':
+        if (typeof value !== 'string') {
+          const error = validateRichTextDocument(value);
+          if (error) errors[field.id] = error;
+        }
+        break;
+
+      // References hold item slugs; whether they exist is checked against R2
+      // (functions/lib/collection-references.ts)
+      case 'reference':
+        if (typeof value !== 'string') {
+          errors[field.id] = 'Must be an item slug';
+        }
+        break;
+
+      case 'multireference':
+        if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+          errors[field.id] = 'Must be a list of item slugs';
+        } else if (field.required && value.length === 0) {
+          errors[field.id] = `${field.label} is required`;
+        }
+        break;
     }
   }
 
@@ -331,7 +372,8 @@ export function getItemTitle(item: CollectionItem, schema: CollectionSchema): st
 export function replaceCollectionVariables(
   template: string,
   item: CollectionItem,
-  collection: Collection
+  collection: Collection,
+  allowedTags?: Set<string>
 ): string {
   return template.replace(/\{\{collection\.([^}]+)\}\}/g, (match, fieldPath) => {
     const parts = fieldPath.trim().split('.');
@@ -344,10 +386,10 @@ export function replaceCollectionVariables(
 
     if (value === undefined || value === null) return '';
 
-    // Special handling for rich text (don't escape HTML)
+    // Rich text renders as sanitized HTML
     const field = collection.schema.fields.find(f => f.id === parts[0]);
-    if (field?.type === 'richtext') {
-      return String(value);
+    if (parts.length === 1 && field?.type === 'richtext') {
+      return renderRichText(value, allowedTags);
     }
 
     // Escape HTML for other fields
@@ -372,19 +414,117 @@ function escapeHtml(text: string): string {
 /**
  * Generate collection item URL
  */
-export function getItemUrl(item: CollectionItem, collection: Collection): string {
+export function getItemUrl(item: Pick<CollectionItem, 'slug'>, collection: Pick<Collection, 'slug'>): string {
   return `/${collection.slug}/${item.slug}/`;
 }
 
 /**
  * Generate collection list URL
  */
-export function getCollectionUrl(collection: Collection): string {
+export function getCollectionUrl(collection: Pick<Collection, 'slug'>): string {
   return `/${collection.slug}/`;
 }
 
+// ─── References ───
+
+/**
+ * A referenced item as it appears in its referrer's data once resolved:
+ * the item's own fields plus a few underscore-prefixed extras, so templates
+ * can use {{author.name}} or {{author._url}}
+ */
+export interface ResolvedReference {
+  _id: number;
+  _slug: string;
+  _collection: string;
+  _title: string;
+  _url: string;
+  [fieldId: string]: any;
+}
+
+/**
+ * Returns the referenced item with its collection, or undefined when it
+ * does not exist (or should not be visible, e.g. unpublished on the live site)
+ */
+export type ReferenceLookup = (
+  collectionSlug: string,
+  itemSlug: string
+) => { item: CollectionItem; collection: Collection } | undefined;
+
+/** Loose enough for the renderer's own field type (functions/api/collection-page.ts) */
+type ReferenceFieldLike = { id: string; type: string; referenceCollection?: string };
+
+/**
+ * reference and multireference fields that name a target collection
+ */
+export function getReferenceFields<F extends ReferenceFieldLike>(fields: F[]): F[] {
+  return fields.filter(f => (f.type === 'reference' || f.type === 'multireference') && !!f.referenceCollection);
+}
+
+/**
+ * Item slugs held by a reference field value (one for reference, any number for multireference)
+ */
+export function getReferencedSlugs(value: any): string[] {
+  if (Array.isArray(value)) return value.filter(v => typeof v === 'string' && v);
+  return typeof value === 'string' && value ? [value] : [];
+}
+
+/**
+ * Replace reference slugs in item data with the referenced items.
+ * A missing single reference becomes null; missing entries are dropped from
+ * multi-references. Only one level deep, so reference cycles cannot loop.
+ */
+export function resolveItemReferences<T extends { data: Record<string, any> }>(
+  item: T,
+  fields: ReferenceFieldLike[],
+  lookup: ReferenceLookup
+): T {
+  const referenceFields = getReferenceFields(fields);
+  if (referenceFields.length === 0) return item;
+
+  const data = { ...item.data };
+  for (const field of referenceFields) {
+    if (!(field.id in data)) continue;
+
+    const resolved: ResolvedReference[] = [];
+    for (const slug of getReferencedSlugs(data[field.id])) {
+      const found = lookup(field.referenceCollection!, slug);
+      if (!found) continue;
+      resolved.push({
+        ...found.item.data,
+        _id: found.item.id,
+        _slug: found.item.slug,
+        _collection: found.collection.slug,
+        _title: getItemTitle(found.item, found.collection.schema),
+        _url: getItemUrl(found.item, found.collection),
+      });
+    }
+
+    data[field.id] = field.type === 'multireference' ? resolved : resolved[0] ?? null;
+  }
+
+  return { ...item, data };
+}
+
+/**
+ * Values at a dotted path in item data. Arrays (multi-references,
+ * multiselects) are flattened, so 'tags.name' yields every tag's name.
+ */
+function getPathValues(data: Record<string, any>, path: string): any[] {
+  let values: any[] = [data];
+  for (const key of path.split('.')) {
+    values = values
+      .flatMap(v => (v && typeof v === 'object' && !Array.isArray(v) ? [v[key]] : []))
+      .flatMap(v => (Array.isArray(v) ? v : [v]));
+  }
+  return values.filter(v => v !== undefined && v !== null);
+}
+
 /**
  * Filter and sort collection items
+ *
+ * Filter keys may be dotted paths into resolved references
+ * (e.g. { 'author.name': 'Ada' }); an item matches when any value at the
+ * path equals the filter value (or one of them, when it is an array).
  */
 export function filterItems(
   items: CollectionItem[],
@@ -414,21 +554,22 @@ export function filterItems(
     filtered = filtered.filter(item =>
       searchableFields.some(field => {
         const value = item.data[field.id];
-        return value && String(value).toLowerCase().includes(searchLower);
+        const text = field.type === 'richtext' ? richTextToPlainText(value) : value && String(value);
+        return text && text.toLowerCase().includes(searchLower);
       })
     );
   }
 
   // Custom filters
   if (options.filters) {
-    for (const [fieldId, filterValue] of Object.entries(options.filters)) {
+    for (const [fieldPath, filterValue] of Object.entries(options.filters)) {
       if (filterValue !== undefined && filterValue !== null && filterValue !== '') {
         filtered = filtered.filter(item => {
-          const value = item.data[fieldId];
+          const values = getPathValues(item.data, fieldPath);
           if (Array.isArray(filterValue)) {
-            return filterValue.includes(value);
+            return values.some(value => filterValue.includes(value));
           }
-          return value === filterValue;
+          return values.includes(filterValue);
         });
       }
     }
@@ -440,10 +581,10 @@ export function filterItems(
   filtered.sort((a, b) => {
     let aVal = sortField === 'createdAt' || sortField === 'updatedAt' || sortField === 'publishedAt'
       ? a[sortField as keyof CollectionItem]
-      : a.data[sortField];
+      : getPathValues(a.data, sortField)[0];
     let bVal = sortField === 'createdAt' || sortField === 'updatedAt' || sortField === 'publishedAt'
       ? b[sortField as keyof CollectionItem]
-      : b.data[sortField];
+      : getPathValues(b.data, sortField)[0];
 
     if (aVal === undefined) aVal = '';
     if (bVal === undefined) bVal = '';
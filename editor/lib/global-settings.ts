@@ -5,6 +5,8 @@
  * business info, analytics, SEO defaults, and branding.
  */
 
+import { DEFAULT_RICH_TEXT_TAGS } from './richtext';
+
 export type SettingFieldType =
   | 'text'
   | 'email'
@@ -179,6 +181,12 @@ export const GLOBAL_SETTINGS_SCHEMA: Record<string, SettingsCategory> = {
     description: 'Default values for SEO meta tags',
     icon: 'search',
     fields: {
+      siteUrl: {
+        type: 'url',
+        label: 'Site URL',
+        placeholder: 'https://www.example.com',
+        description: 'Public address of the site, used for sitemap.xml and robots.txt',
+      },
       defaultTitle: {
         type: 'text',
         label: 'Default Page Title',
@@ -331,6 +339,97 @@ export const GLOBAL_SETTINGS_SCHEMA: Record<string, SettingsCategory> = {
     },
   },
 
+  publishing: {
+    label: 'Publishing',
+    description: 'Quality checks that run before a deploy goes live',
+    icon: 'rocket-takeoff',
+    fields: {
+      qualityGate: {
+        type: 'boolean',
+        label: 'Block Low-Quality Deploys',
+        description: 'Audit every page before deploying and stop if any page falls below the thresholds',
+        defaultValue: true,
+      },
+      minPageScore: {
+        type: 'number',
+        label: 'Minimum Page Score',
+        description: 'Lowest page audit score (0-100) allowed to go live',
+        defaultValue: 50,
+      },
+      minSeoScore: {
+        type: 'number',
+        label: 'Minimum SEO Analysis Score',
+        description: 'Lowest detailed SEO analysis score (0-100) allowed to go live',
+        defaultValue: 40,
+      },
+      blockOnCritical: {
+        type: 'boolean',
+        label: 'Block on Critical Issues',
+        description: 'Critical findings (e.g. missing title or H1) block a deploy regardless of score',
+        defaultValue: true,
+      },
+      notFoundPage: {
+        type: 'text',
+        label: '404 Page',
+        placeholder: '404',
+        description: 'Page slug served when a live URL does not exist',
+        defaultValue: '404',
+      },
+    },
+  },
+
+  audit: {
+    label: 'Audit Rules',
+    description: 'Your own page audit rules, scored alongside the built-in ones (see lib/audit-rules.ts)',
+    icon: 'clipboard-check',
+    fields: {
+      builtInRules: {
+        type: 'object',
+        label: 'Built-in Rules',
+        description: 'Rule id → new weight, or false to turn the rule off (e.g. { "hasFAQ": false, "wordCount": 25 })',
+        defaultValue: {},
+      },
+      rules: {
+        type: 'array',
+        label: 'Custom Rules',
+        itemType: 'object',
+        itemFields: {
+          id: { type: 'text', label: 'Rule ID', required: true, placeholder: 'footerPhone' },
+          label: { type: 'text', label: 'Label', required: true, placeholder: 'Phone number in footer' },
+          type: {
+            type: 'select',
+            label: 'Type',
+            options: ['selector', 'text', 'attribute', 'count'],
+          },
+          weight: { type: 'number', label: 'Weight', defaultValue: 10 },
+          selector: { type: 'text', label: 'CSS Selector', placeholder: "footer a[href^='tel:']" },
+          pattern: { type: 'text', label: 'Pattern', description: 'Regular expression for text and attribute rules' },
+          flags: { type: 'text', label: 'Pattern Flags', placeholder: 'i' },
+          attribute: { type: 'text', label: 'Attribute', description: 'For attribute rules' },
+          forbid: { type: 'boolean', label: 'Forbid', description: 'Fail when the selector, text or attribute is found' },
+          min: { type: 'number', label: 'Minimum Count' },
+          max: { type: 'number', label: 'Maximum Count' },
+          pageTypes: { type: 'array', label: 'Page Types', itemType: 'text', description: 'Only audit these page types' },
+        },
+      },
+    },
+  },
+
+  content: {
+    label: 'Content',
+    description: 'How collection content renders on your pages',
+    icon: 'text-paragraph',
+    fields: {
+      richTextTags: {
+        type: 'text',
+        label: 'Allowed Rich Text Tags',
+        description: 'Comma-separated HTML tags rich text fields may use; others render as paragraphs or plain text',
+        placeholder: 'p, h2, h3, ul, ol, li, a, strong, em',
+        defaultValue: DEFAULT_RICH_TEXT_TAGS.join(', '),
+      },
+    },
+  },
+
   legal: {
     label: 'Legal Pages',
     description: 'Links to legal documents',
@@ -545,3 +644,56 @@ fbq('track', 'PageView');
     body: bodyScripts.join('\n'),
   };
 }
+
+/**
+ * Inject branding CSS, analytics scripts and favicon into page HTML.
+ * `brandingCssUrl` differs between preview and live serving.
+ */
+export function injectSettingsIntoHtml(
+  html: string,
+  settings: Record<string, any>,
+  brandingCssUrl: string
+): string {
+  let injectedHtml = html;
+
+  // Inject branding CSS link if exists
+  if (settings.branding) {
+    const cssLink = `<link rel="stylesheet" href="${brandingCssUrl}">`;
+    injectedHtml = injectedHtml.replace('</head>', `${cssLink}\n</head>`);
+  }
+
+  // Inject analytics
+  if (settings.analytics) {
+    const scripts = generateAnalyticsScripts(settings.analytics);
+
+    if (scripts.head) {
+      injectedHtml = injectedHtml.replace('</head>', `${scripts.head}\n</head>`);
+    }
+
+    if (scripts.body) {
+      // Split body scripts into start and end
+      const bodyStartMatch = settings.analytics.customScripts?.bodyStart;
+      const gtmNoScript = scripts.body.includes('noscript') ? scripts.body : '';
+
+      if (bodyStartMatch || gtmNoScript) {
+        injectedHtml = injectedHtml.replace(/<body[^>]*>/i, (tag) => `${tag}\n${gtmNoScript || ''}`);
+      }
+
+      // Body end scripts (before </body>)
+      const bodyEndScripts = settings.analytics.customScripts?.bodyEnd;
+      if (bodyEndScripts) {
+        injectedHtml = injectedHtml.replace('</body>', `${bodyEndScripts}\n</body>`);
+      }
+    }
+  }
+
+  // Inject favicon if set
+  if (settings.seo?.favicon) {
+    const faviconLink = `<link rel="icon" href="${settings.seo.favicon}">`;
+    if (!injectedHtml.includes('rel="icon"')) {
+      injectedHtml = injectedHtml.replace('</head>', `${faviconLink}\n</head>`);
+    }
+  }
+
+  return injectedHtml;
+}
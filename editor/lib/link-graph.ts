@@ -0,0 +1,201 @@
+/**
+ * link-graph.ts — Internal links between a site's pages
+ *
+ * Pure helpers over page HTML: the internal links each page makes, and the
+ * link and orphan reports built from them. /api/analytics builds them from
+ * the drafts on request; the site audit (functions/lib/site-audit.ts) reuses
+ * the orphan check.
+ */
+
+import { parseHTML } from 'linkedom';
+
+/** Title and upload time of a page, keyed by slug */
+export type PageInfoMap = Map<string, { title: string; lastModified: string }>;
+
+export interface PageLink {
+  sourcePageSlug: string;
+  targetPageSlug: string;
+  linkText: string;
+  href: string;
+}
+
+export interface LinkReport {
+  totalPages: number;
+  totalLinks: number;
+  pages: {
+    slug: string;
+    incomingLinks: number;
+    outgoingLinks: number;
+  }[];
+}
+
+export interface OrphanReport {
+  orphanPages: {
+    slug: string;
+    title: string;
+    lastModified: string;
+  }[];
+  totalPages: number;
+}
+
+/**
+ * Extract internal links from HTML
+ */
+export function extractInternalLinks(html: string, currentPageSlug: string): PageLink[] {
+  const { document } = parseHTML(html);
+  const links: PageLink[] = [];
+  const anchors = document.querySelectorAll('a[href]');
+
+  for (const anchor of anchors) {
+    const href = anchor.getAttribute('href') || '';
+    const text = anchor.textContent?.trim() || '';
+
+    // Skip external links, anchors, mailto, tel
+    if (
+      href.startsWith('http://') ||
+      href.startsWith('https://') ||
+      href.startsWith('#') ||
+      href.startsWith('mailto:') ||
+      href.startsWith('tel:') ||
+      href.startsWith('javascript:')
+    ) {
+      continue;
+    }
+
+    // Normalize the href to get target page slug
+    let targetSlug = href
+      .replace(/^\//, '') // Remove leading slash
+      .replace(/\.html$/, '') // Remove .html extension
+      .replace(/\/$/, '') // Remove trailing slash
+      .split('?')[0] // Remove query string
+      .split('#')[0]; // Remove hash
+
+    // Handle root/index
+    if (!targetSlug || targetSlug === '/') {
+      targetSlug = 'index';
+    }
+
+    // Skip self-links
+    if (targetSlug === currentPageSlug) {
+      continue;
+    }
+
+    links.push({
+      sourcePageSlug: currentPageSlug,
+      targetPageSlug: targetSlug,
+      linkText: text.substring(0, 100), // Truncate long text
+      href,
+    });
+  }
+
+  return links;
+}
+
+/**
+ * Extract page title from HTML
+ */
+export function extractTitle(html: string): string {
+  const { document } = parseHTML(html);
+  return document.querySelector('title')?.textContent?.trim() || 'Untitled';
+}
+
+/**
+ * Generate link report
+ */
+export function generateLinkReport(
+  links: PageLink[],
+  pages: PageInfoMap
+): LinkReport {
+  const incomingCount = new Map<string, number>();
+  const outgoingCount = new Map<string, number>();
+
+  // Initialize all pages with 0
+  for (const slug of pages.keys()) {
+    incomingCount.set(slug, 0);
+    outgoingCount.set(slug, 0);
+  }
+
+  // Count links
+  for (const link of links) {
+    // Outgoing from source
+    outgoingCount.set(
+      link.sourcePageSlug,
+      (outgoingCount.get(link.sourcePageSlug) || 0) + 1
+    );
+
+    // Incoming to target (only if target exists)
+    if (pages.has(link.targetPageSlug)) {
+      incomingCount.set(
+        link.targetPageSlug,
+        (incomingCount.get(link.targetPageSlug) || 0) + 1
+      );
+    }
+  }
+
+  const pageStats = Array.from(pages.keys()).map(slug => ({
+    slug,
+    incomingLinks: incomingCount.get(slug) || 0,
+    outgoingLinks: outgoingCount.get(slug) || 0,
+  }));
+
+  // Sort by incoming links (ascending - least linked first)
+  pageStats.sort((a, b) => a.incomingLinks - b.incomingLinks);
+
+  return {
+    totalPages: pages.size,
+    totalLinks: links.length,
+    pages: pageStats,
+  };
+}
+
+/**
+ * Find orphan pages (no incoming links, excluding index)
+ */
+export function findOrphanPages(
+  links: PageLink[],
+  pages: PageInfoMap
+): OrphanReport {
+  const incomingCount = new Map<string, number>();
+
+  // Initialize all pages with 0
+  for (const slug of pages.keys()) {
+    incomingCount.set(slug, 0);
+  }
+
+  // Count incoming links
+  for (const link of links) {
+    if (pages.has(link.targetPageSlug)) {
+      incomingCount.set(
+        link.targetPageSlug,
+        (incomingCount.get(link.targetPageSlug) || 0) + 1
+      );
+    }
+  }
+
+  // Find pages with 0 incoming links (excluding index/homepage)
+  const orphans: OrphanReport['orphanPages'] = [];
+
+  for (const [slug, count] of incomingCount.entries()) {
+    // Skip index page - it's the entry point
+    if (slug === 'index' || slug === 'home' || slug === 'homepage') {
+      continue;
+    }
+
+    if (count === 0) {
+      const pageInfo = pages.get(slug);
+      orphans.push({
+        slug,
+        title: pageInfo?.title || slug,
+        lastModified: pageInfo?.lastModified || '',
+      });
+    }
+  }
+
+  // Sort by last modified (oldest first)
+  orphans.sort((a, b) => a.lastModified.localeCompare(b.lastModified));
+
+  return {
+    orphanPages: orphans,
+    totalPages: pages.size,
+  };
+}
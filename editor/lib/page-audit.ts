@@ -2,11 +2,13 @@
  * page-audit.ts — Page optimization scoring system
  *
  * Real-time audit of page content for SEO, accessibility, and content quality.
- * Returns a score 0-100 with detailed issues and passed checks.
+ * Returns a score 0-100 with detailed issues and passed checks. Sites can add
+ * their own rules and reweight these in settings.audit (see audit-rules.ts).
  */
 
 import { parseHTML } from 'linkedom';
 import { requiresFAQ } from './page-types';
+import { compileCustomRule, parseAuditRuleSettings, type AuditRuleSettings } from './audit-rules';
 
 export interface AuditRule {
   id: string;
@@ -22,6 +24,8 @@ export interface AuditCheckResult {
 
 export interface PageAuditData {
   html: string;
+  /** `html` parsed once for the custom rules (audit-rules.ts), which must not modify it */
+  document?: ReturnType<typeof parseHTML>['document'];
   pageType: string;
   metaTitle?: string;
   metaDescription?: string;
@@ -325,17 +329,49 @@ export const PAGE_AUDIT_RULES: AuditRule[] = [
   },
 ];
 
+/**
+ * Check a site's settings.audit against the built-in rules; an error message
+ * if it's invalid
+ */
+export function parseSiteAuditRules(settings: Record<string, any>): AuditRuleSettings | string {
+  return parseAuditRuleSettings(settings.audit, PAGE_AUDIT_RULES.map(rule => rule.id));
+}
+
+/**
+ * A site's audit rule settings, or undefined (built-ins only) if it has none
+ * or they're invalid
+ */
+export function getSiteAuditRules(settings: Record<string, any>): AuditRuleSettings | undefined {
+  const parsed = parseSiteAuditRules(settings);
+  return typeof parsed === 'string' ? undefined : parsed;
+}
+
+/**
+ * The built-in rules with the site's overrides applied, then its custom rules
+ */
+export function getAuditRules(ruleSettings?: AuditRuleSettings): AuditRule[] {
+  if (!ruleSettings) return PAGE_AUDIT_RULES;
+
+  const builtIns: AuditRule[] = [];
+  for (const rule of PAGE_AUDIT_RULES) {
+    const override = ruleSettings.builtInRules[rule.id];
+    if (override === false) continue;
+    builtIns.push(override === undefined ? rule : { ...rule, weight: override });
+  }
+  return [...builtIns, ...ruleSettings.rules.map(compileCustomRule)];
+}
+
 /**
  * Calculate page audit score
  */
-export function calculatePageScore(data: PageAuditData): PageAuditResult {
+export function calculatePageScore(data: PageAuditData, ruleSettings?: AuditRuleSettings): PageAuditResult {
   let totalWeight = 0;
   let earnedWeight = 0;
   const issues: AuditIssue[] = [];
   const passed: AuditPassed[] = [];
   const metrics: Record<string, number | string | boolean> = {};
 
-  for (const rule of PAGE_AUDIT_RULES) {
+  for (const rule of getAuditRules(ruleSettings)) {
     const result = rule.check(data);
 
     // Skip rules that don't apply (empty message)
@@ -363,7 +399,7 @@ export function calculatePageScore(data: PageAuditData): PageAuditResult {
 /**
  * Quick audit that extracts meta from HTML
  */
-export function auditPage(html: string, pageType: string = 'custom'): PageAuditResult {
+export function auditPage(html: string, pageType: string = 'custom', ruleSettings?: AuditRuleSettings): PageAuditResult {
   const { document } = parseHTML(html);
 
   const metaTitle = document.querySelector('title')?.textContent || '';
@@ -371,10 +407,11 @@ export function auditPage(html: string, pageType: string = 'custom'): PageAuditR
 
   return calculatePageScore({
     html,
+    document,
     pageType,
     metaTitle,
     metaDescription,
-  });
+  }, ruleSettings);
 }
 
 /**
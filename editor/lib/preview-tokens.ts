@@ -0,0 +1,126 @@
+/**
+ * preview-tokens.ts — Signed, expiring links to unpublished content
+ *
+ * A preview token unlocks one draft page or one collection item, whatever
+ * its status, for whoever has the link. Tokens are HS256-signed like
+ * sessions, but with a key derived for previews, so one can never pass for
+ * the other. Each token also has a record in R2 (functions/lib/preview-tokens.ts);
+ * revoking deletes the record, which makes the token invalid before it expires.
+ */
+
+import { base64url, fromBase64url, hmacKey } from './auth';
+
+// ─── Types ───
+
+export type PreviewTarget =
+  | { type: 'page'; page: string }
+  | { type: 'item'; collection: string; item: string };
+
+export interface PreviewClaims {
+  /** Token id, the key of its R2 record */
+  jti: string;
+  site: string;
+  target: PreviewTarget;
+  /** Issued at / expiry, seconds since epoch */
+  iat: number;
+  exp: number;
+}
+
+// ─── Constants ───
+
+export const DEFAULT_PREVIEW_TTL_HOURS = 7 * 24;
+export const MAX_PREVIEW_TTL_HOURS = 30 * 24;
+
+const encoder = new TextEncoder();
+
+// ─── Tokens ───
+
+function previewKey(secret: string): Promise<CryptoKey> {
+  return hmacKey(`${secret}:preview`);
+}
+
+export async function signPreviewToken(claims: PreviewClaims, secret: string): Promise<string> {
+  const header = base64url(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'preview' })));
+  const payload = base64url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await previewKey(secret), encoder.encode(`${header}.${payload}`));
+  return `${header}.${payload}.${base64url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Check a preview token's signature and expiry. Returns null for anything
+ * invalid; whether it was revoked is up to the caller.
+ */
+export async function verifyPreviewToken(token: string, secret: string): Promise<PreviewClaims | null> {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  const [header, payload, signature] = parts;
+
+  try {
+    const { alg, typ } = JSON.parse(new TextDecoder().decode(fromBase64url(header)));
+    if (alg !== 'HS256' || typ !== 'preview') return null;
+
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await previewKey(secret),
+      fromBase64url(signature),
+      encoder.encode(`${header}.${payload}`)
+    );
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64url(payload))) as PreviewClaims;
+    if (!claims.jti || !claims.site || !claims.target || typeof claims.exp !== 'number') return null;
+    if (claims.exp <= Math.floor(Date.now() / 1000)) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+export function isPreviewTarget(value: any): value is PreviewTarget {
+  if (!value || typeof value !== 'object') return false;
+  if (value.type === 'page') return typeof value.page === 'string' && value.page !== '';
+  if (value.type === 'item') return typeof value.collection === 'string' && typeof value.item === 'string' && !!value.collection && !!value.item;
+  return false;
+}
+
+export function sameTarget(a: PreviewTarget, b: PreviewTarget): boolean {
+  return a.type === 'page'
+    ? b.type === 'page' && a.page === b.page
+    : b.type === 'item' && a.collection === b.collection && a.item === b.item;
+}
+
+/**
+ * Site-relative URL of the page or item a token unlocks, with the token
+ */
+export function getPreviewPath(target: PreviewTarget, token: string): string {
+  const path = target.type === 'item'
+    ? `/${target.collection}/${target.item}/`
+    : target.page === 'index' ? '/' : `/${target.page}`;
+  return `${path}?preview=${encodeURIComponent(token)}`;
+}
+
+// ─── Banner ───
+
+function escapeHtml(str: string): string {
+  return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Mark a page as a preview: a fixed banner at the top, and noindex so a
+ * shared link never ends up in search results
+ */
+export function injectPreviewBanner(html: string, options: { status: string; expiresAt: string }): string {
+  const expires = new Date(options.expiresAt).toUTCString();
+  const banner = `<div id="bloxx-preview-banner" role="status" style="position:fixed;top:0;left:0;right:0;z-index:2147483647;padding:8px 16px;background:#f59e0b;color:#1e293b;font:600 14px/1.4 system-ui,sans-serif;text-align:center;box-shadow:0 2px 6px rgba(0,0,0,.2)">`
+    + `Preview &mdash; this ${escapeHtml(options.status)} content is not published. Link expires ${escapeHtml(expires)}.</div>`
+    + `<div style="height:38px" aria-hidden="true"></div>`;
+
+  const noindex = '<meta name="robots" content="noindex, nofollow">';
+  html = /<meta\s+name="robots"[^>]*>/i.test(html)
+    ? html.replace(/<meta\s+name="robots"[^>]*>/i, noindex)
+    : /<\/head>/i.test(html) ? html.replace(/<\/head>/i, `  ${noindex}\n</head>`) : `${noindex}\n${html}`;
+
+  return /<body[^>]*>/i.test(html)
+    ? html.replace(/<body[^>]*>/i, match => `${match}\n${banner}`)
+    : `${banner}\n${html}`;
+}
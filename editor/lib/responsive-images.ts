@@ -0,0 +1,291 @@
+/**
+ * Responsive images — variant naming, intrinsic sizes and srcset markup
+ *
+ * Uploads (functions/api/images.ts) are stored with their intrinsic width and
+ * height and, where the Images binding is available, a set of narrower AVIF
+ * and WebP copies (functions/lib/image-variants.ts):
+ *
+ *   images/{name}                            — the original
+ *   images/_variants/{base}-{width}w.avif     — one per variant width
+ *   images/_variants/{base}-{width}w.webp
+ *
+ * On save, <img> tags pointing at an upload get width/height (so the browser
+ * reserves their space) and a WebP srcset; with AVIF variants the img is
+ * wrapped in a <picture> offering those first. Generated markup carries
+ * data-responsive="{name}", so it can be rebuilt when the image changes.
+ */
+
+// ─── Types ───
+
+export interface ImageAsset {
+  /** File name under images/, e.g. "1718000000000-team.jpg" */
+  name: string;
+  width?: number;
+  height?: number;
+  /** Widths that have variants, narrowest first */
+  variants: number[];
+  /** Formats every variant width exists in */
+  formats: VariantFormat[];
+}
+
+export type VariantFormat = 'avif' | 'webp';
+
+// ─── Constants ───
+
+export const VARIANT_WIDTHS = [320, 640, 960, 1280, 1920];
+
+export const VARIANT_FORMATS: VariantFormat[] = ['avif', 'webp'];
+
+const VARIANT_MIME: Record<VariantFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+};
+
+/** Animated GIFs and SVGs are served as uploaded */
+const RESIZABLE_TYPES = new Set(['image/png', 'image/jpeg', 'image/webp', 'image/avif']);
+
+const VARIANTS_DIR = '_variants';
+
+// ─── Variants ───
+
+export function isResizableType(contentType: string): boolean {
+  return RESIZABLE_TYPES.has(contentType);
+}
+
+/**
+ * Variant widths for an image `width` pixels wide: every standard width
+ * below it, plus its own width (capped at the widest standard one)
+ */
+export function variantWidths(width: number): number[] {
+  const max = VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1];
+  const widths = VARIANT_WIDTHS.filter(w => w < width);
+  if (width <= max) widths.push(width);
+  return widths;
+}
+
+/**
+ * Path of a variant, relative to images/
+ */
+export function variantPath(name: string, width: number, format: VariantFormat): string {
+  const base = name.replace(/\.[a-z0-9]+$/i, '');
+  return `${VARIANTS_DIR}/${base}-${width}w.${format}`;
+}
+
+// ─── Intrinsic size ───
+
+function u16be(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function u16le(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function u24le(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+}
+
+function u32be(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function jpegSize(bytes: Uint8Array): { width: number; height: number } | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // Start-of-frame markers, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: u16be(bytes, offset + 5), width: u16be(bytes, offset + 7) };
+    }
+    offset += 2 + u16be(bytes, offset + 2);
+  }
+  return null;
+}
+
+function webpSize(bytes: Uint8Array): { width: number; height: number } | null {
+  const chunk = ascii(bytes, 12, 4);
+  if (chunk === 'VP8 ') {
+    return { width: u16le(bytes, 26) & 0x3fff, height: u16le(bytes, 28) & 0x3fff };
+  }
+  if (chunk === 'VP8L') {
+    return {
+      width: 1 + (bytes[21] | ((bytes[22] & 0x3f) << 8)),
+      height: 1 + ((bytes[22] >> 6) | (bytes[23] << 2) | ((bytes[24] & 0x0f) << 10)),
+    };
+  }
+  if (chunk === 'VP8X') {
+    return { width: 1 + u24le(bytes, 24), height: 1 + u24le(bytes, 27) };
+  }
+  return null;
+}
+
+function avifSize(bytes: Uint8Array): { width: number; height: number } | null {
+  // The first image spatial extents ('ispe') property; it sits near the start
+  const limit = Math.min(bytes.length - 16, 64 * 1024);
+  for (let i = 4; i < limit; i++) {
+    if (bytes[i] === 0x69 && ascii(bytes, i, 4) === 'ispe') {
+      return { width: u32be(bytes, i + 8), height: u32be(bytes, i + 12) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Width and height from a PNG, JPEG, GIF, WebP or AVIF header; null for
+ * anything else (SVG) or a header it can't read
+ */
+export function readImageSize(bytes: Uint8Array): { width: number; height: number } | null {
+  if (bytes.length < 30) return null;
+
+  let size: { width: number; height: number } | null = null;
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') {
+    size = { width: u32be(bytes, 16), height: u32be(bytes, 20) };
+  } else if (ascii(bytes, 0, 4) === 'GIF8') {
+    size = { width: u16le(bytes, 6), height: u16le(bytes, 8) };
+  } else if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    size = jpegSize(bytes);
+  } else if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    size = webpSize(bytes);
+  } else if (ascii(bytes, 4, 4) === 'ftyp') {
+    size = avifSize(bytes);
+  }
+
+  return size && size.width > 0 && size.height > 0 ? size : null;
+}
+
+// ─── Markup ───
+
+type Attr = [name: string, value: string | null];
+
+const ATTR_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/** Attributes generated for an upload */
+const GENERATED_ATTRS = ['width', 'height', 'srcset', 'sizes', 'data-responsive'];
+
+function parseAttrs(source: string): Attr[] {
+  const attrs: Attr[] = [];
+  for (const match of source.matchAll(ATTR_PATTERN)) {
+    attrs.push([match[1], match[2] ?? match[3] ?? match[4] ?? null]);
+  }
+  return attrs;
+}
+
+function getAttr(attrs: Attr[], name: string): string | null | undefined {
+  return attrs.find(([key]) => key.toLowerCase() === name)?.[1];
+}
+
+function setAttr(attrs: Attr[], name: string, value: string): void {
+  const existing = attrs.find(([key]) => key.toLowerCase() === name);
+  if (existing) existing[1] = value;
+  else attrs.push([name, value]);
+}
+
+function serializeAttrs(attrs: Attr[]): string {
+  return attrs.map(([name, value]) => (value === null ? name : `${name}="${value.replace(/"/g, '&quot;')}"`)).join(' ');
+}
+
+function assetPrefix(site: string): string {
+  return `/preview/${site}/_asset/images/`;
+}
+
+/**
+ * The upload an img src points at, or null for anything else
+ */
+function assetName(src: string | null | undefined, site: string): string | null {
+  const prefix = assetPrefix(site);
+  if (!src || !src.startsWith(prefix)) return null;
+  let name: string;
+  try {
+    name = decodeURIComponent(src.slice(prefix.length).split(/[?#]/)[0]);
+  } catch {
+    return null;
+  }
+  return name && !name.includes('/') ? name : null;
+}
+
+function srcset(site: string, asset: ImageAsset, format: VariantFormat): string {
+  return asset.variants
+    .map(width => `${assetPrefix(site)}${variantPath(asset.name, width, format)} ${width}w`)
+    .join(', ');
+}
+
+/**
+ * Names of the uploads the page's <img> tags show
+ */
+export function findImageAssets(html: string, site: string): string[] {
+  const names = new Set<string>();
+  for (const match of html.matchAll(/<img\b([^>]*)>/gi)) {
+    const name = assetName(getAttr(parseAttrs(match[1]), 'src'), site);
+    if (name) names.add(name);
+  }
+  return Array.from(names);
+}
+
+function responsiveImg(attrSource: string, site: string, assets: Map<string, ImageAsset>): string {
+  const attrs = parseAttrs(attrSource.replace(/\/\s*$/, ''));
+  const name = assetName(getAttr(attrs, 'src'), site);
+
+  // Generated markup is rebuilt; its sizes are kept unless they were made for
+  // another image (the src was changed since)
+  const generatedFor = getAttr(attrs, 'data-responsive');
+  const stale = generatedFor !== undefined && generatedFor !== name;
+  let cleaned = attrs;
+  let keptSizes = getAttr(attrs, 'sizes');
+  if (generatedFor !== undefined) {
+    if (stale) keptSizes = undefined;
+    cleaned = attrs.filter(([key]) => {
+      const attr = key.toLowerCase();
+      return !GENERATED_ATTRS.includes(attr) || (!stale && (attr === 'width' || attr === 'height'));
+    });
+  }
+
+  const asset = name ? assets.get(name) : undefined;
+  if (!asset?.width || !asset.height) return `<img ${serializeAttrs(cleaned)}>`;
+
+  // Keep a size set by hand, filling in the other side from the aspect ratio
+  const width = parseInt(getAttr(cleaned, 'width') || '', 10);
+  const height = parseInt(getAttr(cleaned, 'height') || '', 10);
+  if (!width && !height) {
+    setAttr(cleaned, 'width', String(asset.width));
+    setAttr(cleaned, 'height', String(asset.height));
+  } else if (!height) {
+    setAttr(cleaned, 'height', String(Math.round((width * asset.height) / asset.width)));
+  } else if (!width) {
+    setAttr(cleaned, 'width', String(Math.round((height * asset.width) / asset.height)));
+  }
+
+  if (asset.variants.length === 0 || !asset.formats.includes('webp')) {
+    return `<img ${serializeAttrs(cleaned)}>`;
+  }
+
+  const sizes = keptSizes || `(max-width: ${asset.width}px) 100vw, ${asset.width}px`;
+  setAttr(cleaned, 'srcset', srcset(site, asset, 'webp'));
+  setAttr(cleaned, 'sizes', sizes);
+  setAttr(cleaned, 'data-responsive', asset.name);
+  const img = `<img ${serializeAttrs(cleaned)}>`;
+
+  if (!asset.formats.includes('avif')) return img;
+  // display:contents keeps the wrapper out of layout, so CSS aimed at the img still applies
+  return `<picture data-responsive="${asset.name}" style="display:contents">`
+    + `<source type="${VARIANT_MIME.avif}" srcset="${srcset(site, asset, 'avif')}" sizes="${sizes.replace(/"/g, '&quot;')}">`
+    + `${img}</picture>`;
+}
+
+/**
+ * Add intrinsic sizes and srcsets to the <img> tags showing uploads in
+ * `assets`. Markup from an earlier run is rebuilt, so running it on every
+ * save is safe.
+ */
+export function applyResponsiveImages(html: string, site: string, assets: Map<string, ImageAsset>): string {
+  // Unwrap generated pictures; the img inside is rebuilt below
+  const unwrapped = html.replace(
+    /<picture\b[^>]*\bdata-responsive\b[^>]*>[\s\S]*?(<img\b[^>]*>)[\s\S]*?<\/picture>/gi,
+    (_match, img: string) => img
+  );
+  return unwrapped.replace(/<img\b([^>]*)>/gi, (_match, attrSource: string) => responsiveImg(attrSource, site, assets));
+}
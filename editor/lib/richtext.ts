@@ -0,0 +1,867 @@
+/**
+ * richtext.ts — Structured rich text for collection fields
+ *
+ * `richtext` field values are stored as a RichTextDocument: a list of blocks
+ * (paragraphs, headings, lists, quotes, code, images, dividers) whose text is
+ * split into spans carrying marks and links. Documents never hold markup of
+ * their own, except `html` blocks kept from HTML written into Markdown, which
+ * go through sanitizeHtml like everything else.
+ *
+ * Rendering (renderRichText) escapes all text, only emits tags on the site's
+ * allowlist (settings content.richTextTags), drops unsafe URLs and gives
+ * headings anchor ids. Markdown converts both ways (markdownToDocument,
+ * documentToMarkdown); it is what editors type and what imports and exports use.
+ */
+
+import type { CollectionSchema } from './collections';
+
+// ─── Types ───
+
+export type RichTextMark = 'bold' | 'italic' | 'underline' | 'strike' | 'code';
+
+export interface RichTextSpan {
+  text: string;
+  marks?: RichTextMark[];
+  link?: string;
+}
+
+export type RichTextBlock =
+  | { type: 'paragraph'; content: RichTextSpan[] }
+  | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; content: RichTextSpan[] }
+  | { type: 'list'; ordered?: boolean; items: RichTextSpan[][] }
+  | { type: 'quote'; content: RichTextSpan[] }
+  | { type: 'code'; text: string; language?: string }
+  | { type: 'image'; src: string; alt?: string; caption?: string }
+  | { type: 'divider' }
+  | { type: 'html'; html: string };
+
+export interface RichTextDocument {
+  type: 'doc';
+  blocks: RichTextBlock[];
+}
+
+// ─── Constants ───
+
+/** Every tag rich text can render; site allowlists pick from these */
+export const RICH_TEXT_TAGS = [
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre', 'code',
+  'strong', 'em', 'u', 's', 'a', 'br', 'hr', 'img', 'figure', 'figcaption',
+];
+
+/** h1 is left out: pages already have their own */
+export const DEFAULT_RICH_TEXT_TAGS = RICH_TEXT_TAGS.filter(tag => tag !== 'h1');
+
+const MARKS: RichTextMark[] = ['bold', 'italic', 'underline', 'strike', 'code'];
+
+const MARK_TAGS: Record<RichTextMark, string> = {
+  bold: 'strong',
+  italic: 'em',
+  underline: 'u',
+  strike: 's',
+  code: 'code',
+};
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+
+/** Dropped together with everything inside them */
+const DROPPED_ELEMENTS = new Set([
+  'script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript', 'textarea', 'select', 'svg', 'math', 'title', 'head',
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  code: ['class'],
+  ol: ['start'],
+  h1: ['id'], h2: ['id'], h3: ['id'], h4: ['id'], h5: ['id'], h6: ['id'],
+};
+
+// ─── Documents ───
+
+export function emptyDocument(): RichTextDocument {
+  return { type: 'doc', blocks: [] };
+}
+
+export function isRichTextDocument(value: any): value is RichTextDocument {
+  return !!value && typeof value === 'object' && value.type === 'doc' && Array.isArray(value.blocks);
+}
+
+function isSpanList(value: any): boolean {
+  return Array.isArray(value) && value.every(span =>
+    span && typeof span.text === 'string'
+    && (span.marks === undefined || (Array.isArray(span.marks) && span.marks.every((m: any) => MARKS.includes(m))))
+    && (span.link === undefined || typeof span.link === 'string')
+  );
+}
+
+/**
+ * Why a value is not a valid document, or null when it is
+ */
+export function validateRichTextDocument(value: any): string | null {
+  if (!isRichTextDocument(value)) return 'Must be a rich text document';
+
+  for (const [i, block] of value.blocks.entries()) {
+    const valid = !!block && typeof block === 'object' && (() => {
+      switch (block.type) {
+        case 'paragraph':
+        case 'quote':
+          return isSpanList(block.content);
+        case 'heading':
+          return [1, 2, 3, 4, 5, 6].includes(block.level) && isSpanList(block.content);
+        case 'list':
+          return Array.isArray(block.items) && block.items.every(isSpanList);
+        case 'code':
+          return typeof block.text === 'string';
+        case 'image':
+          return typeof block.src === 'string' && !!block.src;
+        case 'divider':
+          return true;
+        case 'html':
+          return typeof block.html === 'string';
+        default:
+          return false;
+      }
+    })();
+    if (!valid) return `Block ${i + 1} is not a valid ${block?.type || 'block'}`;
+  }
+  return null;
+}
+
+/**
+ * A stored value as a document: documents as they are, strings (legacy
+ * values, Markdown input) parsed as Markdown, anything else empty
+ */
+export function toRichTextDocument(value: any): RichTextDocument {
+  if (isRichTextDocument(value)) return value;
+  if (typeof value === 'string') return markdownToDocument(value);
+  return emptyDocument();
+}
+
+/**
+ * Whether a value holds no content, for required checks
+ */
+export function isRichTextEmpty(value: any): boolean {
+  return richTextToPlainText(value).trim() === '' && !toRichTextDocument(value).blocks.some(b => b.type === 'image');
+}
+
+function spansText(spans: RichTextSpan[]): string {
+  return spans.map(span => span.text).join('');
+}
+
+/**
+ * Text content of a value, one line per block, for search, excerpts and meta tags
+ */
+export function richTextToPlainText(value: any): string {
+  return toRichTextDocument(value).blocks.map(block => {
+    switch (block.type) {
+      case 'paragraph':
+      case 'heading':
+      case 'quote':
+        return spansText(block.content);
+      case 'list':
+        return block.items.map(spansText).join('\n');
+      case 'code':
+        return block.text;
+      case 'image':
+        return block.caption || block.alt || '';
+      case 'html':
+        return decodeEntities(sanitizeHtml(block.html.replace(/></g, '> <'), new Set())).replace(/\s+/g, ' ').trim();
+      default:
+        return '';
+    }
+  }).filter(Boolean).join('\n');
+}
+
+/**
+ * Turn the item's richtext field values (Markdown strings or documents)
+ * into documents; values of any other shape are left for validateItemData
+ */
+export function normalizeRichTextFields(data: Record<string, any>, schema: CollectionSchema): Record<string, any> {
+  const result = { ...data };
+  for (const field of schema.fields) {
+    if (field.type !== 'richtext') continue;
+    const value = result[field.id];
+    if (typeof value === 'string') result[field.id] = markdownToDocument(value);
+  }
+  return result;
+}
+
+/**
+ * Image blocks of a document, for the asset pipeline
+ */
+export function getRichTextImages(doc: RichTextDocument): Extract<RichTextBlock, { type: 'image' }>[] {
+  return doc.blocks.filter((block): block is Extract<RichTextBlock, { type: 'image' }> => block.type === 'image');
+}
+
+// ─── Allowlist ───
+
+/**
+ * Allowed tags from settings content.richTextTags (comma-separated or a
+ * list), limited to RICH_TEXT_TAGS; p is always allowed
+ */
+export function getAllowedTags(settings?: Record<string, any> | null): Set<string> {
+  const setting = settings?.content?.richTextTags;
+  const requested = Array.isArray(setting)
+    ? setting
+    : typeof setting === 'string' && setting.trim()
+      ? setting.split(',')
+      : DEFAULT_RICH_TEXT_TAGS;
+
+  const tags = new Set(requested.map(tag => String(tag).trim().toLowerCase()).filter(tag => RICH_TEXT_TAGS.includes(tag)));
+  tags.add('p');
+  return tags;
+}
+
+// ─── URLs ───
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', colon: ':', tab: '\t', newline: '\n' };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return named[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * The URL if it is safe to link to: relative, http(s), mailto or tel
+ * (images may also be raster data URIs); '' otherwise
+ */
+export function safeUrl(url: string, kind: 'link' | 'image' = 'link'): string {
+  // Browsers ignore control characters and whitespace inside a scheme
+  const clean = decodeEntities(url).replace(/[\u0000-\u0020\u007f]/g, '');
+  const scheme = clean.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+
+  if (!scheme) return url.trim();
+  if (scheme === 'http' || scheme === 'https') return url.trim();
+  if (kind === 'link' && (scheme === 'mailto' || scheme === 'tel')) return url.trim();
+  if (kind === 'image' && /^data:image\/(png|jpe?g|gif|webp|avif);base64,/i.test(clean)) return clean;
+  return '';
+}
+
+// ─── Rendering ───
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Anchor id for a heading, unique within the document
+ */
+export function headingId(text: string, used: Set<string>): string {
+  const base = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .slice(0, 80) || 'section';
+
+  let id = base;
+  for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+  used.add(id);
+  return id;
+}
+
+function renderSpans(spans: RichTextSpan[], allowed: Set<string>): string {
+  return spans.map(span => {
+    let html = escapeHtml(span.text).replace(/\n/g, allowed.has('br') ? '<br>' : ' ');
+    for (const mark of MARKS) {
+      const tag = MARK_TAGS[mark];
+      if (span.marks?.includes(mark) && allowed.has(tag)) html = `<${tag}>${html}</${tag}>`;
+    }
+    const href = span.link ? safeUrl(span.link) : '';
+    if (href && allowed.has('a')) html = `<a href="${escapeHtml(href)}">${html}</a>`;
+    return html;
+  }).join('');
+}
+
+function wrap(tag: string, html: string, allowed: Set<string>, fallback: string = 'p'): string {
+  if (allowed.has(tag)) return `<${tag}>${html}</${tag}>`;
+  return fallback ? `<${fallback}>${html}</${fallback}>` : html;
+}
+
+/**
+ * Sanitized HTML for a rich text value (a document, or a legacy/Markdown
+ * string). Tags off the allowlist degrade: headings to the next allowed
+ * level or a paragraph, lists and quotes to paragraphs, marks to plain text.
+ */
+export function renderRichText(value: any, allowedTags: Set<string> = getAllowedTags()): string {
+  const allowed = allowedTags.has('p') ? allowedTags : new Set([...allowedTags, 'p']);
+  const ids = new Set<string>();
+
+  return toRichTextDocument(value).blocks.map(block => {
+    switch (block.type) {
+      case 'paragraph':
+        return `<p>${renderSpans(block.content, allowed)}</p>`;
+
+      case 'heading': {
+        const content = renderSpans(block.content, allowed);
+        for (let level = block.level; level <= 6; level++) {
+          if (allowed.has(`h${level}`)) {
+            return `<h${level} id="${escapeHtml(headingId(spansText(block.content), ids))}">${content}</h${level}>`;
+          }
+        }
+        return `<p>${content}</p>`;
+      }
+
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        if (!allowed.has(tag) || !allowed.has('li')) {
+          return block.items.map(item => `<p>${renderSpans(item, allowed)}</p>`).join('\n');
+        }
+        return `<${tag}>${block.items.map(item => `<li>${renderSpans(item, allowed)}</li>`).join('')}</${tag}>`;
+      }
+
+      case 'quote':
+        return wrap('blockquote', `<p>${renderSpans(block.content, allowed)}</p>`, allowed, '');
+
+      case 'code': {
+        const language = block.language && /^[\w+-]+$/.test(block.language) ? ` class="language-${block.language}"` : '';
+        const code = allowed.has('code') ? `<code${language}>${escapeHtml(block.text)}</code>` : escapeHtml(block.text);
+        return allowed.has('pre') ? `<pre>${code}</pre>` : `<p>${code.replace(/\n/g, allowed.has('br') ? '<br>' : ' ')}</p>`;
+      }
+
+      case 'image': {
+        const src = safeUrl(block.src, 'image');
+        if (!src || !allowed.has('img')) return '';
+        const img = `<img src="${escapeHtml(src)}" alt="${escapeHtml(block.alt || '')}" loading="lazy">`;
+        if (!block.caption) return `<p>${img}</p>`;
+        if (!allowed.has('figure')) return `<p>${img}</p>\n<p>${escapeHtml(block.caption)}</p>`;
+        return `<figure>${img}${wrap('figcaption', escapeHtml(block.caption), allowed, '')}</figure>`;
+      }
+
+      case 'divider':
+        return allowed.has('hr') ? '<hr>' : '';
+
+      case 'html':
+        return sanitizeHtml(block.html, allowed);
+
+      default:
+        return '';
+    }
+  }).filter(Boolean).join('\n');
+}
+
+// ─── Sanitizing ───
+
+const TAG_PATTERN = /<!--[\s\S]*?(?:-->|$)|<!\w[^>]*>|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+const ATTR_PATTERN = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function escapeText(text: string): string {
+  // Keep entities that are already there, escape everything else
+  return text
+    .replace(/&(?!#?[a-zA-Z0-9]+;)/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function sanitizeAttributes(tag: string, raw: string): string {
+  const allowed = ALLOWED_ATTRIBUTES[tag] || [];
+  const attrs: string[] = [];
+  for (const match of raw.matchAll(ATTR_PATTERN)) {
+    const name = match[1].toLowerCase();
+    if (!allowed.includes(name)) continue;
+    let value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+
+    if (name === 'href' || name === 'src') {
+      value = safeUrl(value, name === 'src' ? 'image' : 'link');
+      if (!value) continue;
+    } else if (name === 'class') {
+      // Only syntax-highlighting hints on code
+      value = value.split(/\s+/).filter(c => /^language-[\w+-]+$/.test(c)).join(' ');
+      if (!value) continue;
+    } else if (name === 'width' || name === 'height' || name === 'start') {
+      if (!/^\d+$/.test(value)) continue;
+    } else if (name === 'id') {
+      if (!/^[\w-]+$/.test(value)) continue;
+    }
+    attrs.push(` ${name}="${escapeHtml(value)}"`);
+  }
+  return attrs.join('');
+}
+
+/**
+ * Keep only allowed tags (with a fixed set of safe attributes) and escape
+ * everything else. Scripts, styles and embeds are dropped with their content;
+ * tags are balanced so the result cannot break out of its container.
+ */
+export function sanitizeHtml(html: string, allowedTags: Set<string> = getAllowedTags()): string {
+  const out: string[] = [];
+  const open: string[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(html))) {
+    out.push(escapeText(html.slice(last, match.index)));
+    last = TAG_PATTERN.lastIndex;
+
+    const [, closing, rawName, rawAttrs] = match;
+    if (!rawName) continue; // Comments and doctypes
+    const tag = rawName.toLowerCase();
+
+    if (DROPPED_ELEMENTS.has(tag)) {
+      if (!closing) {
+        const end = html.toLowerCase().indexOf(`</${tag}`, last);
+        const close = end < 0 ? -1 : html.indexOf('>', end);
+        last = close < 0 ? html.length : close + 1;
+        TAG_PATTERN.lastIndex = last;
+      }
+      continue;
+    }
+    if (!allowedTags.has(tag)) continue;
+
+    if (closing) {
+      const at = open.lastIndexOf(tag);
+      if (at < 0) continue;
+      while (open.length > at) out.push(`</${open.pop()}>`);
+    } else {
+      out.push(`<${tag}${sanitizeAttributes(tag, rawAttrs || '')}>`);
+      if (!VOID_TAGS.has(tag)) open.push(tag);
+    }
+  }
+  out.push(escapeText(html.slice(last)));
+  while (open.length) out.push(`</${open.pop()}>`);
+
+  return out.join('');
+}
+
+// ─── Markdown → document ───
+
+const ESCAPABLE = /[\\`*_{}\[\]()#+\-.!~>|<]/;
+
+function isSpace(ch: string | undefined): boolean {
+  return ch === undefined || /\s/.test(ch);
+}
+
+function isWordChar(ch: string | undefined): boolean {
+  return ch !== undefined && /[\p{L}\p{N}]/u.test(ch);
+}
+
+function runLength(text: string, at: number): number {
+  let end = at;
+  while (text[end] === text[at]) end++;
+  return end - at;
+}
+
+function canOpen(text: string, at: number, length: number): boolean {
+  const before = text[at - 1];
+  const after = text[at + length];
+  return !isSpace(after) && (text[at] !== '_' || !isWordChar(before));
+}
+
+function canClose(text: string, at: number, length: number): boolean {
+  const before = text[at - 1];
+  const after = text[at + length];
+  return !isSpace(before) && (text[at] !== '_' || !isWordChar(after));
+}
+
+/**
+ * Index of the delimiter run closing an emphasis opened at `from`, or -1.
+ * Runs that can open are tried as nested emphasis first and skipped when
+ * they find their own closer, so **a *b*** closes both correctly.
+ */
+function findCloser(text: string, from: number, char: string, need: number, memo: Map<string, number>): number {
+  const key = `${from}:${char}:${need}`;
+  if (memo.has(key)) return memo.get(key)!;
+
+  let result = -1;
+  let i = from;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '\\') { i += 2; continue; }
+    if (ch === '`') {
+      const length = runLength(text, i);
+      const end = text.indexOf('`'.repeat(length), i + length);
+      i = end < 0 ? i + length : end + length;
+      continue;
+    }
+    if (ch !== char) { i++; continue; }
+
+    const length = runLength(text, i);
+    if (char !== '~' && canOpen(text, i, length)) {
+      const nested = length >= 2 ? 2 : 1;
+      const close = findCloser(text, i + nested, char, nested, memo);
+      if (close >= 0) { i = close + nested; continue; }
+    }
+    if (length >= need && canClose(text, i, length) && i > from) {
+      result = i;
+      break;
+    }
+    i += length;
+  }
+
+  memo.set(key, result);
+  return result;
+}
+
+/**
+ * [label](destination "title") starting at `at`; null when it is not a link
+ */
+function parseLink(text: string, at: number): { label: string; href: string; end: number } | null {
+  let depth = 0;
+  let i = at;
+  for (; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '[') depth++;
+    if (text[i] === ']' && --depth === 0) break;
+  }
+  if (i >= text.length || text[i + 1] !== '(') return null;
+
+  const rest = text.slice(i + 2);
+  const dest = rest.match(/^\s*(?:<([^<>\n]*)>|((?:[^\s()\\]|\\.|\([^\s()]*\))*))(?:\s+(?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'))?\s*\)/);
+  if (!dest) return null;
+
+  return {
+    label: text.slice(at + 1, i),
+    href: (dest[1] ?? dest[2] ?? '').replace(/\\(.)/g, '$1'),
+    end: i + 2 + dest[0].length,
+  };
+}
+
+function sameFormat(a: RichTextSpan, b: RichTextSpan): boolean {
+  return a.link === b.link && (a.marks || []).join() === (b.marks || []).join();
+}
+
+function pushSpan(spans: RichTextSpan[], text: string, marks: RichTextMark[], link?: string): void {
+  if (!text) return;
+  const span: RichTextSpan = { text };
+  if (marks.length) span.marks = MARKS.filter(m => marks.includes(m));
+  if (link) span.link = link;
+
+  const previous = spans[spans.length - 1];
+  if (previous && sameFormat(previous, span)) previous.text += text;
+  else spans.push(span);
+}
+
+/**
+ * Inline Markdown: emphasis (* _ ** __), ~~strike~~, `code`, <u>underline</u>,
+ * [links](url), <autolinks>, backslash escapes and hard line breaks.
+ * Inline images become a link to the image, labelled with their alt text.
+ */
+export function parseInlineMarkdown(text: string, marks: RichTextMark[] = [], link?: string): RichTextSpan[] {
+  const spans: RichTextSpan[] = [];
+  const memo = new Map<string, number>();
+  let buffer = '';
+  const flush = () => { pushSpan(spans, buffer, marks, link); buffer = ''; };
+  const nested = (inner: RichTextSpan[]) => { flush(); for (const s of inner) pushSpan(spans, s.text, s.marks || [], s.link); };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && text[i + 1] === '\n') {
+      buffer += '\n';
+      i += 2;
+      continue;
+    }
+    if (ch === '\\' && i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\n') {
+      // Two trailing spaces make a hard break; other newlines are spaces
+      if (/ {2,}$/.test(buffer)) buffer = buffer.replace(/ +$/, '\n');
+      else buffer = buffer.replace(/ +$/, '') + ' ';
+      i++;
+      while (text[i] === ' ') i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const length = runLength(text, i);
+      const end = text.indexOf('`'.repeat(length), i + length);
+      if (end >= 0 && text[end + length] !== '`') {
+        let code = text.slice(i + length, end).replace(/\n/g, ' ');
+        if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1);
+        nested([{ text: code, marks: [...marks, 'code'], link }]);
+        i = end + length;
+        continue;
+      }
+      buffer += '`'.repeat(length);
+      i += length;
+      continue;
+    }
+
+    if (ch === '*' || ch === '_' || ch === '~') {
+      const length = runLength(text, i);
+      const need = length >= 2 ? 2 : 1;
+      if ((ch !== '~' || need === 2) && canOpen(text, i, length)) {
+        const close = findCloser(text, i + need, ch, need, memo);
+        if (close >= 0) {
+          const mark: RichTextMark = ch === '~' ? 'strike' : need === 2 ? 'bold' : 'italic';
+          nested(parseInlineMarkdown(text.slice(i + need, close), [...marks, mark], link));
+          i = close + need;
+          continue;
+        }
+      }
+      buffer += text.slice(i, i + length);
+      i += length;
+      continue;
+    }
+
+    if (text.startsWith('<u>', i)) {
+      const end = text.indexOf('</u>', i + 3);
+      if (end >= 0) {
+        nested(parseInlineMarkdown(text.slice(i + 3, end), [...marks, 'underline'], link));
+        i = end + 4;
+        continue;
+      }
+    }
+
+    if (ch === '<') {
+      const auto = text.slice(i).match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i);
+      if (auto) {
+        nested([{ text: auto[1].replace(/^mailto:/i, ''), marks, link: auto[1] }]);
+        i += auto[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '[' || (ch === '!' && text[i + 1] === '[')) {
+      const parsed = parseLink(text, ch === '!' ? i + 1 : i);
+      if (parsed) {
+        nested(ch === '!'
+          ? [{ text: parsed.label, marks, link: parsed.href }]
+          : parseInlineMarkdown(parsed.label, marks, parsed.href));
+        i = parsed.end;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  // Trailing spaces before the end of a block are not content
+  const lastSpan = spans[spans.length - 1];
+  if (lastSpan && !lastSpan.marks?.includes('code')) {
+    lastSpan.text = lastSpan.text.replace(/[ \n]+$/, '');
+    if (!lastSpan.text) spans.pop();
+  }
+  return spans;
+}
+
+const LIST_ITEM = /^ {0,3}([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const HTML_BLOCK = /^ {0,3}<(?:!--|\/?(?:address|article|aside|audio|blockquote|center|details|dialog|div|dl|fieldset|figure|footer|form|h[1-6]|header|hr|iframe|main|nav|ol|p|pre|script|section|style|summary|table|ul|video)(?:[\s>\/]|$))/i;
+
+/**
+ * Parse Markdown into a document. Block HTML (lines starting with a tag)
+ * becomes an `html` block, sanitized when rendered.
+ */
+export function markdownToDocument(markdown: string): RichTextDocument {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  const blocks: RichTextBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    const content = parseInlineMarkdown(paragraph.join('\n'));
+    if (content.length) blocks.push({ type: 'paragraph', content });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const fence = line.match(/^ {0,3}(`{3,}|~{3,})\s*([\w+-]*).*$/);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n'), ...(fence[2] ? { language: fence[2] } : {}) });
+      continue;
+    }
+
+    const heading = line.match(/^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    if (heading) {
+      flushParagraph();
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6,
+        content: parseInlineMarkdown(heading[2]),
+      });
+      continue;
+    }
+
+    if (/^ {0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      // "---" under a paragraph would be a setext heading; treat it as a divider
+      flushParagraph();
+      blocks.push({ type: 'divider' });
+      continue;
+    }
+
+    const image = line.match(/^ {0,3}!\[((?:[^\]\\]|\\.)*)\]\(\s*<?([^\s<>()]+)>?(?:\s+"((?:[^"\\]|\\.)*)")?\s*\)\s*$/);
+    if (image) {
+      flushParagraph();
+      const unescape = (s: string) => s.replace(/\\(.)/g, '$1');
+      blocks.push({
+        type: 'image',
+        src: image[2],
+        ...(image[1] ? { alt: unescape(image[1]) } : {}),
+        ...(image[3] ? { caption: unescape(image[3]) } : {}),
+      });
+      continue;
+    }
+
+    if (/^ {0,3}>/.test(line)) {
+      flushParagraph();
+      const quote: string[] = [];
+      for (; i < lines.length && /^ {0,3}>/.test(lines[i]); i++) quote.push(lines[i].replace(/^ {0,3}> ?/, ''));
+      i--;
+      blocks.push({ type: 'quote', content: parseInlineMarkdown(quote.join('\n')) });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem && (paragraph.length === 0 || /^[-*+]|^1[.)]/.test(listItem[1]))) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[1]);
+      const items: string[][] = [];
+      for (; i < lines.length; i++) {
+        const next = lines[i].match(LIST_ITEM);
+        if (next && /\d/.test(next[1]) === ordered) {
+          items.push([next[2]]);
+        } else if (lines[i].trim() && /^\s{2,}/.test(lines[i]) && items.length) {
+          items[items.length - 1].push(lines[i].trim());
+        } else {
+          break;
+        }
+      }
+      i--;
+      blocks.push({
+        type: 'list',
+        ...(ordered ? { ordered: true } : {}),
+        items: items.map(item => parseInlineMarkdown(item.join('\n'))),
+      });
+      continue;
+    }
+
+    if (HTML_BLOCK.test(line) && paragraph.length === 0) {
+      const html: string[] = [];
+      for (; i < lines.length && lines[i].trim(); i++) html.push(lines[i]);
+      blocks.push({ type: 'html', html: html.join('\n') });
+      continue;
+    }
+
+    // Trailing spaces stay: two of them make a hard break
+    paragraph.push(line.replace(/^\s+/, ''));
+  }
+  flushParagraph();
+
+  return { type: 'doc', blocks };
+}
+
+// ─── Document → Markdown ───
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_\[\]<~]/g, '\\$&');
+}
+
+function codeSpan(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  const pad = longest > 0 || text.startsWith(' ') || text.endsWith(' ') ? ' ' : '';
+  return `${fence}${pad}${text}${pad}${fence}`;
+}
+
+const MARK_DELIMITERS: Record<Exclude<RichTextMark, 'code'>, [string, string]> = {
+  bold: ['**', '**'],
+  italic: ['*', '*'],
+  strike: ['~~', '~~'],
+  underline: ['<u>', '</u>'],
+};
+
+/**
+ * Marks stay open across spans that share them, so nesting is always proper
+ */
+function spansToMarkdown(spans: RichTextSpan[]): string {
+  const out: string[] = [];
+  let index = 0;
+
+  while (index < spans.length) {
+    // A run of spans with the same link becomes one link
+    const link = spans[index].link;
+    const group: RichTextSpan[] = [];
+    while (index < spans.length && spans[index].link === link) group.push(spans[index++]);
+
+    let text = '';
+    const open: Exclude<RichTextMark, 'code'>[] = [];
+    for (const span of group) {
+      const marks = (span.marks || []).filter((m): m is Exclude<RichTextMark, 'code'> => m !== 'code');
+      while (open.length && !marks.includes(open[open.length - 1])) text += MARK_DELIMITERS[open.pop()!][1];
+      // A mark opened earlier but missing here closes everything above it too
+      const firstMissing = open.findIndex(m => !marks.includes(m));
+      while (firstMissing >= 0 && open.length > firstMissing) text += MARK_DELIMITERS[open.pop()!][1];
+      for (const mark of marks) {
+        if (!open.includes(mark)) {
+          text += MARK_DELIMITERS[mark][0];
+          open.push(mark);
+        }
+      }
+      text += span.marks?.includes('code')
+        ? codeSpan(span.text)
+        : escapeMarkdown(span.text).replace(/\n/g, '\\\n');
+    }
+    while (open.length) text += MARK_DELIMITERS[open.pop()!][1];
+
+    out.push(link ? `[${text}](${/[\s()]/.test(link) ? `<${link}>` : link})` : text);
+  }
+
+  // Text that would read as block syntax at the start of a line
+  return out.join('')
+    .replace(/^(\d+)([.)]\s)/gm, '$1\\$2')
+    .replace(/^(#{1,6}\s|[-+]\s|>|-{3,})/gm, '\\$1');
+}
+
+/**
+ * Serialize a document as Markdown; markdownToDocument reads it back unchanged
+ */
+export function documentToMarkdown(value: any): string {
+  return toRichTextDocument(value).blocks.map(block => {
+    switch (block.type) {
+      case 'paragraph':
+        return spansToMarkdown(block.content);
+      case 'heading':
+        return `${'#'.repeat(block.level)} ${spansToMarkdown(block.content.map(span => ({ ...span, text: span.text.replace(/\n/g, ' ') })))}`;
+      case 'list':
+        return block.items
+          .map((item, i) => `${block.ordered ? `${i + 1}.` : '-'} ${spansToMarkdown(item).replace(/\n/g, '\n   ')}`)
+          .join('\n');
+      case 'quote':
+        return spansToMarkdown(block.content).split('\n').map(line => `> ${line}`).join('\n');
+      case 'code': {
+        const fence = block.text.includes('```') ? '~~~' : '```';
+        return `${fence}${block.language || ''}\n${block.text}\n${fence}`;
+      }
+      case 'image': {
+        const alt = (block.alt || '').replace(/[\\\]]/g, '\\$&');
+        const caption = block.caption ? ` "${block.caption.replace(/["\\]/g, '\\$&')}"` : '';
+        return `![${alt}](${block.src}${caption})`;
+      }
+      case 'divider':
+        return '---';
+      case 'html':
+        return block.html;
+      default:
+        return '';
+    }
+  }).filter(Boolean).join('\n\n');
+}
@@ -2069,6 +2069,17 @@ export function buildJsonLd(
   return jsonLd;
 }
 
+/**
+ * JSON-LD as the content of a <script type="application/ld+json"> element.
+ * <, > and & are escaped so no value can close the script or open a comment,
+ * and U+2028/U+2029 so it stays valid JavaScript too.
+ */
+export function serializeJsonLd(jsonLd: object): string {
+  return JSON.stringify(jsonLd).replace(/[<>&\u2028\u2029]/g, char =>
+    `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+}
+
 /**
  * Validate content against schema
  */
@@ -0,0 +1,477 @@
+/**
+ * site-audit.ts — Cross-page checks over every page of a site
+ *
+ * Each page is read once into a PageSnapshot, and the snapshots are then
+ * compared with each other, which the single-page audits can't do:
+ *
+ * - duplicate titles, meta descriptions and H1s
+ * - internal links to pages that don't exist, and to #anchors that don't
+ * - canonical conflicts: several canonicals, canonicals to a missing page, chains
+ * - Organization / LocalBusiness JSON-LD that disagrees between pages
+ * - orphan pages (link-graph.ts)
+ *
+ * Issues are ranked by severity, then by how many pages they touch.
+ * functions/lib/site-audit.ts runs the checks over the drafts and keeps history.
+ */
+
+import { parseHTML } from 'linkedom';
+import { findOrphanPages, type PageInfoMap, type PageLink } from './link-graph';
+
+// ─── Types ───
+
+export type SiteIssueType =
+  | 'duplicate-title'
+  | 'duplicate-description'
+  | 'duplicate-h1'
+  | 'broken-link'
+  | 'missing-anchor'
+  | 'canonical-conflict'
+  | 'inconsistent-organization'
+  | 'orphan-page';
+
+export type SiteIssueSeverity = 'high' | 'medium' | 'low';
+
+export interface SiteAuditIssue {
+  /** Same across runs for the same problem, so reports can be compared */
+  key: string;
+  type: SiteIssueType;
+  severity: SiteIssueSeverity;
+  message: string;
+  /** Pages the problem shows on */
+  pages: string[];
+  details?: Record<string, unknown>;
+}
+
+export interface PageSnapshot {
+  page: string;
+  title: string;
+  description: string;
+  h1s: string[];
+  canonicals: string[];
+  /** Element ids and <a name> targets */
+  anchors: Set<string>;
+  /** Every <a href> on the page */
+  hrefs: string[];
+  organizations: OrganizationNode[];
+  lastModified: string;
+}
+
+export interface OrganizationNode {
+  type: OrganizationType;
+  fields: Partial<Record<OrganizationField, string>>;
+}
+
+export interface SiteAuditContext {
+  /** Public base URL of the site, so absolute links to it count as internal; '' if unknown */
+  baseUrl: string;
+  /** Paths served besides pages (collection items and lists), without a trailing slash */
+  extraPaths: Set<string>;
+  /** Pages that don't need incoming links, besides the home page (e.g. the 404 page) */
+  entryPages: string[];
+}
+
+// ─── Constants ───
+
+const ORGANIZATION_TYPES = ['Organization', 'LocalBusiness'] as const;
+
+type OrganizationType = typeof ORGANIZATION_TYPES[number];
+
+const ORGANIZATION_FIELDS = ['name', 'url', 'telephone', 'email', 'logo', 'address', 'sameAs'] as const;
+
+type OrganizationField = typeof ORGANIZATION_FIELDS[number];
+
+const SEVERITY: Record<SiteIssueType, SiteIssueSeverity> = {
+  'broken-link': 'high',
+  'canonical-conflict': 'high',
+  'duplicate-title': 'high',
+  'duplicate-description': 'medium',
+  'duplicate-h1': 'medium',
+  'missing-anchor': 'medium',
+  'inconsistent-organization': 'medium',
+  'orphan-page': 'low',
+};
+
+const SEVERITY_ORDER: Record<SiteIssueSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+/** Points taken off the average page score per issue */
+const SEVERITY_PENALTY: Record<SiteIssueSeverity, number> = { high: 5, medium: 2, low: 1 };
+
+/** Issues can cost at most this many points, so a large site isn't pinned at zero */
+const MAX_PENALTY = 50;
+
+/** Stand-in origin for resolving relative links */
+const PAGE_ORIGIN = 'https://page.invalid';
+
+// ─── Snapshots ───
+
+function normalizeText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+function jsonLdString(value: unknown): string {
+  if (typeof value === 'string' || typeof value === 'number') return normalizeText(String(value));
+  if (value && typeof value === 'object' && 'url' in value) return jsonLdString((value as { url: unknown }).url);
+  return '';
+}
+
+function organizationField(field: OrganizationField, value: unknown): string {
+  switch (field) {
+    case 'address':
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        const address = value as Record<string, unknown>;
+        return ['streetAddress', 'addressLocality', 'addressRegion', 'postalCode', 'addressCountry']
+          .map(part => jsonLdString(address[part]))
+          .filter(Boolean)
+          .join(', ');
+      }
+      return jsonLdString(value);
+    case 'sameAs':
+      return (Array.isArray(value) ? value : [value]).map(jsonLdString).filter(Boolean).sort().join(' ');
+    case 'url':
+      return jsonLdString(value).replace(/\/+$/, '');
+    case 'telephone':
+      return jsonLdString(value).replace(/[^\d+]/g, '');
+    default:
+      return jsonLdString(value);
+  }
+}
+
+/**
+ * Organization and LocalBusiness nodes anywhere in a JSON-LD value,
+ * including @graph arrays and nested properties (e.g. an Article's publisher)
+ */
+function findOrganizations(value: unknown, found: OrganizationNode[]): void {
+  if (Array.isArray(value)) {
+    value.forEach(entry => findOrganizations(entry, found));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+
+  const node = value as Record<string, unknown>;
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  for (const type of ORGANIZATION_TYPES) {
+    if (!types.includes(type)) continue;
+    const fields: OrganizationNode['fields'] = {};
+    for (const field of ORGANIZATION_FIELDS) {
+      const normalized = organizationField(field, node[field]);
+      if (normalized) fields[field] = normalized;
+    }
+    found.push({ type, fields });
+  }
+
+  for (const [key, child] of Object.entries(node)) {
+    if (key !== '@type' && key !== '@context') findOrganizations(child, found);
+  }
+}
+
+/**
+ * Read what the cross-page checks need from a page's HTML
+ */
+export function snapshotPage(page: string, html: string, lastModified: string): PageSnapshot {
+  const { document } = parseHTML(html);
+
+  const canonicals: string[] = [];
+  for (const link of document.querySelectorAll('link[rel]')) {
+    const rel = (link.getAttribute('rel') || '').toLowerCase().split(/\s+/);
+    const href = link.getAttribute('href')?.trim();
+    if (rel.includes('canonical') && href) canonicals.push(href);
+  }
+
+  const anchors = new Set<string>();
+  for (const el of document.querySelectorAll('[id]')) anchors.add(el.getAttribute('id') || '');
+  for (const el of document.querySelectorAll('a[name]')) anchors.add(el.getAttribute('name') || '');
+
+  const organizations: OrganizationNode[] = [];
+  for (const script of document.querySelectorAll('script[type="application/ld+json"]')) {
+    try {
+      findOrganizations(JSON.parse(script.textContent || ''), organizations);
+    } catch {
+      // Invalid JSON-LD is reported by the single-page audit
+    }
+  }
+
+  const hrefs: string[] = [];
+  for (const anchor of document.querySelectorAll('a[href]')) hrefs.push(anchor.getAttribute('href') || '');
+
+  const h1s: string[] = [];
+  for (const h1 of document.querySelectorAll('h1')) {
+    const text = normalizeText(h1.textContent);
+    if (text) h1s.push(text);
+  }
+
+  return {
+    page,
+    title: normalizeText(document.querySelector('title')?.textContent),
+    description: normalizeText(document.querySelector('meta[name="description"]')?.getAttribute('content')),
+    h1s,
+    canonicals,
+    anchors,
+    hrefs,
+    organizations,
+    lastModified,
+  };
+}
+
+// ─── Links ───
+
+interface ResolvedLink {
+  /** Path on the site, without a trailing slash ('' for the home page) */
+  path: string;
+  hash: string;
+}
+
+/**
+ * Where a link from `fromPage` leads on the site; null for external links
+ * and other schemes (mailto:, tel:, ...)
+ */
+function resolveLink(href: string, fromPage: string, baseUrl: string): ResolvedLink | null {
+  let url: URL;
+  try {
+    url = new URL(href.trim(), `${PAGE_ORIGIN}/${fromPage}`);
+  } catch {
+    return null;
+  }
+
+  let siteOrigin = '';
+  try {
+    siteOrigin = baseUrl ? new URL(baseUrl).origin : '';
+  } catch {
+    // An unparseable siteUrl only means absolute links count as external
+  }
+  if (url.origin !== PAGE_ORIGIN && url.origin !== siteOrigin) return null;
+
+  let path: string;
+  let hash: string;
+  try {
+    path = decodeURIComponent(url.pathname);
+    hash = decodeURIComponent(url.hash.slice(1));
+  } catch {
+    return null;
+  }
+  return { path: path.replace(/^\/+|\/+$/g, ''), hash };
+}
+
+/**
+ * The page a site path serves, or null
+ */
+function pageForPath(path: string, pages: Map<string, PageSnapshot>): PageSnapshot | null {
+  const slug = path.replace(/\.html$/i, '');
+  const candidates = slug ? [slug, `${slug}/index`] : ['index'];
+  for (const candidate of candidates) {
+    const page = pages.get(candidate);
+    if (page) return page;
+  }
+  return null;
+}
+
+/** Uploads and other files, which aren't pages */
+function isFilePath(path: string): boolean {
+  return path.includes('_asset/') || /\.(?!html?$)[a-z0-9]+$/i.test(path);
+}
+
+function isServedPath(path: string, pages: Map<string, PageSnapshot>, context: SiteAuditContext): boolean {
+  return isFilePath(path) || pageForPath(path, pages) !== null || context.extraPaths.has(`/${path}`.replace(/\/$/, '') || '/');
+}
+
+function checkLinks(pages: Map<string, PageSnapshot>, context: SiteAuditContext): SiteAuditIssue[] {
+  const broken = new Map<string, Set<string>>();
+  const missingAnchors = new Map<string, { target: string; anchor: string; pages: Set<string> }>();
+
+  for (const snapshot of pages.values()) {
+    for (const href of snapshot.hrefs) {
+      const link = resolveLink(href, snapshot.page, context.baseUrl);
+      if (!link) continue;
+
+      if (!isServedPath(link.path, pages, context)) {
+        const sources = broken.get(link.path) || new Set<string>();
+        broken.set(link.path, sources.add(snapshot.page));
+        continue;
+      }
+
+      // Anchors are only known on pages; "#top" works without one
+      const target = pageForPath(link.path, pages);
+      if (!target || !link.hash || link.hash === 'top' || target.anchors.has(link.hash)) continue;
+      const key = `${target.page}#${link.hash}`;
+      const entry = missingAnchors.get(key) || { target: target.page, anchor: link.hash, pages: new Set<string>() };
+      entry.pages.add(snapshot.page);
+      missingAnchors.set(key, entry);
+    }
+  }
+
+  const issues: SiteAuditIssue[] = [];
+  for (const [path, sources] of broken) {
+    issues.push(issue('broken-link', path, `Links to /${path} don't lead to a page`, Array.from(sources), { path: `/${path}` }));
+  }
+  for (const [key, { target, anchor, pages: sources }] of missingAnchors) {
+    issues.push(issue('missing-anchor', key, `Links to #${anchor} on ${target} don't match any id on that page`, Array.from(sources), { target, anchor }));
+  }
+  return issues;
+}
+
+// ─── Canonicals ───
+
+function checkCanonicals(pages: Map<string, PageSnapshot>, context: SiteAuditContext): SiteAuditIssue[] {
+  const issues: SiteAuditIssue[] = [];
+
+  const canonicalTarget = (snapshot: PageSnapshot): ResolvedLink | null =>
+    snapshot.canonicals.length > 0 ? resolveLink(snapshot.canonicals[0], snapshot.page, context.baseUrl) : null;
+
+  for (const snapshot of pages.values()) {
+    const distinct = new Set(snapshot.canonicals);
+    if (distinct.size > 1) {
+      issues.push(issue('canonical-conflict', `${snapshot.page}:multiple`,
+        `${snapshot.page} declares ${distinct.size} different canonical URLs`,
+        [snapshot.page], { canonicals: Array.from(distinct) }));
+      continue;
+    }
+
+    const link = canonicalTarget(snapshot);
+    if (!link) continue;
+
+    if (!isServedPath(link.path, pages, context) || isFilePath(link.path)) {
+      issues.push(issue('canonical-conflict', `${snapshot.page}:missing`,
+        `The canonical URL of ${snapshot.page} (/${link.path}) isn't a page`,
+        [snapshot.page], { canonical: snapshot.canonicals[0] }));
+      continue;
+    }
+
+    // A canonical pointing at a page that is itself canonicalised elsewhere
+    const target = pageForPath(link.path, pages);
+    if (!target || target.page === snapshot.page) continue;
+    const next = canonicalTarget(target);
+    const nextPage = next ? pageForPath(next.path, pages) : null;
+    if (next && nextPage?.page !== target.page) {
+      issues.push(issue('canonical-conflict', `${snapshot.page}:chain`,
+        `${snapshot.page} is canonicalised to ${target.page}, which is canonicalised to /${next.path}`,
+        [snapshot.page, target.page], { canonical: snapshot.canonicals[0], next: target.canonicals[0] }));
+    }
+  }
+
+  return issues;
+}
+
+// ─── Duplicates ───
+
+function checkDuplicates(
+  pages: Map<string, PageSnapshot>,
+  type: 'duplicate-title' | 'duplicate-description' | 'duplicate-h1',
+  label: string,
+  values: (snapshot: PageSnapshot) => string[]
+): SiteAuditIssue[] {
+  const byValue = new Map<string, { value: string; pages: Set<string> }>();
+  for (const snapshot of pages.values()) {
+    for (const value of values(snapshot)) {
+      const key = value.toLowerCase();
+      const entry = byValue.get(key) || { value, pages: new Set<string>() };
+      entry.pages.add(snapshot.page);
+      byValue.set(key, entry);
+    }
+  }
+
+  const issues: SiteAuditIssue[] = [];
+  for (const [key, { value, pages: shared }] of byValue) {
+    if (shared.size < 2) continue;
+    issues.push(issue(type, key, `${shared.size} pages share the ${label} "${value}"`, Array.from(shared), { value }));
+  }
+  return issues;
+}
+
+// ─── Organization ───
+
+function checkOrganizations(pages: Map<string, PageSnapshot>): SiteAuditIssue[] {
+  // type.field → value → pages
+  const values = new Map<string, Map<string, Set<string>>>();
+  for (const snapshot of pages.values()) {
+    for (const node of snapshot.organizations) {
+      for (const [field, value] of Object.entries(node.fields)) {
+        const key = `${node.type}.${field}`;
+        const byValue = values.get(key) || new Map<string, Set<string>>();
+        byValue.set(value, (byValue.get(value) || new Set<string>()).add(snapshot.page));
+        values.set(key, byValue);
+      }
+    }
+  }
+
+  const issues: SiteAuditIssue[] = [];
+  for (const [key, byValue] of values) {
+    if (byValue.size < 2) continue;
+    const [type, field] = key.split('.');
+    const variants = Array.from(byValue, ([value, shown]) => ({ value, pages: Array.from(shown) }))
+      .sort((a, b) => b.pages.length - a.pages.length);
+    const pagesInvolved = new Set(variants.flatMap(variant => variant.pages));
+    issues.push(issue('inconsistent-organization', key,
+      `${type} ${field} differs between pages: ${variants.map(v => `"${v.value}" (${v.pages.length})`).join(', ')}`,
+      Array.from(pagesInvolved), { schemaType: type, field, values: variants }));
+  }
+  return issues;
+}
+
+// ─── Orphans ───
+
+function checkOrphans(pages: Map<string, PageSnapshot>, context: SiteAuditContext): SiteAuditIssue[] {
+  const info: PageInfoMap = new Map();
+  const links: PageLink[] = [];
+  for (const snapshot of pages.values()) {
+    info.set(snapshot.page, { title: snapshot.title || snapshot.page, lastModified: snapshot.lastModified });
+
+    // Resolved like the link checks, so absolute and relative links count too
+    for (const href of snapshot.hrefs) {
+      const link = resolveLink(href, snapshot.page, context.baseUrl);
+      const target = link && pageForPath(link.path, pages);
+      if (!target || target.page === snapshot.page) continue;
+      links.push({ sourcePageSlug: snapshot.page, targetPageSlug: target.page, linkText: '', href });
+    }
+  }
+
+  return findOrphanPages(links, info).orphanPages
+    .filter(orphan => !context.entryPages.includes(orphan.slug))
+    .map(orphan => issue('orphan-page', orphan.slug, `No page links to ${orphan.slug}`, [orphan.slug], { title: orphan.title }));
+}
+
+// ─── Report ───
+
+function issue(
+  type: SiteIssueType,
+  key: string,
+  message: string,
+  pages: string[],
+  details?: Record<string, unknown>
+): SiteAuditIssue {
+  return { key: `${type}:${key}`, type, severity: SEVERITY[type], message, pages: pages.sort(), ...(details && { details }) };
+}
+
+/**
+ * Most severe first, then the ones touching the most pages
+ */
+export function rankIssues(issues: SiteAuditIssue[]): SiteAuditIssue[] {
+  return issues.sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+    || b.pages.length - a.pages.length
+    || a.key.localeCompare(b.key)
+  );
+}
+
+/**
+ * Run every cross-page check over the site's snapshots, ranked
+ */
+export function checkSite(snapshots: PageSnapshot[], context: SiteAuditContext): SiteAuditIssue[] {
+  const pages = new Map(snapshots.map(snapshot => [snapshot.page, snapshot]));
+  return rankIssues([
+    ...checkDuplicates(pages, 'duplicate-title', 'title', s => (s.title ? [s.title] : [])),
+    ...checkDuplicates(pages, 'duplicate-description', 'meta description', s => (s.description ? [s.description] : [])),
+    ...checkDuplicates(pages, 'duplicate-h1', 'H1', s => Array.from(new Set(s.h1s))),
+    ...checkLinks(pages, context),
+    ...checkCanonicals(pages, context),
+    ...checkOrganizations(pages),
+    ...checkOrphans(pages, context),
+  ]);
+}
+
+/**
+ * Site score: the average page score, less a few points per site issue
+ */
+export function calculateSiteScore(pageScores: number[], issues: SiteAuditIssue[]): number {
+  const average = pageScores.length > 0 ? pageScores.reduce((sum, score) => sum + score, 0) / pageScores.length : 100;
+  const penalty = issues.reduce((sum, found) => sum + SEVERITY_PENALTY[found.severity], 0);
+  return Math.max(0, Math.round(average - Math.min(penalty, MAX_PENALTY)));
+}
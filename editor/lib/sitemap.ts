@@ -0,0 +1,110 @@
+/**
+ * sitemap.ts — sitemap.xml and robots.txt generation
+ *
+ * Pure builders shared by the static export and deploy. Callers collect the
+ * URLs (pages + published collection items) and decide which to exclude.
+ */
+
+/** Protocol limit per sitemap file; larger sites get a sitemap index */
+export const MAX_SITEMAP_URLS = 50000;
+
+export interface SitemapEntry {
+  /** Path relative to the site root, e.g. "/about" or "/blog/my-post/" */
+  path: string;
+  lastmod?: string;
+}
+
+/**
+ * Join a base URL and a site path without doubling slashes
+ */
+export function absoluteUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Whether a page opts out of indexing via <meta name="robots" content="noindex">
+ */
+export function isNoindex(html: string): boolean {
+  const meta = html.match(/<meta\s+[^>]*name=["']robots["'][^>]*>/i);
+  return !!meta && /content=["'][^"']*noindex/i.test(meta[0]);
+}
+
+/**
+ * Whether the site-wide robots directive (seo.robotsDirective) blocks indexing
+ */
+export function isSiteNoindex(settings: Record<string, any>): boolean {
+  return String(settings.seo?.robotsDirective || '').includes('noindex');
+}
+
+export function buildSitemapXml(entries: SitemapEntry[], baseUrl: string): string {
+  const urls = entries.map(entry => {
+    const lastmod = entry.lastmod ? `\n    <lastmod>${entry.lastmod.slice(0, 10)}</lastmod>` : '';
+    return `  <url>\n    <loc>${escapeXml(absoluteUrl(baseUrl, entry.path))}</loc>${lastmod}\n  </url>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join('\n')}
+</urlset>
+`;
+}
+
+function buildSitemapIndexXml(sitemaps: SitemapEntry[], baseUrl: string): string {
+  const entries = sitemaps.map(sitemap => {
+    const lastmod = sitemap.lastmod ? `\n    <lastmod>${sitemap.lastmod.slice(0, 10)}</lastmod>` : '';
+    return `  <sitemap>\n    <loc>${escapeXml(absoluteUrl(baseUrl, sitemap.path))}</loc>${lastmod}\n  </sitemap>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${entries.join('\n')}
+</sitemapindex>
+`;
+}
+
+/**
+ * Build sitemap.xml, switching to a sitemap index over sitemap-1.xml,
+ * sitemap-2.xml, ... once there are more than MAX_SITEMAP_URLS entries.
+ * Returns file path → XML.
+ */
+export function buildSitemapFiles(entries: SitemapEntry[], baseUrl: string): Record<string, string> {
+  if (entries.length <= MAX_SITEMAP_URLS) {
+    return { 'sitemap.xml': buildSitemapXml(entries, baseUrl) };
+  }
+
+  const files: Record<string, string> = {};
+  const sitemaps: SitemapEntry[] = [];
+
+  for (let i = 0; i < entries.length; i += MAX_SITEMAP_URLS) {
+    const path = `sitemap-${sitemaps.length + 1}.xml`;
+    const chunk = entries.slice(i, i + MAX_SITEMAP_URLS);
+    files[path] = buildSitemapXml(chunk, baseUrl);
+
+    // A sitemap's lastmod is its newest URL
+    const lastmod = chunk.reduce((latest, entry) => (entry.lastmod && entry.lastmod > latest ? entry.lastmod : latest), '');
+    sitemaps.push({ path: `/${path}`, lastmod: lastmod || undefined });
+  }
+
+  files['sitemap.xml'] = buildSitemapIndexXml(sitemaps, baseUrl);
+  return files;
+}
+
+/**
+ * robots.txt honouring the site-wide indexing setting
+ */
+export function buildRobotsTxt(settings: Record<string, any>, sitemapUrl?: string): string {
+  const lines = ['User-agent: *', isSiteNoindex(settings) ? 'Disallow: /' : 'Allow: /'];
+  if (sitemapUrl && !isSiteNoindex(settings)) {
+    lines.push('', `Sitemap: ${sitemapUrl}`);
+  }
+  return lines.join('\n') + '\n';
+}
@@ -283,12 +283,17 @@
   /**
    * Inject bridge script into HTML string before </body>.
    * Includes dedup guard to prevent multiple bridge injections.
+   * The preview's Content-Security-Policy only runs scripts carrying its
+   * nonce, so the bridge takes the one the canvas was served with.
    */
-  function injectBridgeIntoHTML(html) {
+  function injectBridgeIntoHTML(html, nonce) {
     if (html.includes('__BLOXX_BRIDGE__')) return html;
-    if (html.includes('</body>')) return html.replace('</body>', EDITOR_BRIDGE_SCRIPT + '\n</body>');
-    if (html.includes('</html>')) return html.replace('</html>', EDITOR_BRIDGE_SCRIPT + '\n</html>');
-    return html + EDITOR_BRIDGE_SCRIPT;
+    const bridge = nonce
+      ? EDITOR_BRIDGE_SCRIPT.replace('<script id="bloxx-editor-bridge">', '<script id="bloxx-editor-bridge" nonce="' + nonce + '">')
+      : EDITOR_BRIDGE_SCRIPT;
+    if (html.includes('</body>')) return html.replace('</body>', bridge + '\n</body>');
+    if (html.includes('</html>')) return html.replace('</html>', bridge + '\n</html>');
+    return html + bridge;
   }
 
   /* ─── Utilities ─── */
@@ -323,6 +328,7 @@
     sections: [],          // from bridge: { index, tag, id, ariaLabel, heading, classes, fields[] }
     selected: null,        // { tag, selector, text, html, classes, attributes, rect }
     selectedSectionIdx: -1,
+    role: null,            // site role from /api/sites: owner | editor | content-only | viewer
     etag: null,
     dirty: false,
     html: '',              // Source of truth — canonical HTML string
@@ -399,9 +405,14 @@
   /* ─── API calls ─── */
   async function api(path, opts) {
     const res = await fetch(path, opts);
+    if (res.status === 401) redirectToLogin();
     return res.json();
   }
 
+  function redirectToLogin() {
+    location.href = '/login.html?next=' + encodeURIComponent(location.pathname + location.search);
+  }
+
   async function fetchPages() {
     const d = await api('/api/pages?site=' + encodeURIComponent(state.site));
     return d.pages || [];
@@ -411,6 +422,15 @@
     // Wait for any pending sync from inline edits
     if (state.pendingSync) await state.pendingSync;
 
+    // The collab room rebuilds from this save and re-applies the ops it
+    // sequenced after collabSeq, so the HTML must not hold unacknowledged ones
+    let collabSeq;
+    if (collabOpen() && await collabSettled()) {
+      collabSeq = collab.seq;
+      html = (await requestIframeHTMLDirect()) || html;
+      if (collab.pending.size) collabSeq = undefined;
+    }
+
     // Validate before saving
     const validation = validateHTML(html);
     if (!validation.valid) {
@@ -422,7 +442,7 @@
     const d = await api('/api/save', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ site: state.site, page: state.page, html, etag: state.etag }),
+      body: JSON.stringify({ site: state.site, page: state.page, html, etag: state.etag, collabSeq }),
     });
     if (d.ok) {
       state.etag = d.etag;
@@ -446,14 +466,20 @@
     return d;
   }
 
-  async function deployToLive() {
+  async function deployToLive(override) {
     toast('Deploying…');
     const d = await api('/api/deploy', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ site: state.site }),
+      body: JSON.stringify({ site: state.site, override: !!override }),
     });
     if (d.ok) toast('Deployed ' + d.deployed.length + ' files to live', 'success');
+    else if (d.error === 'quality_gate_failed') {
+      const blocked = d.qualityGate.pages.filter(p => !p.passed);
+      const summary = blocked.map(p => '• ' + p.page + ': ' + p.blockers.map(b => b.message).join('; ')).join('\n');
+      if (confirm('Quality check failed:\n\n' + summary + '\n\nDeploy anyway?')) deployToLive(true);
+      else toast('Deploy blocked by quality check', 'warning');
+    }
     else toast('Deploy failed: ' + (d.error || 'unknown'), 'error');
   }
 
@@ -553,6 +579,7 @@
   const iframe = () => $('#preview-iframe');
 
   function sendMsg(msg) {
+    captureCollabOp(msg);
     const f = iframe();
     if (f && f.contentWindow) f.contentWindow.postMessage(msg, '*');
   }
@@ -590,7 +617,8 @@
       if (onReady) onReady();
       return;
     }
-    const htmlWithBridge = injectBridgeIntoHTML(state.html);
+    const current = f.contentDocument && f.contentDocument.getElementById('bloxx-editor-bridge');
+    const htmlWithBridge = injectBridgeIntoHTML(state.html, current && current.nonce);
     f.onload = () => { if (onReady) onReady(); };
     try {
       const doc = f.contentDocument || f.contentWindow.document;
@@ -617,6 +645,7 @@
         break;
       case 'bloxx:element-selected':
         state.selected = m;
+        lockCollabSelection(m.selector);
         // Granular text editing: only show full properties for text-editable elements
         // Containers just show selection outline + component controls
         if (isTextEditable(m.tag)) {
@@ -628,6 +657,7 @@
           const sectionIdx = findSectionIndexByElement(m);
           if (sectionIdx >= 0) {
             state.selectedSectionIdx = sectionIdx;
+            focusCollabSection(sectionIdx);
             renderSectionFields(state.sections[sectionIdx], sectionIdx);
             showTab('properties');
             // Highlight in component list
@@ -646,6 +676,7 @@
         }
         break;
       case 'bloxx:dirty':
+        flushCollabReplaces();
         if (!state.dirty) pushSnapshot();
         setDirty(true);
         // Sync state.html from iframe (bridge is alive during inline edits)
@@ -688,7 +719,10 @@
     // Fetch raw HTML from API in parallel with iframe visual load
     const htmlPromise = fetch(
       '/api/page-html?site=' + encodeURIComponent(state.site) + '&page=' + encodeURIComponent(pageName)
-    ).then(r => r.ok ? r.json() : null).then(d => d?.html || null).catch(() => null);
+    ).then(r => {
+      if (r.status === 401) redirectToLogin();
+      return r.ok ? r.json() : null;
+    }).then(d => d?.html || null).catch(() => null);
 
     const f = iframe();
     f.src = '/preview/' + state.site + '/' + pageName;
@@ -714,6 +748,7 @@
       }
 
       startAutoSave();
+      connectCollab();
       renderProperties();
       loadImages();
       setTimeout(populatePageMeta, 500);
@@ -1282,6 +1317,7 @@
       await pushSnapshot();
       sendMsg({ type: 'bloxx:delete-element', selector: el.selector });
       state.selected = null;
+      unlockCollabSelection();
       const cpe = $('#code-panel-editor');
       if (cpe) cpe.value = '';
       renderProperties();
@@ -1672,10 +1708,14 @@
     const fd = new FormData();
     fd.append('site', state.site);
     fd.append('file', file);
+    // Uploads land in the folder being browsed
+    const folder = $('#media-folder')?.value;
+    if (folder) fd.append('folder', folder);
     const res = await fetch('/api/images', { method: 'POST', body: fd });
+    if (res.status === 401) redirectToLogin();
     const d = await res.json();
     if (d.ok) {
-      toast('Image uploaded', 'success');
+      toast(d.duplicate ? 'Already in the library' : 'Image uploaded', 'success');
       loadImages();
       return d.url;
     }
@@ -1683,60 +1723,525 @@
     return null;
   }
 
+  /* ─── Media Library ─── */
+  // Uploaded images with their folders, tags, default alt text and captions
+  // (/api/media). With an image selected in the page, clicking a thumbnail
+  // puts it there; otherwise it opens the image's details.
+  let mediaSearchTimer = null;
+  let mediaCurrent = null;
+
   async function loadImages() {
-    const d = await api('/api/images?site=' + encodeURIComponent(state.site));
     const grid = $('#image-grid');
     if (!grid) return;
+    let query = '?site=' + encodeURIComponent(state.site);
+    const q = $('#media-search')?.value.trim();
+    const folder = $('#media-folder')?.value;
+    if (q) query += '&q=' + encodeURIComponent(q);
+    if (folder) query += '&folder=' + encodeURIComponent(folder);
+
+    const d = await api('/api/media' + query);
+    if (!d.ok) {
+      grid.innerHTML = '<div class="empty-state"><p>' + esc(d.error || 'Failed to load images') + '</p></div>';
+      return;
+    }
+
+    const select = $('#media-folder');
+    if (select) {
+      select.innerHTML = '<option value="">All folders</option>';
+      for (const f of d.folders) select.add(new Option(f, f, false, f === folder));
+    }
+
     grid.innerHTML = '';
-    for (const img of (d.images || [])) {
+    for (const asset of d.assets) {
       const wrap = document.createElement('div');
-      wrap.className = 'image-thumb';
-      wrap.innerHTML = '<img src="' + esc(img.url) + '" alt="uploaded" loading="lazy"><span class="copy-badge">Click to copy</span>';
-      wrap.addEventListener('click', async () => {
-        await navigator.clipboard.writeText(img.url);
-        toast('URL copied', 'success');
+      wrap.className = 'image-thumb' + (asset.usedBy.length ? '' : ' unused');
+      wrap.title = asset.title || asset.name;
+      wrap.innerHTML = '<img src="' + esc(asset.url) + '" alt="" loading="lazy"><span class="copy-badge"></span>';
+      wrap.addEventListener('mouseenter', () => {
+        wrap.querySelector('.copy-badge').textContent = state.selected?.tag === 'img' ? 'Click to insert' : 'Click for details';
+      });
+      wrap.addEventListener('click', () => {
+        if (state.selected?.tag === 'img') insertMediaAsset(asset);
+        else openMediaAsset(asset);
       });
       grid.appendChild(wrap);
     }
   }
 
-  /* ─── Collab (best-effort) ─── */
+  /** Put the image in the selected <img>, with its default alt text if that has none */
+  async function insertMediaAsset(asset) {
+    const el = state.selected;
+    await pushSnapshot();
+    sendMsg({ type: 'bloxx:update-attribute', selector: el.selector, attr: 'src', value: asset.url });
+    // A srcset made for the previous image would override the new src; saving rebuilds it
+    if (el.attributes?.srcset) sendMsg({ type: 'bloxx:update-attribute', selector: el.selector, attr: 'srcset', value: '' });
+    if (asset.alt && !el.attributes?.alt) {
+      sendMsg({ type: 'bloxx:update-attribute', selector: el.selector, attr: 'alt', value: asset.alt });
+      if ($('#p-alt')) $('#p-alt').value = asset.alt;
+    }
+    if ($('#p-src')) $('#p-src').value = asset.url;
+    setDirty(true);
+    toast('Image inserted', 'success');
+  }
+
+  function openMediaAsset(asset) {
+    mediaCurrent = asset;
+    $('#media-name').textContent = asset.name + (asset.width ? ' — ' + asset.width + '×' + asset.height : '');
+    $('#media-preview').src = asset.url;
+    $('#media-title').value = asset.title || '';
+    $('#media-folder-input').value = asset.folder || '';
+    $('#media-tags').value = (asset.tags || []).join(', ');
+    $('#media-alt').value = asset.alt || '';
+    $('#media-caption').value = asset.caption || '';
+    renderMediaUsage(asset.usedBy);
+    $('#media-modal').hidden = false;
+  }
+
+  function renderMediaUsage(usedBy) {
+    const box = $('#media-usage');
+    box.innerHTML = '';
+    if (!usedBy.length) {
+      box.textContent = 'Not used on any page or item';
+      return;
+    }
+    for (const ref of usedBy) {
+      const line = document.createElement('div');
+      line.textContent = ref.type === 'page' ? 'Page: ' + ref.page : 'Item: ' + ref.collection + ' / ' + ref.slug;
+      box.appendChild(line);
+    }
+  }
+
+  function mediaUrl(asset) {
+    return '/api/media?site=' + encodeURIComponent(state.site) + '&name=' + encodeURIComponent(asset.name);
+  }
+
+  $('#media-search')?.addEventListener('input', () => {
+    clearTimeout(mediaSearchTimer);
+    mediaSearchTimer = setTimeout(loadImages, 300);
+  });
+  $('#media-folder')?.addEventListener('change', loadImages);
+  $('#media-close')?.addEventListener('click', () => { $('#media-modal').hidden = true; });
+  $('#media-modal')?.addEventListener('click', e => { if (e.target === e.currentTarget) $('#media-modal').hidden = true; });
+
+  $('#btn-media-save')?.addEventListener('click', async () => {
+    const d = await api(mediaUrl(mediaCurrent), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        title: $('#media-title').value,
+        folder: $('#media-folder-input').value,
+        tags: $('#media-tags').value.split(',').map(t => t.trim()).filter(Boolean),
+        alt: $('#media-alt').value,
+        caption: $('#media-caption').value,
+      })
+    });
+    if (!d.ok) return toast('Save failed: ' + (d.error || 'unknown'), 'error');
+    toast('Image details saved', 'success');
+    $('#media-modal').hidden = true;
+    loadImages();
+  });
+
+  $('#btn-media-copy')?.addEventListener('click', async () => {
+    await navigator.clipboard.writeText(mediaCurrent.url);
+    toast('URL copied', 'success');
+  });
+
+  $('#btn-media-delete')?.addEventListener('click', async () => {
+    if (!confirm('Delete this image?')) return;
+    let d = await api(mediaUrl(mediaCurrent), { method: 'DELETE' });
+    if (!d.ok && d.usedBy?.length) {
+      renderMediaUsage(d.usedBy);
+      if (!confirm(d.error + '. Those pages and items will show a broken image. Delete anyway?')) return;
+      d = await api(mediaUrl(mediaCurrent) + '&force=true', { method: 'DELETE' });
+    }
+    if (!d.ok) return toast('Delete failed: ' + (d.error || 'unknown'), 'error');
+    toast('Image deleted', 'success');
+    $('#media-modal').hidden = true;
+    loadImages();
+  });
+
+  /* ─── Collab ─── */
+  // The CollabRoom Durable Object owns the page document (lib/collab-document.ts).
+  // Bridge commands are turned into ops as they are sent (see sendMsg), and
+  // ops from the room are applied straight to the iframe DOM.
+  const collab = {
+    clientId: null, seq: 0, sections: [], opCounter: 0, pendingReplace: new Set(), pending: new Set(),
+    resumeToken: null, locks: [], users: [], heartbeat: null,
+  };
   let ws = null;
-  function connectCollab() {
-    if (ws) { ws.close(); ws = null; }
+  const COLLAB_HEARTBEAT_MS = 15000;
+
+  /** resume: reconnect as the same user and replay missed ops instead of reloading */
+  function connectCollab(resume) {
+    if (ws) { ws.onclose = null; ws.close(); ws = null; }
+    clearInterval(collab.heartbeat);
+    const token = resume ? collab.resumeToken : null;
+    collab.clientId = null;
+    collab.locks = [];
+    collab.pending.clear();
+    if (!resume) collab.resumeToken = null;
     if (!state.page) return;
     try {
       const proto = location.protocol === 'https:' ? 'wss:' : 'ws:';
-      const name = 'User-' + Math.random().toString(36).slice(2, 6);
-      ws = new WebSocket(proto + '//' + location.host + '/api/collab?site=' + state.site + '&page=' + state.page + '&user=' + name);
+      const page = state.page;
+      let url = proto + '//' + location.host + '/api/collab?site=' + encodeURIComponent(state.site)
+        + '&page=' + encodeURIComponent(page);
+      if (token) url += '&resume=' + encodeURIComponent(token) + '&since=' + collab.seq;
+      ws = new WebSocket(url);
+      ws.onopen = () => {
+        collab.heartbeat = setInterval(() => {
+          if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ type: 'ping' }));
+        }, COLLAB_HEARTBEAT_MS);
+      };
       ws.onmessage = e => {
         try {
           const m = JSON.parse(e.data);
           if (m.type === 'users') renderCollabUsers(m.users);
+          if (m.type === 'state' || m.type === 'resync') applyCollabState(m);
+          if (m.type === 'replay') applyCollabReplay(m);
+          if (m.type === 'op') applyCollabOp(m);
+          if (m.type === 'reject') {
+            collab.seq = Math.max(collab.seq, m.seq);
+            collab.pending.delete(m.opId);
+          }
+          if (m.type === 'locks') { collab.locks = m.locks || []; renderCollabUsers(collab.users); }
+          if (m.type === 'lock-denied' && m.holder) toast(m.holder.user + ' is editing this element', 'warning');
+          if (m.type === 'site-presence') renderSitePresence(m.pages || {});
           if (m.type === 'bloxx:remote-save') {
             state.etag = m.etag;
             toast('Another user saved this page', 'warning');
           }
         } catch {}
       };
-      ws.onclose = () => setTimeout(() => { if (state.page) connectCollab(); }, 5000);
+      ws.onclose = () => {
+        clearInterval(collab.heartbeat);
+        setTimeout(() => { if (state.page === page) connectCollab(true); }, 5000);
+      };
     } catch {}
   }
 
+  function collabOpen() {
+    return ws && ws.readyState === WebSocket.OPEN && collab.clientId;
+  }
+
+  function collabDoc() {
+    const f = iframe();
+    return f && f.contentDocument;
+  }
+
+  function collabSectionEls(doc) {
+    const main = doc.querySelector('main') || doc.body;
+    return main ? Array.from(main.querySelectorAll(':scope > section, :scope > header, :scope > footer')) : [];
+  }
+
+  /** Section id + selector relative to the section, as the room addresses elements */
+  function collabTarget(doc, el) {
+    const sections = collabSectionEls(doc);
+    const section = sections.find(s => s === el || s.contains(el));
+    const id = section && collab.sections[sections.indexOf(section)];
+    if (!id) return null;
+    const parts = [];
+    for (let node = el; node && node !== section; node = node.parentElement) {
+      let sel = node.tagName.toLowerCase();
+      const siblings = Array.from(node.parentElement.children).filter(c => c.tagName === node.tagName);
+      if (siblings.length > 1) sel += ':nth-of-type(' + (siblings.indexOf(node) + 1) + ')';
+      parts.unshift(sel);
+    }
+    return parts.length ? { section: id, path: parts.join(' > ') } : { section: id };
+  }
+
+  function textDiff(before, after) {
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) start++;
+    let end = 0;
+    while (end < before.length - start && end < after.length - start
+      && before[before.length - 1 - end] === after[after.length - 1 - end]) end++;
+    return { index: start, delete: before.length - start - end, insert: after.slice(start, after.length - end) };
+  }
+
+  function sendCollabOp(op) {
+    if (!collabOpen()) return;
+    const opId = collab.clientId + ':' + (++collab.opCounter);
+    collab.pending.add(opId);
+    ws.send(JSON.stringify({ type: 'op', opId, baseSeq: collab.seq, op }));
+  }
+
+  /** Wait (up to `timeout` ms) for the room to acknowledge every op we sent */
+  async function collabSettled(timeout = 3000) {
+    const until = Date.now() + timeout;
+    while (collab.pending.size && Date.now() < until) await new Promise(r => setTimeout(r, 50));
+    return collab.pending.size === 0;
+  }
+
+  /** Soft-lock the selected element so others see it is being edited */
+  function lockCollabSelection(selector) {
+    if (!collabOpen()) return;
+    const doc = collabDoc();
+    const el = doc && selector && doc.querySelector(selector);
+    const target = el && collabTarget(doc, el);
+    if (target) {
+      ws.send(JSON.stringify({ type: 'lock', target }));
+    } else {
+      ws.send(JSON.stringify({ type: 'unlock' }));
+    }
+  }
+
+  function unlockCollabSelection() {
+    if (collabOpen()) ws.send(JSON.stringify({ type: 'unlock' }));
+  }
+
+  function focusCollabSection(index) {
+    if (!collabOpen()) return;
+    const doc = collabDoc();
+    const el = doc && collabSectionEls(doc).filter(s => s.tagName === 'SECTION')[index];
+    const id = el ? collab.sections[collabSectionEls(doc).indexOf(el)] : null;
+    ws.send(JSON.stringify({ type: 'focus', section: id || null }));
+  }
+
+  function cleanSectionHTML(el) {
+    const clone = el.cloneNode(true);
+    [clone, ...clone.querySelectorAll('[data-bloxx-selected], [data-bloxx-hovered], [data-bloxx-section-highlight]')].forEach(n => {
+      n.removeAttribute('data-bloxx-selected');
+      n.removeAttribute('data-bloxx-hovered');
+      n.removeAttribute('data-bloxx-section-highlight');
+    });
+    return clone.outerHTML;
+  }
+
+  /** Derive a collab op from a bridge command, before the bridge applies it */
+  function captureCollabOp(msg) {
+    if (!collabOpen()) return;
+    const doc = collabDoc();
+    if (!doc) return;
+    const sections = collabSectionEls(doc);
+    // Some bridge commands index <section> elements only
+    const sectionOnly = () => sections.filter(s => s.tagName === 'SECTION');
+    const move = (from, to) => {
+      const id = collab.sections[from];
+      if (!id || from === to) return;
+      collab.sections.splice(from, 1);
+      collab.sections.splice(to, 0, id);
+      sendCollabOp({ type: 'section-move', id, index: to });
+    };
+    const insert = (index, html) => {
+      const id = 's-' + Math.random().toString(36).slice(2, 10);
+      collab.sections.splice(index, 0, id);
+      sendCollabOp({ type: 'section-insert', id, index, html });
+    };
+    const endIndex = () => {
+      const footer = sections.findIndex(s => s.tagName === 'FOOTER');
+      return footer >= 0 ? footer : sections.length;
+    };
+
+    switch (msg.type) {
+      case 'bloxx:update-text': {
+        const el = doc.querySelector(msg.selector);
+        const target = el && collabTarget(doc, el);
+        if (!target) break;
+        // Text ops would flatten inline markup; send the section once edited
+        if (el.children.length) {
+          collab.pendingReplace.add(target.section);
+          break;
+        }
+        const diff = textDiff(el.textContent || '', msg.value);
+        if (diff.delete || diff.insert) sendCollabOp({ type: 'text', target, ...diff });
+        break;
+      }
+      case 'bloxx:update-attribute':
+      case 'bloxx:update-classes': {
+        const el = doc.querySelector(msg.selector);
+        const target = el && collabTarget(doc, el);
+        if (!target) break;
+        const name = msg.type === 'bloxx:update-classes' ? 'class' : msg.attr;
+        sendCollabOp({ type: 'attr', target, name, value: msg.value });
+        break;
+      }
+      case 'bloxx:update-html':
+      case 'bloxx:delete-element':
+      case 'bloxx:replace-element':
+      case 'bloxx:move-element': {
+        const el = doc.querySelector(msg.selector);
+        const target = el && collabTarget(doc, el);
+        if (!target) break;
+        if (!target.path && msg.type === 'bloxx:delete-element') {
+          collab.sections.splice(collab.sections.indexOf(target.section), 1);
+          sendCollabOp({ type: 'section-delete', id: target.section });
+        } else {
+          // Structural edits inside a section are sent as a section replace once applied
+          collab.pendingReplace.add(target.section);
+        }
+        break;
+      }
+      case 'bloxx:replace-section': {
+        const el = sectionOnly()[msg.index];
+        const id = el && collab.sections[sections.indexOf(el)];
+        if (id) collab.pendingReplace.add(id);
+        break;
+      }
+      case 'bloxx:swap-sections': {
+        const a = sectionOnly()[msg.indexA];
+        const b = sectionOnly()[msg.indexB];
+        if (a && b) move(sections.indexOf(a), sections.indexOf(b));
+        break;
+      }
+      case 'bloxx:move-section':
+        move(msg.fromIndex, msg.toIndex);
+        break;
+      case 'bloxx:insert-section-at':
+        insert(msg.index >= 0 && msg.index < sections.length ? msg.index : endIndex(), msg.html);
+        break;
+      case 'bloxx:append-section':
+        insert(endIndex(), msg.html);
+        break;
+      case 'bloxx:delete-section': {
+        const el = sectionOnly()[msg.index];
+        const index = el ? sections.indexOf(el) : -1;
+        const id = collab.sections[index];
+        if (!id) break;
+        collab.sections.splice(index, 1);
+        sendCollabOp({ type: 'section-delete', id });
+        break;
+      }
+    }
+  }
+
+  /** Send section replaces queued by captureCollabOp once the bridge has applied them */
+  function flushCollabReplaces() {
+    if (!collab.pendingReplace.size) return;
+    const doc = collabDoc();
+    const sections = doc ? collabSectionEls(doc) : [];
+    for (const id of collab.pendingReplace) {
+      const el = sections[collab.sections.indexOf(id)];
+      if (el) sendCollabOp({ type: 'section-replace', id, html: cleanSectionHTML(el) });
+    }
+    collab.pendingReplace.clear();
+  }
+
+  function applyCollabState(m) {
+    if (m.clientId) collab.clientId = m.clientId;
+    if (m.resumeToken) collab.resumeToken = m.resumeToken;
+    collab.seq = m.seq;
+    collab.sections = m.sections || [];
+    collab.pendingReplace.clear();
+    collab.pending.clear();
+    // Someone has edited since the last save, we fell too far behind, or the
+    // room rebuilt the document from a save — show the room's copy
+    if ((m.unsaved || m.reload || m.type === 'resync') && m.html) loadHTMLIntoIframe(m.html);
+  }
+
+  /** Catch up after a resumed reconnect: apply the ops missed while offline */
+  function applyCollabReplay(m) {
+    collab.clientId = m.clientId;
+    collab.resumeToken = m.resumeToken;
+    // Our own ops in the replay were already applied locally before the drop
+    (m.ops || []).forEach(op => applyCollabOp(op));
+    collab.seq = m.seq;
+    collab.sections = m.sections || collab.sections;
+    // Re-take the lock we lost with the old connection
+    if (state.selected) lockCollabSelection(state.selected.selector);
+  }
+
+  function applyCollabOp(m) {
+    collab.seq = Math.max(collab.seq, m.seq);
+    const own = m.clientId === collab.clientId;
+    if (own) collab.pending.delete(m.opId);
+    const doc = collabDoc();
+    if (!doc) return;
+    const r = m.result || {};
+    const op = m.op;
+    const sections = collabSectionEls(doc);
+    const fragment = html => {
+      const temp = doc.createElement('template');
+      temp.innerHTML = html;
+      return temp.content.firstElementChild;
+    };
+
+    switch (op.type) {
+      // Text and attribute results are applied for our own ops too, so
+      // concurrent edits converge on the room's order
+      case 'text': {
+        const el = r.selector && doc.querySelector(r.selector);
+        if (el && el.textContent !== r.text) el.textContent = r.text;
+        break;
+      }
+      case 'attr': {
+        const el = r.selector && doc.querySelector(r.selector);
+        if (!el) break;
+        if (op.value === null) el.removeAttribute(op.name);
+        else el.setAttribute(op.name, op.value);
+        break;
+      }
+      case 'section-insert': {
+        if (own) break;
+        const node = fragment(r.html);
+        const main = doc.querySelector('main') || doc.body;
+        if (!node || !main) break;
+        const ref = sections[r.index];
+        const footer = main.querySelector(':scope > footer');
+        if (ref) main.insertBefore(node, ref);
+        else if (footer) main.insertBefore(node, footer);
+        else main.appendChild(node);
+        collab.sections.splice(r.index, 0, op.id);
+        break;
+      }
+      case 'section-move': {
+        if (own) break;
+        const el = sections[r.from];
+        if (!el || r.from === r.index) break;
+        el.parentNode.insertBefore(el, r.index > r.from ? sections[r.index].nextSibling : sections[r.index]);
+        collab.sections.splice(r.from, 1);
+        collab.sections.splice(r.index, 0, op.id);
+        break;
+      }
+      case 'section-delete': {
+        if (own) break;
+        const index = collab.sections.indexOf(op.id);
+        if (sections[index]) sections[index].remove();
+        if (index >= 0) collab.sections.splice(index, 1);
+        break;
+      }
+      case 'section-replace': {
+        if (own) break;
+        const el = sections[collab.sections.indexOf(op.id)];
+        const node = fragment(r.html);
+        if (el && node) el.replaceWith(node);
+        break;
+      }
+    }
+
+    // Keep the source of truth in step without marking the page dirty
+    if (!own) {
+      requestIframeHTMLDirect().then(html => { if (html) state.html = html; });
+    }
+  }
+
   function renderCollabUsers(users) {
+    collab.users = users || [];
     const c = $('#collab-avatars');
     if (!c) return;
     c.innerHTML = '';
-    (users || []).forEach(u => {
+    collab.users.forEach(u => {
       const d = document.createElement('div');
-      d.className = 'collab-avatar';
+      d.className = 'collab-avatar' + (u.idle ? ' idle' : '');
       d.style.background = u.color || '#6366f1';
       d.textContent = (u.name || '?')[0].toUpperCase();
-      d.title = u.name;
+      const editing = collab.locks.find(l => l.clientId === u.clientId);
+      d.title = u.name + (u.idle ? ' (idle)' : editing ? ' — editing' + (editing.target.path ? ' ' + editing.target.path : ' a section') : '');
       c.appendChild(d);
     });
   }
 
+  /** Show how many people are in each page's room in the page picker */
+  function renderSitePresence(pages) {
+    const sel = $('#page-select');
+    if (!sel) return;
+    for (const o of sel.options) {
+      if (!o.value) continue;
+      const users = (pages[o.value] || []).filter(u => u.clientId !== collab.clientId);
+      o.textContent = o.value + (users.length ? ' (' + users.map(u => u.name).join(', ') + ')' : '');
+    }
+  }
+
   /* ─── Audit Gamification State ─── */
   let _fixCombo = 0;
   let _auditSessionFixes = 0;
@@ -2915,6 +3420,7 @@
   let collections = [];
   let currentCollection = null;
   let currentCollectionItems = [];
+  let currentSeoWarnings = {};
   let editingItem = null;
 
   async function loadCollections() {
@@ -2959,8 +3465,10 @@
     list.innerHTML = '<div class="empty-state"><div class="spinner"></div><p>Loading items...</p></div>';
 
     try {
-      const d = await api('/api/collections?site=' + encodeURIComponent(state.site) + '&collection=' + encodeURIComponent(collection.slug));
+      // Rich text comes back as Markdown for the textarea; the server converts it back on save
+      const d = await api('/api/collections?site=' + encodeURIComponent(state.site) + '&collection=' + encodeURIComponent(collection.slug) + '&richtext=markdown');
       currentCollectionItems = d.items || [];
+      currentSeoWarnings = d.seoWarnings || {};
 
       if (currentCollectionItems.length === 0) {
         list.innerHTML = '<div class="empty-state"><i class="bi bi-inbox"></i><p>No items yet. Click "Add Item" to create one.</p></div>';
@@ -2983,6 +3491,7 @@
           </div>
           <span class="collection-item-status ${item.status || 'draft'}">${item.status || 'draft'}</span>
           <div class="collection-item-actions">
+            ${item.status !== 'published' ? '<button class="btn-sm-icon share-item" title="Copy preview link"><i class="bi bi-link-45deg"></i></button>' : ''}
             <button class="btn-sm-icon edit-item" title="Edit"><i class="bi bi-pencil"></i></button>
             <button class="btn-sm-icon delete-item" title="Delete"><i class="bi bi-trash"></i></button>
           </div>
@@ -3000,6 +3509,11 @@
           }
         });
 
+        row.querySelector('.share-item')?.addEventListener('click', (e) => {
+          e.stopPropagation();
+          shareItemPreview(item);
+        });
+
         list.appendChild(row);
       });
     } catch (err) {
@@ -3030,9 +3544,11 @@
       let input;
       switch (field.type) {
         case 'textarea':
-        case 'richtext':
           input = `<textarea class="field-input" id="item-field-${field.id}" rows="4">${esc(value)}</textarea>`;
           break;
+        case 'richtext':
+          input = `<textarea class="field-input" id="item-field-${field.id}" rows="8" placeholder="Markdown: ## Heading, **bold**, *italic*, [link](https://…), ![alt](image-url)">${esc(value)}</textarea>`;
+          break;
         case 'image':
           input = `<input type="text" class="field-input" id="item-field-${field.id}" value="${esc(value)}" placeholder="Image URL">`;
           break;
@@ -3051,6 +3567,12 @@
         case 'date':
           input = `<input type="date" class="field-input" id="item-field-${field.id}" value="${esc(value)}">`;
           break;
+        case 'reference':
+          input = `<input type="text" class="field-input" id="item-field-${field.id}" value="${esc(value)}" placeholder="Item slug in ${esc(field.referenceCollection || '')}">`;
+          break;
+        case 'multireference':
+          input = `<input type="text" class="field-input" id="item-field-${field.id}" value="${esc(Array.isArray(value) ? value.join(', ') : value)}" placeholder="Item slugs in ${esc(field.referenceCollection || '')}, comma-separated">`;
+          break;
         default:
           input = `<input type="text" class="field-input" id="item-field-${field.id}" value="${esc(value)}">`;
       }
@@ -3075,6 +3597,18 @@
     `;
     fields.appendChild(statusDiv);
 
+    // Required Schema.org properties the item leaves empty
+    const seoWarnings = item ? currentSeoWarnings[item.slug] || [] : [];
+    if (seoWarnings.length) {
+      const seoDiv = document.createElement('div');
+      seoDiv.className = 'field-group item-seo-warnings';
+      seoDiv.innerHTML = `
+        <label class="field-label"><i class="bi bi-exclamation-triangle"></i> Structured data (${esc(currentCollection.schemaType || '')})</label>
+        <ul>${seoWarnings.map(w => `<li>${esc(w)}</li>`).join('')}</ul>
+      `;
+      fields.appendChild(seoDiv);
+    }
+
     $('#item-edit-modal').hidden = false;
   }
 
@@ -3092,6 +3626,8 @@
         data[field.id] = el.checked;
       } else if (field.type === 'number') {
         data[field.id] = parseFloat(el.value) || 0;
+      } else if (field.type === 'multireference') {
+        data[field.id] = el.value.split(',').map(s => s.trim()).filter(Boolean);
       } else {
         data[field.id] = el.value;
       }
@@ -3117,6 +3653,7 @@
 
       if (d.ok) {
         toast(editingItem ? 'Item updated' : 'Item created', 'success');
+        if (d.seoWarnings?.length) toast('Structured data: ' + d.seoWarnings.join('; '), 'warning');
         $('#item-edit-modal').hidden = true;
         openCollection(currentCollection);
       } else {
@@ -3127,6 +3664,26 @@
     }
   }
 
+  // Signed link that shows an unpublished item to anyone who has it (/api/preview-tokens)
+  async function shareItemPreview(item) {
+    try {
+      const d = await api('/api/preview-tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ site: state.site, collection: currentCollection.slug, item: item.slug })
+      });
+
+      if (d.ok) {
+        await navigator.clipboard.writeText(d.url);
+        toast('Preview link copied (expires ' + new Date(d.record.expiresAt).toLocaleDateString() + ')', 'success');
+      } else {
+        toast('Preview link failed: ' + (d.error || 'unknown'), 'error');
+      }
+    } catch (err) {
+      toast('Failed to create preview link', 'error');
+    }
+  }
+
   async function deleteCollectionItem(item) {
     try {
       const d = await api('/api/collections?site=' + encodeURIComponent(state.site) + '&collection=' + encodeURIComponent(currentCollection.slug) + '&item=' + encodeURIComponent(item.slug), {
@@ -3200,6 +3757,145 @@
   $('#item-cancel')?.addEventListener('click', () => { $('#item-edit-modal').hidden = true; });
   $('#item-save')?.addEventListener('click', saveCollectionItem);
 
+  /* ─── Form Inbox ─── */
+  // Every accepted form submission is kept per site (/api/form-submissions).
+  // Deliveries are retried automatically; ones that ran out of attempts
+  // ("dead") can be replayed from here.
+  let inboxSearchTimer = null;
+
+  function inboxQuery() {
+    const q = $('#inbox-search')?.value.trim();
+    const filter = $('#inbox-filter')?.value;
+    let query = '?site=' + encodeURIComponent(state.site);
+    if (q) query += '&q=' + encodeURIComponent(q);
+    if (filter === 'unread') query += '&read=false';
+    if (filter === 'dead') query += '&status=dead';
+    return query;
+  }
+
+  function submissionUrl(sub) {
+    return '/api/form-submissions?site=' + encodeURIComponent(state.site) + '&form=' + encodeURIComponent(sub.formId) + '&id=' + encodeURIComponent(sub.id);
+  }
+
+  async function loadInbox() {
+    const list = $('#inbox-list');
+    list.innerHTML = '<div class="empty-state"><div class="spinner"></div><p>Loading submissions...</p></div>';
+
+    try {
+      const d = await api('/api/form-submissions' + inboxQuery() + '&limit=200');
+      if (!d.ok) {
+        list.innerHTML = '<div class="empty-state"><p>' + esc(d.error || 'Failed to load submissions') + '</p></div>';
+        return;
+      }
+      $('#inbox-count').textContent = d.total + ' submissions, ' + d.unread + ' unread';
+
+      if (d.submissions.length === 0) {
+        list.innerHTML = '<div class="empty-state"><i class="bi bi-inbox"></i><p>No submissions</p></div>';
+        return;
+      }
+
+      list.innerHTML = '';
+      d.submissions.forEach(sub => list.appendChild(renderSubmission(sub)));
+    } catch (err) {
+      console.error('Inbox error:', err);
+      list.innerHTML = '<div class="empty-state"><p>Failed to load submissions</p></div>';
+    }
+  }
+
+  function renderSubmission(sub) {
+    const fields = Object.entries(sub.data || {})
+      .filter(([key]) => !key.startsWith('_'))
+      .map(([key, value]) => key + ': ' + (typeof value === 'object' ? JSON.stringify(value) : value))
+      .join('\n');
+    const status = sub.delivery?.status || 'pending';
+    const statusLabel = status === 'dead' ? 'failed' : status === 'pending' && sub.delivery?.attempts ? 'retrying' : status;
+
+    const row = document.createElement('div');
+    row.className = 'collection-item-row inbox-row' + (sub.read ? '' : ' unread');
+    row.innerHTML = `
+      <div class="collection-item-info">
+        <div class="collection-item-title">${esc(sub.formId)}</div>
+        <div class="collection-item-meta">${new Date(sub.submittedAt).toLocaleString()}${sub.pageUrl ? ' &bull; ' + esc(sub.pageUrl) : ''}</div>
+        <pre class="inbox-fields">${esc(fields)}</pre>
+        <div>${(sub.tags || []).map(tag => '<span class="inbox-tag">' + esc(tag) + '</span>').join('')}</div>
+      </div>
+      <span class="collection-item-status ${status}">${statusLabel}</span>
+      <div class="collection-item-actions">
+        ${status === 'dead' ? '<button class="btn-sm-icon retry-sub" title="Replay delivery"><i class="bi bi-arrow-repeat"></i></button>' : ''}
+        <button class="btn-sm-icon read-sub" title="${sub.read ? 'Mark unread' : 'Mark read'}"><i class="bi bi-${sub.read ? 'envelope' : 'envelope-open'}"></i></button>
+        <button class="btn-sm-icon tag-sub" title="Tags"><i class="bi bi-tag"></i></button>
+        <button class="btn-sm-icon delete-sub" title="Delete"><i class="bi bi-trash"></i></button>
+      </div>
+    `;
+    row.querySelector('.collection-item-status').title = sub.delivery?.error || '';
+
+    row.querySelector('.retry-sub')?.addEventListener('click', async () => {
+      const d = await api('/api/form-submissions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ site: state.site, form: sub.formId, id: sub.id })
+      });
+      if (!d.ok) return toast('Replay failed: ' + (d.error || 'unknown'), 'error');
+      d.submission.delivery.status === 'delivered'
+        ? toast('Submission delivered', 'success')
+        : toast('Delivery failed again, will retry: ' + (d.submission.delivery.error || 'unknown'), 'error');
+      row.replaceWith(renderSubmission(d.submission));
+    });
+
+    row.querySelector('.read-sub').addEventListener('click', () => updateSubmission(sub, row, { read: !sub.read }));
+
+    row.querySelector('.tag-sub').addEventListener('click', () => {
+      const input = prompt('Tags (comma separated)', (sub.tags || []).join(', '));
+      if (input === null) return;
+      updateSubmission(sub, row, { tags: input.split(',').map(t => t.trim()).filter(Boolean) });
+    });
+
+    row.querySelector('.delete-sub').addEventListener('click', async () => {
+      if (!confirm('Delete this submission?')) return;
+      const d = await api(submissionUrl(sub), { method: 'DELETE' });
+      if (d.ok) row.remove();
+      else toast('Delete failed: ' + (d.error || 'unknown'), 'error');
+    });
+
+    return row;
+  }
+
+  async function updateSubmission(sub, row, changes) {
+    const d = await api(submissionUrl(sub), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes)
+    });
+    if (d.ok) row.replaceWith(renderSubmission(d.submission));
+    else toast('Update failed: ' + (d.error || 'unknown'), 'error');
+  }
+
+  $('#btn-inbox')?.addEventListener('click', () => {
+    if (!state.site) return toast('Select a site first', 'error');
+    $('#inbox-modal').hidden = false;
+    loadInbox();
+  });
+  $('#inbox-close')?.addEventListener('click', () => { $('#inbox-modal').hidden = true; });
+  $('#inbox-modal')?.addEventListener('click', e => { if (e.target === e.currentTarget) $('#inbox-modal').hidden = true; });
+  $('#inbox-filter')?.addEventListener('change', loadInbox);
+  $('#inbox-search')?.addEventListener('input', () => {
+    clearTimeout(inboxSearchTimer);
+    inboxSearchTimer = setTimeout(loadInbox, 300);
+  });
+  $('#btn-inbox-replay')?.addEventListener('click', async () => {
+    const d = await api('/api/form-submissions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ site: state.site, all: true })
+    });
+    if (!d.ok) return toast('Replay failed: ' + (d.error || 'unknown'), 'error');
+    toast(d.replayed ? d.replayed + ' deliveries queued again' : 'No failed deliveries', 'success');
+    loadInbox();
+  });
+  $('#btn-inbox-export')?.addEventListener('click', () => {
+    location.href = '/api/form-submissions' + inboxQuery() + '&format=csv';
+  });
+
   // Load panels when tab is clicked
   const originalShowTab = showTab;
   function showTab(name) {
@@ -3402,13 +4098,12 @@
         if (s === state.site) o.selected = true;
         sel.appendChild(o);
       }
-      // If current site not in list, add it
-      if (state.site && !(d.sites || []).includes(state.site)) {
-        const o = document.createElement('option');
-        o.value = state.site;
-        o.textContent = state.site;
-        o.selected = true;
-        sel.prepend(o);
+      // Only sites the user has a role on are listed
+      state.role = (d.roles || {})[state.site] || null;
+      if (state.site && !state.role) {
+        toast('You do not have access to ' + state.site, 'error');
+      } else if (state.role === 'viewer') {
+        toast('View-only access: changes will not be saved', 'warning');
       }
     } catch {}
   })();